@@ -0,0 +1,107 @@
+// Checks that src/lib/database.types.ts matches the schema built by
+// supabase/migrations. Applies any pending migrations to the local database,
+// regenerates the types and fails if they differ from the committed file.
+//
+// Local data is kept. If the local schema was changed by hand, pass --reset
+// to rebuild the database from the migrations instead; that deletes all
+// local data, so it asks first unless --yes is passed too.
+//
+// Needs a running local stack (`supabase start`). Run with:
+//   npm run db:check-drift [-- --reset [--yes]]
+import { execSync } from 'child_process';
+import { readFileSync } from 'fs';
+import { createInterface } from 'readline/promises';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const typesPath = join(__dirname, '..', 'src', 'lib', 'database.types.ts');
+
+const args = process.argv.slice(2);
+const reset = args.includes('--reset');
+const assumeYes = args.includes('--yes');
+
+const run = (command) => {
+  return execSync(command, {
+    cwd: join(__dirname, '..'),
+    encoding: 'utf8',
+    stdio: ['ignore', 'pipe', 'inherit'],
+    maxBuffer: 10 * 1024 * 1024
+  });
+};
+
+// Line endings and trailing whitespace aren't drift
+const normalize = (source) => {
+  return source
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .trim();
+};
+
+const confirmReset = async () => {
+  if (assumeYes) return true;
+
+  if (!process.stdin.isTTY) {
+    console.error('--reset deletes all local data. Pass --yes as well to run it without a prompt.');
+    return false;
+  }
+
+  const prompt = createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await prompt.question('This deletes all data in the local database. Continue? (y/N) ');
+  prompt.close();
+
+  return answer.trim().toLowerCase() === 'y';
+};
+
+async function checkSchemaDrift() {
+  try {
+    run('supabase status');
+  } catch (error) {
+    console.error('The local Supabase stack is not running. Start it with `supabase start`.');
+    process.exit(1);
+  }
+
+  if (reset) {
+    if (!(await confirmReset())) {
+      console.error('Cancelled. The local database was not changed.');
+      process.exit(1);
+    }
+
+    console.log('Rebuilding the local database from supabase/migrations...');
+    run('supabase db reset --local');
+  } else {
+    console.log('Applying pending migrations to the local database...');
+    run('supabase migration up --local');
+  }
+
+  console.log('Generating types from the migrated schema...');
+  const generated = normalize(run('supabase gen types typescript --local --schema public'));
+  const committed = normalize(readFileSync(typesPath, 'utf8'));
+
+  if (generated === committed) {
+    console.log('No schema drift: database.types.ts matches the migrations.');
+    return;
+  }
+
+  const generatedLines = generated.split('\n');
+  const committedLines = committed.split('\n');
+  const firstDifference = generatedLines.findIndex((line, i) => line !== committedLines[i]);
+  const line = firstDifference === -1 ? generatedLines.length : firstDifference;
+
+  console.error('Schema drift: src/lib/database.types.ts does not match supabase/migrations.');
+  console.error(`First difference at line ${line + 1}:`);
+  console.error(`  migrations: ${generatedLines[line] ?? '(end of file)'}`);
+  console.error(`  committed:  ${committedLines[line] ?? '(end of file)'}`);
+  console.error('\nIf the migrations are right, regenerate the types with `npm run db:types`.');
+  console.error('Otherwise add a migration that brings the schema in line with the code.');
+  if (!reset) {
+    console.error('If the local schema was changed by hand, rerun with --reset to rebuild it from the migrations.');
+  }
+  process.exit(1);
+}
+
+await checkSchemaDrift();
\ No newline at end of file
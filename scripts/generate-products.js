@@ -98,6 +98,31 @@ const generatePrice = (category) => {
   return Math.floor(Math.random() * (range.max - range.min + 1)) + range.min;
 };
 
+// Options some product types, or every product of a category, are sold in.
+// Each value becomes a variant with its own SKU and stock; a priceStep gives
+// every value after the first a higher price.
+const variantOptions = {
+  'Clothing': { option: 'size', values: ['S', 'M', 'L', 'XL'], priceStep: 0 },
+  'Shoes': { option: 'size', values: ['38', '40', '42', '44'], priceStep: 0 },
+  'Smartphone': { option: 'storage', values: ['128 GB', '256 GB', '512 GB'], priceStep: 100 },
+  'Laptop': { option: 'storage', values: ['512 GB', '1 TB'], priceStep: 200 },
+  'Tablet': { option: 'storage', values: ['64 GB', '256 GB'], priceStep: 100 },
+  'Yoga Mat': { option: 'color', values: ['Black', 'Blue', 'Purple'], priceStep: 0 }
+};
+
+const generateVariants = (product, categoryName, productType) => {
+  const spec = variantOptions[productType] || variantOptions[categoryName];
+  if (!spec) return [];
+
+  return spec.values.map((value, index) => ({
+    product_id: product.id,
+    sku: `P${product.id}-${value.replace(/\s+/g, '').toUpperCase()}`,
+    options: { [spec.option]: value },
+    price: spec.priceStep ? (product.discount_price ?? product.price) + index * spec.priceStep : null,
+    stock_quantity: Math.floor(Math.random() * 21)
+  }));
+};
+
 const generateProducts = async () => {
   try {
     // First, ensure categories exist
@@ -115,8 +140,11 @@ const generateProducts = async () => {
     console.log('Categories created successfully');
 
     const products = [];
+    // Category and type of each product in the batch, to pick its variants
+    const batchTypes = [];
     const totalProducts = 1000;
     let insertedCount = 0;
+    let variantCount = 0;
 
     for (let i = 0; i < totalProducts; i++) {
       const category = categories[Math.floor(Math.random() * categories.length)];
@@ -133,27 +161,49 @@ const generateProducts = async () => {
         price,
         discount_price: discountPrice,
         image_url: category.image_url, // Use the category image for products
-        category_id: category.id
+        category_id: category.id,
+        stock_quantity: Math.floor(Math.random() * 51)
       });
+      batchTypes.push({ categoryName: category.name, productType });
 
       // Insert in batches of 50 to avoid overwhelming the database
       if (products.length === 50 || i === totalProducts - 1) {
-        const { error } = await supabase
+        const { data: inserted, error } = await supabase
           .from('products')
-          .insert(products);
+          .insert(products)
+          .select('id, price, discount_price');
 
         if (error) {
           console.error('Error inserting products:', error);
           return;
         }
 
+        // Rows come back in insert order. The variants' stock replaces the
+        // product's, see sync_product_stock_from_variants.
+        const variants = inserted.flatMap((product, index) =>
+          generateVariants(product, batchTypes[index].categoryName, batchTypes[index].productType)
+        );
+
+        if (variants.length > 0) {
+          const { error: variantError } = await supabase
+            .from('product_variants')
+            .insert(variants);
+
+          if (variantError) {
+            console.error('Error inserting product variants:', variantError);
+            return;
+          }
+        }
+
         insertedCount += products.length;
+        variantCount += variants.length;
         console.log(`Inserted ${products.length} products (Total: ${insertedCount}/${totalProducts})`);
-        products.length = 0; // Clear the array for the next batch
+        products.length = 0; // Clear the arrays for the next batch
+        batchTypes.length = 0;
       }
     }
 
-    console.log('Finished generating products');
+    console.log(`Finished generating products and ${variantCount} variants`);
   } catch (error) {
     console.error('Error in generate products:', error);
   }
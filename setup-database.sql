@@ -1,179 +0,0 @@
--- Drop existing tables if they exist (be careful with this in production!)
-DROP TABLE IF EXISTS cart_items CASCADE;
-DROP TABLE IF EXISTS order_items CASCADE;
-DROP TABLE IF EXISTS reviews CASCADE;
-DROP TABLE IF EXISTS orders CASCADE;
-DROP TABLE IF EXISTS products CASCADE;
-DROP TABLE IF EXISTS categories CASCADE;
-DROP TABLE IF EXISTS profiles CASCADE;
-
--- Create profiles table
-CREATE TABLE profiles (
-  id UUID REFERENCES auth.users(id) PRIMARY KEY,
-  email TEXT,
-  role TEXT DEFAULT 'customer',
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
-);
-
--- Create categories table
-CREATE TABLE categories (
-  id SERIAL PRIMARY KEY,
-  name TEXT NOT NULL UNIQUE,
-  image_url TEXT,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
-);
-
--- Create products table
-CREATE TABLE products (
-  id SERIAL PRIMARY KEY,
-  name TEXT NOT NULL,
-  description TEXT,
-  price DECIMAL(10, 2) NOT NULL,
-  discount_price DECIMAL(10, 2),
-  image_url TEXT,
-  category_id INTEGER REFERENCES categories(id),
-  stock_quantity INTEGER DEFAULT 0,
-  brand TEXT,
-  specifications JSONB,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
-);
-
--- Create cart items table
-CREATE TABLE cart_items (
-  id SERIAL PRIMARY KEY,
-  user_id UUID REFERENCES auth.users(id),
-  product_id INTEGER REFERENCES products(id),
-  quantity INTEGER NOT NULL,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
-);
-
--- Create orders table
-CREATE TABLE orders (
-  id SERIAL PRIMARY KEY,
-  user_id UUID REFERENCES auth.users(id),
-  status TEXT DEFAULT 'pending',
-  total_amount DECIMAL(10, 2) NOT NULL,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
-);
-
--- Create order items table
-CREATE TABLE order_items (
-  id SERIAL PRIMARY KEY,
-  order_id INTEGER REFERENCES orders(id),
-  product_id INTEGER REFERENCES products(id),
-  quantity INTEGER NOT NULL,
-  price_at_time DECIMAL(10, 2) NOT NULL,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
-);
-
--- Create reviews table
-CREATE TABLE reviews (
-  id SERIAL PRIMARY KEY,
-  user_id UUID REFERENCES auth.users(id),
-  product_id INTEGER REFERENCES products(id),
-  rating INTEGER CHECK (rating >= 1 AND rating <= 5),
-  comment TEXT,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
-);
-
--- Disable RLS temporarily for data population
-ALTER TABLE profiles DISABLE ROW LEVEL SECURITY;
-ALTER TABLE categories DISABLE ROW LEVEL SECURITY;
-ALTER TABLE products DISABLE ROW LEVEL SECURITY;
-ALTER TABLE cart_items DISABLE ROW LEVEL SECURITY;
-ALTER TABLE orders DISABLE ROW LEVEL SECURITY;
-ALTER TABLE order_items DISABLE ROW LEVEL SECURITY;
-ALTER TABLE reviews DISABLE ROW LEVEL SECURITY;
-
--- Create policies (they will take effect when we re-enable RLS)
--- Profiles policies
-CREATE POLICY "Profiles are viewable by everyone" 
-  ON profiles FOR SELECT USING (true);
-
-CREATE POLICY "Users can update own profile" 
-  ON profiles FOR UPDATE USING (auth.uid() = id);
-
--- Categories policies
-CREATE POLICY "Categories are viewable by everyone" 
-  ON categories FOR SELECT USING (true);
-
-CREATE POLICY "Anyone can insert categories" 
-  ON categories FOR INSERT WITH CHECK (true);
-
--- Products policies
-CREATE POLICY "Products are viewable by everyone" 
-  ON products FOR SELECT USING (true);
-
-CREATE POLICY "Anyone can insert products" 
-  ON products FOR INSERT WITH CHECK (true);
-
-CREATE POLICY "Anyone can update products" 
-  ON products FOR UPDATE USING (true);
-
--- Cart policies
-CREATE POLICY "Users can view own cart" 
-  ON cart_items FOR SELECT USING (auth.uid() = user_id);
-
-CREATE POLICY "Users can insert into own cart" 
-  ON cart_items FOR INSERT WITH CHECK (auth.uid() = user_id);
-
-CREATE POLICY "Users can update own cart" 
-  ON cart_items FOR UPDATE USING (auth.uid() = user_id);
-
-CREATE POLICY "Users can delete from own cart" 
-  ON cart_items FOR DELETE USING (auth.uid() = user_id);
-
--- Orders policies
-CREATE POLICY "Users can view own orders" 
-  ON orders FOR SELECT USING (auth.uid() = user_id);
-
-CREATE POLICY "Users can create own orders" 
-  ON orders FOR INSERT WITH CHECK (auth.uid() = user_id);
-
--- Order items policies
-CREATE POLICY "Users can view own order items" 
-  ON order_items FOR SELECT USING (
-    EXISTS (
-      SELECT 1 FROM orders 
-      WHERE orders.id = order_items.order_id 
-      AND orders.user_id = auth.uid()
-    )
-  );
-
--- Reviews policies
-CREATE POLICY "Reviews are viewable by everyone" 
-  ON reviews FOR SELECT USING (true);
-
-CREATE POLICY "Users can create own reviews" 
-  ON reviews FOR INSERT WITH CHECK (auth.uid() = user_id);
-
-CREATE POLICY "Users can update own reviews" 
-  ON reviews FOR UPDATE USING (auth.uid() = user_id);
-
-CREATE POLICY "Users can delete own reviews" 
-  ON reviews FOR DELETE USING (auth.uid() = user_id);
-
--- Create function to handle new user creation
-CREATE OR REPLACE FUNCTION public.handle_new_user() 
-RETURNS TRIGGER AS $$
-BEGIN
-  INSERT INTO public.profiles (id, email)
-  VALUES (new.id, new.email);
-  RETURN new;
-END;
-$$ LANGUAGE plpgsql SECURITY DEFINER;
-
--- Create trigger for new user creation
-DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
-CREATE TRIGGER on_auth_user_created
-  AFTER INSERT ON auth.users
-  FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
-
--- Enable RLS on all tables
-ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
-ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
-ALTER TABLE products ENABLE ROW LEVEL SECURITY;
-ALTER TABLE cart_items ENABLE ROW LEVEL SECURITY;
-ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
-ALTER TABLE order_items ENABLE ROW LEVEL SECURITY;
-ALTER TABLE reviews ENABLE ROW LEVEL SECURITY; 
\ No newline at end of file
@@ -1,68 +1,168 @@
-import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Outlet } from 'react-router-dom';
 import { AuthProvider } from './context/AuthContext';
 import { CartProvider } from './context/CartContext';
+import { FavoritesProvider } from './context/FavoritesContext';
 import Layout from './components/Layout';
 import Home from './pages/Home';
 import Login from './pages/Login';
 import Register from './pages/Register';
-import Products from './pages/Products';
+import Products from './components/Products';
 import ProductDetails from './pages/ProductDetails';
 import Cart from './pages/Cart';
 import Checkout from './pages/Checkout';
 import Orders from './pages/Orders';
 import Profile from './pages/Profile';
+import Registry from './pages/Registry';
 import ProtectedRoute from './components/ProtectedRoute';
+import RoleRoute from './components/RoleRoute';
+import DashboardLayout from './components/DashboardLayout';
+import Dashboard from './components/Dashboard';
+import DashboardOrders from './components/Orders';
+import OrderDetail from './components/OrderDetail';
+import Favorites from './components/Favorites';
+import Wishlists from './components/Wishlists';
+import WishlistEditor from './components/WishlistEditor';
+import Notifications from './components/Notifications';
+import Settings from './components/Settings';
+import SellerDashboard from './components/SellerDashboard';
+import SellerProducts from './components/SellerProducts';
+import ProductEditor from './components/ProductEditor';
+import AdminDashboard from './components/AdminDashboard';
+import Returns from './components/Returns';
+import ReviewModeration from './components/ReviewModeration';
+import PasswordReset from './components/PasswordReset';
+import UpdatePassword from './components/UpdatePassword';
+import NotFound from './components/NotFound';
 
 function App() {
   return (
     <Router>
       <AuthProvider>
         <CartProvider>
-          <Layout>
+          <FavoritesProvider>
             <Routes>
-              <Route path="/" element={<Home />} />
-              <Route path="/login" element={<Login />} />
-              <Route path="/register" element={<Register />} />
-              <Route path="/products" element={<Products />} />
-              <Route path="/products/:id" element={<ProductDetails />} />
               <Route
-                path="/cart"
                 element={
-                  <ProtectedRoute>
-                    <Cart />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/checkout"
-                element={
-                  <ProtectedRoute>
-                    <Checkout />
-                  </ProtectedRoute>
+                  <Layout>
+                    <Outlet />
+                  </Layout>
                 }
-              />
-              <Route
-                path="/orders"
-                element={
-                  <ProtectedRoute>
-                    <Orders />
-                  </ProtectedRoute>
-                }
-              />
+              >
+                <Route path="/" element={<Home />} />
+                <Route path="/login" element={<Login />} />
+                <Route path="/register" element={<Register />} />
+                <Route path="/forgot-password" element={<PasswordReset />} />
+                <Route path="/update-password" element={<UpdatePassword />} />
+                <Route path="/products" element={<Products />} />
+                <Route path="/products/:id" element={<ProductDetails />} />
+                <Route path="/cart" element={<Cart />} />
+                <Route path="/lists/:slug" element={<Registry />} />
+                <Route
+                  path="/checkout"
+                  element={
+                    <ProtectedRoute>
+                      <Checkout />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/orders"
+                  element={
+                    <ProtectedRoute>
+                      <Orders />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/profile"
+                  element={
+                    <ProtectedRoute>
+                      <Profile />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route path="*" element={<NotFound />} />
+              </Route>
+
               <Route
-                path="/profile"
+                path="/dashboard"
                 element={
                   <ProtectedRoute>
-                    <Profile />
+                    <DashboardLayout />
                   </ProtectedRoute>
                 }
-              />
+              >
+                <Route index element={<Dashboard />} />
+                <Route path="orders" element={<DashboardOrders />} />
+                <Route path="orders/:id" element={<OrderDetail />} />
+                <Route path="favorites" element={<Favorites />} />
+                <Route path="wishlists" element={<Wishlists />} />
+                <Route path="wishlists/:id" element={<WishlistEditor />} />
+                <Route path="notifications" element={<Notifications />} />
+                <Route path="settings" element={<Settings />} />
+                <Route
+                  path="seller"
+                  element={
+                    <RoleRoute roles={['seller', 'admin']}>
+                      <SellerDashboard />
+                    </RoleRoute>
+                  }
+                />
+                <Route
+                  path="seller/products"
+                  element={
+                    <RoleRoute roles={['seller', 'admin']}>
+                      <SellerProducts />
+                    </RoleRoute>
+                  }
+                />
+                <Route
+                  path="seller/products/new"
+                  element={
+                    <RoleRoute roles={['seller', 'admin']}>
+                      <ProductEditor />
+                    </RoleRoute>
+                  }
+                />
+                <Route
+                  path="seller/products/:id/edit"
+                  element={
+                    <RoleRoute roles={['seller', 'admin']}>
+                      <ProductEditor />
+                    </RoleRoute>
+                  }
+                />
+                <Route
+                  path="returns"
+                  element={
+                    <RoleRoute roles={['seller', 'admin']}>
+                      <Returns />
+                    </RoleRoute>
+                  }
+                />
+                <Route
+                  path="admin"
+                  element={
+                    <RoleRoute roles={['admin']}>
+                      <AdminDashboard />
+                    </RoleRoute>
+                  }
+                />
+                <Route
+                  path="admin/reviews"
+                  element={
+                    <RoleRoute roles={['admin']}>
+                      <ReviewModeration />
+                    </RoleRoute>
+                  }
+                />
+              </Route>
             </Routes>
-          </Layout>
+          </FavoritesProvider>
         </CartProvider>
       </AuthProvider>
     </Router>
   );
 }
 
-export default App;
+export default App;
\ No newline at end of file
@@ -1,7 +1,10 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { supabase } from '../lib/supabaseClient';
+import { fetchOrderTotals } from '../lib/api/orders';
+import { countProducts, fetchCategoryCounts } from '../lib/api/products';
 import { FiUsers, FiShoppingBag, FiDollarSign, FiTrendingUp, FiBarChart2, FiPieChart } from 'react-icons/fi';
+import CategoryTreeEditor from './CategoryTreeEditor';
 
 interface AdminStats {
   totalUsers: number;
@@ -22,13 +25,6 @@ interface CategoryData {
   count: number;
 }
 
-interface CategoryStats {
-  category: {
-    name: string | null;
-  } | null;
-  count: string;
-}
-
 const AdminDashboard = () => {
   const { user } = useAuth();
   const [stats, setStats] = useState<AdminStats>({
@@ -55,17 +51,7 @@ const AdminDashboard = () => {
       setLoading(true);
       setError(null);
 
-      // Check if user is admin
-      const { data: profileData, error: profileError } = await supabase
-        .from('profiles')
-        .select('role')
-        .eq('id', user?.id)
-        .single();
-
-      if (profileError) throw profileError;
-      if (profileData.role !== 'admin') {
-        throw new Error('Unauthorized access');
-      }
+      // Access is gated by RoleRoute, so only admins reach this point
 
       // Fetch total users
       const { count: usersCount, error: usersError } = await supabase
@@ -86,51 +72,38 @@ const AdminDashboard = () => {
       if (newUsersError) throw newUsersError;
 
       // Fetch orders and revenue
-      const { data: ordersData, error: ordersError } = await supabase
-        .from('orders')
-        .select('total_amount, created_at');
-
-      if (ordersError) throw ordersError;
+      const ordersData = await fetchOrderTotals();
 
-      const totalRevenue = ordersData?.reduce((sum, order) => sum + order.total_amount, 0) || 0;
+      const totalRevenue = ordersData.reduce((sum, order) => sum + order.total_amount, 0);
 
       // Fetch products count
-      const { count: productsCount, error: productsError } = await supabase
-        .from('products')
-        .select('*', { count: 'exact' });
-
-      if (productsError) throw productsError;
+      const productsCount = await countProducts();
 
       // Fetch revenue by date (last 30 days)
       const revenueByDate = ordersData
-        ?.filter(order => new Date(order.created_at) >= thirtyDaysAgo)
+        .filter(order => new Date(order.created_at) >= thirtyDaysAgo)
         .reduce((acc: { [key: string]: number }, order) => {
           const date = new Date(order.created_at).toISOString().split('T')[0];
           acc[date] = (acc[date] || 0) + order.total_amount;
           return acc;
         }, {});
 
-      const revenueDataArray = Object.entries(revenueByDate || {}).map(([date, amount]) => ({
+      const revenueDataArray = Object.entries(revenueByDate).map(([date, amount]) => ({
         date,
         amount
       })).sort((a, b) => a.date.localeCompare(b.date));
 
       // Fetch product categories distribution
-      const { data: categoriesData, error: categoriesError } = await supabase
-        .rpc('get_category_counts');
-
-      if (categoriesError) throw categoriesError;
-
-      const categoryStats = (categoriesData as CategoryStats[] || []).map(item => ({
-        category: item.category?.name || 'Uncategorized',
-        count: parseInt(item.count)
-      })) || [];
+      const categoryStats = (await fetchCategoryCounts()).map(item => ({
+        category: item.categoryName || 'Uncategorized',
+        count: item.productCount
+      }));
 
       setStats({
         totalUsers: usersCount || 0,
-        totalOrders: ordersData?.length || 0,
+        totalOrders: ordersData.length,
         totalRevenue,
-        totalProducts: productsCount || 0,
+        totalProducts: productsCount,
         newUsers: newUsersCount || 0,
         activeUsers: Math.floor((usersCount || 0) * 0.4) // Example: assuming 40% are active
       });
@@ -242,6 +215,8 @@ const AdminDashboard = () => {
         </div>
       </div>
 
+      <CategoryTreeEditor />
+
       {/* Recent Activity or Additional Stats can be added here */}
     </div>
   );
@@ -1,112 +1,41 @@
-import { useState, useEffect } from 'react';
-import { useAuth } from '../context/AuthContext';
-import { supabase } from '../lib/supabaseClient';
+import { useState } from 'react';
+import { useCart } from '../context/CartContext';
 import { useNavigate } from 'react-router-dom';
 import { FiTrash2, FiPlus, FiMinus, FiShoppingBag, FiArrowLeft, FiCreditCard } from 'react-icons/fi';
+import type { CartItem } from '../lib/types';
+import { cartItemStock, unitPrice, variantLabel } from '../lib/variants';
 
 // Add placeholder image as base64 or data URL
 const PLACEHOLDER_IMAGE = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgdmlld0JveD0iMCAwIDIwMCAyMDAiIGZpbGw9Im5vbmUiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PHJlY3Qgd2lkdGg9IjIwMCIgaGVpZ2h0PSIyMDAiIGZpbGw9IiNFNUU3RUIiLz48cGF0aCBkPSJNODAgOTBIMTIwVjExMEg4MFY5MFoiIGZpbGw9IiM5Q0EzQUYiLz48L3N2Zz4=';
 
-interface CartItem {
-  id: number;
-  user_id: string;
-  product_id: number;
-  quantity: number;
-  created_at: string;
-  product: {
-    id: number;
-    name: string;
-    price: number;
-    discount_price?: number;
-    image_url: string;
-    stock_quantity: number;
-  };
-}
-
 const Cart = () => {
-  const { user } = useAuth();
-  const [cartItems, setCartItems] = useState<CartItem[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { items: cartItems, loading, updateQuantity: setQuantity, removeFromCart } = useCart();
   const [error, setError] = useState<string | null>(null);
   const [processing, setProcessing] = useState(false);
   const navigate = useNavigate();
 
-  useEffect(() => {
-    if (user) {
-      fetchCartItems();
-    }
-  }, [user]);
-
-  const fetchCartItems = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      const { data, error } = await supabase
-        .from('cart_items')
-        .select(`
-          *,
-          product:products(id, name, price, discount_price, image_url, stock_quantity)
-        `)
-        .eq('user_id', user?.id);
-
-      if (error) {
-        throw error;
-      }
-
-      setCartItems(data || []);
-    } catch (error) {
-      console.error('Error fetching cart:', error);
-      setError('Failed to load your shopping cart.');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const updateQuantity = async (itemId: number, newQuantity: number) => {
+  const updateQuantity = async (item: CartItem, newQuantity: number) => {
     if (newQuantity < 1) return;
     
     try {
       setProcessing(true);
+      setError(null);
       
-      const { error } = await supabase
-        .from('cart_items')
-        .update({ quantity: newQuantity })
-        .eq('id', itemId);
-      
-      if (error) {
-        throw error;
-      }
-      
-      // Update local state
-      setCartItems(prev => 
-        prev.map(item => 
-          item.id === itemId ? { ...item, quantity: newQuantity } : item
-        )
-      );
+      await setQuantity(item.product_id, newQuantity, item.variant_id);
     } catch (error) {
       console.error('Error updating cart:', error);
-      setError('Failed to update cart. Please try again.');
+      setError(error instanceof Error ? error.message : 'Failed to update cart. Please try again.');
     } finally {
       setProcessing(false);
     }
   };
 
-  const removeItem = async (itemId: number) => {
+  const removeItem = async (item: CartItem) => {
     try {
       setProcessing(true);
+      setError(null);
       
-      const { error } = await supabase
-        .from('cart_items')
-        .delete()
-        .eq('id', itemId);
-      
-      if (error) {
-        throw error;
-      }
-      
-      // Update local state
-      setCartItems(prev => prev.filter(item => item.id !== itemId));
+      await removeFromCart(item.product_id, item.variant_id);
     } catch (error) {
       console.error('Error removing item:', error);
       setError('Failed to remove item. Please try again.');
@@ -116,7 +45,7 @@ const Cart = () => {
   };
 
   const getItemPrice = (item: CartItem) => {
-    return item.product.discount_price || item.product.price;
+    return unitPrice(item.product, item.variant);
   };
 
   const calculateSubtotal = () => {
@@ -135,8 +64,7 @@ const Cart = () => {
   };
 
   const handleCheckout = () => {
-    // In a real application, you would redirect to a checkout page
-    alert('Proceeding to checkout...');
+    navigate('/checkout');
   };
 
   if (loading) {
@@ -213,13 +141,16 @@ const Cart = () => {
                           </div>
                           <div className="ml-4">
                             <div className="text-sm font-medium text-gray-900">{item.product.name}</div>
+                            {item.variant && (
+                              <div className="text-sm text-gray-500">{variantLabel(item.variant.options)}</div>
+                            )}
                           </div>
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-sm text-gray-900">
                           ${getItemPrice(item).toFixed(2)}
-                          {item.product.discount_price && (
+                          {item.product.discount_price && !item.variant?.price && (
                             <span className="ml-2 text-xs line-through text-gray-500">
                               ${item.product.price.toFixed(2)}
                             </span>
@@ -229,7 +160,7 @@ const Cart = () => {
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="flex items-center border rounded-md w-32">
                           <button
-                            onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                            onClick={() => updateQuantity(item, item.quantity - 1)}
                             disabled={item.quantity <= 1 || processing}
                             className="px-2 py-1 text-gray-600 hover:text-indigo-600 disabled:text-gray-300"
                           >
@@ -237,8 +168,8 @@ const Cart = () => {
                           </button>
                           <span className="flex-1 text-center text-sm">{item.quantity}</span>
                           <button
-                            onClick={() => updateQuantity(item.id, item.quantity + 1)}
-                            disabled={item.quantity >= item.product.stock_quantity || processing}
+                            onClick={() => updateQuantity(item, item.quantity + 1)}
+                            disabled={item.quantity >= cartItemStock(item) || processing}
                             className="px-2 py-1 text-gray-600 hover:text-indigo-600 disabled:text-gray-300"
                           >
                             <FiPlus />
@@ -252,7 +183,7 @@ const Cart = () => {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                         <button
-                          onClick={() => removeItem(item.id)}
+                          onClick={() => removeItem(item)}
                           disabled={processing}
                           className="text-red-500 hover:text-red-700"
                         >
@@ -3,6 +3,7 @@ import { Dialog, Transition } from '@headlessui/react';
 import { XMarkIcon } from '@heroicons/react/24/outline';
 import { Link } from 'react-router-dom';
 import { useCart } from '../context/CartContext';
+import { unitPrice, variantLabel } from '../lib/variants';
 
 const PLACEHOLDER_IMAGE = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgdmlld0JveD0iMCAwIDIwMCAyMDAiIGZpbGw9Im5vbmUiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PHJlY3Qgd2lkdGg9IjIwMCIgaGVpZ2h0PSIyMDAiIGZpbGw9IiNFNUU3RUIiLz48cGF0aCBkPSJNODAgOTBIMTIwVjExMEg4MFY5MFoiIGZpbGw9IiM5Q0EzQUYiLz48L3N2Zz4=';
 
@@ -81,15 +82,18 @@ export default function CartDrawer({ open, setOpen }: CartDrawerProps) {
                                       <h3>
                                         <Link to={`/products/${item.product_id}`}>{item.product.name}</Link>
                                       </h3>
-                                      <p className="ml-4">${item.product.discount_price || item.product.price}</p>
+                                      <p className="ml-4">${unitPrice(item.product, item.variant)}</p>
                                     </div>
+                                    {item.variant && (
+                                      <p className="mt-1 text-sm text-gray-500">{variantLabel(item.variant.options)}</p>
+                                    )}
                                   </div>
                                   <div className="flex flex-1 items-end justify-between text-sm">
                                     <div className="flex items-center">
                                       <button
                                         type="button"
                                         className="text-gray-500 hover:text-gray-700"
-                                        onClick={() => updateQuantity(item.product_id, Math.max(1, item.quantity - 1))}
+                                        onClick={() => updateQuantity(item.product_id, Math.max(1, item.quantity - 1), item.variant_id)}
                                       >
                                         -
                                       </button>
@@ -97,7 +101,7 @@ export default function CartDrawer({ open, setOpen }: CartDrawerProps) {
                                       <button
                                         type="button"
                                         className="text-gray-500 hover:text-gray-700"
-                                        onClick={() => updateQuantity(item.product_id, item.quantity + 1)}
+                                        onClick={() => updateQuantity(item.product_id, item.quantity + 1, item.variant_id)}
                                       >
                                         +
                                       </button>
@@ -106,7 +110,7 @@ export default function CartDrawer({ open, setOpen }: CartDrawerProps) {
                                     <div className="flex">
                                       <button
                                         type="button"
-                                        onClick={() => removeFromCart(item.product_id)}
+                                        onClick={() => removeFromCart(item.product_id, item.variant_id)}
                                         className="font-medium text-indigo-600 hover:text-indigo-500"
                                       >
                                         Remove
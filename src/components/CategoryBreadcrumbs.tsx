@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { fetchCategoryPath } from '../lib/api/products';
+import type { Category } from '../lib/types';
+
+interface CategoryBreadcrumbsProps {
+  categoryId: number | null;
+  /** Shown after the categories without a link, e.g. the product's name */
+  current?: string;
+}
+
+/**
+ * Home / Products / each category from the top level down to categoryId
+ */
+const CategoryBreadcrumbs = ({ categoryId, current }: CategoryBreadcrumbsProps) => {
+  const [path, setPath] = useState<Category[]>([]);
+
+  useEffect(() => {
+    if (!categoryId) {
+      setPath([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    fetchCategoryPath(categoryId)
+      .then(categories => {
+        if (!cancelled) setPath(categories);
+      })
+      .catch(error => {
+        console.error('Error fetching category path:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [categoryId]);
+
+  return (
+    <nav className="mb-6" aria-label="Breadcrumb">
+      <ol className="flex flex-wrap text-sm">
+        <li>
+          <Link to="/" className="text-indigo-600 hover:text-indigo-800">Home</Link>
+        </li>
+        <li className="mx-2">/</li>
+        <li>
+          <Link to="/products" className="text-indigo-600 hover:text-indigo-800">Products</Link>
+        </li>
+        {path.map((category, index) => {
+          const isLast = index === path.length - 1 && !current;
+
+          return (
+            <li key={category.id} className="flex">
+              <span className="mx-2">/</span>
+              {isLast ? (
+                <span className="text-gray-500" aria-current="page">{category.name}</span>
+              ) : (
+                <Link to={`/products?category=${category.id}`} className="text-indigo-600 hover:text-indigo-800">
+                  {category.name}
+                </Link>
+              )}
+            </li>
+          );
+        })}
+        {current && (
+          <li className="flex">
+            <span className="mx-2">/</span>
+            <span className="text-gray-500" aria-current="page">{current}</span>
+          </li>
+        )}
+      </ol>
+    </nav>
+  );
+};
+
+export default CategoryBreadcrumbs;
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { useEffect, useMemo, useState } from 'react';
+import { FiFolder } from 'react-icons/fi';
+import { fetchCategories, moveCategory } from '../lib/api/products';
+import { buildCategoryTree, flattenCategoryTree, subtreeIds } from '../lib/categoryTree';
+import type { CategoryNode } from '../lib/categoryTree';
+import type { Category } from '../lib/types';
+
+/**
+ * Admin view of the category tree. Each category can be moved under another
+ * one or back to the top level.
+ */
+const CategoryTreeEditor = () => {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [movingId, setMovingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const tree = useMemo(() => buildCategoryTree(categories), [categories]);
+  const rows = useMemo(() => flattenCategoryTree(tree), [tree]);
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  const loadCategories = async () => {
+    try {
+      setLoading(true);
+      setCategories(await fetchCategories());
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+      setError('Failed to load categories');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMove = async (category: CategoryNode, parentId: number | null) => {
+    try {
+      setMovingId(category.id);
+      setError(null);
+
+      await moveCategory(category.id, parentId);
+      setCategories(prev =>
+        prev.map(existing => (existing.id === category.id ? { ...existing, parent_id: parentId } : existing))
+      );
+    } catch (error) {
+      console.error('Error moving category:', error);
+      setError(error instanceof Error ? error.message : 'Failed to move category');
+    } finally {
+      setMovingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mt-6">
+      <h2 className="text-lg font-medium mb-4">Category Tree</h2>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 mb-4">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-indigo-500"></div>
+        </div>
+      ) : rows.length === 0 ? (
+        <p className="text-gray-500">No categories yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {rows.map(({ category, depth }) => {
+            // A category can't move under itself or anything below it
+            const excluded = new Set(subtreeIds(category));
+
+            return (
+              <li key={category.id} className="flex items-center justify-between py-2">
+                <div className="flex items-center" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                  <FiFolder className="h-4 w-4 text-gray-400 mr-2" />
+                  <span className="text-sm text-gray-900">{category.name}</span>
+                  {category.children.length > 0 && (
+                    <span className="ml-2 text-xs text-gray-500">
+                      {category.children.length} subcategor{category.children.length === 1 ? 'y' : 'ies'}
+                    </span>
+                  )}
+                </div>
+                <label className="flex items-center text-sm text-gray-500">
+                  <span className="mr-2">Parent</span>
+                  <select
+                    value={category.parent_id ?? ''}
+                    disabled={movingId !== null}
+                    onChange={(e) => handleMove(category, e.target.value ? Number(e.target.value) : null)}
+                    className="border border-gray-300 rounded-md py-1 pl-2 pr-8 text-sm focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+                  >
+                    <option value="">Top level</option>
+                    {rows
+                      .filter(row => !excluded.has(row.category.id))
+                      .map(row => (
+                        <option key={row.category.id} value={row.category.id}>
+                          {'\u00A0\u00A0'.repeat(row.depth)}{row.category.name}
+                        </option>
+                      ))}
+                  </select>
+                </label>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CategoryTreeEditor;
\ No newline at end of file
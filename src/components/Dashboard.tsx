@@ -1,85 +1,47 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../lib/supabaseClient';
+import { useCart } from '../context/CartContext';
+import { useFavorites } from '../context/FavoritesContext';
+import { fetchCategories, fetchProducts, fetchProductsAfter } from '../lib/api/products';
+import type { ProductCursor, ProductFilters } from '../lib/api/products';
 import { useNavigate } from 'react-router-dom';
 import { FiShoppingCart, FiPackage, FiUsers, FiSettings, FiLogOut, FiHeart, FiSearch, FiGrid, FiFilter, FiMenu, FiStar } from 'react-icons/fi';
-
-interface Product {
-  id: number;
-  name: string;
-  description: string;
-  price: number;
-  discount_price?: number;
-  image_url: string;
-  category_id: number;
-  specifications?: any;
-  rating?: number;
-  featured?: boolean;
-  stock_quantity?: number;
-}
-
-interface Category {
-  id: number;
-  name: string;
-  description?: string;
-  image_url?: string;
-  parent_id?: number;
-}
+import type { Category, Product } from '../lib/types';
+import SearchAutocomplete from './SearchAutocomplete';
+import FavoriteButton from './FavoriteButton';
 
 const Dashboard = () => {
-  const { user, signOut, userRole } = useAuth();
+  const { user, signOut, role } = useAuth();
+  const { cartCount, addToCart: addProductToCart } = useCart();
+  const { favoriteCount } = useFavorites();
   const [products, setProducts] = useState<Product[]>([]);
   const [featuredProducts, setFeaturedProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
-  const [cartCount, setCartCount] = useState(0);
   const [searchQuery, setSearchQuery] = useState('');
   const [activeCategory, setActiveCategory] = useState<number | null>(null);
+  const [activeFilters, setActiveFilters] = useState<ProductFilters>({});
+  const [nextCursor, setNextCursor] = useState<ProductCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const navigate = useNavigate();
 
+  const productsPerPage = 20;
+
   useEffect(() => {
     const fetchData = async () => {
       try {
         setLoading(true);
         
         // Fetch categories
-        const { data: categoriesData, error: categoriesError } = await supabase
-          .from('categories')
-          .select('*')
-          .is('parent_id', null);
-
-        if (categoriesError) throw categoriesError;
-        if (categoriesData) setCategories(categoriesData);
+        setCategories(await fetchCategories({ topLevelOnly: true }));
 
         // Fetch featured products
-        const { data: featuredData, error: featuredError } = await supabase
-          .from('products')
-          .select('*')
-          .eq('featured', true)
-          .limit(5);
-
-        if (featuredError) throw featuredError;
-        if (featuredData) setFeaturedProducts(featuredData);
+        const featured = await fetchProducts({ featured: true }, { offset: 0, limit: 5 });
+        setFeaturedProducts(featured.products);
 
-        // Fetch all products
-        const { data: productsData, error: productsError } = await supabase
-          .from('products')
-          .select('*')
-          .limit(20); // Start with a limited number of products
-
-        if (productsError) throw productsError;
-        if (productsData) setProducts(productsData);
-
-        // Get cart count
-        if (user) {
-          const { count, error: cartError } = await supabase
-            .from('cart_items')
-            .select('*', { count: 'exact', head: true })
-            .eq('user_id', user.id);
-
-          if (!cartError && count !== null) setCartCount(count);
-        }
+        // Fetch the first page of all products
+        await loadProducts({});
       } catch (error) {
         console.error('Error fetching data:', error);
       } finally {
@@ -95,19 +57,35 @@ const Dashboard = () => {
     navigate('/login');
   };
 
-  const handleSearch = async () => {
-    if (!searchQuery) return;
+  const loadProducts = async (filters: ProductFilters) => {
+    const page = await fetchProductsAfter(filters, null, productsPerPage);
+    setActiveFilters(filters);
+    setProducts(page.products);
+    setNextCursor(page.nextCursor);
+  };
+
+  const loadMoreProducts = async () => {
+    if (!nextCursor) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await fetchProductsAfter(activeFilters, nextCursor, productsPerPage);
+      setProducts(prev => [...prev, ...page.products]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more products:', error);
+    }
+    setLoadingMore(false);
+  };
+
+  const handleSearch = async (search: string) => {
+    if (!search.trim()) return;
     
     setLoading(true);
-    const { data, error } = await supabase
-      .from('products')
-      .select('*')
-      .ilike('name', `%${searchQuery}%`);
-    
-    if (error) {
+    try {
+      await loadProducts({ search });
+    } catch (error) {
       console.error('Error searching products:', error);
-    } else if (data) {
-      setProducts(data);
     }
     setLoading(false);
   };
@@ -116,15 +94,10 @@ const Dashboard = () => {
     setActiveCategory(categoryId);
     setLoading(true);
     
-    const { data, error } = await supabase
-      .from('products')
-      .select('*')
-      .eq('category_id', categoryId);
-    
-    if (error) {
+    try {
+      await loadProducts({ categoryId });
+    } catch (error) {
       console.error('Error filtering products:', error);
-    } else if (data) {
-      setProducts(data);
     }
     setLoading(false);
   };
@@ -134,15 +107,10 @@ const Dashboard = () => {
     setSearchQuery('');
     setLoading(true);
     
-    const { data, error } = await supabase
-      .from('products')
-      .select('*')
-      .limit(20);
-    
-    if (error) {
+    try {
+      await loadProducts({});
+    } catch (error) {
       console.error('Error fetching products:', error);
-    } else if (data) {
-      setProducts(data);
     }
     setLoading(false);
   };
@@ -154,37 +122,10 @@ const Dashboard = () => {
     }
     
     try {
-      // Check if product already exists in cart
-      const { data: existingItems } = await supabase
-        .from('cart_items')
-        .select('*')
-        .eq('user_id', user.id)
-        .eq('product_id', productId);
-      
-      if (existingItems && existingItems.length > 0) {
-        // Update quantity
-        const { error } = await supabase
-          .from('cart_items')
-          .update({ quantity: existingItems[0].quantity + 1 })
-          .eq('id', existingItems[0].id);
-          
-        if (error) throw error;
-      } else {
-        // Add new item
-        const { error } = await supabase
-          .from('cart_items')
-          .insert({
-            user_id: user.id,
-            product_id: productId,
-            quantity: 1
-          });
-          
-        if (error) throw error;
-      }
-      
-      setCartCount(cartCount + 1);
+      await addProductToCart(productId, 1);
     } catch (error) {
       console.error('Error adding to cart:', error);
+      alert(error instanceof Error ? error.message : 'Failed to add product to cart. Please try again.');
     }
   };
 
@@ -215,17 +156,15 @@ const Dashboard = () => {
             <div className="flex items-center">
               <div className="relative mx-4 lg:mx-0 hidden md:block">
                 <div className="flex items-center">
-                  <input
-                    type="text"
-                    className="bg-indigo-100 text-gray-900 rounded-l-lg px-3 py-2 w-64 focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                    placeholder="Search products..."
+                  <SearchAutocomplete
                     value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+                    onChange={setSearchQuery}
+                    onSearch={handleSearch}
+                    inputClassName="bg-indigo-100 text-gray-900 rounded-l-lg px-3 py-2 w-64 focus:outline-none focus:ring-2 focus:ring-indigo-500"
                   />
                   <button 
                     className="bg-indigo-500 text-white px-3 py-2 rounded-r-lg hover:bg-indigo-700"
-                    onClick={handleSearch}
+                    onClick={() => handleSearch(searchQuery)}
                   >
                     <FiSearch />
                   </button>
@@ -233,8 +172,17 @@ const Dashboard = () => {
               </div>
               
               <div className="hidden md:flex items-center space-x-4">
-                <button className="p-2 rounded-full hover:bg-indigo-700 focus:outline-none relative">
+                <button
+                  onClick={() => navigate('/dashboard/favorites')}
+                  className="p-2 rounded-full hover:bg-indigo-700 focus:outline-none relative"
+                  aria-label="Favorites"
+                >
                   <FiHeart />
+                  {favoriteCount > 0 && (
+                    <span className="absolute -top-1 -right-1 bg-red-500 text-white rounded-full w-5 h-5 text-xs flex items-center justify-center">
+                      {favoriteCount}
+                    </span>
+                  )}
                 </button>
                 <button className="p-2 rounded-full hover:bg-indigo-700 focus:outline-none relative">
                   <FiShoppingCart />
@@ -276,26 +224,28 @@ const Dashboard = () => {
               <a href="#" className="block px-3 py-2 rounded-md text-base font-medium hover:bg-indigo-700">New Arrivals</a>
               <div className="relative my-2">
                 <div className="flex items-center">
-                  <input
-                    type="text"
-                    className="bg-indigo-100 text-gray-900 rounded-l-lg px-3 py-2 w-full focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                    placeholder="Search products..."
+                  <SearchAutocomplete
                     value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+                    onChange={setSearchQuery}
+                    onSearch={handleSearch}
+                    className="flex-1"
+                    inputClassName="bg-indigo-100 text-gray-900 rounded-l-lg px-3 py-2 w-full focus:outline-none focus:ring-2 focus:ring-indigo-500"
                   />
                   <button 
                     className="bg-indigo-500 text-white px-3 py-2 rounded-r-lg hover:bg-indigo-700"
-                    onClick={handleSearch}
+                    onClick={() => handleSearch(searchQuery)}
                   >
                     <FiSearch />
                   </button>
                 </div>
               </div>
               <div className="flex justify-between items-center px-3 py-2">
-                <button className="p-2 rounded-full hover:bg-indigo-700 focus:outline-none relative flex items-center">
+                <button
+                  onClick={() => navigate('/dashboard/favorites')}
+                  className="p-2 rounded-full hover:bg-indigo-700 focus:outline-none relative flex items-center"
+                >
                   <FiHeart />
-                  <span className="ml-2">Wishlist</span>
+                  <span className="ml-2">Favorites{favoriteCount > 0 && ` (${favoriteCount})`}</span>
                 </button>
                 <button className="p-2 rounded-full hover:bg-indigo-700 focus:outline-none relative flex items-center">
                   <FiShoppingCart />
@@ -381,12 +331,13 @@ const Dashboard = () => {
                             {calculateDiscount(product.price, product.discount_price)}% OFF
                           </div>
                         )}
+                        <FavoriteButton productId={product.id} className="absolute top-2 left-2 p-2 bg-white rounded-full shadow-md" />
                       </div>
                       <div className="p-4">
                         <h3 className="text-md font-semibold truncate">{product.name}</h3>
                         <div className="flex items-center mt-1">
                           {[...Array(5)].map((_, i) => (
-                            <FiStar key={i} className={`w-4 h-4 ${i < (product.rating || 0) ? 'text-yellow-400 fill-current' : 'text-gray-300'}`} />
+                            <FiStar key={i} className={`w-4 h-4 ${i < Math.round(product.avg_rating) ? 'text-yellow-400 fill-current' : 'text-gray-300'}`} />
                           ))}
                         </div>
                         <div className="mt-2 flex items-center">
@@ -463,14 +414,14 @@ const Dashboard = () => {
                 </div>
               </div>
               
-              {userRole === 'seller' || userRole === 'admin' ? (
+              {role === 'seller' || role === 'admin' ? (
                 <div className="mt-6 pt-4 border-t">
                   <h3 className="font-semibold mb-2">Seller Tools</h3>
                   <a href="#" className="block py-2 text-indigo-600 hover:underline">
                     <FiPackage className="inline mr-2" />
                     Manage Products
                   </a>
-                  {userRole === 'admin' && (
+                  {role === 'admin' && (
                     <a href="#" className="block py-2 text-indigo-600 hover:underline">
                       <FiUsers className="inline mr-2" />
                       Manage Users
@@ -534,13 +485,14 @@ const Dashboard = () => {
                               {calculateDiscount(product.price, product.discount_price)}% OFF
                             </div>
                           )}
+                          <FavoriteButton productId={product.id} className="absolute top-2 left-2 p-2 bg-white rounded-full shadow-md" />
                         </div>
                         <div className="p-4">
                           <h3 className="text-md font-semibold truncate">{product.name}</h3>
                           <p className="text-gray-600 text-sm mt-1 line-clamp-2">{product.description}</p>
                           <div className="flex items-center mt-2">
                             {[...Array(5)].map((_, i) => (
-                              <FiStar key={i} className={`w-4 h-4 ${i < (product.rating || 0) ? 'text-yellow-400 fill-current' : 'text-gray-300'}`} />
+                              <FiStar key={i} className={`w-4 h-4 ${i < Math.round(product.avg_rating) ? 'text-yellow-400 fill-current' : 'text-gray-300'}`} />
                             ))}
                           </div>
                           <div className="mt-2 flex items-center">
@@ -565,10 +517,14 @@ const Dashboard = () => {
                   </div>
                 )}
                 
-                {products.length > 0 && (
+                {nextCursor && (
                   <div className="mt-8 flex justify-center">
-                    <button className="bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700">
-                      Load More Products
+                    <button
+                      onClick={loadMoreProducts}
+                      disabled={loadingMore}
+                      className="bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      {loadingMore ? 'Loading...' : 'Load More Products'}
                     </button>
                   </div>
                 )}
@@ -1,90 +1,43 @@
 import { useState, useEffect } from 'react';
 import { Link, Outlet, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
+import type { UserRole } from '../lib/types';
+import { useCart } from '../context/CartContext';
 import { 
   FiHome, FiShoppingCart, FiUser, FiHeart, FiPackage, 
   FiSettings, FiLogOut, FiMenu, FiX, FiSearch,
-  FiBell, FiShoppingBag, FiGrid, FiTrendingUp
+  FiBell, FiShoppingBag, FiGrid, FiTrendingUp, FiRotateCcw, FiBox, FiFlag, FiGift
 } from 'react-icons/fi';
-import { supabase } from '../lib/supabaseClient';
+import { countUnreadNotifications } from '../lib/api/notifications';
+import SearchAutocomplete from './SearchAutocomplete';
 
 interface NavItem {
   name: string;
   to: string;
   icon: React.ReactNode;
-  roles?: string[];
+  roles?: UserRole[];
 }
 
 const DashboardLayout = () => {
-  const { user, signOut } = useAuth();
+  const { user, profile, role, signOut } = useAuth();
+  const { cartCount } = useCart();
   const location = useLocation();
   const navigate = useNavigate();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const [userRole, setUserRole] = useState<string | null>(null);
-  const [cartCount, setCartCount] = useState(0);
   const [notificationCount, setNotificationCount] = useState(0);
-  const [profileData, setProfileData] = useState<any>(null);
 
   useEffect(() => {
     if (user) {
-      fetchUserProfile();
-      fetchCartCount();
       fetchNotifications();
     }
   }, [user]);
 
-  const fetchUserProfile = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('role, full_name, avatar_url')
-        .eq('id', user?.id)
-        .single();
-      
-      if (error) {
-        throw error;
-      }
-      
-      if (data) {
-        setUserRole(data.role);
-        setProfileData(data);
-      }
-    } catch (error) {
-      console.error('Error fetching user profile:', error);
-    }
-  };
-
-  const fetchCartCount = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('cart_items')
-        .select('id', { count: 'exact' })
-        .eq('user_id', user?.id);
-      
-      if (error) {
-        throw error;
-      }
-      
-      setCartCount(data?.length || 0);
-    } catch (error) {
-      console.error('Error fetching cart count:', error);
-    }
-  };
-
   const fetchNotifications = async () => {
+    if (!user) return;
+
     try {
-      const { data, error } = await supabase
-        .from('notifications')
-        .select('id', { count: 'exact' })
-        .eq('user_id', user?.id)
-        .eq('read', false);
-      
-      if (error) {
-        throw error;
-      }
-      
-      setNotificationCount(data?.length || 0);
+      setNotificationCount(await countUnreadNotifications(user.id));
     } catch (error) {
       console.error('Error fetching notifications:', error);
     }
@@ -95,39 +48,55 @@ const DashboardLayout = () => {
     navigate('/login');
   };
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (searchQuery.trim()) {
-      navigate(`/search?q=${encodeURIComponent(searchQuery)}`);
-    }
+  const handleSearch = (search: string) => {
+    navigate(`/products?q=${encodeURIComponent(search)}`);
   };
 
   const navigationItems: NavItem[] = [
     { name: 'Dashboard', to: '/dashboard', icon: <FiHome className="w-5 h-5" /> },
     { name: 'Products', to: '/products', icon: <FiGrid className="w-5 h-5" /> },
     { name: 'Cart', to: '/cart', icon: <FiShoppingCart className="w-5 h-5" /> },
-    { name: 'Orders', to: '/orders', icon: <FiPackage className="w-5 h-5" /> },
-    { name: 'Favorites', to: '/favorites', icon: <FiHeart className="w-5 h-5" /> },
+    { name: 'Orders', to: '/dashboard/orders', icon: <FiPackage className="w-5 h-5" /> },
+    { name: 'Favorites', to: '/dashboard/favorites', icon: <FiHeart className="w-5 h-5" /> },
+    { name: 'Wishlists', to: '/dashboard/wishlists', icon: <FiGift className="w-5 h-5" /> },
     { 
       name: 'Sell', 
-      to: '/seller/dashboard', 
+      to: '/dashboard/seller', 
       icon: <FiShoppingBag className="w-5 h-5" />,
       roles: ['seller', 'admin'] 
     },
+    { 
+      name: 'My Products', 
+      to: '/dashboard/seller/products', 
+      icon: <FiBox className="w-5 h-5" />,
+      roles: ['seller', 'admin'] 
+    },
+    { 
+      name: 'Returns', 
+      to: '/dashboard/returns', 
+      icon: <FiRotateCcw className="w-5 h-5" />,
+      roles: ['seller', 'admin'] 
+    },
     { 
       name: 'Analytics', 
-      to: '/admin/analytics', 
+      to: '/dashboard/admin', 
       icon: <FiTrendingUp className="w-5 h-5" />,
       roles: ['admin'] 
     },
+    { 
+      name: 'Reviews', 
+      to: '/dashboard/admin/reviews', 
+      icon: <FiFlag className="w-5 h-5" />,
+      roles: ['admin'] 
+    },
     { name: 'Profile', to: '/profile', icon: <FiUser className="w-5 h-5" /> },
-    { name: 'Settings', to: '/settings', icon: <FiSettings className="w-5 h-5" /> },
+    { name: 'Settings', to: '/dashboard/settings', icon: <FiSettings className="w-5 h-5" /> },
   ];
 
   // Filter navigation items based on user role
   const filteredNavItems = navigationItems.filter(item => {
     if (!item.roles) return true;
-    return item.roles.includes(userRole || '');
+    return role !== null && item.roles.includes(role);
   });
 
   const isActive = (path: string) => {
@@ -204,20 +173,20 @@ const DashboardLayout = () => {
             </div>
 
             <div className="flex-1 max-w-xl mx-auto px-2 flex justify-center lg:ml-6 lg:justify-end">
-              <form onSubmit={handleSearch} className="w-full max-w-lg">
+              <div className="w-full max-w-lg">
                 <div className="relative">
                   <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                     <FiSearch className="h-5 w-5 text-gray-400" />
                   </div>
-                  <input
-                    type="text"
+                  <SearchAutocomplete
                     value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
+                    onChange={setSearchQuery}
+                    onSearch={handleSearch}
                     placeholder="Search for products..."
-                    className="block w-full bg-gray-100 border border-transparent rounded-md py-2 pl-10 pr-3 text-sm placeholder-gray-500 focus:outline-none focus:bg-white focus:border-indigo-300 focus:ring-indigo-300"
+                    inputClassName="block w-full bg-gray-100 border border-transparent rounded-md py-2 pl-10 pr-3 text-sm placeholder-gray-500 focus:outline-none focus:bg-white focus:border-indigo-300 focus:ring-indigo-300"
                   />
                 </div>
-              </form>
+              </div>
             </div>
 
             <div className="flex items-center">
@@ -233,7 +202,7 @@ const DashboardLayout = () => {
                 )}
               </Link>
               <Link
-                to="/notifications"
+                to="/dashboard/notifications"
                 className="p-2 ml-2 text-gray-500 hover:text-gray-700 relative"
               >
                 <FiBell className="h-6 w-6" />
@@ -247,9 +216,9 @@ const DashboardLayout = () => {
                 to="/profile"
                 className="p-1 ml-2 text-gray-500 hover:text-gray-700"
               >
-                {profileData?.avatar_url ? (
+                {profile?.avatar_url ? (
                   <img
-                    src={profileData.avatar_url}
+                    src={profile.avatar_url}
                     alt="Profile"
                     className="h-8 w-8 rounded-full object-cover border border-gray-200"
                   />
@@ -303,9 +272,9 @@ const DashboardLayout = () => {
             {/* User info */}
             <div className="flex items-center px-4 py-3 border-t">
               <div className="flex-shrink-0">
-                {profileData?.avatar_url ? (
+                {profile?.avatar_url ? (
                   <img
-                    src={profileData.avatar_url}
+                    src={profile.avatar_url}
                     alt="Profile"
                     className="h-8 w-8 rounded-full object-cover border border-gray-200"
                   />
@@ -317,10 +286,10 @@ const DashboardLayout = () => {
               </div>
               <div className="ml-3 min-w-0 flex-1">
                 <div className="text-sm font-medium text-gray-900 truncate">
-                  {profileData?.full_name || user?.email?.split('@')[0]}
+                  {profile?.full_name || user?.email?.split('@')[0]}
                 </div>
                 <div className="text-xs text-gray-500 truncate capitalize">
-                  {userRole || 'User'}
+                  {role || 'User'}
                 </div>
               </div>
             </div>
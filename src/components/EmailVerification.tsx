@@ -10,11 +10,18 @@ const EmailVerification = ({ email }: EmailVerificationProps) => {
   const [resendDisabled, setResendDisabled] = useState(false);
   const [countdown, setCountdown] = useState(60);
   const [message, setMessage] = useState('');
-  const { user } = useAuth();
+  const { resendVerification } = useAuth();
 
   const handleResendVerification = async () => {
     try {
       setResendDisabled(true);
+
+      const { error } = await resendVerification(email);
+
+      if (error) {
+        throw error;
+      }
+
       setMessage('Verification email sent! Please check your inbox.');
       
       // Start countdown
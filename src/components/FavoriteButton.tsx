@@ -0,0 +1,51 @@
+import { useNavigate } from 'react-router-dom';
+import { FiHeart } from 'react-icons/fi';
+import { useAuth } from '../context/AuthContext';
+import { useFavorites } from '../context/FavoritesContext';
+
+interface FavoriteButtonProps {
+  productId: number;
+  className?: string;
+}
+
+/**
+ * Heart that adds a product to or removes it from the user's favorites.
+ * Signed-out shoppers are sent to the login page.
+ */
+const FavoriteButton = ({ productId, className = 'p-2 bg-white rounded-full shadow-md' }: FavoriteButtonProps) => {
+  const { user } = useAuth();
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const navigate = useNavigate();
+  const favorite = isFavorite(productId);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // Hearts sit on cards that link to the product
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+
+    try {
+      await toggleFavorite(productId);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update favorites. Please try again.');
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      aria-pressed={favorite}
+      aria-label={favorite ? 'Remove from favorites' : 'Add to favorites'}
+      className={`${className} ${favorite ? 'text-red-500' : 'text-gray-500 hover:text-red-500'}`}
+    >
+      <FiHeart className={favorite ? 'fill-current' : ''} />
+    </button>
+  );
+};
+
+export default FavoriteButton;
\ No newline at end of file
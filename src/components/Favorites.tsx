@@ -1,62 +1,52 @@
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../lib/supabaseClient';
+import { useCart } from '../context/CartContext';
+import { useFavorites } from '../context/FavoritesContext';
+import { fetchFavorites as fetchFavoriteList } from '../lib/api/favorites';
+import type { FavoriteWithProduct } from '../lib/api/favorites';
+import { addWishlistItem, fetchWishlists } from '../lib/api/wishlists';
+import type { WishlistSummary } from '../lib/api/wishlists';
+import { ApiError } from '../lib/api/errors';
 import { FiHeart, FiTrash2, FiShoppingCart } from 'react-icons/fi';
 
-interface FavoriteProduct {
-  id: number;
-  user_id: string;
-  product_id: number;
-  created_at: string;
-  product: {
-    id: number;
-    name: string;
-    price: number;
-    discount_price?: number;
-    image_url: string;
-    category: {
-      id: number;
-      name: string;
-    };
-  };
-}
-
 const Favorites = () => {
   const { user } = useAuth();
-  const [favorites, setFavorites] = useState<FavoriteProduct[]>([]);
+  const { addToCart: addProductToCart } = useCart();
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const [favorites, setFavorites] = useState<FavoriteWithProduct[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [removing, setRemoving] = useState(false);
+  const [movingAll, setMovingAll] = useState(false);
+  const [wishlists, setWishlists] = useState<WishlistSummary[]>([]);
+  const [success, setSuccess] = useState<string | null>(null);
 
   useEffect(() => {
     if (user) {
       fetchFavorites();
+      loadWishlists();
     }
   }, [user]);
 
+  const loadWishlists = async () => {
+    if (!user) return;
+
+    try {
+      setWishlists(await fetchWishlists(user.id));
+    } catch (error) {
+      // The favorites still work without the "Add to list" menus
+      console.error('Error fetching wishlists:', error);
+    }
+  };
+
   const fetchFavorites = async () => {
+    if (!user) return;
+
     try {
       setLoading(true);
       setError(null);
 
-      const { data, error } = await supabase
-        .from('favorites')
-        .select(`
-          *,
-          product:products(
-            id, name, price, discount_price, image_url,
-            category:categories(id, name)
-          )
-        `)
-        .eq('user_id', user?.id)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        throw error;
-      }
-
-      setFavorites(data || []);
+      setFavorites(await fetchFavoriteList(user.id));
     } catch (error) {
       console.error('Error fetching favorites:', error);
       setError('Failed to load your favorites.');
@@ -65,73 +55,76 @@ const Favorites = () => {
     }
   };
 
-  const removeFavorite = async (favoriteId: number) => {
+  // Hearts elsewhere share the favorites context, so products unfavorited
+  // there (or here) drop out without a refetch
+  const shownFavorites = favorites.filter(favorite => isFavorite(favorite.product_id));
+
+  const removeFavorite = async (productId: number) => {
     try {
-      setRemoving(true);
-      
-      const { error } = await supabase
-        .from('favorites')
-        .delete()
-        .eq('id', favoriteId);
-      
-      if (error) {
-        throw error;
-      }
-      
-      // Update local state
-      setFavorites(prev => prev.filter(fav => fav.id !== favoriteId));
+      setError(null);
+      await toggleFavorite(productId);
     } catch (error) {
       console.error('Error removing favorite:', error);
       setError('Failed to remove from favorites. Please try again.');
-    } finally {
-      setRemoving(false);
     }
   };
 
   const addToCart = async (productId: number) => {
     try {
-      // Check if product is already in cart
-      const { data: existingItems, error: checkError } = await supabase
-        .from('cart_items')
-        .select('*')
-        .eq('user_id', user?.id)
-        .eq('product_id', productId);
-      
-      if (checkError) {
-        throw checkError;
-      }
-      
-      if (existingItems && existingItems.length > 0) {
-        // Update quantity
-        const { error: updateError } = await supabase
-          .from('cart_items')
-          .update({ 
-            quantity: existingItems[0].quantity + 1 
-          })
-          .eq('id', existingItems[0].id);
-          
-        if (updateError) {
-          throw updateError;
-        }
-      } else {
-        // Add new item
-        const { error: insertError } = await supabase
-          .from('cart_items')
-          .insert({
-            user_id: user?.id,
-            product_id: productId,
-            quantity: 1
-          });
-          
-        if (insertError) {
-          throw insertError;
-        }
-      }
-      
+      await addProductToCart(productId, 1);
       alert('Added to cart successfully!');
     } catch (error) {
       console.error('Error adding to cart:', error);
-      setError('Failed to add product to cart.');
+      setError(error instanceof Error ? error.message : 'Failed to add product to cart.');
+    }
+  };
+
+  const addToList = async (favorite: FavoriteWithProduct, wishlistId: number) => {
+    const wishlist = wishlists.find(list => list.id === wishlistId);
+    if (!wishlist) return;
+
+    try {
+      setError(null);
+      setSuccess(null);
+
+      await addWishlistItem(wishlistId, favorite.product_id);
+      setSuccess(`Added ${favorite.product.name} to ${wishlist.name}.`);
+      setWishlists(prev => prev.map(list => (
+        list.id === wishlistId ? { ...list, itemCount: list.itemCount + 1 } : list
+      )));
+    } catch (error) {
+      console.error('Error adding to wishlist:', error);
+      setError(
+        error instanceof ApiError && error.code === 'conflict'
+          ? `${favorite.product.name} is already on ${wishlist.name}.`
+          : 'Failed to add to the list. Please try again.'
+      );
+    }
+  };
+
+  // Adds one of each favorite to the cart and unfavorites the ones that made
+  // it. Products that are sold out or need an option picked stay behind.
+  const moveAllToCart = async () => {
+    try {
+      setMovingAll(true);
+      setError(null);
+
+      const failures: string[] = [];
+
+      for (const favorite of shownFavorites) {
+        try {
+          await addProductToCart(favorite.product_id, 1);
+          await toggleFavorite(favorite.product_id);
+        } catch (error) {
+          failures.push(`${favorite.product.name}: ${error instanceof Error ? error.message : 'could not be added'}`);
+        }
+      }
+
+      if (failures.length > 0) {
+        setError(`Some favorites could not be moved to your cart. ${failures.join('. ')}`);
+      }
+    } finally {
+      setMovingAll(false);
     }
   };
 
@@ -145,17 +138,35 @@ const Favorites = () => {
 
   return (
     <div className="max-w-6xl mx-auto px-4 py-8">
-      <h1 className="text-2xl font-semibold mb-6 flex items-center">
-        <FiHeart className="mr-2 text-red-500" /> Your Favorites
-      </h1>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-semibold flex items-center">
+          <FiHeart className="mr-2 text-red-500" /> Your Favorites
+        </h1>
+        {shownFavorites.length > 0 && (
+          <button
+            onClick={moveAllToCart}
+            disabled={movingAll}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 inline-flex items-center disabled:opacity-50"
+          >
+            <FiShoppingCart className="mr-2" />
+            {movingAll ? 'Moving...' : 'Move all to cart'}
+          </button>
+        )}
+      </div>
       
       {error && (
         <div className="mb-6 p-4 bg-red-50 border-l-4 border-red-500 text-red-700">
           {error}
         </div>
       )}
+
+      {success && (
+        <div className="mb-6 p-4 bg-green-50 border-l-4 border-green-500 text-green-700">
+          {success}
+        </div>
+      )}
       
-      {favorites.length === 0 ? (
+      {shownFavorites.length === 0 ? (
         <div className="bg-white rounded-lg shadow-md p-8 text-center">
           <FiHeart className="h-16 w-16 mx-auto text-gray-400 mb-4" />
           <h2 className="text-xl font-medium text-gray-900 mb-2">No favorites yet</h2>
@@ -169,9 +180,9 @@ const Favorites = () => {
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-          {favorites.map((favorite) => (
+          {shownFavorites.map((favorite) => (
             <div key={favorite.id} className="bg-white rounded-lg shadow-md overflow-hidden relative">
-              <Link to={`/product/${favorite.product.id}`}>
+              <Link to={`/products/${favorite.product.id}`}>
                 <div className="aspect-w-1 aspect-h-1 bg-gray-200">
                   <img 
                     src={favorite.product.image_url || '/images/placeholder.jpg'} 
@@ -181,7 +192,7 @@ const Favorites = () => {
                 </div>
                 <div className="p-4">
                   <div className="text-xs text-indigo-600 uppercase tracking-wide font-semibold">
-                    {favorite.product.category.name}
+                    {favorite.product.category?.name}
                   </div>
                   <h3 className="mt-1 text-sm font-medium text-gray-900 truncate">
                     {favorite.product.name}
@@ -198,11 +209,28 @@ const Favorites = () => {
                   </div>
                 </div>
               </Link>
+
+              {wishlists.length > 0 && (
+                <div className="px-4 pb-4">
+                  <select
+                    value=""
+                    onChange={(e) => addToList(favorite, Number(e.target.value))}
+                    aria-label={`Add ${favorite.product.name} to a list`}
+                    className="block w-full border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-700 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    <option value="" disabled>Add to list...</option>
+                    {wishlists.map((wishlist) => (
+                      <option key={wishlist.id} value={wishlist.id}>{wishlist.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
               
               <div className="absolute top-2 right-2 flex flex-col space-y-2">
                 <button
-                  onClick={() => removeFavorite(favorite.id)}
-                  disabled={removing}
+                  onClick={() => removeFavorite(favorite.product_id)}
+                  disabled={movingAll}
+                  aria-label="Remove from favorites"
                   className="p-2 bg-white rounded-full shadow-md text-red-500 hover:text-red-700"
                 >
                   <FiTrash2 className="h-4 w-4" />
@@ -0,0 +1,27 @@
+import { Link } from 'react-router-dom';
+import { FiLock } from 'react-icons/fi';
+
+const Forbidden = () => {
+  return (
+    <div className="min-h-[80vh] bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md text-center">
+        <h1 className="text-9xl font-bold text-indigo-600">403</h1>
+        <h2 className="mt-4 text-3xl font-extrabold text-gray-900">Access denied</h2>
+        <p className="mt-2 text-sm text-gray-600">
+          Your account doesn't have permission to view this page.
+        </p>
+        <div className="mt-6">
+          <Link
+            to="/dashboard"
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            <FiLock className="mr-2 h-5 w-5" />
+            Back to Dashboard
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
\ No newline at end of file
@@ -26,11 +26,9 @@ const navigation = {
 const Layout = ({ children }: { children: React.ReactNode }) => {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const { user } = useAuth();
-  const { items } = useCart();
+  const { cartCount: cartItemsCount } = useCart();
   const location = useLocation();
 
-  const cartItemsCount = items.reduce((sum, item) => sum + item.quantity, 0);
-
   return (
     <div className="min-h-screen bg-white">
       {/* Navigation */}
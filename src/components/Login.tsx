@@ -7,7 +7,7 @@ const Login = () => {
   const [password, setPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const { signIn } = useAuth();
+  const { signInWithPassword } = useAuth();
   const navigate = useNavigate();
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -22,7 +22,7 @@ const Login = () => {
       setError(null);
       setLoading(true);
       
-      const { error } = await signIn(email, password);
+      const { error } = await signInWithPassword(email, password);
       
       if (error) {
         setError(error.message);
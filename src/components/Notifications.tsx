@@ -1,19 +1,8 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../lib/supabaseClient';
+import { fetchNotifications as fetchNotificationList, markNotificationsRead } from '../lib/api/notifications';
 import { FiBell, FiCheck, FiShoppingBag, FiPackage, FiCreditCard, FiMail, FiUserPlus, FiAlertCircle } from 'react-icons/fi';
-
-interface Notification {
-  id: number;
-  user_id: string;
-  title: string;
-  content: string;
-  type: string;
-  read: boolean;
-  created_at: string;
-  related_id?: string | number;
-  link?: string;
-}
+import type { Notification } from '../lib/types';
 
 const Notifications = () => {
   const { user } = useAuth();
@@ -29,21 +18,13 @@ const Notifications = () => {
   }, [user]);
 
   const fetchNotifications = async () => {
+    if (!user) return;
+
     try {
       setLoading(true);
       setError(null);
 
-      const { data, error } = await supabase
-        .from('notifications')
-        .select('*')
-        .eq('user_id', user?.id)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        throw error;
-      }
-
-      setNotifications(data || []);
+      setNotifications(await fetchNotificationList(user.id));
     } catch (error) {
       console.error('Error fetching notifications:', error);
       setError('Failed to load notifications.');
@@ -56,14 +37,7 @@ const Notifications = () => {
     try {
       setMarkingAsRead(true);
       
-      const { error } = await supabase
-        .from('notifications')
-        .update({ read: true })
-        .eq('id', notificationId);
-      
-      if (error) {
-        throw error;
-      }
+      await markNotificationsRead([notificationId]);
       
       // Update local state
       setNotifications(prev => 
@@ -89,14 +63,7 @@ const Notifications = () => {
       
       if (unreadIds.length === 0) return;
       
-      const { error } = await supabase
-        .from('notifications')
-        .update({ read: true })
-        .in('id', unreadIds);
-      
-      if (error) {
-        throw error;
-      }
+      await markNotificationsRead(unreadIds);
       
       // Update local state
       setNotifications(prev => 
@@ -134,9 +101,9 @@ const Notifications = () => {
     
     switch (notification.type) {
       case 'order':
-        return notification.related_id ? `/orders/${notification.related_id}` : '/orders';
+        return notification.related_id ? `/dashboard/orders/${notification.related_id}` : '/dashboard/orders';
       case 'shipping':
-        return notification.related_id ? `/orders/${notification.related_id}` : '/orders';
+        return notification.related_id ? `/dashboard/orders/${notification.related_id}` : '/dashboard/orders';
       case 'payment':
         return notification.related_id ? `/payments/${notification.related_id}` : '/account';
       case 'account':
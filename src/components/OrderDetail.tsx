@@ -1,36 +1,27 @@
 import { useState, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../lib/supabaseClient';
-import { FiPackage, FiArrowLeft, FiCheck, FiMapPin, FiCreditCard, FiTruck } from 'react-icons/fi';
+import { cancelOrder, fetchOrder, fetchOrderStatusHistory } from '../lib/api/orders';
+import type { OrderItemWithProduct } from '../lib/api/orders';
+import { ORDER_STATUS_LABELS, canCancelOrder } from '../lib/orderStatus';
+import type { OrderStatus } from '../lib/orderStatus';
+import { RETURN_REASON_LABELS, RETURN_STATUS_LABELS, fetchReturns, requestReturn } from '../lib/api/returns';
+import type { ReturnReason } from '../lib/api/returns';
+import { variantLabel } from '../lib/variants';
+import { FiPackage, FiArrowLeft, FiCheck, FiMapPin, FiCreditCard, FiTruck, FiClock, FiX } from 'react-icons/fi';
+import type { Order, OrderStatusChange, ReturnRequest, ShippingDetails } from '../lib/types';
 
-interface OrderItem {
-  id: number;
-  order_id: number;
-  product_id: number;
-  quantity: number;
-  price: number;
-  product: {
-    name: string;
-    image_url: string;
-  };
+interface OrderDetail extends Order {
+  items: OrderItemWithProduct[];
+  history: OrderStatusChange[];
+  returns: ReturnRequest[];
 }
 
-interface OrderDetail {
-  id: number;
-  user_id: string;
-  status: string;
-  total_amount: number;
-  shipping_fee: number;
-  tax_amount: number;
-  created_at: string;
-  updated_at: string;
-  payment_status: string;
-  payment_method: string;
-  shipping_address: any;
-  tracking_number?: string;
-  expected_delivery?: string;
-  items: OrderItem[];
+interface ReturnForm {
+  orderItemId: number;
+  quantity: number;
+  reason: ReturnReason;
+  details: string;
 }
 
 const OrderDetail = () => {
@@ -39,6 +30,9 @@ const OrderDetail = () => {
   const [order, setOrder] = useState<OrderDetail | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [returnForm, setReturnForm] = useState<ReturnForm | null>(null);
 
   useEffect(() => {
     if (user && id) {
@@ -47,42 +41,22 @@ const OrderDetail = () => {
   }, [user, id]);
 
   const fetchOrderDetails = async () => {
+    if (!user || !id) return;
+
     try {
       setLoading(true);
       setError(null);
 
-      // Fetch order details
-      const { data: orderData, error: orderError } = await supabase
-        .from('orders')
-        .select('*')
-        .eq('id', id)
-        .eq('user_id', user?.id)
-        .single();
-
-      if (orderError) {
-        throw orderError;
-      }
-
-      if (!orderData) {
-        throw new Error('Order not found');
-      }
-
-      // Fetch order items with product details
-      const { data: itemsData, error: itemsError } = await supabase
-        .from('order_items')
-        .select(`
-          *,
-          product:products(name, image_url)
-        `)
-        .eq('order_id', id);
-
-      if (itemsError) {
-        throw itemsError;
-      }
+      // Fetch order details with product details for its items
+      const orderData = await fetchOrder(user.id, Number(id));
+
+      const history = await fetchOrderStatusHistory(orderData.id);
+      const returns = orderData.status === 'delivered' ? await fetchReturns(orderData.id) : [];
 
       setOrder({
         ...orderData,
-        items: itemsData || []
+        history,
+        returns
       });
     } catch (error) {
       console.error('Error fetching order details:', error);
@@ -103,19 +77,68 @@ const OrderDetail = () => {
     return new Date(dateString).toLocaleDateString(undefined, options);
   };
 
-  const getStatusSteps = () => {
-    const steps = [
-      { id: 'confirmed', label: 'Order Confirmed', icon: <FiCheck /> },
-      { id: 'processing', label: 'Processing', icon: <FiPackage /> },
-      { id: 'shipped', label: 'Shipped', icon: <FiTruck /> },
-      { id: 'delivered', label: 'Delivered', icon: <FiCheck /> }
-    ];
+  const handleCancelOrder = async () => {
+    if (!order) return;
+    if (!window.confirm('Cancel this order? Any payment will be refunded.')) return;
+
+    try {
+      setActionLoading(true);
+      setActionError(null);
+
+      await cancelOrder(order.id, 'Cancelled by customer');
+      await fetchOrderDetails();
+    } catch (error) {
+      console.error('Error cancelling order:', error);
+      setActionError('Failed to cancel the order. It may already be on its way.');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleRequestReturn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!returnForm) return;
+
+    try {
+      setActionLoading(true);
+      setActionError(null);
+
+      await requestReturn(
+        returnForm.orderItemId,
+        returnForm.quantity,
+        returnForm.reason,
+        returnForm.details.trim()
+      );
+
+      setReturnForm(null);
+      await fetchOrderDetails();
+    } catch (error) {
+      console.error('Error requesting return:', error);
+      setActionError('Failed to request a return. Please try again.');
+    } finally {
+      setActionLoading(false);
+    }
+  };
 
-    const currentStepIndex = steps.findIndex(step => step.id === order?.status) !== -1 
-      ? steps.findIndex(step => step.id === order?.status)
-      : order?.status === 'pending' ? 0 : order?.status === 'cancelled' ? -1 : steps.length - 1;
+  const getStatusIcon = (status: OrderStatus) => {
+    switch (status) {
+      case 'pending':
+        return <FiClock />;
+      case 'processing':
+        return <FiPackage />;
+      case 'shipped':
+        return <FiTruck />;
+      case 'cancelled':
+        return <FiX />;
+      default:
+        return <FiCheck />;
+    }
+  };
 
-    return { steps, currentStepIndex };
+  const getChangedByLabel = (change: OrderStatusChange) => {
+    if (!change.changed_by) return 'Updated automatically';
+    if (change.changed_by === user?.id) return 'Updated by you';
+    return 'Updated by the store';
   };
 
   if (loading) {
@@ -133,7 +156,7 @@ const OrderDetail = () => {
           <p className="text-red-700">{error || 'Order not found'}</p>
         </div>
         <Link
-          to="/orders"
+          to="/dashboard/orders"
           className="mt-4 inline-flex items-center text-indigo-600 hover:text-indigo-800"
         >
           <FiArrowLeft className="mr-2" /> Back to Orders
@@ -142,13 +165,99 @@ const OrderDetail = () => {
     );
   }
 
-  const { steps, currentStepIndex } = getStatusSteps();
+  // place_order stores the checkout form as-is
+  const shipping = order.shipping_details as ShippingDetails | null;
+  const subtotal = order.items.reduce((sum, item) => sum + item.price_at_time * item.quantity, 0);
+
+  const renderReturnAction = (item: OrderItemWithProduct) => {
+    const itemReturn = order.returns.find(r => r.order_item_id === item.id);
+
+    if (itemReturn) {
+      return (
+        <p className="mt-2 text-sm text-gray-600">
+          {RETURN_STATUS_LABELS[itemReturn.status]} &middot; {itemReturn.quantity} of {item.quantity}
+          {itemReturn.refund_amount !== null && ` · $${itemReturn.refund_amount.toFixed(2)} refunded`}
+        </p>
+      );
+    }
+
+    if (returnForm?.orderItemId !== item.id) {
+      return (
+        <button
+          type="button"
+          onClick={() => setReturnForm({
+            orderItemId: item.id,
+            quantity: item.quantity,
+            reason: 'damaged',
+            details: ''
+          })}
+          className="mt-2 text-sm font-medium text-indigo-600 hover:text-indigo-800"
+        >
+          Request return
+        </button>
+      );
+    }
+
+    return (
+      <form onSubmit={handleRequestReturn} className="mt-3 space-y-3">
+        <div className="flex flex-wrap gap-3">
+          <select
+            value={returnForm.reason}
+            onChange={(e) => setReturnForm({ ...returnForm, reason: e.target.value as ReturnReason })}
+            className="rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+            aria-label="Reason for return"
+          >
+            {(Object.keys(RETURN_REASON_LABELS) as ReturnReason[]).map((reason) => (
+              <option key={reason} value={reason}>
+                {RETURN_REASON_LABELS[reason]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={returnForm.quantity}
+            onChange={(e) => setReturnForm({ ...returnForm, quantity: Number(e.target.value) })}
+            className="rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+            aria-label="Quantity to return"
+          >
+            {[...Array(item.quantity)].map((_, i) => (
+              <option key={i + 1} value={i + 1}>
+                {i + 1}
+              </option>
+            ))}
+          </select>
+        </div>
+        <textarea
+          value={returnForm.details}
+          onChange={(e) => setReturnForm({ ...returnForm, details: e.target.value })}
+          rows={2}
+          placeholder="Anything else we should know? (optional)"
+          className="block w-full rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+        />
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            disabled={actionLoading}
+            className="px-3 py-1.5 bg-indigo-600 text-white text-sm rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Submit Return
+          </button>
+          <button
+            type="button"
+            onClick={() => setReturnForm(null)}
+            className="px-3 py-1.5 border border-gray-300 text-sm rounded-md text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    );
+  };
 
   return (
     <div className="max-w-4xl mx-auto px-4 py-8">
       <div className="flex items-center mb-6">
         <Link
-          to="/orders"
+          to="/dashboard/orders"
           className="mr-4 text-indigo-600 hover:text-indigo-800"
         >
           <FiArrowLeft className="h-5 w-5" />
@@ -161,55 +270,69 @@ const OrderDetail = () => {
 
       {/* Order Status */}
       <div className="bg-white rounded-lg shadow-md p-6 mb-6">
-        <h2 className="text-lg font-medium mb-4">Order Status</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-medium">Order Status</h2>
+          {canCancelOrder(order.status) && (
+            <button
+              type="button"
+              onClick={handleCancelOrder}
+              disabled={actionLoading}
+              className="px-4 py-2 border border-red-300 rounded-md text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-50"
+            >
+              Cancel Order
+            </button>
+          )}
+        </div>
+
+        {actionError && (
+          <div className="bg-red-50 border-l-4 border-red-500 p-4 mb-6 text-red-700">
+            {actionError}
+          </div>
+        )}
         
-        {order.status === 'cancelled' ? (
-          <div className="bg-red-50 border-l-4 border-red-500 p-4 text-red-700">
+        {order.status === 'cancelled' && (
+          <div className="bg-red-50 border-l-4 border-red-500 p-4 mb-6 text-red-700">
             This order was cancelled.
           </div>
+        )}
+
+        {order.history.length === 0 ? (
+          <p className="text-sm text-gray-500">No status updates yet.</p>
         ) : (
-          <div className="relative">
-            <div className="absolute left-0 top-1/2 transform -translate-y-1/2 w-full h-1 bg-gray-200 z-0"></div>
-            <div 
-              className="absolute left-0 top-1/2 transform -translate-y-1/2 h-1 bg-indigo-500 z-0" 
-              style={{ width: `${currentStepIndex * 100 / (steps.length - 1)}%` }}
-            ></div>
-            
-            <div className="relative z-10 flex justify-between">
-              {steps.map((step, index) => (
-                <div key={step.id} className="flex flex-col items-center">
-                  <div 
-                    className={`rounded-full w-10 h-10 flex items-center justify-center ${
-                      index <= currentStepIndex 
-                        ? 'bg-indigo-500 text-white' 
-                        : 'bg-gray-200 text-gray-500'
+          <ol className="relative ml-5 border-l border-gray-200">
+            {order.history.map((change, index) => {
+              const isCurrent = index === order.history.length - 1;
+
+              return (
+                <li key={change.id} className="mb-6 ml-8 last:mb-0">
+                  <span
+                    className={`absolute -left-5 flex items-center justify-center w-10 h-10 rounded-full ring-4 ring-white ${
+                      change.to_status === 'cancelled'
+                        ? 'bg-red-100 text-red-600'
+                        : isCurrent
+                          ? 'bg-indigo-500 text-white'
+                          : 'bg-indigo-100 text-indigo-600'
                     }`}
                   >
-                    {step.icon}
+                    {getStatusIcon(change.to_status)}
+                  </span>
+                  <div className="pt-2">
+                    <h3 className={`text-sm font-medium ${isCurrent ? 'text-gray-900' : 'text-gray-700'}`}>
+                      {ORDER_STATUS_LABELS[change.to_status] ?? change.to_status}
+                    </h3>
+                    <time dateTime={change.created_at} className="block text-xs text-gray-500">
+                      {formatDate(change.created_at)} &middot; {getChangedByLabel(change)}
+                    </time>
+                    {change.note && (
+                      <p className="mt-1 text-sm text-gray-600">{change.note}</p>
+                    )}
                   </div>
-                  <div className="text-xs mt-2 text-gray-600">{step.label}</div>
-                </div>
-              ))}
-            </div>
-          </div>
+                </li>
+              );
+            })}
+          </ol>
         )}
         
-        {order.tracking_number && (
-          <div className="mt-6">
-            <div className="text-sm text-gray-600 mb-2">Tracking Number:</div>
-            <div className="flex items-center">
-              <div className="font-medium text-gray-900">{order.tracking_number}</div>
-              <a 
-                href={`https://track.carrier.com/${order.tracking_number}`} 
-                target="_blank" 
-                rel="noopener noreferrer"
-                className="ml-4 text-indigo-600 hover:text-indigo-800 text-sm font-medium"
-              >
-                Track Package
-              </a>
-            </div>
-          </div>
-        )}
       </div>
 
       {/* Order Items */}
@@ -220,24 +343,28 @@ const OrderDetail = () => {
             <li key={item.id} className="p-6 flex items-start">
               <div className="flex-shrink-0 w-20 h-20 bg-gray-100 rounded-md overflow-hidden">
                 <img
-                  src={item.product.image_url || '/images/placeholder.jpg'}
-                  alt={item.product.name}
+                  src={item.product?.image_url || '/images/placeholder.jpg'}
+                  alt={item.product?.name ?? 'Unavailable product'}
                   className="w-20 h-20 object-cover"
                 />
               </div>
               <div className="ml-4 flex-1">
                 <h3 className="text-sm font-medium text-gray-900">
-                  <Link to={`/product/${item.product_id}`} className="hover:text-indigo-600">
-                    {item.product.name}
+                  <Link to={`/products/${item.product_id}`} className="hover:text-indigo-600">
+                    {item.product?.name ?? 'Unavailable product'}
                   </Link>
                 </h3>
+                {item.variant && (
+                  <p className="mt-1 text-sm text-gray-500">{variantLabel(item.variant.options)}</p>
+                )}
                 <div className="mt-1 flex text-sm text-gray-500">
                   <p>Qty: {item.quantity}</p>
                 </div>
+                {order.status === 'delivered' && renderReturnAction(item)}
               </div>
               <div className="text-right">
-                <p className="text-sm font-medium text-gray-900">${item.price.toFixed(2)}</p>
-                <p className="mt-1 text-sm text-gray-500">${(item.price * item.quantity).toFixed(2)}</p>
+                <p className="text-sm font-medium text-gray-900">${item.price_at_time.toFixed(2)}</p>
+                <p className="mt-1 text-sm text-gray-500">${(item.price_at_time * item.quantity).toFixed(2)}</p>
               </div>
             </li>
           ))}
@@ -252,17 +379,11 @@ const OrderDetail = () => {
           <div className="space-y-4">
             <div className="flex justify-between">
               <span className="text-gray-600">Subtotal</span>
-              <span className="text-gray-900 font-medium">
-                ${(order.total_amount - order.shipping_fee - order.tax_amount).toFixed(2)}
-              </span>
+              <span className="text-gray-900 font-medium">${subtotal.toFixed(2)}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-600">Shipping</span>
-              <span className="text-gray-900 font-medium">${order.shipping_fee.toFixed(2)}</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-gray-600">Tax</span>
-              <span className="text-gray-900 font-medium">${order.tax_amount.toFixed(2)}</span>
+              <span className="text-gray-900 font-medium">Free</span>
             </div>
             <div className="border-t pt-4 flex justify-between">
               <span className="text-lg font-medium">Total</span>
@@ -293,34 +414,24 @@ const OrderDetail = () => {
             <FiMapPin className="h-5 w-5 text-gray-400 mt-0.5 mr-2" />
             <div>
               <h3 className="text-sm font-medium text-gray-900">Shipping Address</h3>
-              <address className="text-sm text-gray-600 not-italic mt-1">
-                {order.shipping_address.name}<br />
-                {order.shipping_address.street}<br />
-                {order.shipping_address.city}, {order.shipping_address.state} {order.shipping_address.postal_code}<br />
-                {order.shipping_address.country}
-              </address>
+              {shipping ? (
+                <address className="text-sm text-gray-600 not-italic mt-1">
+                  {shipping.fullName}<br />
+                  {shipping.address}<br />
+                  {shipping.city}, {shipping.state} {shipping.postalCode}<br />
+                  {shipping.country}
+                </address>
+              ) : (
+                <p className="text-sm text-gray-600 mt-1">No shipping address on file</p>
+              )}
             </div>
           </div>
-          
-          {order.expected_delivery && (
-            <div className="mt-6">
-              <h3 className="text-sm font-medium text-gray-900">Expected Delivery</h3>
-              <p className="text-sm text-gray-600 mt-1">
-                {new Date(order.expected_delivery).toLocaleDateString(undefined, { 
-                  weekday: 'long', 
-                  year: 'numeric', 
-                  month: 'long', 
-                  day: 'numeric' 
-                })}
-              </p>
-            </div>
-          )}
         </div>
       </div>
       
       <div className="mt-8 flex justify-center">
         <Link
-          to="/orders"
+          to="/dashboard/orders"
           className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 flex items-center"
         >
           <FiArrowLeft className="mr-2" />
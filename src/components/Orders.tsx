@@ -1,25 +1,13 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../lib/supabaseClient';
+import { fetchOrders as fetchOrderList } from '../lib/api/orders';
+import type { OrderSummary } from '../lib/api/orders';
 import { Link } from 'react-router-dom';
 import { FiPackage, FiBox, FiClock, FiCheckCircle, FiTruck, FiAlertCircle } from 'react-icons/fi';
 
-interface Order {
-  id: number;
-  user_id: string;
-  status: string;
-  total_amount: number;
-  created_at: string;
-  updated_at: string;
-  payment_status: string;
-  shipping_address: any;
-  tracking_number?: string;
-  items_count: number;
-}
-
 const Orders = () => {
   const { user } = useAuth();
-  const [orders, setOrders] = useState<Order[]>([]);
+  const [orders, setOrders] = useState<OrderSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -30,31 +18,14 @@ const Orders = () => {
   }, [user]);
 
   const fetchOrders = async () => {
+    if (!user) return;
+
     try {
       setLoading(true);
       setError(null);
 
       // Get orders with count of items
-      const { data, error } = await supabase
-        .from('orders')
-        .select(`
-          *,
-          items_count:order_items(count)
-        `)
-        .eq('user_id', user?.id)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        throw error;
-      }
-
-      // Format the data to include items_count
-      const formattedData = data.map(order => ({
-        ...order,
-        items_count: order.items_count?.[0]?.count || 0
-      }));
-
-      setOrders(formattedData);
+      setOrders(await fetchOrderList(user.id));
     } catch (error) {
       console.error('Error fetching orders:', error);
       setError('Failed to load your orders. Please try again.');
@@ -193,7 +164,7 @@ const Orders = () => {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                       <Link
-                        to={`/orders/${order.id}`}
+                        to={`/dashboard/orders/${order.id}`}
                         className="text-indigo-600 hover:text-indigo-900"
                       >
                         View
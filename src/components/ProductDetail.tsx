@@ -1,48 +1,28 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { supabase } from '../lib/supabaseClient';
-import { useAuth } from '../context/AuthContext';
-import { FiShoppingCart, FiHeart, FiShare2, FiChevronLeft, FiChevronRight, FiStar, FiCheckCircle } from 'react-icons/fi';
+import { useCart } from '../context/CartContext';
+import { fetchProduct as fetchProductDetails, fetchRelatedProducts } from '../lib/api/products';
+import type { ProductDetails } from '../lib/api/products';
+import { FiShoppingCart, FiShare2, FiChevronLeft, FiChevronRight, FiStar, FiCheckCircle } from 'react-icons/fi';
 import { PLACEHOLDER_IMAGE, getSafeImageUrl } from '../lib/imageUtils';
-
-interface Product {
-  id: number;
-  name: string;
-  description: string;
-  price: number;
-  discount_price?: number;
-  rating?: number;
-  stock_quantity: number;
-  category_id: number;
-  image_url: string;
-  image_urls?: string[];
-  specifications: any;
-  seller_id: string;
-  category: { name: string; id: number; };
-  seller: { email: string; };
-}
-
-interface Review {
-  id: number;
-  product_id: number;
-  user_id: string;
-  rating: number;
-  comment: string;
-  created_at: string;
-  user: { email: string; };
-}
+import { findVariant } from '../lib/variants';
+import type { Product, VariantOptions } from '../lib/types';
+import CategoryBreadcrumbs from './CategoryBreadcrumbs';
+import VariantPicker from './VariantPicker';
+import ProductReviews from './ProductReviews';
+import FavoriteButton from './FavoriteButton';
 
 const ProductDetail = () => {
   const { id } = useParams<{ id: string }>();
-  const { user } = useAuth();
+  const { addToCart: addItemToCart } = useCart();
   const navigate = useNavigate();
   
-  const [product, setProduct] = useState<Product | null>(null);
+  const [product, setProduct] = useState<ProductDetails | null>(null);
   const [relatedProducts, setRelatedProducts] = useState<Product[]>([]);
-  const [reviews, setReviews] = useState<Review[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [quantity, setQuantity] = useState(1);
+  const [selectedOptions, setSelectedOptions] = useState<VariantOptions>({});
   const [activeImage, setActiveImage] = useState(0);
   const [adding, setAdding] = useState(false);
   const [addedToCart, setAddedToCart] = useState(false);
@@ -60,30 +40,18 @@ const ProductDetail = () => {
       setError(null);
 
       // Fetch product details
-      const { data, error } = await supabase
-        .from('products')
-        .select(`
-          *,
-          category:categories(id, name),
-          seller:profiles(email)
-        `)
-        .eq('id', productId)
-        .single();
+      const data = await fetchProductDetails(productId);
 
-      if (error) {
-        throw error;
-      }
+      setProduct(data);
+      setActiveImage(0);
+      setQuantity(1);
 
-      if (data) {
-        setProduct(data);
-        setActiveImage(0);
-        
-        // Fetch related products
-        fetchRelatedProducts(data.category_id);
-        
-        // Fetch reviews
-        fetchReviews(productId);
-      }
+      // Start from the first variant that can be bought
+      const defaultVariant = data.variants.find(variant => variant.stock_quantity > 0) ?? data.variants[0];
+      setSelectedOptions(defaultVariant?.options ?? {});
+      
+      // Fetch related products
+      fetchRelated(data);
     } catch (error) {
       console.error('Error fetching product:', error);
       setError('Failed to load product details.');
@@ -92,108 +60,63 @@ const ProductDetail = () => {
     }
   };
 
-  const fetchRelatedProducts = async (categoryId: number) => {
+  const fetchRelated = async (product: Product) => {
     try {
-      const { data, error } = await supabase
-        .from('products')
-        .select('*')
-        .eq('category_id', categoryId)
-        .neq('id', parseInt(id || '0'))
-        .limit(4);
-
-      if (error) {
-        throw error;
-      }
-
-      setRelatedProducts(data || []);
+      setRelatedProducts(await fetchRelatedProducts(product));
     } catch (error) {
       console.error('Error fetching related products:', error);
     }
   };
 
-  const fetchReviews = async (productId: number) => {
-    try {
-      const { data, error } = await supabase
-        .from('reviews')
-        .select(`
-          *,
-          user:profiles(email)
-        `)
-        .eq('product_id', productId);
+  const refreshRating = async () => {
+    if (!product) return;
 
-      if (error) {
-        throw error;
-      }
-
-      setReviews(data || []);
+    // The average and count are recomputed by the database
+    try {
+      const { avg_rating, review_count } = await fetchProductDetails(product.id);
+      setProduct(prev => prev && { ...prev, avg_rating, review_count });
     } catch (error) {
-      console.error('Error fetching reviews:', error);
+      console.error('Error refreshing rating:', error);
     }
   };
 
   const addToCart = async () => {
-    if (!user || !product) {
-      navigate('/login');
-      return;
-    }
+    if (!product) return;
     
     try {
       setAdding(true);
       
-      // Check if product is already in cart
-      const { data: existingItems, error: checkError } = await supabase
-        .from('cart_items')
-        .select('*')
-        .eq('user_id', user.id)
-        .eq('product_id', product.id);
-      
-      if (checkError) {
-        throw checkError;
-      }
-      
-      if (existingItems && existingItems.length > 0) {
-        // Update quantity
-        const { error: updateError } = await supabase
-          .from('cart_items')
-          .update({ 
-            quantity: existingItems[0].quantity + quantity 
-          })
-          .eq('id', existingItems[0].id);
-          
-        if (updateError) {
-          throw updateError;
-        }
-      } else {
-        // Add new item
-        const { error: insertError } = await supabase
-          .from('cart_items')
-          .insert({
-            user_id: user.id,
-            product_id: product.id,
-            quantity: quantity
-          });
-          
-        if (insertError) {
-          throw insertError;
-        }
-      }
+      await addItemToCart(product.id, quantity, selectedVariant?.id ?? null);
       
       setAddedToCart(true);
       setTimeout(() => setAddedToCart(false), 3000);
     } catch (error) {
       console.error('Error adding to cart:', error);
-      setError('Failed to add product to cart.');
+      // Stock limits from the cart are worth showing as-is
+      alert(error instanceof Error ? error.message : 'Failed to add product to cart.');
     } finally {
       setAdding(false);
     }
   };
 
+  // Products sold in variants are stocked per variant, and can't be bought
+  // until the chosen options match one
+  const selectedVariant = product ? findVariant(product.variants, selectedOptions) : undefined;
+  const availableStock = selectedVariant
+    ? selectedVariant.stock_quantity
+    : product && product.variants.length === 0 ? product.stock_quantity : 0;
+
   const handleQuantityChange = (value: number) => {
     if (value < 1) return;
-    if (product && value > product.stock_quantity) return;
+    if (value > availableStock) return;
     setQuantity(value);
   };
 
+  const handleOptionsChange = (options: VariantOptions) => {
+    setSelectedOptions(options);
+    setQuantity(1);
+  };
+
   const calculateDiscount = (price: number, discountPrice?: number) => {
     if (!discountPrice) return null;
     const discountPercentage = ((price - discountPrice) / price) * 100;
@@ -238,22 +161,7 @@ const ProductDetail = () => {
 
   return (
     <div className="max-w-6xl mx-auto px-4 py-8">
-      {/* Breadcrumb */}
-      <nav className="mb-6">
-        <ol className="flex text-sm">
-          <li>
-            <a href="/" className="text-indigo-600 hover:text-indigo-800">Home</a>
-          </li>
-          <li className="mx-2">/</li>
-          <li>
-            <a href={`/category/${product.category?.id}`} className="text-indigo-600 hover:text-indigo-800">
-              {product.category?.name}
-            </a>
-          </li>
-          <li className="mx-2">/</li>
-          <li className="text-gray-500">{product.name}</li>
-        </ol>
-      </nav>
+      <CategoryBreadcrumbs categoryId={product.category?.id ?? null} current={product.name} />
 
       {/* Success Message */}
       {addedToCart && (
@@ -352,17 +260,19 @@ const ProductDetail = () => {
                 {[...Array(5)].map((_, i) => (
                   <FiStar 
                     key={i} 
-                    className={`w-5 h-5 ${i < (product.rating || 0) ? 'text-yellow-400 fill-current' : 'text-gray-300'}`} 
+                    className={`w-5 h-5 ${i < Math.round(product.avg_rating) ? 'text-yellow-400 fill-current' : 'text-gray-300'}`} 
                   />
                 ))}
               </div>
               <span className="ml-2 text-sm text-gray-600">
-                {reviews.length} {reviews.length === 1 ? 'review' : 'reviews'}
+                {product.review_count} {product.review_count === 1 ? 'review' : 'reviews'}
               </span>
             </div>
             
             <div className="mb-4">
-              {product.discount_price ? (
+              {selectedVariant && selectedVariant.price !== null ? (
+                <span className="text-2xl font-bold text-indigo-600">${selectedVariant.price.toFixed(2)}</span>
+              ) : product.discount_price ? (
                 <div className="flex items-center">
                   <span className="text-2xl font-bold text-indigo-600">${product.discount_price.toFixed(2)}</span>
                   <span className="ml-2 text-lg text-gray-500 line-through">${product.price.toFixed(2)}</span>
@@ -382,6 +292,19 @@ const ProductDetail = () => {
             </div>
             
             <div className="mb-6">
+              {product.variants.length > 0 && (
+                <div className="mb-4">
+                  <VariantPicker
+                    variants={product.variants}
+                    selected={selectedOptions}
+                    onChange={handleOptionsChange}
+                  />
+                  {selectedVariant && (
+                    <p className="mt-2 text-xs text-gray-500">SKU: {selectedVariant.sku}</p>
+                  )}
+                </div>
+              )}
+
               <div className="flex items-center mb-4">
                 <span className="text-gray-700 mr-4">Quantity:</span>
                 <div className="flex items-center border rounded-md">
@@ -396,7 +319,7 @@ const ProductDetail = () => {
                     value={quantity}
                     onChange={(e) => handleQuantityChange(parseInt(e.target.value) || 1)}
                     min="1"
-                    max={product.stock_quantity}
+                    max={availableStock}
                     className="w-12 text-center border-x py-1"
                   />
                   <button
@@ -409,10 +332,12 @@ const ProductDetail = () => {
               </div>
               
               <div className="flex items-center text-sm text-gray-600 mb-4">
-                <span className={product.stock_quantity > 0 ? 'text-green-600' : 'text-red-600'}>
-                  {product.stock_quantity > 0 
-                    ? `In Stock (${product.stock_quantity} available)` 
-                    : 'Out of Stock'}
+                <span className={availableStock > 0 ? 'text-green-600' : 'text-red-600'}>
+                  {availableStock > 0 
+                    ? `In Stock (${availableStock} available)` 
+                    : product.variants.length > 0 && !selectedVariant
+                      ? 'This combination is not available'
+                      : 'Out of Stock'}
                 </span>
               </div>
             </div>
@@ -420,9 +345,9 @@ const ProductDetail = () => {
             <div className="flex space-x-4">
               <button
                 onClick={addToCart}
-                disabled={adding || product.stock_quantity === 0}
+                disabled={adding || availableStock === 0}
                 className={`px-6 py-3 rounded-md flex-1 flex items-center justify-center ${
-                  product.stock_quantity === 0 
+                  availableStock === 0 
                     ? 'bg-gray-300 text-gray-500 cursor-not-allowed' 
                     : 'bg-indigo-600 text-white hover:bg-indigo-700'
                 }`}
@@ -437,9 +362,7 @@ const ProductDetail = () => {
                 )}
               </button>
               
-              <button className="p-3 rounded-md border border-gray-300 text-gray-600 hover:bg-gray-50">
-                <FiHeart />
-              </button>
+              <FavoriteButton productId={product.id} className="p-3 rounded-md border border-gray-300 hover:bg-gray-50" />
               
               <button className="p-3 rounded-md border border-gray-300 text-gray-600 hover:bg-gray-50">
                 <FiShare2 />
@@ -462,39 +385,7 @@ const ProductDetail = () => {
             </div>
           </div>
           
-          {reviews.length > 0 && (
-            <div className="border-t px-6 py-4">
-              <h2 className="text-xl font-semibold mb-4">Customer Reviews</h2>
-              <div className="space-y-4">
-                {reviews.map((review) => (
-                  <div key={review.id} className="border-b pb-4 last:border-b-0">
-                    <div className="flex justify-between mb-2">
-                      <div className="flex items-center">
-                        <div className="bg-indigo-100 rounded-full h-8 w-8 flex items-center justify-center mr-2">
-                          <span className="text-indigo-800 font-semibold text-sm">
-                            {review.user.email.charAt(0).toUpperCase()}
-                          </span>
-                        </div>
-                        <span className="text-sm font-medium">{review.user.email.split('@')[0]}</span>
-                      </div>
-                      <div className="flex items-center">
-                        {[...Array(5)].map((_, i) => (
-                          <FiStar 
-                            key={i} 
-                            className={`w-4 h-4 ${i < review.rating ? 'text-yellow-400 fill-current' : 'text-gray-300'}`} 
-                          />
-                        ))}
-                      </div>
-                    </div>
-                    <p className="text-sm text-gray-700">{review.comment}</p>
-                    <p className="text-xs text-gray-500 mt-1">
-                      {new Date(review.created_at).toLocaleDateString()}
-                    </p>
-                  </div>
-                ))}
-              </div>
-            </div>
-          )}
+          <ProductReviews productId={product.id} onReviewChange={refreshRating} />
         </div>
       </div>
       
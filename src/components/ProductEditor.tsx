@@ -0,0 +1,519 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { fetchCategories, fetchProductVariants, fetchSellerProduct, saveProduct, uploadProductImage } from '../lib/api/products';
+import type { ProductInput } from '../lib/api/products';
+import { FiArrowLeft, FiPlus, FiTrash2, FiUpload, FiX } from 'react-icons/fi';
+import type { Category, ProductVariant } from '../lib/types';
+import VariantEditor from './VariantEditor';
+
+interface SpecificationRow {
+  key: string;
+  value: string;
+}
+
+interface ProductForm {
+  name: string;
+  description: string;
+  price: string;
+  discount_price: string;
+  stock_quantity: string;
+  brand: string;
+  category_id: string;
+  image_urls: string[];
+  specifications: SpecificationRow[];
+}
+
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+const emptyForm: ProductForm = {
+  name: '',
+  description: '',
+  price: '',
+  discount_price: '',
+  stock_quantity: '0',
+  brand: '',
+  category_id: '',
+  image_urls: [],
+  specifications: [],
+};
+
+const ProductEditor = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [form, setForm] = useState<ProductForm>(emptyForm);
+  // Stock of a product sold in variants is the total of its variants' stock
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
+  const [categories, setCategories] = useState<Pick<Category, 'id' | 'name'>[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isEditing = id !== undefined;
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user, id]);
+
+  const fetchData = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      setCategories(await fetchCategories());
+
+      if (!isEditing) {
+        setForm(emptyForm);
+        setVariants([]);
+        return;
+      }
+
+      const [product, productVariants] = await Promise.all([
+        fetchSellerProduct(user.id, Number(id)),
+        fetchProductVariants(Number(id)),
+      ]);
+
+      setVariants(productVariants);
+
+      setForm({
+        name: product.name,
+        description: product.description || '',
+        price: String(product.price),
+        discount_price: product.discount_price !== null ? String(product.discount_price) : '',
+        stock_quantity: String(product.stock_quantity),
+        brand: product.brand || '',
+        category_id: product.category_id ? String(product.category_id) : '',
+        image_urls: product.image_urls?.length
+          ? product.image_urls
+          : product.image_url ? [product.image_url] : [],
+        specifications: Object.entries(product.specifications || {}).map(([key, value]) => ({
+          key,
+          value: String(value),
+        })),
+      });
+    } catch (error) {
+      console.error('Error loading product:', error);
+      setError('Failed to load the product.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSpecificationChange = (index: number, field: keyof SpecificationRow, value: string) => {
+    setForm(prev => ({
+      ...prev,
+      specifications: prev.specifications.map((row, i) =>
+        i === index ? { ...row, [field]: value } : row
+      ),
+    }));
+  };
+
+  const addSpecification = () => {
+    setForm(prev => ({
+      ...prev,
+      specifications: [...prev.specifications, { key: '', value: '' }],
+    }));
+  };
+
+  const removeSpecification = (index: number) => {
+    setForm(prev => ({
+      ...prev,
+      specifications: prev.specifications.filter((_, i) => i !== index),
+    }));
+  };
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (!user || files.length === 0) return;
+
+    try {
+      setUploading(true);
+      setError(null);
+
+      const uploadedUrls: string[] = [];
+
+      for (const file of files) {
+        if (!file.type.startsWith('image/')) {
+          throw new Error(`${file.name} is not an image.`);
+        }
+        if (file.size > MAX_IMAGE_SIZE) {
+          throw new Error(`${file.name} is larger than 5 MB.`);
+        }
+
+        uploadedUrls.push(await uploadProductImage(user.id, file));
+      }
+
+      setForm(prev => ({ ...prev, image_urls: [...prev.image_urls, ...uploadedUrls] }));
+    } catch (error) {
+      console.error('Error uploading images:', error);
+      setError(error instanceof Error ? error.message : 'Failed to upload images.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const removeImage = (url: string) => {
+    // The file is left in storage until the product is saved, so cancelling
+    // the edit doesn't break the live listing
+    setForm(prev => ({ ...prev, image_urls: prev.image_urls.filter(imageUrl => imageUrl !== url) }));
+  };
+
+  const makePrimaryImage = (url: string) => {
+    setForm(prev => ({
+      ...prev,
+      image_urls: [url, ...prev.image_urls.filter(imageUrl => imageUrl !== url)],
+    }));
+  };
+
+  const validate = (): string | null => {
+    const price = Number(form.price);
+    const discountPrice = form.discount_price === '' ? null : Number(form.discount_price);
+    const stockQuantity = Number(form.stock_quantity);
+
+    if (!form.name.trim()) return 'Name is required.';
+    if (!Number.isFinite(price) || price <= 0) return 'Price must be greater than zero.';
+    if (discountPrice !== null && (!Number.isFinite(discountPrice) || discountPrice <= 0 || discountPrice >= price)) {
+      return 'Discount price must be greater than zero and lower than the price.';
+    }
+    if (!Number.isInteger(stockQuantity) || stockQuantity < 0) return 'Stock must be a whole number of zero or more.';
+
+    const keys = form.specifications.map(row => row.key.trim());
+    if (keys.some(key => !key)) return 'Every specification needs a name.';
+    if (new Set(keys).size !== keys.length) return 'Specification names must be unique.';
+
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const productData: ProductInput = {
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        price: Number(form.price),
+        discount_price: form.discount_price === '' ? null : Number(form.discount_price),
+        ...(variants.length > 0 ? {} : { stock_quantity: Number(form.stock_quantity) }),
+        brand: form.brand.trim() || null,
+        category_id: form.category_id ? Number(form.category_id) : null,
+        image_urls: form.image_urls,
+        image_url: form.image_urls[0] ?? null,
+        specifications: Object.fromEntries(
+          form.specifications.map(row => [row.key.trim(), row.value.trim()])
+        ),
+      };
+
+      await saveProduct(user.id, productData, isEditing ? Number(id) : undefined);
+
+      navigate('/dashboard/seller/products');
+    } catch (error) {
+      console.error('Error saving product:', error);
+      setError('Failed to save the product. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const variantStock = variants.reduce((sum, variant) => sum + variant.stock_quantity, 0);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8">
+      <div className="flex items-center mb-6">
+        <Link
+          to="/dashboard/seller/products"
+          className="mr-4 text-indigo-600 hover:text-indigo-800"
+        >
+          <FiArrowLeft className="h-5 w-5" />
+        </Link>
+        <h1 className="text-2xl font-semibold">{isEditing ? 'Edit Product' : 'Add New Product'}</h1>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border-l-4 border-red-500 text-red-700">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {/* Details */}
+        <div className="bg-white rounded-lg shadow-md p-6 space-y-6">
+          <h2 className="text-lg font-medium text-gray-900">Details</h2>
+
+          <div>
+            <label htmlFor="name" className="block text-sm font-medium text-gray-700">Name</label>
+            <input
+              type="text"
+              id="name"
+              name="name"
+              required
+              value={form.name}
+              onChange={handleChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="description" className="block text-sm font-medium text-gray-700">Description</label>
+            <textarea
+              id="description"
+              name="description"
+              rows={4}
+              value={form.description}
+              onChange={handleChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+            <div>
+              <label htmlFor="brand" className="block text-sm font-medium text-gray-700">Brand</label>
+              <input
+                type="text"
+                id="brand"
+                name="brand"
+                value={form.brand}
+                onChange={handleChange}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="category_id" className="block text-sm font-medium text-gray-700">Category</label>
+              <select
+                id="category_id"
+                name="category_id"
+                value={form.category_id}
+                onChange={handleChange}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                <option value="">No category</option>
+                {categories.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        {/* Pricing and Inventory */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-6">Pricing and Inventory</h2>
+
+          <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
+            <div>
+              <label htmlFor="price" className="block text-sm font-medium text-gray-700">Price ($)</label>
+              <input
+                type="number"
+                id="price"
+                name="price"
+                required
+                min="0.01"
+                step="0.01"
+                value={form.price}
+                onChange={handleChange}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="discount_price" className="block text-sm font-medium text-gray-700">Discount Price ($)</label>
+              <input
+                type="number"
+                id="discount_price"
+                name="discount_price"
+                min="0.01"
+                step="0.01"
+                placeholder="None"
+                value={form.discount_price}
+                onChange={handleChange}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="stock_quantity" className="block text-sm font-medium text-gray-700">Stock</label>
+              <input
+                type="number"
+                id="stock_quantity"
+                name="stock_quantity"
+                required
+                min="0"
+                step="1"
+                value={variants.length > 0 ? String(variantStock) : form.stock_quantity}
+                onChange={handleChange}
+                disabled={variants.length > 0}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm disabled:bg-gray-100"
+              />
+              {variants.length > 0 && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Total of {variants.length} variant{variants.length === 1 ? '' : 's'}
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Images */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-medium text-gray-900">Images</h2>
+          <p className="mt-1 text-sm text-gray-500">The first image is shown on product cards.</p>
+
+          <div className="mt-4 grid grid-cols-2 gap-4 sm:grid-cols-4">
+            {form.image_urls.map((url, index) => (
+              <div key={url} className="relative group">
+                <img
+                  src={url}
+                  alt={`Product image ${index + 1}`}
+                  className={`h-32 w-full rounded-md object-cover ${index === 0 ? 'ring-2 ring-indigo-500' : ''}`}
+                />
+                <button
+                  type="button"
+                  onClick={() => removeImage(url)}
+                  className="absolute top-1 right-1 rounded-full bg-white p-1 text-gray-600 shadow hover:text-red-600"
+                  aria-label="Remove image"
+                >
+                  <FiX className="h-4 w-4" />
+                </button>
+                {index > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => makePrimaryImage(url)}
+                    className="absolute bottom-1 left-1 rounded bg-white px-2 py-0.5 text-xs text-gray-700 shadow opacity-0 group-hover:opacity-100"
+                  >
+                    Make primary
+                  </button>
+                )}
+              </div>
+            ))}
+
+            <label className={`flex h-32 cursor-pointer flex-col items-center justify-center rounded-md border-2 border-dashed border-gray-300 text-gray-500 hover:border-indigo-500 hover:text-indigo-600 ${uploading ? 'opacity-50 cursor-not-allowed' : ''}`}>
+              <FiUpload className="h-6 w-6" />
+              <span className="mt-2 text-sm">{uploading ? 'Uploading...' : 'Upload images'}</span>
+              <input
+                type="file"
+                accept="image/*"
+                multiple
+                disabled={uploading}
+                onChange={handleImageUpload}
+                className="sr-only"
+              />
+            </label>
+          </div>
+        </div>
+
+        {/* Variants */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-medium text-gray-900">Variants</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Options the product is sold in, each with its own SKU, stock and optionally its own price.
+          </p>
+
+          {isEditing ? (
+            <VariantEditor productId={Number(id)} variants={variants} onChange={setVariants} />
+          ) : (
+            <p className="mt-4 text-sm text-gray-500">Create the product first, then add its variants here.</p>
+          )}
+        </div>
+
+        {/* Specifications */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-medium text-gray-900">Specifications</h2>
+            <button
+              type="button"
+              onClick={addSpecification}
+              className="inline-flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-800"
+            >
+              <FiPlus className="mr-1" /> Add specification
+            </button>
+          </div>
+
+          {form.specifications.length === 0 ? (
+            <p className="mt-4 text-sm text-gray-500">No specifications yet, e.g. Color: Black.</p>
+          ) : (
+            <div className="mt-4 space-y-3">
+              {form.specifications.map((row, index) => (
+                <div key={index} className="flex items-center gap-3">
+                  <input
+                    type="text"
+                    placeholder="Name"
+                    value={row.key}
+                    onChange={(e) => handleSpecificationChange(index, 'key', e.target.value)}
+                    className="block w-1/3 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    aria-label="Specification name"
+                  />
+                  <input
+                    type="text"
+                    placeholder="Value"
+                    value={row.value}
+                    onChange={(e) => handleSpecificationChange(index, 'value', e.target.value)}
+                    className="block flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    aria-label="Specification value"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removeSpecification(index)}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label="Remove specification"
+                  >
+                    <FiTrash2 className="h-5 w-5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          <Link
+            to="/dashboard/seller/products"
+            className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </Link>
+          <button
+            type="submit"
+            disabled={saving || uploading}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : isEditing ? 'Save Changes' : 'Create Product'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ProductEditor;
\ No newline at end of file
@@ -0,0 +1,301 @@
+import { useState, useEffect } from 'react';
+import { FiStar, FiCheckCircle, FiThumbsUp, FiFlag, FiEyeOff } from 'react-icons/fi';
+import { useAuth } from '../context/AuthContext';
+import {
+  REPORT_REASON_LABELS,
+  REVIEW_SORT_LABELS,
+  fetchHelpfulVotes,
+  fetchProductReviews,
+  reportReview,
+  setHelpfulVote,
+  sortReviews
+} from '../lib/api/reviews';
+import type { ReviewSort, ReviewWithAuthor } from '../lib/api/reviews';
+import { ApiError } from '../lib/api/errors';
+import type { ReviewReportReason } from '../lib/types';
+import ReviewForm from './ReviewForm';
+
+interface ProductReviewsProps {
+  productId: number;
+  /** Called after the user saves or deletes their review, which changes the product's rating */
+  onReviewChange: () => void;
+}
+
+const ProductReviews = ({ productId, onReviewChange }: ProductReviewsProps) => {
+  const { user } = useAuth();
+  const [reviews, setReviews] = useState<ReviewWithAuthor[]>([]);
+  const [helpfulIds, setHelpfulIds] = useState<Set<number>>(new Set());
+  const [sort, setSort] = useState<ReviewSort>('helpful');
+  const [starFilter, setStarFilter] = useState<number | null>(null);
+  const [editingReview, setEditingReview] = useState(false);
+  const [reportingId, setReportingId] = useState<number | null>(null);
+  const [reportReason, setReportReason] = useState<ReviewReportReason>('spam');
+  const [reportedIds, setReportedIds] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    fetchReviews();
+  }, [productId, user]);
+
+  const fetchReviews = async () => {
+    try {
+      const data = await fetchProductReviews(productId);
+      setReviews(data);
+
+      if (user) {
+        setHelpfulIds(await fetchHelpfulVotes(user.id, data.map(review => review.id)));
+      }
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+    }
+  };
+
+  const userReview = user ? reviews.find(review => review.user_id === user.id) ?? null : null;
+
+  // The user's own hidden review stays visible to them but isn't counted
+  const visibleReviews = reviews.filter(review => !review.hidden);
+  const starCounts = [5, 4, 3, 2, 1].map(stars => ({
+    stars,
+    count: visibleReviews.filter(review => review.rating === stars).length,
+  }));
+  const shownReviews = sortReviews(
+    starFilter === null ? reviews : reviews.filter(review => review.rating === starFilter),
+    sort
+  );
+
+  const handleReviewChange = (saved: ReviewWithAuthor | null) => {
+    setEditingReview(false);
+    setReviews(prev => {
+      const others = prev.filter(review => review.user_id !== user?.id);
+      return saved ? [saved, ...others] : others;
+    });
+    onReviewChange();
+  };
+
+  const toggleHelpful = async (review: ReviewWithAuthor) => {
+    if (!user) return;
+
+    const helpful = !helpfulIds.has(review.id);
+
+    try {
+      await setHelpfulVote(user.id, review.id, helpful);
+
+      setHelpfulIds(prev => {
+        const next = new Set(prev);
+        if (helpful) next.add(review.id);
+        else next.delete(review.id);
+        return next;
+      });
+      setReviews(prev => prev.map(r =>
+        r.id === review.id ? { ...r, helpful_count: r.helpful_count + (helpful ? 1 : -1) } : r
+      ));
+    } catch (error) {
+      console.error('Error voting on review:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save your vote.');
+    }
+  };
+
+  const submitReport = async (reviewId: number) => {
+    if (!user) return;
+
+    try {
+      await reportReview(user.id, reviewId, reportReason);
+      setReportedIds(prev => new Set(prev).add(reviewId));
+      setReportingId(null);
+    } catch (error) {
+      if (error instanceof ApiError && error.code === 'conflict') {
+        setReportedIds(prev => new Set(prev).add(reviewId));
+        setReportingId(null);
+        return;
+      }
+
+      console.error('Error reporting review:', error);
+      alert(error instanceof Error ? error.message : 'Failed to report the review.');
+    }
+  };
+
+  return (
+    <div className="border-t px-6 py-4">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Customer Reviews</h2>
+        {user && !editingReview && (
+          <button
+            onClick={() => setEditingReview(true)}
+            className="text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+          >
+            {userReview ? 'Edit your review' : 'Write a review'}
+          </button>
+        )}
+      </div>
+
+      {!user && (
+        <p className="text-sm text-gray-600 mb-4">
+          <a href="/login" className="text-indigo-600 hover:text-indigo-800">Sign in</a> to write a review.
+        </p>
+      )}
+
+      {user && editingReview && (
+        <div className="mb-6">
+          <ReviewForm
+            userId={user.id}
+            productId={productId}
+            review={userReview}
+            onChange={handleReviewChange}
+            onCancel={() => setEditingReview(false)}
+          />
+        </div>
+      )}
+
+      {reviews.length === 0 ? (
+        <p className="text-sm text-gray-500">No reviews yet.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => setStarFilter(null)}
+                className={`px-3 py-1 rounded-full border text-sm ${
+                  starFilter === null ? 'border-indigo-600 bg-indigo-50 text-indigo-700' : 'border-gray-300 text-gray-700'
+                }`}
+              >
+                All
+              </button>
+              {starCounts.map(({ stars, count }) => (
+                <button
+                  key={stars}
+                  onClick={() => setStarFilter(stars)}
+                  disabled={count === 0}
+                  className={`px-3 py-1 rounded-full border text-sm disabled:opacity-40 ${
+                    starFilter === stars ? 'border-indigo-600 bg-indigo-50 text-indigo-700' : 'border-gray-300 text-gray-700'
+                  }`}
+                >
+                  {stars} <FiStar className="inline w-3 h-3 -mt-0.5" /> ({count})
+                </button>
+              ))}
+            </div>
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as ReviewSort)}
+              className="rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+              aria-label="Sort reviews"
+            >
+              {(Object.keys(REVIEW_SORT_LABELS) as ReviewSort[]).map(option => (
+                <option key={option} value={option}>{REVIEW_SORT_LABELS[option]}</option>
+              ))}
+            </select>
+          </div>
+
+          {shownReviews.length === 0 ? (
+            <p className="text-sm text-gray-500">No reviews with this rating.</p>
+          ) : (
+            <div className="space-y-4">
+              {shownReviews.map((review) => (
+                <div key={review.id} className="border-b pb-4 last:border-b-0">
+                  {review.hidden && (
+                    <p className="mb-2 inline-flex items-center text-xs text-red-700">
+                      <FiEyeOff className="w-3 h-3 mr-1" />
+                      Hidden by a moderator. Only you can see this review.
+                    </p>
+                  )}
+                  <div className="flex justify-between mb-2">
+                    <div className="flex items-center">
+                      <div className="bg-indigo-100 rounded-full h-8 w-8 flex items-center justify-center mr-2">
+                        <span className="text-indigo-800 font-semibold text-sm">
+                          {review.user?.email ? review.user.email.charAt(0).toUpperCase() : 'C'}
+                        </span>
+                      </div>
+                      <span className="text-sm font-medium">{review.user?.email ? review.user.email.split('@')[0] : 'Customer'}</span>
+                      {review.verified_purchase && (
+                        <span className="ml-2 inline-flex items-center text-xs text-green-700">
+                          <FiCheckCircle className="w-3 h-3 mr-1" />
+                          Verified purchase
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center">
+                      {[...Array(5)].map((_, i) => (
+                        <FiStar
+                          key={i}
+                          className={`w-4 h-4 ${i < review.rating ? 'text-yellow-400 fill-current' : 'text-gray-300'}`}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                  <p className="text-sm text-gray-700">{review.comment}</p>
+                  {review.photo_urls.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {review.photo_urls.map((url, index) => (
+                        <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                          <img
+                            src={url}
+                            alt={`Review photo ${index + 1}`}
+                            className="h-20 w-20 rounded-md object-cover"
+                            loading="lazy"
+                          />
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                  <div className="mt-2 flex flex-wrap items-center gap-4 text-xs text-gray-500">
+                    <span>
+                      {new Date(review.created_at).toLocaleDateString()}
+                      {review.updated_at && ' (edited)'}
+                    </span>
+                    {user && review.user_id !== user.id ? (
+                      <>
+                        <button
+                          onClick={() => toggleHelpful(review)}
+                          aria-pressed={helpfulIds.has(review.id)}
+                          className={`inline-flex items-center ${helpfulIds.has(review.id) ? 'text-indigo-600' : 'hover:text-gray-700'}`}
+                        >
+                          <FiThumbsUp className="w-3 h-3 mr-1" />
+                          Helpful ({review.helpful_count})
+                        </button>
+                        {reportedIds.has(review.id) ? (
+                          <span>Reported</span>
+                        ) : reportingId === review.id ? (
+                          <span className="inline-flex items-center gap-2">
+                            <select
+                              value={reportReason}
+                              onChange={(e) => setReportReason(e.target.value as ReviewReportReason)}
+                              className="rounded-md border-gray-300 text-xs py-0.5"
+                              aria-label="Reason for reporting"
+                            >
+                              {(Object.keys(REPORT_REASON_LABELS) as ReviewReportReason[]).map(reason => (
+                                <option key={reason} value={reason}>{REPORT_REASON_LABELS[reason]}</option>
+                              ))}
+                            </select>
+                            <button onClick={() => submitReport(review.id)} className="text-red-600 hover:text-red-800">
+                              Report
+                            </button>
+                            <button onClick={() => setReportingId(null)} className="hover:text-gray-700">
+                              Cancel
+                            </button>
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => setReportingId(review.id)}
+                            className="inline-flex items-center hover:text-gray-700"
+                          >
+                            <FiFlag className="w-3 h-3 mr-1" />
+                            Report
+                          </button>
+                        )}
+                      </>
+                    ) : (
+                      <span className="inline-flex items-center">
+                        <FiThumbsUp className="w-3 h-3 mr-1" />
+                        {review.helpful_count} found this helpful
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProductReviews;
\ No newline at end of file
@@ -1,201 +1,409 @@
-import { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
-import { supabase } from '../lib/supabaseClient';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Link, useLocation, useNavigationType, useSearchParams } from 'react-router-dom';
+import {
+  fetchCategories as fetchCategoryList,
+  fetchProductFacets,
+  fetchProducts as fetchProductPage,
+  fetchProductsAfter
+} from '../lib/api/products';
+import type {
+  FacetValue,
+  ProductCursor,
+  ProductFacets,
+  ProductFilters,
+  ProductListItem,
+  ProductSort
+} from '../lib/api/products';
 import { FiFilter, FiGrid, FiList, FiSearch, FiStar, FiChevronDown } from 'react-icons/fi';
 import { PLACEHOLDER_IMAGE, getSafeImageUrl } from '../lib/imageUtils';
+import { buildCategoryTree, flattenCategoryTree } from '../lib/categoryTree';
+import { useCart } from '../context/CartContext';
+import type { Category } from '../lib/types';
+import CategoryBreadcrumbs from './CategoryBreadcrumbs';
+import FavoriteButton from './FavoriteButton';
 
-interface Product {
-  id: number;
-  name: string;
-  description: string;
-  price: number;
-  discount_price?: number;
-  rating?: number;
-  stock_quantity: number;
-  category_id: number;
-  image_url: string;
-  seller_id: string;
-  created_at: string;
-  category: { name: string; id: number; };
-}
+// Everything the listing shows lives in the query string so filtered views
+// can be shared, bookmarked and revisited with the back button.
+//   q, category, sort, min_price, max_price, rating, page, view
+//   paging=scroll   infinite scroll instead of numbered pages
+//   brand           repeated once per selected brand
+//   in_stock=1, on_sale=1
+//   spec.<name>     repeated once per selected value of that specification
+const SPEC_PARAM_PREFIX = 'spec.';
+const SORT_OPTIONS: ProductSort[] = ['relevance', 'newest', 'price-low', 'price-high', 'popular', 'rating'];
+const NO_FACETS: ProductFacets = { brands: [], ratings: [], inStock: 0, onSale: 0, specs: {} };
+
+// The last listing shown, so coming back from a product restores the loaded
+// products and scroll position instead of starting over at the top
+const LISTING_CACHE_KEY = 'productListing';
 
-interface Category {
-  id: number;
-  name: string;
-  image_url?: string;
+interface SavedListing {
+  search: string;
+  products: ProductListItem[];
+  nextCursor: ProductCursor | null;
+  totalPages: number;
+  scrollY: number;
 }
 
+const loadSavedListing = (): SavedListing | null => {
+  try {
+    const stored = sessionStorage.getItem(LISTING_CACHE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error reading saved product listing:', error);
+    return null;
+  }
+};
+
+const saveListing = (listing: SavedListing) => {
+  try {
+    sessionStorage.setItem(LISTING_CACHE_KEY, JSON.stringify(listing));
+  } catch (error) {
+    // Storage full; coming back will just reload the first page
+    console.error('Error saving product listing:', error);
+  }
+};
+
+const parseNumber = (value: string | null) => {
+  if (value === null || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const readFilters = (params: URLSearchParams): ProductFilters => {
+  const specs: Record<string, string[]> = {};
+  params.forEach((value, key) => {
+    if (key.startsWith(SPEC_PARAM_PREFIX)) {
+      (specs[key.slice(SPEC_PARAM_PREFIX.length)] ??= []).push(value);
+    }
+  });
+
+  const sort = params.get('sort') as ProductSort | null;
+
+  return {
+    search: params.get('q') ?? '',
+    categoryId: parseNumber(params.get('category')) ?? null,
+    minPrice: parseNumber(params.get('min_price')),
+    maxPrice: parseNumber(params.get('max_price')),
+    brands: params.getAll('brand'),
+    minRating: parseNumber(params.get('rating')),
+    inStock: params.get('in_stock') === '1',
+    onSale: params.get('on_sale') === '1',
+    specs,
+    sort: sort && SORT_OPTIONS.includes(sort) ? sort : 'relevance'
+  };
+};
+
+const setParam = (params: URLSearchParams, key: string, value: string | null | undefined) => {
+  if (value) {
+    params.set(key, value);
+  } else {
+    params.delete(key);
+  }
+};
+
+const toggleParamValue = (params: URLSearchParams, key: string, value: string) => {
+  const values = params.getAll(key);
+  params.delete(key);
+
+  const nextValues = values.includes(value)
+    ? values.filter(existing => existing !== value)
+    : [...values, value];
+  nextValues.forEach(nextValue => params.append(key, nextValue));
+};
+
+// Selected values stay listed even when the other filters leave them no matches
+const withSelected = (values: FacetValue[], selected: string[]) => [
+  ...values,
+  ...selected
+    .filter(value => !values.some(facetValue => facetValue.value === value))
+    .map(value => ({ value, count: 0 }))
+];
+
 const Products = () => {
-  const [products, setProducts] = useState<Product[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const location = useLocation();
+  const navigationType = useNavigationType();
+  const { addToCart } = useCart();
+  const [products, setProducts] = useState<ProductListItem[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [facets, setFacets] = useState<ProductFacets>(NO_FACETS);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
-  // Filters and pagination
-  const [searchQuery, setSearchQuery] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState<number | null>(null);
-  const [sortOption, setSortOption] = useState('newest');
-  const [priceRange, setPriceRange] = useState<{ min: number; max: number }>({ min: 0, max: 1000 });
-  const [viewType, setViewType] = useState<'grid' | 'list'>('grid');
-  const [currentPage, setCurrentPage] = useState(1);
+  // Filters and pagination come from the URL; the inputs below are drafts
+  // until they are submitted
+  const filters = useMemo(() => readFilters(searchParams), [searchParams]);
+  const filtersKey = JSON.stringify(filters);
+  const currentPage = Math.max(1, parseNumber(searchParams.get('page')) ?? 1);
+  const viewType = searchParams.get('view') === 'list' ? 'list' : 'grid';
+  const pagingMode = searchParams.get('paging') === 'scroll' ? 'scroll' : 'pages';
+  const [searchQuery, setSearchQuery] = useState(filters.search ?? '');
+  const [priceDraft, setPriceDraft] = useState({ min: '', max: '' });
   const [totalPages, setTotalPages] = useState(1);
+  const [nextCursor, setNextCursor] = useState<ProductCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [filtersOpen, setFiltersOpen] = useState(false);
   
   const productsPerPage = 12;
 
   const [imageErrors, setImageErrors] = useState<Record<number, boolean>>({});
+  // Incremented per fetch so a slow response can't overwrite a newer one
+  const latestFetchRef = useRef(0);
+  const restoredRef = useRef(false);
+  const pendingScrollRef = useRef<number | null>(null);
+  const scrollYRef = useRef(0);
+  const listingRef = useRef<SavedListing | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  listingRef.current = loading ? null : {
+    search: location.search,
+    products,
+    nextCursor,
+    totalPages,
+    scrollY: scrollYRef.current
+  };
 
   useEffect(() => {
     fetchCategories();
   }, []);
 
+  // The page may already be shorter by the time the component unmounts, so
+  // track the position as it changes and save the last one on the way out
+  useEffect(() => {
+    const handleScroll = () => {
+      scrollYRef.current = window.scrollY;
+    };
+
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      window.removeEventListener('scroll', handleScroll);
+      if (listingRef.current) {
+        saveListing({ ...listingRef.current, scrollY: scrollYRef.current });
+      }
+    };
+  }, []);
+
   useEffect(() => {
+    if (!restoredRef.current) {
+      restoredRef.current = true;
+
+      const saved = loadSavedListing();
+      if (navigationType === 'POP' && saved?.search === location.search) {
+        setProducts(saved.products);
+        setNextCursor(saved.nextCursor);
+        setTotalPages(saved.totalPages);
+        setLoading(false);
+        pendingScrollRef.current = saved.scrollY;
+        return;
+      }
+    }
+
     fetchProducts();
-  }, [selectedCategory, sortOption, currentPage, searchQuery, priceRange]);
+  }, [filtersKey, currentPage, pagingMode]);
+
+  useEffect(() => {
+    if (!loading && pendingScrollRef.current !== null) {
+      window.scrollTo(0, pendingScrollRef.current);
+      pendingScrollRef.current = null;
+    }
+  }, [loading]);
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    if (pagingMode !== 'scroll' || !nextCursor || !sentinelRef.current) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) {
+          loadMoreProducts();
+        }
+      },
+      { rootMargin: '400px' }
+    );
+
+    observer.observe(sentinelRef.current);
+    return () => observer.disconnect();
+  }, [pagingMode, nextCursor, loading, loadingMore]);
+
+  useEffect(() => {
+    fetchFacets();
+  }, [filtersKey]);
+
+  // Follow the URL when it changes from outside the inputs, e.g. going back
+  useEffect(() => {
+    setSearchQuery(filters.search ?? '');
+    setPriceDraft({
+      min: filters.minPrice?.toString() ?? '',
+      max: filters.maxPrice?.toString() ?? ''
+    });
+  }, [filters.search, filters.minPrice, filters.maxPrice]);
 
   const fetchCategories = async () => {
     try {
-      const { data, error } = await supabase
-        .from('categories')
-        .select('*')
-        .order('name');
-      
-      if (error) {
-        throw error;
-      }
-      
-      setCategories(data || []);
+      setCategories(await fetchCategoryList());
     } catch (error) {
       console.error('Error fetching categories:', error);
     }
   };
 
   const fetchProducts = async () => {
+    const fetchId = ++latestFetchRef.current;
+
     try {
       setLoading(true);
       setError(null);
-      
-      // Build query
-      let query = supabase
-        .from('products')
-        .select(`
-          *,
-          category:categories(id, name)
-        `)
-        .gte('price', priceRange.min)
-        .lte('price', priceRange.max);
-      
-      // Add category filter if selected
-      if (selectedCategory) {
-        query = query.eq('category_id', selectedCategory);
-      }
-      
-      // Add search query if provided
-      if (searchQuery) {
-        query = query.ilike('name', `%${searchQuery}%`);
-      }
-      
-      // Get count for pagination
-      const countQuery = supabase
-        .from('products')
-        .select('*', { count: 'exact' })
-        .gte('price', priceRange.min)
-        .lte('price', priceRange.max);
-      
-      // Apply same filters to count query
-      if (selectedCategory) {
-        countQuery.eq('category_id', selectedCategory);
-      }
-      
-      if (searchQuery) {
-        countQuery.ilike('name', `%${searchQuery}%`);
-      }
-      
-      const { count, error: countError } = await countQuery;
-      
-      if (countError) {
-        throw countError;
-      }
-      
-      setTotalPages(Math.ceil((count || 0) / productsPerPage));
-      
-      // Sort products
-      switch (sortOption) {
-        case 'price-low':
-          query = query.order('price');
-          break;
-        case 'price-high':
-          query = query.order('price', { ascending: false });
-          break;
-        case 'popular':
-          query = query.order('rating', { ascending: false });
-          break;
-        case 'newest':
-        default:
-          query = query.order('created_at', { ascending: false });
-          break;
+
+      if (pagingMode === 'scroll') {
+        const { products, nextCursor } = await fetchProductsAfter(filters, null, productsPerPage);
+        if (fetchId !== latestFetchRef.current) return;
+
+        setProducts(products);
+        setNextCursor(nextCursor);
+        return;
       }
       
-      // Add pagination
-      const from = (currentPage - 1) * productsPerPage;
-      const to = from + productsPerPage - 1;
-      query = query.range(from, to);
-      
-      // Execute query
-      const { data, error } = await query;
+      const { products, count } = await fetchProductPage(
+        filters,
+        { offset: (currentPage - 1) * productsPerPage, limit: productsPerPage }
+      );
+      if (fetchId !== latestFetchRef.current) return;
       
-      if (error) {
-        throw error;
-      }
-      
-      setProducts(data || []);
+      setTotalPages(Math.ceil(count / productsPerPage));
+      setProducts(products);
     } catch (error) {
       console.error('Error fetching products:', error);
       setError('Failed to load products. Please try again.');
     } finally {
-      setLoading(false);
+      if (fetchId === latestFetchRef.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const loadMoreProducts = async () => {
+    if (!nextCursor || loading || loadingMore) return;
+
+    const fetchId = latestFetchRef.current;
+
+    try {
+      setLoadingMore(true);
+
+      const page = await fetchProductsAfter(filters, nextCursor, productsPerPage);
+      if (fetchId !== latestFetchRef.current) return;
+
+      setProducts(prev => [...prev, ...page.products]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more products:', error);
+      setError('Failed to load more products. Please try again.');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const fetchFacets = async () => {
+    try {
+      setFacets(await fetchProductFacets(filters));
+    } catch (error) {
+      console.error('Error fetching filter counts:', error);
     }
   };
 
+  // Every filter change starts over from the first page
+  const updateFilters = (update: (params: URLSearchParams) => void) => {
+    const next = new URLSearchParams(searchParams);
+    update(next);
+    next.delete('page');
+    setSearchParams(next);
+  };
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    setCurrentPage(1);
-    fetchProducts();
+    updateFilters(params => setParam(params, 'q', searchQuery.trim()));
   };
 
   const handleCategoryChange = (categoryId: number | null) => {
-    setSelectedCategory(categoryId);
-    setCurrentPage(1);
+    updateFilters(params => setParam(params, 'category', categoryId?.toString()));
+  };
+
+  const handleSortChange = (option: ProductSort) => {
+    updateFilters(params => setParam(params, 'sort', option === 'relevance' ? null : option));
+  };
+
+  const handlePriceRangeApply = () => {
+    updateFilters(params => {
+      setParam(params, 'min_price', priceDraft.min.trim());
+      setParam(params, 'max_price', priceDraft.max.trim());
+    });
+  };
+
+  const handleBrandToggle = (brand: string) => {
+    updateFilters(params => toggleParamValue(params, 'brand', brand));
+  };
+
+  const handleRatingChange = (minRating: string | null) => {
+    updateFilters(params => setParam(params, 'rating', minRating));
   };
 
-  const handleSortChange = (option: string) => {
-    setSortOption(option);
-    setCurrentPage(1);
+  const handleFlagToggle = (key: 'in_stock' | 'on_sale') => {
+    updateFilters(params => setParam(params, key, params.get(key) === '1' ? null : '1'));
   };
 
-  const handlePriceRangeChange = (min: number, max: number) => {
-    setPriceRange({ min, max });
-    setCurrentPage(1);
+  const handleSpecToggle = (name: string, value: string) => {
+    updateFilters(params => toggleParamValue(params, `${SPEC_PARAM_PREFIX}${name}`, value));
+  };
+
+  const handleClearFilters = () => {
+    updateFilters(params => {
+      [...params.keys()]
+        .filter(key => !['q', 'view', 'paging'].includes(key))
+        .forEach(key => params.delete(key));
+    });
   };
 
   const handlePageChange = (page: number) => {
-    setCurrentPage(page);
+    const next = new URLSearchParams(searchParams);
+    setParam(next, 'page', page > 1 ? page.toString() : null);
+    setSearchParams(next);
     window.scrollTo(0, 0);
   };
 
+  const handleViewChange = (view: 'grid' | 'list') => {
+    const next = new URLSearchParams(searchParams);
+    setParam(next, 'view', view === 'list' ? view : null);
+    setSearchParams(next, { replace: true });
+  };
+
+  const handlePagingChange = (mode: 'pages' | 'scroll') => {
+    const next = new URLSearchParams(searchParams);
+    next.delete('page');
+    setParam(next, 'paging', mode === 'scroll' ? mode : null);
+    setSearchParams(next, { replace: true });
+  };
+
+  const categoryTree = useMemo(() => buildCategoryTree(categories), [categories]);
+
+  const hasActiveFilters = [...searchParams.keys()].some(key => !['q', 'view', 'paging', 'page', 'sort'].includes(key));
+  const specFacets = Object.entries(facets.specs)
+    .map(([name, values]) => [name, withSelected(values, filters.specs?.[name] ?? [])] as const)
+    .filter(([name, values]) => values.length > 1 || (filters.specs?.[name]?.length ?? 0) > 0)
+    .sort(([a], [b]) => a.localeCompare(b));
+
   const toggleFilters = () => {
     setFiltersOpen(!filtersOpen);
   };
 
-  const renderStars = (rating: number = 0) => {
+  const renderStars = (rating: number = 0, reviewCount: number = 0) => {
     return (
-      <div className="flex">
+      <div className="flex items-center">
         {[...Array(5)].map((_, i) => (
           <FiStar 
             key={i} 
-            className={`w-4 h-4 ${i < rating ? 'text-yellow-400 fill-current' : 'text-gray-300'}`} 
+            className={`w-4 h-4 ${i < Math.round(rating) ? 'text-yellow-400 fill-current' : 'text-gray-300'}`} 
           />
         ))}
+        <span className="ml-1 text-xs text-gray-500">({reviewCount})</span>
       </div>
     );
   };
@@ -210,9 +418,24 @@ const Products = () => {
     setImageErrors(prev => ({ ...prev, [productId]: true }));
   };
 
+  const handleAddToCart = async (productId: number) => {
+    try {
+      await addToCart(productId, 1);
+      alert('Product added to cart!');
+    } catch (error) {
+      console.error('Error adding to cart:', error);
+      alert(error instanceof Error ? error.message : 'Failed to add product to cart. Please try again.');
+    }
+  };
+
   return (
     <div className="max-w-7xl mx-auto px-4 py-8">
-      <h1 className="text-2xl font-semibold mb-6">All Products</h1>
+      <CategoryBreadcrumbs categoryId={filters.categoryId ?? null} />
+      <h1 className="text-2xl font-semibold mb-6">
+        {filters.search
+          ? `Results for "${filters.search}"`
+          : categories.find(category => category.id === filters.categoryId)?.name ?? 'All Products'}
+      </h1>
       
       {/* Search and Filters Bar */}
       <div className="bg-white rounded-lg shadow-md p-4 mb-6">
@@ -243,29 +466,46 @@ const Products = () => {
             
             <div className="hidden md:flex items-center space-x-2">
               <button
-                onClick={() => setViewType('grid')}
+                onClick={() => handleViewChange('grid')}
                 className={`p-2 rounded-md ${viewType === 'grid' ? 'bg-indigo-100 text-indigo-600' : 'text-gray-600 hover:bg-gray-100'}`}
               >
                 <FiGrid className="h-5 w-5" />
               </button>
               <button
-                onClick={() => setViewType('list')}
+                onClick={() => handleViewChange('list')}
                 className={`p-2 rounded-md ${viewType === 'list' ? 'bg-indigo-100 text-indigo-600' : 'text-gray-600 hover:bg-gray-100'}`}
               >
                 <FiList className="h-5 w-5" />
               </button>
             </div>
+
+            <div className="relative hidden md:block">
+              <select
+                value={pagingMode}
+                onChange={(e) => handlePagingChange(e.target.value as 'pages' | 'scroll')}
+                className="block appearance-none w-full border border-gray-300 rounded-md py-2 pl-3 pr-10 text-sm focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+              >
+                <option value="pages">Pages</option>
+                <option value="scroll">Infinite scroll</option>
+              </select>
+              <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
+                <FiChevronDown className="h-4 w-4 text-gray-400" />
+              </div>
+            </div>
             
             <div className="relative">
               <select
-                value={sortOption}
-                onChange={(e) => handleSortChange(e.target.value)}
+                value={filters.sort}
+                onChange={(e) => handleSortChange(e.target.value as ProductSort)}
                 className="block appearance-none w-full border border-gray-300 rounded-md py-2 pl-3 pr-10 text-sm focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
               >
+                {/* Without a search, "relevance" falls back to newest, shown as the first option */}
+                {filters.search && <option value="relevance">Best match</option>}
                 <option value="newest">Newest</option>
                 <option value="price-low">Price: Low to High</option>
                 <option value="price-high">Price: High to Low</option>
-                <option value="popular">Popular</option>
+                <option value="popular">Most reviewed</option>
+                <option value="rating">Top rated</option>
               </select>
               <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
                 <FiChevronDown className="h-4 w-4 text-gray-400" />
@@ -283,18 +523,18 @@ const Products = () => {
                   <input
                     id="category-all"
                     type="radio"
-                    checked={selectedCategory === null}
+                    checked={!filters.categoryId}
                     onChange={() => handleCategoryChange(null)}
                     className="h-4 w-4 text-indigo-600 border-gray-300 focus:ring-indigo-500"
                   />
                   <label htmlFor="category-all" className="ml-2 text-sm text-gray-700">All Categories</label>
                 </div>
-                {categories.map((category) => (
-                  <div key={category.id} className="flex items-center">
+                {flattenCategoryTree(categoryTree).map(({ category, depth }) => (
+                  <div key={category.id} className="flex items-center" style={{ paddingLeft: `${depth * 1.25}rem` }}>
                     <input
                       id={`category-${category.id}`}
                       type="radio"
-                      checked={selectedCategory === category.id}
+                      checked={filters.categoryId === category.id}
                       onChange={() => handleCategoryChange(category.id)}
                       className="h-4 w-4 text-indigo-600 border-gray-300 focus:ring-indigo-500"
                     />
@@ -314,8 +554,8 @@ const Products = () => {
                       type="number"
                       id="price-min"
                       placeholder="Min"
-                      value={priceRange.min}
-                      onChange={(e) => handlePriceRangeChange(Number(e.target.value), priceRange.max)}
+                      value={priceDraft.min}
+                      onChange={(e) => setPriceDraft(prev => ({ ...prev, min: e.target.value }))}
                       className="block w-full border border-gray-300 rounded-md py-1.5 px-3 text-sm focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
                     />
                   </div>
@@ -325,20 +565,133 @@ const Products = () => {
                       type="number"
                       id="price-max"
                       placeholder="Max"
-                      value={priceRange.max}
-                      onChange={(e) => handlePriceRangeChange(priceRange.min, Number(e.target.value))}
+                      value={priceDraft.max}
+                      onChange={(e) => setPriceDraft(prev => ({ ...prev, max: e.target.value }))}
                       className="block w-full border border-gray-300 rounded-md py-1.5 px-3 text-sm focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
                     />
                   </div>
                 </div>
                 <button
-                  onClick={() => fetchProducts()}
+                  onClick={handlePriceRangeApply}
                   className="w-full py-1.5 px-3 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700"
                 >
                   Apply
                 </button>
               </div>
             </div>
+
+            {withSelected(facets.brands, filters.brands ?? []).length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Brand</h3>
+                <div className="space-y-2">
+                  {withSelected(facets.brands, filters.brands ?? []).map(({ value, count }) => (
+                    <div key={value} className="flex items-center">
+                      <input
+                        id={`brand-${value}`}
+                        type="checkbox"
+                        checked={filters.brands?.includes(value) ?? false}
+                        onChange={() => handleBrandToggle(value)}
+                        className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                      />
+                      <label htmlFor={`brand-${value}`} className="ml-2 text-sm text-gray-700">{value}</label>
+                      <span className="ml-auto text-xs text-gray-500">{count}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Rating</h3>
+              <div className="space-y-2">
+                <div className="flex items-center">
+                  <input
+                    id="rating-any"
+                    type="radio"
+                    checked={filters.minRating === undefined}
+                    onChange={() => handleRatingChange(null)}
+                    className="h-4 w-4 text-indigo-600 border-gray-300 focus:ring-indigo-500"
+                  />
+                  <label htmlFor="rating-any" className="ml-2 text-sm text-gray-700">Any rating</label>
+                </div>
+                {facets.ratings.map(({ value, count }) => (
+                  <div key={value} className="flex items-center">
+                    <input
+                      id={`rating-${value}`}
+                      type="radio"
+                      checked={filters.minRating === Number(value)}
+                      onChange={() => handleRatingChange(value)}
+                      className="h-4 w-4 text-indigo-600 border-gray-300 focus:ring-indigo-500"
+                    />
+                    <label htmlFor={`rating-${value}`} className="ml-2 flex items-center text-sm text-gray-700">
+                      {renderStars(Number(value))}
+                      <span className="ml-1">&amp; up</span>
+                    </label>
+                    <span className="ml-auto text-xs text-gray-500">{count}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Availability</h3>
+              <div className="space-y-2">
+                <div className="flex items-center">
+                  <input
+                    id="in-stock"
+                    type="checkbox"
+                    checked={filters.inStock ?? false}
+                    onChange={() => handleFlagToggle('in_stock')}
+                    className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                  />
+                  <label htmlFor="in-stock" className="ml-2 text-sm text-gray-700">In stock only</label>
+                  <span className="ml-auto text-xs text-gray-500">{facets.inStock}</span>
+                </div>
+                <div className="flex items-center">
+                  <input
+                    id="on-sale"
+                    type="checkbox"
+                    checked={filters.onSale ?? false}
+                    onChange={() => handleFlagToggle('on_sale')}
+                    className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                  />
+                  <label htmlFor="on-sale" className="ml-2 text-sm text-gray-700">On sale</label>
+                  <span className="ml-auto text-xs text-gray-500">{facets.onSale}</span>
+                </div>
+              </div>
+            </div>
+
+            {specFacets.map(([name, values]) => (
+              <div key={name}>
+                <h3 className="text-sm font-medium text-gray-700 mb-2 capitalize">{name}</h3>
+                <div className="space-y-2">
+                  {values.map(({ value, count }) => (
+                    <div key={value} className="flex items-center">
+                      <input
+                        id={`spec-${name}-${value}`}
+                        type="checkbox"
+                        checked={filters.specs?.[name]?.includes(value) ?? false}
+                        onChange={() => handleSpecToggle(name, value)}
+                        className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                      />
+                      <label htmlFor={`spec-${name}-${value}`} className="ml-2 text-sm text-gray-700">{value}</label>
+                      <span className="ml-auto text-xs text-gray-500">{count}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            {hasActiveFilters && (
+              <div className="md:col-span-3">
+                <button
+                  onClick={handleClearFilters}
+                  className="text-sm text-indigo-600 hover:text-indigo-800"
+                >
+                  Clear all filters
+                </button>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -363,8 +716,9 @@ const Products = () => {
         <div className={viewType === 'grid' ? 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6' : 'space-y-4'}>
           {products.map((product) => (
             viewType === 'grid' ? (
-              <div key={product.id} className="bg-white rounded-lg shadow-md overflow-hidden">
-                <Link to={`/product/${product.id}`}>
+              <div key={product.id} className="bg-white rounded-lg shadow-md overflow-hidden relative">
+                <FavoriteButton productId={product.id} className="absolute top-2 right-2 z-10 p-2 bg-white rounded-full shadow-md" />
+                <Link to={`/products/${product.id}`}>
                   <div className="aspect-w-1 aspect-h-1 bg-gray-200">
                     <img 
                       src={imageErrors[product.id] ? PLACEHOLDER_IMAGE : getSafeImageUrl(product.image_url)} 
@@ -377,10 +731,10 @@ const Products = () => {
                     />
                   </div>
                   <div className="p-4">
-                    <div className="text-xs text-indigo-600 uppercase tracking-wide font-semibold">{product.category.name}</div>
+                    <div className="text-xs text-indigo-600 uppercase tracking-wide font-semibold">{product.category?.name}</div>
                     <h3 className="mt-1 text-sm font-medium text-gray-900 truncate">{product.name}</h3>
                     <div className="mt-1">
-                      {renderStars(product.rating || 0)}
+                      {renderStars(product.avg_rating, product.review_count)}
                     </div>
                     <div className="mt-2 flex justify-between items-center">
                       {product.discount_price ? (
@@ -397,6 +751,14 @@ const Products = () => {
                     </div>
                   </div>
                 </Link>
+                <div className="px-4 pb-4">
+                  <button
+                    onClick={() => handleAddToCart(product.id)}
+                    className="w-full bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors"
+                  >
+                    Add to Cart
+                  </button>
+                </div>
               </div>
             ) : (
               <div key={product.id} className="bg-white rounded-lg shadow-md overflow-hidden">
@@ -413,12 +775,12 @@ const Products = () => {
                     />
                   </div>
                   <div className="p-4 flex-1">
-                    <div className="text-xs text-indigo-600 uppercase tracking-wide font-semibold">{product.category.name}</div>
-                    <Link to={`/product/${product.id}`} className="block mt-1">
+                    <div className="text-xs text-indigo-600 uppercase tracking-wide font-semibold">{product.category?.name}</div>
+                    <Link to={`/products/${product.id}`} className="block mt-1">
                       <h3 className="text-lg font-medium text-gray-900">{product.name}</h3>
                     </Link>
                     <div className="mt-1">
-                      {renderStars(product.rating || 0)}
+                      {renderStars(product.avg_rating, product.review_count)}
                     </div>
                     <p className="mt-2 text-sm text-gray-600 line-clamp-2">{product.description}</p>
                     <div className="mt-4 flex justify-between items-center">
@@ -433,12 +795,15 @@ const Products = () => {
                       ) : (
                         <span className="text-indigo-600 font-bold text-lg">${product.price.toFixed(2)}</span>
                       )}
-                      <Link 
-                        to={`/product/${product.id}`} 
-                        className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
-                      >
-                        View Product
-                      </Link>
+                      <div className="flex items-center space-x-2">
+                        <FavoriteButton productId={product.id} className="p-2 rounded-md border border-gray-300 hover:bg-gray-50" />
+                        <Link 
+                          to={`/products/${product.id}`} 
+                          className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+                        >
+                          View Product
+                        </Link>
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -448,8 +813,21 @@ const Products = () => {
         </div>
       )}
       
+      {/* Infinite scroll */}
+      {pagingMode === 'scroll' && !loading && nextCursor && (
+        <div ref={sentinelRef} className="flex justify-center mt-8">
+          <button
+            onClick={loadMoreProducts}
+            disabled={loadingMore}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
+
       {/* Pagination */}
-      {totalPages > 1 && (
+      {pagingMode === 'pages' && totalPages > 1 && (
         <div className="flex items-center justify-center mt-8">
           <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px">
             <button
@@ -1,23 +1,11 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
+import type { Profile as ProfileInfo } from '../lib/types';
 import { supabase } from '../lib/supabaseClient';
 import { FiEdit, FiSave, FiX, FiUser, FiMail, FiPhone, FiMapPin, FiCalendar } from 'react-icons/fi';
 
-interface ProfileInfo {
-  id: string;
-  email: string;
-  full_name?: string;
-  phone?: string;
-  address?: string;
-  birth_date?: string;
-  avatar_url?: string;
-  role: string;
-}
-
 const Profile = () => {
-  const { user } = useAuth();
-  const [profile, setProfile] = useState<ProfileInfo | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { user, profile, loading, refreshProfile } = useAuth();
   const [editing, setEditing] = useState(false);
   const [formData, setFormData] = useState<Partial<ProfileInfo>>({});
   const [uploadingAvatar, setUploadingAvatar] = useState(false);
@@ -28,37 +16,10 @@ const Profile = () => {
   const [success, setSuccess] = useState<string | null>(null);
 
   useEffect(() => {
-    if (user) {
-      fetchProfile();
-    }
-  }, [user]);
-
-  const fetchProfile = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', user?.id)
-        .single();
-
-      if (error) {
-        throw error;
-      }
-
-      if (data) {
-        setProfile(data);
-        setFormData(data);
-      }
-    } catch (error) {
-      console.error('Error fetching profile:', error);
-      setError('Failed to load profile information.');
-    } finally {
-      setLoading(false);
+    if (profile) {
+      setFormData(profile);
     }
-  };
+  }, [profile]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -86,7 +47,7 @@ const Profile = () => {
       setUploadingAvatar(true);
       
       const fileExt = avatarFile.name.split('.').pop();
-      const fileName = `${user.id}-${Math.random().toString(36).substring(2, 15)}.${fileExt}`;
+      const fileName = `${user.id}/${Math.random().toString(36).substring(2, 15)}.${fileExt}`;
       
       const { error: uploadError, data } = await supabase
         .storage
@@ -115,6 +76,7 @@ const Profile = () => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!user) return;
     
     try {
       setSavingProfile(true);
@@ -139,7 +101,7 @@ const Profile = () => {
           avatar_url: avatarUrl,
           updated_at: new Date().toISOString()
         })
-        .eq('id', user?.id);
+        .eq('id', user.id);
       
       if (updateError) {
         throw updateError;
@@ -147,7 +109,7 @@ const Profile = () => {
       
       setSuccess('Profile updated successfully!');
       setEditing(false);
-      fetchProfile();
+      await refreshProfile();
     } catch (error) {
       console.error('Error updating profile:', error);
       setError('Failed to update profile. Please try again.');
@@ -181,7 +143,7 @@ const Profile = () => {
             <div className="h-20 w-20 md:h-32 md:w-32 rounded-full border-4 border-white overflow-hidden bg-white">
               {(profile?.avatar_url || avatarPreview) ? (
                 <img 
-                  src={avatarPreview || profile?.avatar_url} 
+                  src={avatarPreview || profile?.avatar_url || undefined} 
                   alt="Profile Avatar" 
                   className="h-full w-full object-cover"
                 />
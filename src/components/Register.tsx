@@ -1,14 +1,14 @@
 import { useState } from 'react';
 import { useAuth } from '../context/AuthContext';
+import type { UserRole } from '../lib/types';
 import { useNavigate } from 'react-router-dom';
 
 const Register = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const [role, setRole] = useState('customer');
+  const [role, setRole] = useState<UserRole>('customer');
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const [showVerification, setShowVerification] = useState(false);
   const { signUp } = useAuth();
   const navigate = useNavigate();
 
@@ -23,18 +23,12 @@ const Register = () => {
       setError(null);
       setLoading(true);
       
-      const { error } = await signUp(email, password);
+      const { error } = await signUp(email, password, role);
       
       if (error) {
         throw error;
       }
       
-      // Store role in localStorage to use after email verification
-      localStorage.setItem('pendingUserRole', role);
-      
-      // Show verification message
-      setShowVerification(true);
-      
       // Navigate to verification page
       navigate('/verify-email', { state: { email } });
       
@@ -111,11 +105,10 @@ const Register = () => {
                 name="role"
                 className="appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
                 value={role}
-                onChange={(e) => setRole(e.target.value)}
+                onChange={(e) => setRole(e.target.value as UserRole)}
               >
                 <option value="customer">Customer</option>
                 <option value="seller">Seller</option>
-                <option value="admin">Admin</option>
               </select>
             </div>
           </div>
@@ -0,0 +1,192 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { RETURN_REASON_LABELS, RETURN_STATUS_LABELS, fetchReturnsWithProducts, resolveReturn } from '../lib/api/returns';
+import type { ReturnStatus, ReturnWithProduct } from '../lib/api/returns';
+import { FiRotateCcw } from 'react-icons/fi';
+
+const Returns = () => {
+  const { user, role } = useAuth();
+  const [returns, setReturns] = useState<ReturnWithProduct[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ReturnStatus | 'all'>('requested');
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      fetchReturns();
+    }
+  }, [user, statusFilter]);
+
+  const fetchReturns = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      setReturns(await fetchReturnsWithProducts(statusFilter === 'all' ? undefined : statusFilter));
+    } catch (error) {
+      console.error('Error fetching returns:', error);
+      setError('Failed to load returns. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResolve = async (returnId: number, status: Exclude<ReturnStatus, 'requested'>) => {
+    try {
+      setUpdatingId(returnId);
+      setError(null);
+
+      await resolveReturn(returnId, status);
+      await fetchReturns();
+    } catch (error) {
+      console.error('Error updating return:', error);
+      setError('Failed to update the return. Please try again.');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const getStatusClass = (status: ReturnStatus) => {
+    switch (status) {
+      case 'requested':
+        return 'bg-yellow-100 text-yellow-800';
+      case 'approved':
+        return 'bg-blue-100 text-blue-800';
+      case 'refunded':
+        return 'bg-green-100 text-green-800';
+      case 'rejected':
+        return 'bg-red-100 text-red-800';
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString();
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Returns</h1>
+          <p className="text-sm text-gray-500">
+            {role === 'admin' ? 'Return requests across the store' : 'Return requests for your products'}
+          </p>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as ReturnStatus | 'all')}
+          className="rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+          aria-label="Filter by status"
+        >
+          <option value="all">All returns</option>
+          {(Object.keys(RETURN_STATUS_LABELS) as ReturnStatus[]).map((status) => (
+            <option key={status} value={status}>
+              {RETURN_STATUS_LABELS[status]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border-l-4 border-red-500 text-red-700">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-16">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+        </div>
+      ) : returns.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-md p-8 text-center">
+          <FiRotateCcw className="h-16 w-16 mx-auto text-gray-400 mb-4" />
+          <h2 className="text-xl font-medium text-gray-900 mb-2">No returns</h2>
+          <p className="text-gray-600">There are no return requests to show.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <ul className="divide-y divide-gray-200">
+            {returns.map((returnRequest) => (
+              <li key={returnRequest.id} className="p-6 flex items-start">
+                <div className="flex-shrink-0 w-16 h-16 bg-gray-100 rounded-md overflow-hidden">
+                  {returnRequest.product?.image_url && (
+                    <img
+                      src={returnRequest.product.image_url}
+                      alt={returnRequest.product.name}
+                      className="w-16 h-16 object-cover"
+                    />
+                  )}
+                </div>
+                <div className="ml-4 flex-1">
+                  <div className="flex items-center">
+                    <Link
+                      to={`/products/${returnRequest.product_id}`}
+                      className="text-sm font-medium text-gray-900 hover:text-indigo-600"
+                    >
+                      {returnRequest.product?.name || `Product #${returnRequest.product_id}`}
+                    </Link>
+                    <span className={`ml-3 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusClass(returnRequest.status)}`}>
+                      {RETURN_STATUS_LABELS[returnRequest.status]}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Order #{returnRequest.order_id} &middot; Qty {returnRequest.quantity} &middot; Requested {formatDate(returnRequest.created_at)}
+                  </p>
+                  <p className="mt-2 text-sm text-gray-700">
+                    {RETURN_REASON_LABELS[returnRequest.reason]}
+                  </p>
+                  {returnRequest.details && (
+                    <p className="mt-1 text-sm text-gray-600">{returnRequest.details}</p>
+                  )}
+                </div>
+                <div className="ml-4 text-right">
+                  {returnRequest.order_item && (
+                    <p className="text-sm font-medium text-gray-900">
+                      ${(returnRequest.refund_amount ?? returnRequest.order_item.price_at_time * returnRequest.quantity).toFixed(2)}
+                    </p>
+                  )}
+                  <div className="mt-2 flex justify-end space-x-2">
+                    {returnRequest.status === 'requested' && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => handleResolve(returnRequest.id, 'approved')}
+                          disabled={updatingId === returnRequest.id}
+                          className="px-3 py-1.5 bg-indigo-600 text-white text-sm rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                        >
+                          Approve
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleResolve(returnRequest.id, 'rejected')}
+                          disabled={updatingId === returnRequest.id}
+                          className="px-3 py-1.5 border border-gray-300 text-sm rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          Reject
+                        </button>
+                      </>
+                    )}
+                    {returnRequest.status === 'approved' && (
+                      <button
+                        type="button"
+                        onClick={() => handleResolve(returnRequest.id, 'refunded')}
+                        disabled={updatingId === returnRequest.id}
+                        className="px-3 py-1.5 bg-green-600 text-white text-sm rounded-md hover:bg-green-700 disabled:opacity-50"
+                      >
+                        Mark Refunded
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Returns;
\ No newline at end of file
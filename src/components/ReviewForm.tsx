@@ -0,0 +1,219 @@
+import { useState } from 'react';
+import { FiStar, FiUpload, FiX } from 'react-icons/fi';
+import { MAX_REVIEW_PHOTOS, deleteReview, saveReview, uploadReviewPhoto } from '../lib/api/reviews';
+import type { ReviewWithAuthor } from '../lib/api/reviews';
+import { ApiError } from '../lib/api/errors';
+
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024;
+
+interface ReviewFormProps {
+  userId: string;
+  productId: number;
+  /** The user's review of the product, if they've written one */
+  review: ReviewWithAuthor | null;
+  /** Called after saving or deleting, with the saved review or null */
+  onChange: (review: ReviewWithAuthor | null) => void;
+  onCancel: () => void;
+}
+
+const ReviewForm = ({ userId, productId, review, onChange, onCancel }: ReviewFormProps) => {
+  const [rating, setRating] = useState(review?.rating ?? 0);
+  const [hoverRating, setHoverRating] = useState(0);
+  const [comment, setComment] = useState(review?.comment ?? '');
+  const [photoUrls, setPhotoUrls] = useState<string[]>(review?.photo_urls ?? []);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePhotoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      setUploading(true);
+      setError(null);
+
+      if (photoUrls.length + files.length > MAX_REVIEW_PHOTOS) {
+        throw new Error(`You can add up to ${MAX_REVIEW_PHOTOS} photos.`);
+      }
+
+      const uploadedUrls: string[] = [];
+
+      for (const file of files) {
+        if (!file.type.startsWith('image/')) {
+          throw new Error(`${file.name} is not an image.`);
+        }
+        if (file.size > MAX_PHOTO_SIZE) {
+          throw new Error(`${file.name} is larger than 5 MB.`);
+        }
+
+        uploadedUrls.push(await uploadReviewPhoto(userId, file));
+      }
+
+      setPhotoUrls(prev => [...prev, ...uploadedUrls]);
+    } catch (error) {
+      console.error('Error uploading photos:', error);
+      setError(error instanceof Error ? error.message : 'Failed to upload photos.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (rating < 1) {
+      setError('Please choose a rating.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const saved = await saveReview(
+        userId,
+        productId,
+        { rating, comment: comment.trim() || null, photo_urls: photoUrls },
+        review?.id
+      );
+      onChange(saved);
+    } catch (error) {
+      console.error('Error saving review:', error);
+      setError(
+        error instanceof ApiError && error.code === 'conflict'
+          ? 'You have already reviewed this product.'
+          : error instanceof Error ? error.message : 'Failed to save review.'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!review || !window.confirm('Delete your review?')) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      await deleteReview(userId, review.id);
+      onChange(null);
+    } catch (error) {
+      console.error('Error deleting review:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete review.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 bg-gray-50 rounded-lg p-4">
+      {error && (
+        <div className="bg-red-50 text-red-700 p-3 rounded-md text-sm">{error}</div>
+      )}
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 mb-1">Your rating</span>
+        <div className="flex items-center" role="radiogroup" aria-label="Rating" onMouseLeave={() => setHoverRating(0)}>
+          {[1, 2, 3, 4, 5].map(value => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              aria-checked={rating === value}
+              aria-label={`${value} ${value === 1 ? 'star' : 'stars'}`}
+              onClick={() => setRating(value)}
+              onMouseEnter={() => setHoverRating(value)}
+              className="p-1"
+            >
+              <FiStar
+                className={`w-6 h-6 ${value <= (hoverRating || rating) ? 'text-yellow-400 fill-current' : 'text-gray-300'}`}
+              />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="review-comment" className="block text-sm font-medium text-gray-700 mb-1">
+          Your review
+        </label>
+        <textarea
+          id="review-comment"
+          rows={4}
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="What did you like or dislike?"
+          className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 mb-1">
+          Photos <span className="font-normal text-gray-500">(up to {MAX_REVIEW_PHOTOS})</span>
+        </span>
+        <div className="flex flex-wrap gap-2">
+          {photoUrls.map((url, index) => (
+            <div key={url} className="relative">
+              <img src={url} alt={`Review photo ${index + 1}`} className="h-20 w-20 rounded-md object-cover" />
+              <button
+                type="button"
+                onClick={() => setPhotoUrls(prev => prev.filter(photoUrl => photoUrl !== url))}
+                className="absolute top-1 right-1 rounded-full bg-white p-1 text-gray-600 shadow hover:text-red-600"
+                aria-label="Remove photo"
+              >
+                <FiX className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+
+          {photoUrls.length < MAX_REVIEW_PHOTOS && (
+            <label className={`flex h-20 w-20 cursor-pointer flex-col items-center justify-center rounded-md border-2 border-dashed border-gray-300 text-gray-500 hover:border-indigo-500 hover:text-indigo-600 ${uploading ? 'opacity-50 cursor-not-allowed' : ''}`}>
+              <FiUpload className="h-5 w-5" />
+              <span className="mt-1 text-xs">{uploading ? 'Uploading...' : 'Add'}</span>
+              <input
+                type="file"
+                accept="image/*"
+                multiple
+                disabled={uploading}
+                onChange={handlePhotoUpload}
+                className="sr-only"
+              />
+            </label>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          type="submit"
+          disabled={saving || uploading}
+          className="bg-indigo-600 text-white px-4 py-2 rounded-md text-sm hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : review ? 'Update review' : 'Submit review'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={saving}
+          className="px-4 py-2 rounded-md text-sm text-gray-700 hover:bg-gray-100"
+        >
+          Cancel
+        </button>
+        {review && (
+          <button
+            type="button"
+            onClick={handleDelete}
+            disabled={saving}
+            className="ml-auto px-4 py-2 rounded-md text-sm text-red-600 hover:bg-red-50"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default ReviewForm;
\ No newline at end of file
@@ -0,0 +1,193 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { REPORT_REASON_LABELS, fetchModerationQueue, moderateReview } from '../lib/api/reviews';
+import type { ModerationQueue, ModerationReview } from '../lib/api/reviews';
+import { FiFlag, FiStar } from 'react-icons/fi';
+
+const QUEUE_LABELS: Record<ModerationQueue, string> = {
+  reported: 'Reported',
+  hidden: 'Hidden',
+};
+
+const ReviewModeration = () => {
+  const { user } = useAuth();
+  const [queue, setQueue] = useState<ModerationQueue>('reported');
+  const [reviews, setReviews] = useState<ModerationReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      fetchReviews();
+    }
+  }, [user, queue]);
+
+  const fetchReviews = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      setReviews(await fetchModerationQueue(queue));
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+      setError('Failed to load reviews. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleModerate = async (reviewId: number, hidden: boolean) => {
+    try {
+      setUpdatingId(reviewId);
+      setError(null);
+
+      await moderateReview(reviewId, hidden);
+      await fetchReviews();
+    } catch (error) {
+      console.error('Error moderating review:', error);
+      setError('Failed to update the review. Please try again.');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString();
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Review Moderation</h1>
+          <p className="text-sm text-gray-500">
+            Hide reviews that break the rules, or restore ones that were reported by mistake
+          </p>
+        </div>
+        <div className="flex rounded-md shadow-sm" role="group">
+          {(Object.keys(QUEUE_LABELS) as ModerationQueue[]).map((option, index) => (
+            <button
+              key={option}
+              onClick={() => setQueue(option)}
+              className={`px-4 py-2 text-sm font-medium border border-gray-300 ${
+                index === 0 ? 'rounded-l-md' : '-ml-px rounded-r-md'
+              } ${queue === option ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              {QUEUE_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border-l-4 border-red-500 text-red-700">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-16">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+        </div>
+      ) : reviews.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-md p-8 text-center">
+          <FiFlag className="h-16 w-16 mx-auto text-gray-400 mb-4" />
+          <h2 className="text-xl font-medium text-gray-900 mb-2">Nothing to review</h2>
+          <p className="text-gray-600">
+            {queue === 'reported' ? 'There are no open reports.' : 'No reviews have been hidden.'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <ul className="divide-y divide-gray-200">
+            {reviews.map((review) => (
+              <li key={review.id} className="p-6 flex items-start">
+                <div className="flex-1">
+                  <div className="flex items-center">
+                    <Link
+                      to={`/products/${review.product_id}`}
+                      className="text-sm font-medium text-gray-900 hover:text-indigo-600"
+                    >
+                      {review.product?.name || `Product #${review.product_id}`}
+                    </Link>
+                    <span className="ml-3 flex items-center">
+                      {[...Array(5)].map((_, i) => (
+                        <FiStar
+                          key={i}
+                          className={`w-4 h-4 ${i < review.rating ? 'text-yellow-400 fill-current' : 'text-gray-300'}`}
+                        />
+                      ))}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-sm text-gray-500">
+                    {review.user?.email || 'Unknown reviewer'} &middot; Written {formatDate(review.created_at)}
+                    {review.hidden_at && <> &middot; Hidden {formatDate(review.hidden_at)}</>}
+                  </p>
+                  {review.comment && (
+                    <p className="mt-2 text-sm text-gray-700">{review.comment}</p>
+                  )}
+                  {review.photo_urls.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {review.photo_urls.map((url, index) => (
+                        <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                          <img src={url} alt={`Review photo ${index + 1}`} className="h-16 w-16 rounded-md object-cover" />
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                  {review.reports.length > 0 && (
+                    <ul className="mt-3 space-y-1">
+                      {review.reports.map((report) => (
+                        <li key={report.id} className="text-sm text-red-700">
+                          <FiFlag className="inline w-3 h-3 mr-1 -mt-0.5" />
+                          {REPORT_REASON_LABELS[report.reason]}
+                          {report.details && <span className="text-gray-600">: {report.details}</span>}
+                          <span className="ml-2 text-xs text-gray-500">
+                            {formatDate(report.created_at)}
+                            {report.resolved_at && ' (resolved)'}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                <div className="ml-4 flex space-x-2">
+                  {review.hidden ? (
+                    <button
+                      onClick={() => handleModerate(review.id, false)}
+                      disabled={updatingId === review.id}
+                      className="px-3 py-1 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Restore
+                    </button>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => handleModerate(review.id, false)}
+                        disabled={updatingId === review.id}
+                        className="px-3 py-1 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Keep
+                      </button>
+                      <button
+                        onClick={() => handleModerate(review.id, true)}
+                        disabled={updatingId === review.id}
+                        className="px-3 py-1 text-sm rounded-md bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+                      >
+                        Hide
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewModeration;
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { Navigate } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import type { UserRole } from '../lib/types';
+import Forbidden from './Forbidden';
+
+interface RoleRouteProps {
+  roles: UserRole[];
+  children: React.ReactNode;
+}
+
+const RoleRoute = ({ roles, children }: RoleRouteProps) => {
+  const { user, role, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/login" />;
+  }
+
+  if (!role || !roles.includes(role)) {
+    return <Forbidden />;
+  }
+
+  return <>{children}</>;
+};
+
+export default RoleRoute;
\ No newline at end of file
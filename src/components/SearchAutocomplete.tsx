@@ -0,0 +1,277 @@
+import { useEffect, useId, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { FiClock, FiGrid } from 'react-icons/fi';
+import { useAuth } from '../context/AuthContext';
+import { fetchSearchSuggestions } from '../lib/api/products';
+import type { SearchSuggestions } from '../lib/api/products';
+import { getSafeImageUrl, PLACEHOLDER_IMAGE } from '../lib/imageUtils';
+import { addRecentSearch, clearRecentSearches, loadRecentSearches } from '../lib/recentSearches';
+
+interface SearchAutocompleteProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSearch: (search: string) => void;
+  placeholder?: string;
+  className?: string;
+  inputClassName?: string;
+}
+
+type Suggestion =
+  | { type: 'recent'; search: string }
+  | { type: 'category'; category: SearchSuggestions['categories'][number] }
+  | { type: 'product'; product: SearchSuggestions['products'][number] };
+
+const SUGGESTION_DELAY_MS = 250;
+const NO_SUGGESTIONS: SearchSuggestions = { products: [], categories: [] };
+
+const SECTION_TITLES: Record<Suggestion['type'], string> = {
+  recent: 'Recent searches',
+  category: 'Categories',
+  product: 'Products'
+};
+
+/**
+ * Search box that suggests products and categories as the user types, and
+ * their recent searches while it is empty. The suggestions open below the
+ * nearest positioned ancestor, so render it inside one.
+ */
+const SearchAutocomplete = ({
+  value,
+  onChange,
+  onSearch,
+  placeholder = 'Search products...',
+  className = '',
+  inputClassName = ''
+}: SearchAutocompleteProps) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const listId = useId();
+  const [suggestions, setSuggestions] = useState<SearchSuggestions>(NO_SUGGESTIONS);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  // Incremented per fetch so a slow response can't overwrite a newer one
+  const latestFetchRef = useRef(0);
+  const userId = user?.id ?? null;
+
+  useEffect(() => {
+    setRecentSearches(loadRecentSearches(userId));
+  }, [userId]);
+
+  useEffect(() => {
+    const search = value.trim();
+    const fetchId = ++latestFetchRef.current;
+    setActiveIndex(-1);
+
+    if (!search) {
+      setSuggestions(NO_SUGGESTIONS);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const result = await fetchSearchSuggestions(search);
+        if (fetchId === latestFetchRef.current) {
+          setSuggestions(result);
+        }
+      } catch (error) {
+        console.error('Error loading search suggestions:', error);
+      } finally {
+        if (fetchId === latestFetchRef.current) {
+          setLoading(false);
+        }
+      }
+    }, SUGGESTION_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [value]);
+
+  const options: Suggestion[] = value.trim()
+    ? [
+        ...suggestions.categories.map(category => ({ type: 'category' as const, category })),
+        ...suggestions.products.map(product => ({ type: 'product' as const, product }))
+      ]
+    : recentSearches.map(search => ({ type: 'recent' as const, search }));
+
+  const close = () => {
+    setOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const submit = (search: string) => {
+    const trimmed = search.trim();
+    if (!trimmed) return;
+
+    setRecentSearches(addRecentSearch(userId, trimmed));
+    close();
+    onSearch(trimmed);
+  };
+
+  const select = (option: Suggestion) => {
+    switch (option.type) {
+      case 'recent':
+        onChange(option.search);
+        submit(option.search);
+        break;
+      case 'category':
+        close();
+        navigate(`/products?category=${option.category.id}`);
+        break;
+      case 'product':
+        setRecentSearches(addRecentSearch(userId, value));
+        close();
+        navigate(`/products/${option.product.id}`);
+        break;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setOpen(true);
+        if (options.length > 0) {
+          setActiveIndex(index => (index + 1) % options.length);
+        }
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setOpen(true);
+        if (options.length > 0) {
+          setActiveIndex(index => (index <= 0 ? options.length - 1 : index - 1));
+        }
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (open && options[activeIndex]) {
+          select(options[activeIndex]);
+        } else {
+          submit(value);
+        }
+        break;
+      case 'Escape':
+        close();
+        break;
+    }
+  };
+
+  const handleClearRecent = () => {
+    clearRecentSearches(userId);
+    setRecentSearches([]);
+  };
+
+  const optionId = (index: number) => `${listId}-option-${index}`;
+  const showNoMatches = value.trim() !== '' && !loading && options.length === 0;
+  const showList = open && (options.length > 0 || showNoMatches);
+
+  const renderOption = (option: Suggestion) => {
+    switch (option.type) {
+      case 'recent':
+        return (
+          <>
+            <FiClock className="h-4 w-4 text-gray-400 flex-shrink-0" />
+            <span className="ml-3 truncate">{option.search}</span>
+          </>
+        );
+      case 'category':
+        return (
+          <>
+            <FiGrid className="h-4 w-4 text-gray-400 flex-shrink-0" />
+            <span className="ml-3 truncate">{option.category.name}</span>
+          </>
+        );
+      case 'product': {
+        const { product } = option;
+        return (
+          <>
+            <img
+              src={getSafeImageUrl(product.image_url)}
+              alt=""
+              className="h-10 w-10 rounded object-cover flex-shrink-0"
+              onError={(e) => {
+                e.currentTarget.src = PLACEHOLDER_IMAGE;
+              }}
+            />
+            <span className="ml-3 flex-1 truncate">{product.name}</span>
+            <span className="ml-3 text-gray-500">
+              ${(product.discount_price ?? product.price).toFixed(2)}
+            </span>
+          </>
+        );
+      }
+    }
+  };
+
+  return (
+    <div className={className}>
+      <input
+        type="text"
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={activeIndex >= 0 ? optionId(activeIndex) : undefined}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={close}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        className={inputClassName}
+      />
+
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute left-0 right-0 z-20 mt-1 max-h-96 overflow-y-auto rounded-md bg-white py-1 text-sm text-gray-900 shadow-lg ring-1 ring-black ring-opacity-5"
+        >
+          {showNoMatches && (
+            <li className="px-4 py-2 text-gray-500">No matches for "{value.trim()}"</li>
+          )}
+          {options.map((option, index) => (
+            <li key={`${option.type}-${index}`} role="presentation">
+              {option.type !== options[index - 1]?.type && (
+                <div className="flex items-center justify-between px-4 pt-2 pb-1 text-xs font-medium uppercase text-gray-500">
+                  <span>{SECTION_TITLES[option.type]}</span>
+                  {option.type === 'recent' && (
+                    <button
+                      type="button"
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={handleClearRecent}
+                      className="normal-case text-indigo-600 hover:text-indigo-800"
+                    >
+                      Clear
+                    </button>
+                  )}
+                </div>
+              )}
+              <div
+                id={optionId(index)}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep focus in the input so blur doesn't close the list before the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => select(option)}
+                className={`flex items-center px-4 py-2 cursor-pointer ${
+                  index === activeIndex ? 'bg-indigo-50 text-indigo-700' : ''
+                }`}
+              >
+                {renderOption(option)}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchAutocomplete;
\ No newline at end of file
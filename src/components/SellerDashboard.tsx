@@ -1,6 +1,12 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../lib/supabaseClient';
+import { fetchSellerSales, transitionOrderStatus } from '../lib/api/orders';
+import type { SellerOrder } from '../lib/api/orders';
+import { fetchSellerProducts } from '../lib/api/products';
+import type { ProductListItem } from '../lib/api/products';
+import { ORDER_STATUS_LABELS, getNextStatuses, isOrderStatus } from '../lib/orderStatus';
+import type { OrderStatus } from '../lib/orderStatus';
 import { FiShoppingBag, FiDollarSign, FiPackage, FiTrendingUp, FiPlus } from 'react-icons/fi';
 
 interface SellerStats {
@@ -10,29 +16,6 @@ interface SellerStats {
   pendingOrders: number;
 }
 
-interface Product {
-  id: number;
-  name: string;
-  price: number;
-  discount_price?: number;
-  stock_quantity: number;
-  image_url: string;
-  created_at: string;
-  category: {
-    name: string;
-  };
-}
-
-interface Order {
-  id: number;
-  total_amount: number;
-  status: string;
-  created_at: string;
-  customer: {
-    email: string;
-  };
-}
-
 const SellerDashboard = () => {
   const { user } = useAuth();
   const [stats, setStats] = useState<SellerStats>({
@@ -41,8 +24,8 @@ const SellerDashboard = () => {
     totalRevenue: 0,
     pendingOrders: 0
   });
-  const [recentProducts, setRecentProducts] = useState<Product[]>([]);
-  const [recentOrders, setRecentOrders] = useState<Order[]>([]);
+  const [recentProducts, setRecentProducts] = useState<ProductListItem[]>([]);
+  const [recentOrders, setRecentOrders] = useState<SellerOrder[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -53,90 +36,21 @@ const SellerDashboard = () => {
   }, [user]);
 
   const fetchSellerData = async () => {
+    if (!user) return;
+
     try {
       setLoading(true);
       setError(null);
 
-      // Fetch seller stats
-      const { data: productsData, error: productsError } = await supabase
-        .from('products')
-        .select('id')
-        .eq('seller_id', user?.id);
-
-      if (productsError) throw productsError;
-
-      const productIds = productsData.map(product => product.id);
-      
-      // If no products, set empty stats
-      if (productIds.length === 0) {
-        setStats({
-          totalProducts: 0,
-          totalOrders: 0,
-          totalRevenue: 0,
-          pendingOrders: 0
-        });
-        setRecentProducts([]);
-        setRecentOrders([]);
-        setLoading(false);
-        return;
-      }
-
-      // Fetch orders containing seller's products
-      const { data: orderItemsData, error: orderItemsError } = await supabase
-        .from('order_items')
-        .select('order_id, price, quantity')
-        .in('product_id', productIds);
-
-      if (orderItemsError) throw orderItemsError;
-
-      const orderIds = [...new Set(orderItemsData.map(item => item.order_id))];
-      
-      // Calculate revenue
-      const totalRevenue = orderItemsData.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+      // Fetch seller stats and recent products
+      const [sales, recentProductsData] = await Promise.all([
+        fetchSellerSales(user.id),
+        fetchSellerProducts(user.id, 5)
+      ]);
 
-      // Fetch pending orders
-      const { data: pendingOrdersData, error: pendingOrdersError } = await supabase
-        .from('orders')
-        .select('id')
-        .in('id', orderIds)
-        .eq('status', 'pending');
-
-      if (pendingOrdersError) throw pendingOrdersError;
-
-      // Fetch recent products
-      const { data: recentProductsData, error: recentProductsError } = await supabase
-        .from('products')
-        .select(`
-          id, name, price, discount_price, stock_quantity, image_url, created_at,
-          category:categories(name)
-        `)
-        .eq('seller_id', user?.id)
-        .order('created_at', { ascending: false })
-        .limit(5);
-
-      if (recentProductsError) throw recentProductsError;
-
-      // Fetch recent orders
-      const { data: recentOrdersData, error: recentOrdersError } = await supabase
-        .from('orders')
-        .select(`
-          id, total_amount, status, created_at,
-          customer:profiles(email)
-        `)
-        .in('id', orderIds)
-        .order('created_at', { ascending: false })
-        .limit(5);
-
-      if (recentOrdersError) throw recentOrdersError;
-
-      // Set stats and data
-      setStats({
-        totalProducts: productsData.length,
-        totalOrders: orderIds.length,
-        totalRevenue,
-        pendingOrders: pendingOrdersData.length
-      });
+      const { recentOrders: recentOrdersData, ...salesStats } = sales;
 
+      setStats(salesStats);
       setRecentProducts(recentProductsData);
       setRecentOrders(recentOrdersData);
 
@@ -148,6 +62,18 @@ const SellerDashboard = () => {
     }
   };
 
+  const handleStatusChange = async (order: SellerOrder, status: OrderStatus) => {
+    if (!isOrderStatus(order.status)) return;
+
+    try {
+      await transitionOrderStatus(order.id, order.status, status);
+      await fetchSellerData();
+    } catch (error) {
+      console.error('Error updating order status:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update order status.');
+    }
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -171,9 +97,12 @@ const SellerDashboard = () => {
     <div className="max-w-7xl mx-auto px-4 py-8">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-semibold">Seller Dashboard</h1>
-        <button className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 flex items-center">
+        <Link
+          to="/dashboard/seller/products/new"
+          className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 flex items-center"
+        >
           <FiPlus className="mr-2" /> Add New Product
-        </button>
+        </Link>
       </div>
       
       {error && (
@@ -278,7 +207,12 @@ const SellerDashboard = () => {
                           />
                         </div>
                         <div className="ml-4">
-                          <div className="text-sm font-medium text-gray-900">{product.name}</div>
+                          <Link
+                            to={`/dashboard/seller/products/${product.id}/edit`}
+                            className="text-sm font-medium text-gray-900 hover:text-indigo-600"
+                          >
+                            {product.name}
+                          </Link>
                         </div>
                       </div>
                     </td>
@@ -316,9 +250,9 @@ const SellerDashboard = () => {
         
         {recentProducts.length > 0 && (
           <div className="px-6 py-4 border-t">
-            <a href="/seller/products" className="text-sm font-medium text-indigo-600 hover:text-indigo-500">
+            <Link to="/dashboard/seller/products" className="text-sm font-medium text-indigo-600 hover:text-indigo-500">
               View all products
-            </a>
+            </Link>
           </div>
         )}
       </div>
@@ -369,13 +303,28 @@ const SellerDashboard = () => {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                        order.status === 'completed' ? 'bg-green-100 text-green-800' :
-                        order.status === 'processing' ? 'bg-blue-100 text-blue-800' :
+                        order.status === 'delivered' ? 'bg-green-100 text-green-800' :
+                        order.status === 'processing' || order.status === 'shipped' ? 'bg-blue-100 text-blue-800' :
                         order.status === 'cancelled' ? 'bg-red-100 text-red-800' :
                         'bg-yellow-100 text-yellow-800'
                       }`}>
                         {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
                       </span>
+                      {getNextStatuses(order.status, order.payment_status).length > 0 && (
+                        <select
+                          value=""
+                          onChange={(e) => handleStatusChange(order, e.target.value as OrderStatus)}
+                          className="ml-2 rounded-md border-gray-300 py-0 text-xs focus:border-indigo-500 focus:ring-indigo-500"
+                          aria-label={`Update status of order #${order.id}`}
+                        >
+                          <option value="" disabled>Update…</option>
+                          {getNextStatuses(order.status, order.payment_status).map((status) => (
+                            <option key={status} value={status}>
+                              {ORDER_STATUS_LABELS[status]}
+                            </option>
+                          ))}
+                        </select>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {formatDate(order.created_at)}
@@ -0,0 +1,222 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { isApiError } from '../lib/api/errors';
+import { deleteProduct, fetchSellerProducts, setProductArchived } from '../lib/api/products';
+import type { ProductListItem } from '../lib/api/products';
+import { FiArchive, FiEdit2, FiPackage, FiPlus, FiTrash2 } from 'react-icons/fi';
+
+const SellerProducts = () => {
+  const { user } = useAuth();
+  const [products, setProducts] = useState<ProductListItem[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      fetchProducts();
+    }
+  }, [user]);
+
+  const fetchProducts = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      setProducts(await fetchSellerProducts(user.id));
+    } catch (error) {
+      console.error('Error fetching products:', error);
+      setError('Failed to load your products. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleArchive = async (product: ProductListItem) => {
+    if (!user) return;
+
+    try {
+      setUpdatingId(product.id);
+      setError(null);
+
+      await setProductArchived(user.id, product.id, !product.archived);
+
+      setProducts(prev =>
+        prev.map(p => (p.id === product.id ? { ...p, archived: !product.archived } : p))
+      );
+    } catch (error) {
+      console.error('Error archiving product:', error);
+      setError('Failed to update the product. Please try again.');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleDelete = async (product: ProductListItem) => {
+    if (!user) return;
+    if (!window.confirm(`Delete "${product.name}"? This cannot be undone.`)) return;
+
+    try {
+      setUpdatingId(product.id);
+      setError(null);
+
+      await deleteProduct(user.id, product.id);
+
+      setProducts(prev => prev.filter(p => p.id !== product.id));
+    } catch (error) {
+      console.error('Error deleting product:', error);
+      // Order items keep a foreign key to the product
+      if (isApiError(error, 'in_use')) {
+        setError(`"${product.name}" has already been ordered and can't be deleted. Archive it to hide it from the store instead.`);
+      } else {
+        setError('Failed to delete the product. Please try again.');
+      }
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const visibleProducts = showArchived ? products : products.filter(p => !p.archived);
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold">My Products</h1>
+          <p className="text-sm text-gray-500">Create, edit and archive the products you sell</p>
+        </div>
+        <div className="flex items-center space-x-4">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showArchived}
+              onChange={(e) => setShowArchived(e.target.checked)}
+              className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Show archived
+          </label>
+          <Link
+            to="/dashboard/seller/products/new"
+            className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700"
+          >
+            <FiPlus className="mr-2" />
+            Add New Product
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border-l-4 border-red-500 text-red-700">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-16">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+        </div>
+      ) : visibleProducts.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-md p-8 text-center">
+          <FiPackage className="h-16 w-16 mx-auto text-gray-400 mb-4" />
+          <h2 className="text-xl font-medium text-gray-900 mb-2">No products yet</h2>
+          <p className="text-gray-600">Add your first product to start selling.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stock</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleProducts.map((product) => (
+                <tr key={product.id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="flex items-center">
+                      <div className="flex-shrink-0 h-10 w-10 bg-gray-100 rounded overflow-hidden">
+                        {product.image_url && (
+                          <img className="h-10 w-10 object-cover" src={product.image_url} alt={product.name} />
+                        )}
+                      </div>
+                      <div className="ml-4">
+                        <Link
+                          to={`/products/${product.id}`}
+                          className="text-sm font-medium text-gray-900 hover:text-indigo-600"
+                        >
+                          {product.name}
+                        </Link>
+                      </div>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {product.discount_price !== null ? (
+                      <>
+                        ${product.discount_price.toFixed(2)}
+                        <span className="ml-2 text-gray-500 line-through">${product.price.toFixed(2)}</span>
+                      </>
+                    ) : (
+                      `$${product.price.toFixed(2)}`
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <span className={product.stock_quantity > 0 ? 'text-gray-900' : 'text-red-600'}>
+                      {product.stock_quantity > 0 ? product.stock_quantity : 'Out of stock'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                      product.archived ? 'bg-gray-100 text-gray-800' : 'bg-green-100 text-green-800'
+                    }`}>
+                      {product.archived ? 'Archived' : 'Active'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                    <div className="flex justify-end space-x-3">
+                      <Link
+                        to={`/dashboard/seller/products/${product.id}/edit`}
+                        className="text-indigo-600 hover:text-indigo-900"
+                        aria-label={`Edit ${product.name}`}
+                      >
+                        <FiEdit2 className="h-5 w-5" />
+                      </Link>
+                      <button
+                        type="button"
+                        onClick={() => handleArchive(product)}
+                        disabled={updatingId === product.id}
+                        className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                        aria-label={product.archived ? `Unarchive ${product.name}` : `Archive ${product.name}`}
+                        title={product.archived ? 'Unarchive' : 'Archive'}
+                      >
+                        <FiArchive className="h-5 w-5" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(product)}
+                        disabled={updatingId === product.id}
+                        className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                        aria-label={`Delete ${product.name}`}
+                      >
+                        <FiTrash2 className="h-5 w-5" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SellerProducts;
\ No newline at end of file
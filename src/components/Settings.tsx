@@ -1,10 +1,19 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { supabase } from '../lib/supabaseClient';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_CATEGORY_LABELS,
+  NOTIFICATION_CHANNEL_LABELS,
+  fetchNotificationPreferences,
+  saveNotificationPreferences
+} from '../lib/api/notifications';
+import type { NotificationPreferences } from '../lib/api/notifications';
+import type { NotificationCategory, NotificationChannel } from '../lib/types';
 import { FiSettings, FiLock, FiMail, FiBell, FiCreditCard, FiShield, FiAlertCircle } from 'react-icons/fi';
 
 const Settings = () => {
-  const { user } = useAuth();
+  const { user, updatePassword, signOut } = useAuth();
   const [activeTab, setActiveTab] = useState('account');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [password, setPassword] = useState('');
@@ -15,19 +24,26 @@ const Settings = () => {
   const [loading, setLoading] = useState(false);
   
   // Notification settings
-  const [emailNotifications, setEmailNotifications] = useState({
-    orderUpdates: true,
-    promotions: false,
-    newProducts: true,
-    accountAlerts: true
-  });
-  
-  const [pushNotifications, setPushNotifications] = useState({
-    orderUpdates: true,
-    promotions: true,
-    newProducts: false,
-    accountAlerts: true
-  });
+  const [notificationPreferences, setNotificationPreferences] =
+    useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [savingNotifications, setSavingNotifications] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      loadNotificationPreferences();
+    }
+  }, [user]);
+
+  const loadNotificationPreferences = async () => {
+    if (!user) return;
+
+    try {
+      setNotificationPreferences(await fetchNotificationPreferences(user.id));
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error);
+      setError('Failed to load your notification preferences.');
+    }
+  };
 
   const handlePasswordChange = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -47,9 +63,7 @@ const Settings = () => {
       setError(null);
       setSuccess(null);
       
-      const { error } = await supabase.auth.updateUser({
-        password: newPassword
-      });
+      const { error } = await updatePassword(newPassword);
       
       if (error) {
         throw error;
@@ -67,23 +81,33 @@ const Settings = () => {
     }
   };
 
-  const handleEmailNotificationChange = (key: keyof typeof emailNotifications) => {
-    setEmailNotifications({
-      ...emailNotifications,
-      [key]: !emailNotifications[key]
+  const handleNotificationChange = (category: NotificationCategory, channel: NotificationChannel) => {
+    setNotificationPreferences({
+      ...notificationPreferences,
+      [category]: {
+        ...notificationPreferences[category],
+        [channel]: !notificationPreferences[category][channel]
+      }
     });
   };
 
-  const handlePushNotificationChange = (key: keyof typeof pushNotifications) => {
-    setPushNotifications({
-      ...pushNotifications,
-      [key]: !pushNotifications[key]
-    });
-  };
+  const handleSaveNotifications = async () => {
+    if (!user) return;
 
-  const handleSaveNotifications = () => {
-    // In a real app, you would save these to the database
-    setSuccess('Notification preferences saved!');
+    try {
+      setSavingNotifications(true);
+      setError(null);
+      setSuccess(null);
+
+      await saveNotificationPreferences(user.id, notificationPreferences);
+
+      setSuccess('Notification preferences saved!');
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      setError('Failed to save notification preferences. Please try again.');
+    } finally {
+      setSavingNotifications(false);
+    }
   };
 
   const handleDeleteAccount = async () => {
@@ -92,16 +116,14 @@ const Settings = () => {
       setError(null);
       
       // In a real app, this would be a more complex flow with additional checks
-      const { error } = await supabase.rpc('delete_user_account', {
-        user_id: user?.id
-      });
+      const { error } = await supabase.rpc('delete_user_account');
       
       if (error) {
         throw error;
       }
       
       // Sign out the user
-      await supabase.auth.signOut();
+      await signOut();
       
     } catch (error) {
       console.error('Error deleting account:', error);
@@ -328,127 +350,35 @@ const Settings = () => {
                 <FiBell className="mr-2" /> Notification Preferences
               </h2>
               
-              <div className="mb-6">
-                <h3 className="text-sm font-medium text-gray-700 mb-3">Email Notifications</h3>
-                
-                <div className="space-y-3">
-                  <div className="flex items-center">
-                    <input
-                      id="email-order-updates"
-                      type="checkbox"
-                      checked={emailNotifications.orderUpdates}
-                      onChange={() => handleEmailNotificationChange('orderUpdates')}
-                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
-                    />
-                    <label htmlFor="email-order-updates" className="ml-3 text-sm text-gray-700">
-                      Order updates and shipping notifications
-                    </label>
-                  </div>
+              {(Object.keys(NOTIFICATION_CHANNEL_LABELS) as NotificationChannel[]).map((channel) => (
+                <div key={channel} className="mb-6">
+                  <h3 className="text-sm font-medium text-gray-700 mb-3">{NOTIFICATION_CHANNEL_LABELS[channel]}</h3>
                   
-                  <div className="flex items-center">
-                    <input
-                      id="email-promotions"
-                      type="checkbox"
-                      checked={emailNotifications.promotions}
-                      onChange={() => handleEmailNotificationChange('promotions')}
-                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
-                    />
-                    <label htmlFor="email-promotions" className="ml-3 text-sm text-gray-700">
-                      Promotions and special offers
-                    </label>
-                  </div>
-                  
-                  <div className="flex items-center">
-                    <input
-                      id="email-new-products"
-                      type="checkbox"
-                      checked={emailNotifications.newProducts}
-                      onChange={() => handleEmailNotificationChange('newProducts')}
-                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
-                    />
-                    <label htmlFor="email-new-products" className="ml-3 text-sm text-gray-700">
-                      New product announcements
-                    </label>
-                  </div>
-                  
-                  <div className="flex items-center">
-                    <input
-                      id="email-account-alerts"
-                      type="checkbox"
-                      checked={emailNotifications.accountAlerts}
-                      onChange={() => handleEmailNotificationChange('accountAlerts')}
-                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
-                    />
-                    <label htmlFor="email-account-alerts" className="ml-3 text-sm text-gray-700">
-                      Account alerts (security, payment, etc.)
-                    </label>
-                  </div>
-                </div>
-              </div>
-              
-              <div className="mb-6">
-                <h3 className="text-sm font-medium text-gray-700 mb-3">Push Notifications</h3>
-                
-                <div className="space-y-3">
-                  <div className="flex items-center">
-                    <input
-                      id="push-order-updates"
-                      type="checkbox"
-                      checked={pushNotifications.orderUpdates}
-                      onChange={() => handlePushNotificationChange('orderUpdates')}
-                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
-                    />
-                    <label htmlFor="push-order-updates" className="ml-3 text-sm text-gray-700">
-                      Order updates and shipping notifications
-                    </label>
-                  </div>
-                  
-                  <div className="flex items-center">
-                    <input
-                      id="push-promotions"
-                      type="checkbox"
-                      checked={pushNotifications.promotions}
-                      onChange={() => handlePushNotificationChange('promotions')}
-                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
-                    />
-                    <label htmlFor="push-promotions" className="ml-3 text-sm text-gray-700">
-                      Promotions and special offers
-                    </label>
-                  </div>
-                  
-                  <div className="flex items-center">
-                    <input
-                      id="push-new-products"
-                      type="checkbox"
-                      checked={pushNotifications.newProducts}
-                      onChange={() => handlePushNotificationChange('newProducts')}
-                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
-                    />
-                    <label htmlFor="push-new-products" className="ml-3 text-sm text-gray-700">
-                      New product announcements
-                    </label>
-                  </div>
-                  
-                  <div className="flex items-center">
-                    <input
-                      id="push-account-alerts"
-                      type="checkbox"
-                      checked={pushNotifications.accountAlerts}
-                      onChange={() => handlePushNotificationChange('accountAlerts')}
-                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
-                    />
-                    <label htmlFor="push-account-alerts" className="ml-3 text-sm text-gray-700">
-                      Account alerts (security, payment, etc.)
-                    </label>
+                  <div className="space-y-3">
+                    {(Object.keys(NOTIFICATION_CATEGORY_LABELS) as NotificationCategory[]).map((category) => (
+                      <div key={category} className="flex items-center">
+                        <input
+                          id={`${channel}-${category}`}
+                          type="checkbox"
+                          checked={notificationPreferences[category][channel]}
+                          onChange={() => handleNotificationChange(category, channel)}
+                          className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                        />
+                        <label htmlFor={`${channel}-${category}`} className="ml-3 text-sm text-gray-700">
+                          {NOTIFICATION_CATEGORY_LABELS[category]}
+                        </label>
+                      </div>
+                    ))}
                   </div>
                 </div>
-              </div>
+              ))}
               
               <button
                 onClick={handleSaveNotifications}
-                className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700"
+                disabled={savingNotifications}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
               >
-                Save Preferences
+                {savingNotifications ? 'Saving...' : 'Save Preferences'}
               </button>
             </div>
           )}
@@ -1,13 +1,13 @@
 import { useState } from 'react';
 import { useAuth } from '../context/AuthContext';
+import type { UserRole } from '../lib/types';
 import { Link, useNavigate } from 'react-router-dom';
-import { supabase } from '../lib/supabaseClient';
 
 const Signup = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
-  const [role, setRole] = useState('customer');
+  const [role, setRole] = useState<UserRole>('customer');
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const { signUp } = useAuth();
@@ -30,24 +30,13 @@ const Signup = () => {
       setError(null);
       setLoading(true);
       
-      const { error } = await signUp(email, password);
+      // The profile row is created by the handle_new_user trigger from this role
+      const { error } = await signUp(email, password, role);
       
       if (error) {
         setError(error.message);
         return;
       }
-
-      // Create a profile with the selected role
-      const user = (await supabase.auth.getUser()).data.user;
-      
-      if (user) {
-        await supabase.from('profiles').insert({
-          id: user.id,
-          email: user.email,
-          role: role,
-          created_at: new Date().toISOString(),
-        });
-      }
       
       navigate('/login');
       alert('Registration successful! Please check your email to confirm your account.');
@@ -141,11 +130,10 @@ const Signup = () => {
               name="role"
               className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
               value={role}
-              onChange={(e) => setRole(e.target.value)}
+              onChange={(e) => setRole(e.target.value as UserRole)}
             >
               <option value="customer">Customer</option>
               <option value="seller">Seller</option>
-              <option value="admin">Admin</option>
             </select>
           </div>
 
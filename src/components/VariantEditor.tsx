@@ -0,0 +1,279 @@
+import { useState } from 'react';
+import { deleteProductVariant, saveProductVariant } from '../lib/api/products';
+import { ApiError } from '../lib/api/errors';
+import { variantOptionNames } from '../lib/variants';
+import type { ProductVariant, VariantOptions } from '../lib/types';
+import { FiPlus, FiSave, FiTrash2 } from 'react-icons/fi';
+
+interface VariantRow {
+  // Unset until the row is saved
+  id?: number;
+  sku: string;
+  options: VariantOptions;
+  price: string;
+  stock_quantity: string;
+}
+
+interface VariantEditorProps {
+  productId: number;
+  variants: ProductVariant[];
+  onChange: (variants: ProductVariant[]) => void;
+}
+
+const toRow = (variant: ProductVariant): VariantRow => ({
+  id: variant.id,
+  sku: variant.sku,
+  options: variant.options,
+  price: variant.price !== null ? String(variant.price) : '',
+  stock_quantity: String(variant.stock_quantity),
+});
+
+/**
+ * Lets a seller add, change and remove the variants of one of their
+ * products. Each row is saved on its own, since variants are separate from
+ * the product form.
+ */
+const VariantEditor = ({ productId, variants, onChange }: VariantEditorProps) => {
+  const [rows, setRows] = useState<VariantRow[]>(() => variants.map(toRow));
+  const [optionNames, setOptionNames] = useState<string[]>(() => variantOptionNames(variants));
+  const [newOptionName, setNewOptionName] = useState('');
+  const [busyIndex, setBusyIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateRow = (index: number, update: Partial<VariantRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...update } : row)));
+  };
+
+  const handleAddOption = () => {
+    const name = newOptionName.trim().toLowerCase();
+
+    if (!name) return;
+    if (optionNames.includes(name)) {
+      setError(`There is already an option called "${name}".`);
+      return;
+    }
+
+    setError(null);
+    setOptionNames(prev => [...prev, name]);
+    setNewOptionName('');
+  };
+
+  const addRow = () => {
+    setRows(prev => [...prev, { sku: '', options: {}, price: '', stock_quantity: '0' }]);
+  };
+
+  const validate = (row: VariantRow): string | null => {
+    const price = row.price === '' ? null : Number(row.price);
+    const stockQuantity = Number(row.stock_quantity);
+
+    if (optionNames.length === 0) return 'Add an option, e.g. size or color, before adding variants.';
+    if (!row.sku.trim()) return 'Every variant needs a SKU.';
+    if (optionNames.some(name => !row.options[name]?.trim())) return 'Fill in every option of the variant.';
+    if (price !== null && (!Number.isFinite(price) || price < 0)) return 'Variant price must be zero or more.';
+    if (!Number.isInteger(stockQuantity) || stockQuantity < 0) return 'Stock must be a whole number of zero or more.';
+
+    return null;
+  };
+
+  const handleSave = async (index: number) => {
+    const row = rows[index];
+    const validationError = validate(row);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setBusyIndex(index);
+      setError(null);
+
+      const saved = await saveProductVariant(
+        productId,
+        {
+          sku: row.sku.trim(),
+          options: Object.fromEntries(optionNames.map(name => [name, row.options[name].trim()])),
+          price: row.price === '' ? null : Number(row.price),
+          stock_quantity: Number(row.stock_quantity),
+        },
+        row.id
+      );
+
+      setRows(prev => prev.map((r, i) => (i === index ? toRow(saved) : r)));
+      onChange(
+        row.id === undefined
+          ? [...variants, saved]
+          : variants.map(variant => (variant.id === saved.id ? saved : variant))
+      );
+    } catch (error) {
+      console.error('Error saving variant:', error);
+      setError(
+        error instanceof ApiError && error.code === 'conflict'
+          ? 'Another variant already uses this SKU or these options.'
+          : 'Failed to save the variant. Please try again.'
+      );
+    } finally {
+      setBusyIndex(null);
+    }
+  };
+
+  const handleDelete = async (index: number) => {
+    const row = rows[index];
+
+    if (row.id === undefined) {
+      setRows(prev => prev.filter((_, i) => i !== index));
+      return;
+    }
+
+    if (!window.confirm(`Delete variant ${row.sku}?`)) return;
+
+    try {
+      setBusyIndex(index);
+      setError(null);
+
+      await deleteProductVariant(row.id);
+
+      setRows(prev => prev.filter((_, i) => i !== index));
+      onChange(variants.filter(variant => variant.id !== row.id));
+    } catch (error) {
+      console.error('Error deleting variant:', error);
+      setError(
+        error instanceof ApiError && error.code === 'in_use'
+          ? 'This variant has been ordered, so it can\'t be deleted. Set its stock to 0 instead.'
+          : 'Failed to delete the variant. Please try again.'
+      );
+    } finally {
+      setBusyIndex(null);
+    }
+  };
+
+  return (
+    <div>
+      {error && (
+        <div className="mt-4 p-3 bg-red-50 border-l-4 border-red-500 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="mt-4 flex items-center gap-3">
+        <input
+          type="text"
+          placeholder="New option, e.g. size"
+          value={newOptionName}
+          onChange={(e) => setNewOptionName(e.target.value)}
+          className="block w-1/3 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          aria-label="New option name"
+        />
+        <button
+          type="button"
+          onClick={handleAddOption}
+          className="inline-flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-800"
+        >
+          <FiPlus className="mr-1" /> Add option
+        </button>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="mt-4 text-sm text-gray-500">
+          No variants. Add some if the product comes in sizes, colors or other options, each with its own stock.
+        </p>
+      ) : (
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <th className="py-2 pr-3">SKU</th>
+                {optionNames.map(name => (
+                  <th key={name} className="py-2 pr-3">{name}</th>
+                ))}
+                <th className="py-2 pr-3">Price ($)</th>
+                <th className="py-2 pr-3">Stock</th>
+                <th className="py-2"><span className="sr-only">Actions</span></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.map((row, index) => (
+                <tr key={row.id ?? `new-${index}`}>
+                  <td className="py-2 pr-3">
+                    <input
+                      type="text"
+                      value={row.sku}
+                      onChange={(e) => updateRow(index, { sku: e.target.value })}
+                      className="block w-32 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                      aria-label="SKU"
+                    />
+                  </td>
+                  {optionNames.map(name => (
+                    <td key={name} className="py-2 pr-3">
+                      <input
+                        type="text"
+                        value={row.options[name] ?? ''}
+                        onChange={(e) => updateRow(index, { options: { ...row.options, [name]: e.target.value } })}
+                        className="block w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        aria-label={name}
+                      />
+                    </td>
+                  ))}
+                  <td className="py-2 pr-3">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Product's"
+                      value={row.price}
+                      onChange={(e) => updateRow(index, { price: e.target.value })}
+                      className="block w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                      aria-label="Price"
+                    />
+                  </td>
+                  <td className="py-2 pr-3">
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={row.stock_quantity}
+                      onChange={(e) => updateRow(index, { stock_quantity: e.target.value })}
+                      className="block w-20 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                      aria-label="Stock"
+                    />
+                  </td>
+                  <td className="py-2 whitespace-nowrap">
+                    <button
+                      type="button"
+                      onClick={() => handleSave(index)}
+                      disabled={busyIndex === index}
+                      className="text-indigo-600 hover:text-indigo-800 disabled:opacity-50 mr-3"
+                      aria-label={`Save variant ${row.sku}`}
+                      title="Save"
+                    >
+                      <FiSave className="h-5 w-5" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(index)}
+                      disabled={busyIndex === index}
+                      className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                      aria-label={`Delete variant ${row.sku}`}
+                      title="Delete"
+                    >
+                      <FiTrash2 className="h-5 w-5" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={addRow}
+        className="mt-4 inline-flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-800"
+      >
+        <FiPlus className="mr-1" /> Add variant
+      </button>
+    </div>
+  );
+};
+
+export default VariantEditor;
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { findVariant, variantOptionNames, variantOptionValues } from '../lib/variants';
+import type { ProductVariant, VariantOptions } from '../lib/types';
+
+interface VariantPickerProps {
+  variants: ProductVariant[];
+  selected: VariantOptions;
+  onChange: (selected: VariantOptions) => void;
+}
+
+/**
+ * One row of buttons per option (size, color, ...). Values that would lead
+ * to a sold out or missing combination are struck through but stay
+ * clickable; picking one switches the other options to a variant that has it.
+ */
+const VariantPicker = ({ variants, selected, onChange }: VariantPickerProps) => {
+  const optionNames = variantOptionNames(variants);
+
+  const handleSelect = (name: string, value: string) => {
+    const next = { ...selected, [name]: value };
+    const match = findVariant(variants, next)
+      ?? variants.find(variant => variant.options[name] === value && variant.stock_quantity > 0)
+      ?? variants.find(variant => variant.options[name] === value);
+
+    onChange(match ? match.options : next);
+  };
+
+  return (
+    <div className="space-y-4">
+      {optionNames.map(name => (
+        <div key={name}>
+          <div className="text-sm text-gray-700 mb-2">
+            <span className="capitalize">{name.replace(/_/g, ' ')}</span>
+            {selected[name] && <span className="ml-1 font-medium text-gray-900">: {selected[name]}</span>}
+          </div>
+          <div className="flex flex-wrap gap-2" role="radiogroup" aria-label={name}>
+            {variantOptionValues(variants, name).map(value => {
+              const isSelected = selected[name] === value;
+              const variant = findVariant(variants, { ...selected, [name]: value });
+              const available = variant !== undefined && variant.stock_quantity > 0;
+
+              return (
+                <button
+                  key={value}
+                  type="button"
+                  role="radio"
+                  aria-checked={isSelected}
+                  onClick={() => handleSelect(name, value)}
+                  className={`px-3 py-1 rounded-md border text-sm ${
+                    isSelected
+                      ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                      : 'border-gray-300 text-gray-700 hover:border-indigo-400'
+                  } ${available ? '' : 'line-through text-gray-400'}`}
+                >
+                  {value}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default VariantPicker;
\ No newline at end of file
@@ -0,0 +1,371 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import {
+  OCCASION_LABELS,
+  deleteWishlist,
+  fetchWishlist,
+  removeWishlistItem,
+  updateWishlist,
+  updateWishlistItem,
+  wishlistUrl
+} from '../lib/api/wishlists';
+import type { WishlistInput, WishlistItemUpdate, WishlistWithItems } from '../lib/api/wishlists';
+import { ApiError } from '../lib/api/errors';
+import { unitPrice, variantLabel } from '../lib/variants';
+import type { WishlistOccasion } from '../lib/types';
+import { FiArrowLeft, FiCheck, FiCopy, FiExternalLink, FiGift, FiTrash2 } from 'react-icons/fi';
+
+const WishlistEditor = () => {
+  const { id } = useParams();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [wishlist, setWishlist] = useState<WishlistWithItems | null>(null);
+  const [form, setForm] = useState<WishlistInput | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [updatingItemId, setUpdatingItemId] = useState<number | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user && id) {
+      loadWishlist();
+    }
+  }, [user, id]);
+
+  const loadWishlist = async () => {
+    if (!user || !id) return;
+
+    try {
+      setError(null);
+
+      const data = await fetchWishlist(user.id, Number(id));
+      setWishlist(data);
+      setForm({
+        name: data.name,
+        occasion: data.occasion,
+        description: data.description,
+        event_date: data.event_date,
+        is_public: data.is_public,
+      });
+    } catch (error) {
+      console.error('Error fetching wishlist:', error);
+      setError(
+        error instanceof ApiError && error.code === 'not_found'
+          ? 'This list does not exist or is not yours.'
+          : 'Failed to load the list.'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !wishlist || !form) return;
+
+    if (!form.name.trim()) {
+      setError('Please give your list a name.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      setSuccess(null);
+
+      await updateWishlist(user.id, wishlist.id, {
+        ...form,
+        name: form.name.trim(),
+        description: form.description?.trim() || null,
+      });
+
+      setSuccess('List saved.');
+      await loadWishlist();
+    } catch (error) {
+      console.error('Error updating wishlist:', error);
+      setError('Failed to save the list. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!user || !wishlist) return;
+    if (!confirm(`Delete "${wishlist.name}"? Anyone with the link will no longer be able to see it.`)) return;
+
+    try {
+      setSaving(true);
+      await deleteWishlist(user.id, wishlist.id);
+      navigate('/dashboard/wishlists');
+    } catch (error) {
+      console.error('Error deleting wishlist:', error);
+      setError('Failed to delete the list. Please try again.');
+      setSaving(false);
+    }
+  };
+
+  const handleItemUpdate = async (itemId: number, update: WishlistItemUpdate) => {
+    try {
+      setUpdatingItemId(itemId);
+      setError(null);
+
+      await updateWishlistItem(itemId, update);
+      await loadWishlist();
+    } catch (error) {
+      console.error('Error updating wishlist item:', error);
+      setError('Failed to update the item. Please try again.');
+    } finally {
+      setUpdatingItemId(null);
+    }
+  };
+
+  const handleItemRemove = async (itemId: number) => {
+    try {
+      setUpdatingItemId(itemId);
+      setError(null);
+
+      await removeWishlistItem(itemId);
+      await loadWishlist();
+    } catch (error) {
+      console.error('Error removing wishlist item:', error);
+      setError('Failed to remove the item. Please try again.');
+    } finally {
+      setUpdatingItemId(null);
+    }
+  };
+
+  const copyLink = async () => {
+    if (!wishlist) return;
+
+    try {
+      await navigator.clipboard.writeText(wishlistUrl(wishlist.slug));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying link:', error);
+      setError('Could not copy the link. Please copy it from the address bar of the public page.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+      </div>
+    );
+  }
+
+  if (!wishlist || !form) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <div className="p-4 bg-red-50 border-l-4 border-red-500 text-red-700">
+          {error || 'List not found.'}
+        </div>
+        <Link to="/dashboard/wishlists" className="mt-4 inline-flex items-center text-indigo-600 hover:text-indigo-800">
+          <FiArrowLeft className="mr-1" /> Back to your lists
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8">
+      <Link to="/dashboard/wishlists" className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-800 mb-4">
+        <FiArrowLeft className="mr-1" /> Back to your lists
+      </Link>
+
+      <h1 className="text-2xl font-semibold flex items-center mb-6">
+        <FiGift className="mr-2 text-indigo-600" /> {wishlist.name}
+      </h1>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border-l-4 border-red-500 text-red-700">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 p-4 bg-green-50 border-l-4 border-green-500 text-green-700">
+          {success}
+        </div>
+      )}
+
+      <form onSubmit={handleSave} className="bg-white rounded-lg shadow-md p-6 mb-6 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="wishlist-name" className="block text-sm font-medium text-gray-700">Name</label>
+            <input
+              id="wishlist-name"
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="wishlist-occasion" className="block text-sm font-medium text-gray-700">Occasion</label>
+            <select
+              id="wishlist-occasion"
+              value={form.occasion}
+              onChange={(e) => setForm({ ...form, occasion: e.target.value as WishlistOccasion })}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              {Object.entries(OCCASION_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="wishlist-date" className="block text-sm font-medium text-gray-700">Event date (optional)</label>
+            <input
+              id="wishlist-date"
+              type="date"
+              value={form.event_date ?? ''}
+              onChange={(e) => setForm({ ...form, event_date: e.target.value || null })}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+          <div className="flex items-end">
+            <label className="inline-flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.is_public}
+                onChange={(e) => setForm({ ...form, is_public: e.target.checked })}
+                className="h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+              />
+              Anyone with the link can view this list
+            </label>
+          </div>
+        </div>
+        <div>
+          <label htmlFor="wishlist-description" className="block text-sm font-medium text-gray-700">Description (optional)</label>
+          <textarea
+            id="wishlist-description"
+            rows={3}
+            value={form.description ?? ''}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </div>
+        <div className="flex justify-between">
+          <button
+            type="button"
+            onClick={handleDelete}
+            disabled={saving}
+            className="px-4 py-2 border border-red-300 text-red-600 rounded-md hover:bg-red-50 inline-flex items-center disabled:opacity-50"
+          >
+            <FiTrash2 className="mr-2" /> Delete list
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save changes'}
+          </button>
+        </div>
+      </form>
+
+      {wishlist.is_public ? (
+        <div className="bg-white rounded-lg shadow-md p-4 mb-6 flex flex-wrap items-center gap-3">
+          <span className="text-sm text-gray-700 break-all flex-1">{wishlistUrl(wishlist.slug)}</span>
+          <button
+            onClick={copyLink}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 inline-flex items-center"
+          >
+            {copied ? <FiCheck className="mr-1 text-green-600" /> : <FiCopy className="mr-1" />}
+            {copied ? 'Copied' : 'Copy link'}
+          </button>
+          <Link
+            to={`/lists/${wishlist.slug}`}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 inline-flex items-center"
+          >
+            <FiExternalLink className="mr-1" /> View
+          </Link>
+        </div>
+      ) : (
+        <p className="mb-6 text-sm text-gray-600">
+          This list is private. Make it public to get a link you can share.
+        </p>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md">
+        <h2 className="text-lg font-medium text-gray-900 px-6 py-4 border-b border-gray-200">Items</h2>
+        {wishlist.items.length === 0 ? (
+          <p className="px-6 py-8 text-center text-gray-600">
+            Nothing here yet. Add products from your <Link to="/dashboard/favorites" className="text-indigo-600 hover:text-indigo-800">favorites</Link>.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {wishlist.items.map((item) => (
+              <li key={item.id} className="px-6 py-4 flex flex-wrap items-center gap-4">
+                <img
+                  src={item.product.image_url || '/images/placeholder.jpg'}
+                  alt={item.product.name}
+                  className="h-16 w-16 rounded object-cover"
+                />
+                <div className="flex-1 min-w-[10rem]">
+                  <Link to={`/products/${item.product.id}`} className="font-medium text-gray-900 hover:text-indigo-600">
+                    {item.product.name}
+                  </Link>
+                  {item.variant && (
+                    <p className="text-sm text-gray-500">{variantLabel(item.variant.options)}</p>
+                  )}
+                  <p className="text-sm text-gray-700">${unitPrice(item.product, item.variant).toFixed(2)}</p>
+                  {item.product.archived && (
+                    <p className="text-sm text-red-600">No longer sold, so guests can't buy it</p>
+                  )}
+                  <p className="text-sm text-gray-500">
+                    {item.purchased_quantity} of {item.desired_quantity} bought
+                    {item.purchased_quantity > 0 && (
+                      <button
+                        onClick={() => handleItemUpdate(item.id, { purchased_quantity: 0 })}
+                        disabled={updatingItemId === item.id}
+                        className="ml-2 text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                      >
+                        Reset
+                      </button>
+                    )}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <label htmlFor={`wishlist-item-${item.id}`} className="text-sm text-gray-700">Wanted</label>
+                  <input
+                    id={`wishlist-item-${item.id}`}
+                    type="number"
+                    min={1}
+                    defaultValue={item.desired_quantity}
+                    disabled={updatingItemId === item.id}
+                    onBlur={(e) => {
+                      const desired = Math.max(1, Math.floor(Number(e.target.value) || 1));
+                      if (desired !== item.desired_quantity) {
+                        handleItemUpdate(item.id, {
+                          desired_quantity: desired,
+                          purchased_quantity: Math.min(item.purchased_quantity, desired)
+                        });
+                      }
+                    }}
+                    className="w-20 border border-gray-300 rounded-md px-2 py-1 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                  <button
+                    onClick={() => handleItemRemove(item.id)}
+                    disabled={updatingItemId === item.id}
+                    aria-label="Remove from list"
+                    className="p-2 text-red-500 hover:text-red-700 disabled:opacity-50"
+                  >
+                    <FiTrash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WishlistEditor;
\ No newline at end of file
@@ -0,0 +1,234 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { OCCASION_LABELS, createWishlist, fetchWishlists } from '../lib/api/wishlists';
+import type { WishlistInput, WishlistSummary } from '../lib/api/wishlists';
+import type { WishlistOccasion } from '../lib/types';
+import { FiGift, FiGlobe, FiLock, FiPlus } from 'react-icons/fi';
+
+const EMPTY_FORM: WishlistInput = {
+  name: '',
+  occasion: 'wishlist',
+  description: null,
+  event_date: null,
+  is_public: false,
+};
+
+const Wishlists = () => {
+  const { user } = useAuth();
+  const [wishlists, setWishlists] = useState<WishlistSummary[]>([]);
+  const [form, setForm] = useState<WishlistInput>(EMPTY_FORM);
+  const [showForm, setShowForm] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      loadWishlists();
+    }
+  }, [user]);
+
+  const loadWishlists = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      setWishlists(await fetchWishlists(user.id));
+    } catch (error) {
+      console.error('Error fetching wishlists:', error);
+      setError('Failed to load your lists.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (!form.name.trim()) {
+      setError('Please give your list a name.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      await createWishlist(user.id, {
+        ...form,
+        name: form.name.trim(),
+        description: form.description?.trim() || null,
+      });
+
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+      await loadWishlists();
+    } catch (error) {
+      console.error('Error creating wishlist:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create the list. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(`${dateString}T00:00:00`).toLocaleDateString();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-semibold flex items-center">
+          <FiGift className="mr-2 text-indigo-600" /> Wishlists & Registries
+        </h1>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 inline-flex items-center"
+          >
+            <FiPlus className="mr-2" /> New list
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border-l-4 border-red-500 text-red-700">
+          {error}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="bg-white rounded-lg shadow-md p-6 mb-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="wishlist-name" className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                id="wishlist-name"
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Sam's 30th birthday"
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="wishlist-occasion" className="block text-sm font-medium text-gray-700">Occasion</label>
+              <select
+                id="wishlist-occasion"
+                value={form.occasion}
+                onChange={(e) => setForm({ ...form, occasion: e.target.value as WishlistOccasion })}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                {Object.entries(OCCASION_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="wishlist-date" className="block text-sm font-medium text-gray-700">Event date (optional)</label>
+              <input
+                id="wishlist-date"
+                type="date"
+                value={form.event_date ?? ''}
+                onChange={(e) => setForm({ ...form, event_date: e.target.value || null })}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+            <div className="flex items-end">
+              <label className="inline-flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.is_public}
+                  onChange={(e) => setForm({ ...form, is_public: e.target.checked })}
+                  className="h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+                />
+                Anyone with the link can view this list
+              </label>
+            </div>
+          </div>
+          <div>
+            <label htmlFor="wishlist-description" className="block text-sm font-medium text-gray-700">Description (optional)</label>
+            <textarea
+              id="wishlist-description"
+              rows={3}
+              value={form.description ?? ''}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => {
+                setShowForm(false);
+                setForm(EMPTY_FORM);
+              }}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {saving ? 'Creating...' : 'Create list'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {wishlists.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-md p-8 text-center">
+          <FiGift className="h-16 w-16 mx-auto text-gray-400 mb-4" />
+          <h2 className="text-xl font-medium text-gray-900 mb-2">No lists yet</h2>
+          <p className="text-gray-600">
+            Create a wishlist or gift registry, add products from your favorites and share the link with friends.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {wishlists.map((wishlist) => (
+            <Link
+              key={wishlist.id}
+              to={`/dashboard/wishlists/${wishlist.id}`}
+              className="bg-white rounded-lg shadow-md p-5 hover:shadow-lg transition-shadow"
+            >
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="text-xs text-indigo-600 uppercase tracking-wide font-semibold">
+                    {OCCASION_LABELS[wishlist.occasion]}
+                  </div>
+                  <h2 className="mt-1 text-lg font-medium text-gray-900">{wishlist.name}</h2>
+                </div>
+                {wishlist.is_public ? (
+                  <FiGlobe className="text-green-600" title="Public" />
+                ) : (
+                  <FiLock className="text-gray-400" title="Private" />
+                )}
+              </div>
+              <p className="mt-2 text-sm text-gray-600">
+                {wishlist.itemCount} {wishlist.itemCount === 1 ? 'item' : 'items'}
+                {wishlist.event_date && ` · ${formatDate(wishlist.event_date)}`}
+              </p>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Wishlists;
\ No newline at end of file
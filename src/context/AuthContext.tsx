@@ -1,22 +1,47 @@
 import { createContext, useContext, useEffect, useState } from 'react';
-import type { User } from '@supabase/supabase-js';
+import type { AuthError, User } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabaseClient';
+import type { Profile, UserRole } from '../lib/types';
+
+interface AuthResult {
+  error: AuthError | null;
+}
 
 interface AuthContextType {
   user: User | null;
+  profile: Profile | null;
+  role: UserRole | null;
   loading: boolean;
+  signUp: (email: string, password: string, role?: UserRole) => Promise<AuthResult>;
+  signInWithPassword: (email: string, password: string) => Promise<AuthResult>;
   signOut: () => Promise<void>;
+  resetPassword: (email: string) => Promise<AuthResult>;
+  updatePassword: (password: string) => Promise<AuthResult>;
+  resendVerification: (email: string) => Promise<AuthResult>;
+  refreshProfile: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType>({
   user: null,
+  profile: null,
+  role: null,
   loading: true,
+  signUp: async () => ({ error: null }),
+  signInWithPassword: async () => ({ error: null }),
   signOut: async () => {},
+  resetPassword: async () => ({ error: null }),
+  updatePassword: async () => ({ error: null }),
+  resendVerification: async () => ({ error: null }),
+  refreshProfile: async () => {},
 });
 
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
+  // Id of the user whose profile fetch has settled, so consumers can tell a
+  // missing profile apart from one that is still loading
+  const [profileLoadedFor, setProfileLoadedFor] = useState<string | null>(null);
 
   useEffect(() => {
     // Check active sessions and sets the user
@@ -34,15 +59,109 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Reload the profile row whenever the auth state hands us a new user object.
+  // This runs outside the onAuthStateChange callback so the query does not
+  // wait on the auth lock held while that callback executes.
+  useEffect(() => {
+    if (!user) {
+      setProfile(null);
+      setProfileLoadedFor(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    fetchProfile(user.id).then((data) => {
+      if (cancelled) return;
+      setProfile(data);
+      setProfileLoadedFor(user.id);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const fetchProfile = async (userId: string): Promise<Profile | null> => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('id', userId)
+        .single();
+
+      if (error) throw error;
+
+      return data as Profile;
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+      return null;
+    }
+  };
+
+  const refreshProfile = async () => {
+    if (!user) return;
+    setProfile(await fetchProfile(user.id));
+  };
+
+  const signUp = async (email: string, password: string, role: UserRole = 'customer') => {
+    const { error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: {
+        data: { role },
+        emailRedirectTo: `${window.location.origin}/login`,
+      },
+    });
+    return { error };
+  };
+
+  const signInWithPassword = async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    return { error };
+  };
+
   const signOut = async () => {
     await supabase.auth.signOut();
     setUser(null);
+    setProfile(null);
+  };
+
+  const resetPassword = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: `${window.location.origin}/update-password`,
+    });
+    return { error };
+  };
+
+  const updatePassword = async (password: string) => {
+    const { error } = await supabase.auth.updateUser({ password });
+    return { error };
+  };
+
+  const resendVerification = async (email: string) => {
+    const { error } = await supabase.auth.resend({
+      type: 'signup',
+      email,
+      options: {
+        emailRedirectTo: `${window.location.origin}/login`,
+      },
+    });
+    return { error };
   };
 
   const value = {
     user,
-    loading,
+    profile,
+    role: profile?.role ?? null,
+    loading: loading || (!!user && profileLoadedFor !== user.id),
+    signUp,
+    signInWithPassword,
     signOut,
+    resetPassword,
+    updatePassword,
+    resendVerification,
+    refreshProfile,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -50,4 +169,4 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
 export const useAuth = () => {
   return useContext(AuthContext);
-}; 
\ No newline at end of file
+};
\ No newline at end of file
@@ -1,49 +1,105 @@
-import { createContext, useContext, useEffect, useState } from 'react';
-import { supabase } from '../lib/supabaseClient';
+import { createContext, useContext, useEffect, useRef, useState } from 'react';
+import {
+  addCartItem,
+  clearCartItems,
+  fetchAvailableStock,
+  fetchCartItems as fetchCartRows,
+  fetchCartProduct,
+  removeCartItem,
+  setCartItemQuantity,
+  subscribeToCartChanges
+} from '../lib/api/cart';
+import { isApiError } from '../lib/api/errors';
+import { unitPrice } from '../lib/variants';
 import { useAuth } from './AuthContext';
-
-interface CartItem {
-  id: number;
-  product_id: number;
-  quantity: number;
-  product: {
-    id: number;
-    name: string;
-    price: number;
-    discount_price?: number;
-    image_url: string;
-    stock_quantity: number;
-  };
-}
+import type { CartItem } from '../lib/types';
 
 interface CartContextType {
   items: CartItem[];
+  loading: boolean;
   total: number;
   cartCount: number;
-  addToCart: (productId: number, quantity: number) => Promise<void>;
-  removeFromCart: (productId: number) => Promise<void>;
-  updateQuantity: (productId: number, quantity: number) => Promise<void>;
+  /** variantId is required for products sold in variants */
+  addToCart: (productId: number, quantity: number, variantId?: number | null) => Promise<void>;
+  removeFromCart: (productId: number, variantId?: number | null) => Promise<void>;
+  updateQuantity: (productId: number, quantity: number, variantId?: number | null) => Promise<void>;
   clearCart: () => Promise<void>;
+  refreshCart: () => Promise<void>;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
+// Signed-out shoppers keep their cart in localStorage, in the same shape as
+// the server-backed cart, until they sign in and it is merged into cart_items
+const GUEST_CART_KEY = 'guestCart';
+
+const loadGuestCart = (): CartItem[] => {
+  try {
+    const stored = localStorage.getItem(GUEST_CART_KEY);
+    const items: CartItem[] = stored ? JSON.parse(stored) : [];
+    // Carts saved before variants existed have neither field
+    return items.map(item => ({ ...item, variant_id: item.variant_id ?? null, variant: item.variant ?? null }));
+  } catch (error) {
+    console.error('Error reading guest cart:', error);
+    return [];
+  }
+};
+
+// A cart holds one line per product, or per variant for products sold in variants
+const isLine = (item: CartItem, productId: number, variantId: number | null) => {
+  return item.product_id === productId && item.variant_id === variantId;
+};
+
+const saveGuestCart = (items: CartItem[]) => {
+  if (items.length === 0) {
+    localStorage.removeItem(GUEST_CART_KEY);
+  } else {
+    localStorage.setItem(GUEST_CART_KEY, JSON.stringify(items));
+  }
+};
+
 export function CartProvider({ children }: { children: React.ReactNode }) {
   const { user } = useAuth();
   const [items, setItems] = useState<CartItem[]>([]);
+  const [loading, setLoading] = useState(false);
   const [cartCount, setCartCount] = useState(0);
   const [total, setTotal] = useState(0);
+  // Incremented per fetch so a slow response can't overwrite a newer one
+  const latestFetchRef = useRef(0);
 
   useEffect(() => {
     if (user) {
-      fetchCartItems();
+      mergeGuestCart(user.id).then(() => fetchCartItems());
     } else {
-      setItems([]);
-      setCartCount(0);
-      setTotal(0);
+      setItems(loadGuestCart());
     }
   }, [user]);
 
+  // Keep the cart in sync with edits made in other tabs or on other devices.
+  // Events only tell us something changed, so reconcile by refetching.
+  useEffect(() => {
+    if (!user) return;
+
+    return subscribeToCartChanges(user.id, () => {
+      fetchCartItems({ silent: true });
+    });
+  }, [user?.id]);
+
+  // Guest carts live in localStorage, so other tabs announce changes through
+  // the storage event instead
+  useEffect(() => {
+    if (user) return;
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === GUEST_CART_KEY) {
+        setItems(loadGuestCart());
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [user]);
+
   useEffect(() => {
     // Update cart count and total whenever items change
     const newCount = items.reduce((sum, item) => sum + item.quantity, 0);
@@ -51,92 +107,116 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
 
     const newTotal = items.reduce((sum, item) => {
       if (!item.product) return sum;
-      const price = item.product.discount_price !== undefined && item.product.discount_price !== null
-        ? item.product.discount_price
-        : item.product.price;
-      return sum + (price * item.quantity);
+      return sum + (unitPrice(item.product, item.variant) * item.quantity);
     }, 0);
     setTotal(newTotal);
   }, [items]);
 
-  const fetchCartItems = async () => {
+  const fetchCartItems = async ({ silent = false }: { silent?: boolean } = {}) => {
+    if (!user) return;
+
+    const fetchId = ++latestFetchRef.current;
+
     try {
-      const { data, error } = await supabase
-        .from('cart_items')
-        .select(`
-          id,
-          product_id,
-          quantity,
-          products (
-            id,
-            name,
-            price,
-            discount_price,
-            image_url,
-            stock_quantity
-          )
-        `)
-        .eq('user_id', user?.id);
-
-      if (error) throw error;
-
-      // Transform the data to match CartItem interface
-      const transformedData = data?.map(item => ({
-        ...item,
-        product: item.products[0]
-      })).filter(item => item.product) || [];
-
-      setItems(transformedData);
+      if (!silent) setLoading(true);
+
+      const cartItems = await fetchCartRows(user.id);
+
+      if (fetchId === latestFetchRef.current) {
+        setItems(cartItems);
+      }
     } catch (error) {
       console.error('Error fetching cart:', error);
+    } finally {
+      if (!silent) setLoading(false);
     }
   };
 
-  const addToCart = async (productId: number, quantity: number) => {
-    if (!user) return;
+  // Move the guest cart into cart_items after sign-in. Quantities for lines
+  // already in the user's cart are summed, and everything is capped at stock.
+  const mergeGuestCart = async (userId: string) => {
+    const guestItems = loadGuestCart();
+    if (guestItems.length === 0) return;
+
+    // Clear it up front so a second auth event can't merge the same items again
+    saveGuestCart([]);
+
+    try {
+      const existingItems = await fetchCartRows(userId);
+
+      for (const guestItem of guestItems) {
+        const { product_id: productId, variant_id: variantId } = guestItem;
+        const existingItem = existingItems.find(item => isLine(item, productId, variantId));
+        const available = await fetchAvailableStock(productId, variantId);
+        const quantity = Math.min((existingItem?.quantity ?? 0) + guestItem.quantity, available);
+
+        if (existingItem) {
+          if (quantity <= existingItem.quantity) continue;
+
+          await setCartItemQuantity(userId, productId, variantId, quantity);
+        } else if (quantity > 0) {
+          await addCartItem(userId, productId, variantId, quantity);
+        }
+      }
+    } catch (error) {
+      console.error('Error merging guest cart:', error);
+      // Keep the guest cart around so the merge can be retried on next sign-in
+      saveGuestCart(guestItems);
+    }
+  };
+
+  const updateGuestCart = (nextItems: CartItem[]) => {
+    saveGuestCart(nextItems);
+    setItems(nextItems);
+  };
+
+  const assertInStock = (available: number, quantity: number) => {
+    if (available <= 0) {
+      throw new Error('This product is sold out');
+    }
 
+    if (quantity > available) {
+      throw new Error(`Only ${available} left in stock`);
+    }
+  };
+
+  const addToCart = async (productId: number, quantity: number, variantId: number | null = null) => {
     try {
       // Check if item already exists in cart
-      const existingItem = items.find(item => item.product_id === productId);
+      const existingItem = items.find(item => isLine(item, productId, variantId));
 
       if (existingItem) {
         // Update quantity if item exists
         const newQuantity = existingItem.quantity + quantity;
-        await updateQuantity(productId, newQuantity);
+        await updateQuantity(productId, newQuantity, variantId);
       } else {
         // First fetch the product data
-        const { data: productData, error: productError } = await supabase
-          .from('products')
-          .select('*')
-          .eq('id', productId)
-          .single();
-
-        if (productError || !productData) {
-          throw new Error('Product not found');
+        const { product, variant } = await fetchCartProduct(productId, variantId).catch(error => {
+          throw isApiError(error, 'not_found') ? new Error('Product not found') : error;
+        });
+
+        const available = await fetchAvailableStock(productId, variantId);
+        assertInStock(available, quantity);
+
+        const line = {
+          product_id: productId,
+          variant_id: variantId,
+          quantity,
+          product: variant ? product : { ...product, stock_quantity: available },
+          variant: variant && { ...variant, stock_quantity: available }
+        };
+
+        if (!user) {
+          // Guest lines have no row id; negate variant ids so they can't clash with product ids
+          updateGuestCart([...items, { id: variantId !== null ? -variantId : productId, ...line }]);
+          return;
         }
 
         // Add new item if it doesn't exist
-        const { data, error } = await supabase
-          .from('cart_items')
-          .insert([
-            {
-              user_id: user.id,
-              product_id: productId,
-              quantity
-            }
-          ])
-          .select()
-          .single();
-
-        if (error) throw error;
-
-        if (data) {
-          const newItem = {
-            ...data,
-            product: productData
-          };
-          setItems(prev => [...prev, newItem]);
-        }
+        const cartItemId = await addCartItem(user.id, productId, variantId, quantity);
+
+        const newItem: CartItem = { id: cartItemId, ...line };
+        setItems(prev => [...prev, newItem]);
       }
     } catch (error) {
       console.error('Error adding to cart:', error);
@@ -144,44 +224,45 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const removeFromCart = async (productId: number) => {
-    if (!user) return;
+  const removeFromCart = async (productId: number, variantId: number | null = null) => {
+    if (!user) {
+      updateGuestCart(items.filter(item => !isLine(item, productId, variantId)));
+      return;
+    }
 
     try {
-      const { error } = await supabase
-        .from('cart_items')
-        .delete()
-        .eq('user_id', user.id)
-        .eq('product_id', productId);
+      await removeCartItem(user.id, productId, variantId);
 
-      if (error) throw error;
-
-      setItems(prev => prev.filter(item => item.product_id !== productId));
+      setItems(prev => prev.filter(item => !isLine(item, productId, variantId)));
     } catch (error) {
       console.error('Error removing from cart:', error);
       throw error;
     }
   };
 
-  const updateQuantity = async (productId: number, quantity: number) => {
-    if (!user || quantity < 1) return;
+  const updateQuantity = async (productId: number, quantity: number, variantId: number | null = null) => {
+    if (quantity < 1) return;
 
     try {
-      const { error } = await supabase
-        .from('cart_items')
-        .update({ quantity })
-        .eq('user_id', user.id)
-        .eq('product_id', productId);
-
-      if (error) throw error;
-
-      setItems(prev =>
-        prev.map(item =>
-          item.product_id === productId
-            ? { ...item, quantity }
-            : item
-        )
-      );
+      const available = await fetchAvailableStock(productId, variantId);
+      assertInStock(available, quantity);
+
+      const withQuantity = (item: CartItem): CartItem => {
+        if (!isLine(item, productId, variantId)) return item;
+
+        return item.variant
+          ? { ...item, quantity, variant: { ...item.variant, stock_quantity: available } }
+          : { ...item, quantity, product: { ...item.product, stock_quantity: available } };
+      };
+
+      if (!user) {
+        updateGuestCart(items.map(withQuantity));
+        return;
+      }
+
+      await setCartItemQuantity(user.id, productId, variantId, quantity);
+
+      setItems(prev => prev.map(withQuantity));
     } catch (error) {
       console.error('Error updating quantity:', error);
       throw error;
@@ -189,15 +270,13 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
   };
 
   const clearCart = async () => {
-    if (!user) return;
+    if (!user) {
+      updateGuestCart([]);
+      return;
+    }
 
     try {
-      const { error } = await supabase
-        .from('cart_items')
-        .delete()
-        .eq('user_id', user.id);
-
-      if (error) throw error;
+      await clearCartItems(user.id);
 
       setItems([]);
     } catch (error) {
@@ -206,16 +285,27 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const refreshCart = async () => {
+    if (!user) {
+      setItems(loadGuestCart());
+      return;
+    }
+
+    await fetchCartItems();
+  };
+
   return (
     <CartContext.Provider
       value={{
         items,
+        loading,
         total,
         cartCount,
         addToCart,
         removeFromCart,
         updateQuantity,
-        clearCart
+        clearCart,
+        refreshCart
       }}
     >
       {children}
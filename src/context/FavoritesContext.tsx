@@ -0,0 +1,104 @@
+import { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { addFavorite, fetchFavoriteProductIds, removeFavorite } from '../lib/api/favorites';
+import { useAuth } from './AuthContext';
+
+interface FavoritesContextType {
+  favoriteIds: Set<number>;
+  favoriteCount: number;
+  loading: boolean;
+  isFavorite: (productId: number) => boolean;
+  /** Adds or removes a product, updating every heart right away and undoing it if the save fails */
+  toggleFavorite: (productId: number) => Promise<void>;
+  refreshFavorites: () => Promise<void>;
+}
+
+const FavoritesContext = createContext<FavoritesContextType | undefined>(undefined);
+
+export function FavoritesProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [favoriteIds, setFavoriteIds] = useState<Set<number>>(new Set());
+  const [loading, setLoading] = useState(false);
+  // Products with a save in flight; further clicks wait for it to settle
+  const pendingRef = useRef<Set<number>>(new Set());
+
+  useEffect(() => {
+    if (user) {
+      fetchFavorites();
+    } else {
+      setFavoriteIds(new Set());
+    }
+  }, [user]);
+
+  const fetchFavorites = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      setFavoriteIds(new Set(await fetchFavoriteProductIds(user.id)));
+    } catch (error) {
+      console.error('Error fetching favorites:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setFavorite = (productId: number, favorite: boolean) => {
+    setFavoriteIds(prev => {
+      const next = new Set(prev);
+      if (favorite) next.add(productId);
+      else next.delete(productId);
+      return next;
+    });
+  };
+
+  const isFavorite = (productId: number) => favoriteIds.has(productId);
+
+  const toggleFavorite = async (productId: number) => {
+    if (!user) {
+      throw new Error('Please sign in to save favorites');
+    }
+
+    if (pendingRef.current.has(productId)) return;
+
+    const favorite = !favoriteIds.has(productId);
+    pendingRef.current.add(productId);
+    setFavorite(productId, favorite);
+
+    try {
+      if (favorite) {
+        await addFavorite(user.id, productId);
+      } else {
+        await removeFavorite(user.id, productId);
+      }
+    } catch (error) {
+      console.error('Error updating favorites:', error);
+      setFavorite(productId, !favorite);
+      throw error;
+    } finally {
+      pendingRef.current.delete(productId);
+    }
+  };
+
+  return (
+    <FavoritesContext.Provider
+      value={{
+        favoriteIds,
+        favoriteCount: favoriteIds.size,
+        loading,
+        isFavorite,
+        toggleFavorite,
+        refreshFavorites: fetchFavorites
+      }}
+    >
+      {children}
+    </FavoritesContext.Provider>
+  );
+}
+
+export function useFavorites() {
+  const context = useContext(FavoritesContext);
+  if (context === undefined) {
+    throw new Error('useFavorites must be used within a FavoritesProvider');
+  }
+  return context;
+}
\ No newline at end of file
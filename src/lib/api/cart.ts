@@ -0,0 +1,259 @@
+import { supabase } from '../supabaseClient';
+import type { CartItem, CartProduct, CartVariant, VariantOptions } from '../types';
+import { ApiError, toApiError, unwrap } from './errors';
+
+interface CartLineQuery<Q> {
+  eq(column: string, value: unknown): Q;
+  is(column: string, value: null): Q;
+}
+
+// A cart line is a product plus, for products sold in variants, one variant
+const matchCartLine = <Q extends CartLineQuery<Q>>(
+  query: Q,
+  userId: string,
+  productId: number,
+  variantId: number | null
+): Q => {
+  const line = query.eq('user_id', userId).eq('product_id', productId);
+
+  return variantId === null ? line.is('variant_id', null) : line.eq('variant_id', variantId);
+};
+
+/**
+ * Loads the user's cart with the product fields the cart shows
+ * @param userId The cart's owner
+ */
+export const fetchCartItems = async (userId: string): Promise<CartItem[]> => {
+  const data = unwrap(
+    await supabase
+      .from('cart_items')
+      .select(`
+        id,
+        product_id,
+        variant_id,
+        quantity,
+        products (
+          id,
+          name,
+          price,
+          discount_price,
+          image_url,
+          stock_quantity
+        ),
+        variant:product_variants (
+          id,
+          sku,
+          options,
+          price,
+          stock_quantity
+        )
+      `)
+      .eq('user_id', userId)
+  );
+
+  // Skip lines whose product the user can no longer read
+  return data
+    .filter(({ products }) => products !== null)
+    .map(({ products, variant, ...item }) => ({
+      ...item,
+      product: products,
+      // options is always a JSON object of strings, see the product_variants table
+      variant: variant as CartVariant | null
+    }));
+};
+
+/**
+ * Stock the current user can still claim, i.e. excluding quantities other
+ * shoppers are holding while they check out
+ * @param productId The product to check
+ * @param variantId The variant to check, for products sold in variants
+ */
+export const fetchAvailableStock = async (productId: number, variantId: number | null = null): Promise<number> => {
+  const data = unwrap(
+    await supabase.rpc('available_stock', {
+      p_product_id: productId,
+      p_variant_id: variantId ?? undefined
+    })
+  );
+
+  return data ?? 0;
+};
+
+/**
+ * Loads the product and variant fields stored with a cart item. Archived
+ * products can't be added, and products that have variants can only be added
+ * as one of them.
+ * @param productId The product being added
+ * @param variantId The chosen variant, if the product has variants
+ */
+export const fetchCartProduct = async (
+  productId: number,
+  variantId: number | null = null
+): Promise<{ product: CartProduct; variant: CartVariant | null }> => {
+  const { variants, archived, ...product } = unwrap(
+    await supabase
+      .from('products')
+      .select(`
+        id,
+        name,
+        price,
+        discount_price,
+        image_url,
+        stock_quantity,
+        archived,
+        variants:product_variants!product_variants_product_id_fkey (
+          id,
+          sku,
+          options,
+          price,
+          stock_quantity
+        )
+      `)
+      .eq('id', productId)
+      .single()
+  );
+
+  if (archived) {
+    throw new ApiError('invalid', `${product.name} is no longer available`);
+  }
+
+  if (variantId === null) {
+    if (variants.length > 0) {
+      throw new ApiError('invalid', `Choose an option for ${product.name}`);
+    }
+
+    return { product, variant: null };
+  }
+
+  const variant = variants.find(candidate => candidate.id === variantId);
+  if (!variant) {
+    throw new ApiError('not_found', 'This option is no longer available');
+  }
+
+  return { product, variant: { ...variant, options: variant.options as VariantOptions } };
+};
+
+/**
+ * Adds a product, or one of its variants, the user does not have in their cart yet
+ * @param userId The cart's owner
+ * @param productId The product to add
+ * @param variantId The variant to add, or null for products without variants
+ * @param quantity How many to add
+ * @returns The new cart row's id
+ */
+export const addCartItem = async (
+  userId: string,
+  productId: number,
+  variantId: number | null,
+  quantity: number
+): Promise<number> => {
+  const data = unwrap(
+    await supabase
+      .from('cart_items')
+      .insert([{ user_id: userId, product_id: productId, variant_id: variantId, quantity }])
+      .select('id')
+      .single()
+  );
+
+  return data.id;
+};
+
+/**
+ * Sets the quantity of a cart line
+ * @param userId The cart's owner
+ * @param productId The line's product
+ * @param variantId The line's variant, or null
+ * @param quantity The new quantity
+ */
+export const setCartItemQuantity = async (
+  userId: string,
+  productId: number,
+  variantId: number | null,
+  quantity: number
+) => {
+  const { error } = await matchCartLine(
+    supabase.from('cart_items').update({ quantity }),
+    userId,
+    productId,
+    variantId
+  );
+
+  if (error) throw toApiError(error);
+};
+
+/**
+ * Removes a cart line
+ * @param userId The cart's owner
+ * @param productId The line's product
+ * @param variantId The line's variant, or null
+ */
+export const removeCartItem = async (userId: string, productId: number, variantId: number | null) => {
+  const { error } = await matchCartLine(
+    supabase.from('cart_items').delete(),
+    userId,
+    productId,
+    variantId
+  );
+
+  if (error) throw toApiError(error);
+};
+
+
+/**
+ * Empties the user's cart
+ * @param userId The cart's owner
+ */
+export const clearCartItems = async (userId: string) => {
+  const { error } = await supabase
+    .from('cart_items')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) throw toApiError(error);
+};
+
+/**
+ * Calls onChange whenever the user's cart changes in another tab or device
+ * @param userId The cart's owner
+ * @param onChange Called with no details; refetch to reconcile
+ * @returns A function that stops listening
+ */
+export const subscribeToCartChanges = (userId: string, onChange: () => void) => {
+  const channel = supabase
+    .channel(`cart_items:${userId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'cart_items',
+        filter: `user_id=eq.${userId}`
+      },
+      onChange
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+/**
+ * Holds the current user's cart stock so nobody else can buy it during checkout
+ * @param minutes How long to hold it
+ * @returns When the hold expires
+ */
+export const reserveCartStock = async (minutes: number): Promise<Date> => {
+  const data = unwrap(await supabase.rpc('reserve_cart_stock', { minutes }));
+
+  return new Date(data);
+};
+
+/**
+ * Gives back stock held by reserveCartStock
+ */
+export const releaseCartStock = async () => {
+  const { error } = await supabase.rpc('release_cart_stock');
+
+  if (error) throw toApiError(error);
+};
\ No newline at end of file
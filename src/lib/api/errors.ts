@@ -0,0 +1,89 @@
+/**
+ * What went wrong with a request, independent of whether it failed in
+ * PostgREST, in a database function or on the network
+ */
+export type ApiErrorCode =
+  | 'not_found'
+  | 'unauthenticated'
+  | 'forbidden'
+  | 'conflict'
+  | 'in_use'
+  | 'invalid'
+  | 'network'
+  | 'unknown';
+
+/**
+ * Error thrown by every function in src/lib/api. The message is the one the
+ * server sent, which for database functions (place_order, cancel_order, ...)
+ * is written to be shown to the user.
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  /** The Postgres or PostgREST error code, if the error came from the database */
+  readonly dbCode: string | null;
+  /** The error as Supabase reported it */
+  readonly cause: unknown;
+
+  constructor(code: ApiErrorCode, message: string, dbCode: string | null = null, cause?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.dbCode = dbCode;
+    this.cause = cause;
+  }
+}
+
+// Postgres SQLSTATE and PostgREST codes the app cares about. Database
+// functions raise P0002 for missing rows and P0001 for broken business rules.
+const DB_ERROR_CODES: Record<string, ApiErrorCode> = {
+  PGRST116: 'not_found',
+  P0002: 'not_found',
+  PGRST301: 'unauthenticated',
+  '42501': 'forbidden',
+  '23505': 'conflict',
+  '23503': 'in_use',
+  '23502': 'invalid',
+  '23514': 'invalid',
+  '22P02': 'invalid',
+  P0001: 'invalid',
+};
+
+/**
+ * Converts anything a Supabase call can throw or return into an ApiError
+ * @param error A PostgrestError, StorageError, fetch failure or ApiError
+ */
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  const { code, message } = (error ?? {}) as { code?: string; message?: string };
+
+  if (code && DB_ERROR_CODES[code]) {
+    return new ApiError(DB_ERROR_CODES[code], message || 'Request failed', code, error);
+  }
+
+  // fetch rejects with a TypeError when the request never reaches the server
+  if (error instanceof TypeError) {
+    return new ApiError('network', 'Could not reach the server. Check your connection.', null, error);
+  }
+
+  return new ApiError('unknown', message || 'Something went wrong', code ?? null, error);
+};
+
+/**
+ * Returns the data of a Supabase response, throwing its error as an ApiError.
+ * Data is only null alongside an error, except for functions that return NULL.
+ * @param result The `{ data, error }` pair returned by a query or RPC
+ */
+export const unwrap = <T>(result: { data: T; error: unknown }): NonNullable<T> => {
+  if (result.error) throw toApiError(result.error);
+  return result.data as NonNullable<T>;
+};
+
+/**
+ * Checks whether an error is an ApiError with the given code
+ * @param error Anything caught from an api call
+ * @param code The code to look for
+ */
+export const isApiError = (error: unknown, code: ApiErrorCode): error is ApiError => {
+  return error instanceof ApiError && error.code === code;
+};
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { supabase } from '../supabaseClient';
+import type { Category, Favorite, Product } from '../types';
+import { toApiError, unwrap } from './errors';
+
+export type FavoriteWithProduct = Favorite & {
+  product: Pick<Product, 'id' | 'name' | 'price' | 'discount_price' | 'image_url'> & {
+    category: Pick<Category, 'id' | 'name'> | null;
+  };
+};
+
+/**
+ * Loads the user's favorites, most recently added first
+ * @param userId The favorites' owner
+ */
+export const fetchFavorites = async (userId: string): Promise<FavoriteWithProduct[]> => {
+  const favorites = unwrap(
+    await supabase
+      .from('favorites')
+      .select(`
+        *,
+        product:products(
+          id, name, price, discount_price, image_url,
+          category:categories(id, name)
+        )
+      `)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+  );
+
+  // Skip favorites whose product the user can no longer read
+  return favorites.filter(favorite => favorite.product !== null);
+};
+
+/**
+ * Ids of the products the user has favorited
+ * @param userId The favorites' owner
+ */
+export const fetchFavoriteProductIds = async (userId: string): Promise<number[]> => {
+  const favorites = unwrap(
+    await supabase
+      .from('favorites')
+      .select('product_id')
+      .eq('user_id', userId)
+  );
+
+  return favorites.map(favorite => favorite.product_id);
+};
+
+/**
+ * Adds a product to the user's favorites. Adding one twice is a no-op.
+ * @param userId The favorites' owner
+ * @param productId The product to add
+ */
+export const addFavorite = async (userId: string, productId: number) => {
+  const { error } = await supabase
+    .from('favorites')
+    .upsert([{ user_id: userId, product_id: productId }], {
+      onConflict: 'user_id,product_id',
+      ignoreDuplicates: true
+    });
+
+  if (error) throw toApiError(error);
+};
+
+/**
+ * Removes a product from the user's favorites
+ * @param userId The favorites' owner
+ * @param productId The product to remove
+ */
+export const removeFavorite = async (userId: string, productId: number) => {
+  const { error } = await supabase
+    .from('favorites')
+    .delete()
+    .eq('user_id', userId)
+    .eq('product_id', productId);
+
+  if (error) throw toApiError(error);
+};
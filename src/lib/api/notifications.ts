@@ -0,0 +1,118 @@
+import { supabase } from '../supabaseClient';
+import type { Notification, NotificationCategory, NotificationChannel, NotificationPreference } from '../types';
+import { toApiError, unwrap } from './errors';
+
+/**
+ * Loads the user's notifications, newest first
+ * @param userId The notifications' recipient
+ */
+export const fetchNotifications = async (userId: string): Promise<Notification[]> => {
+  const notifications = unwrap(
+    await supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+  );
+
+  return notifications as Notification[];
+};
+
+/**
+ * Counts the user's unread notifications
+ * @param userId The notifications' recipient
+ */
+export const countUnreadNotifications = async (userId: string): Promise<number> => {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('read', false);
+
+  if (error) throw toApiError(error);
+
+  return count || 0;
+};
+
+/**
+ * Marks notifications as read
+ * @param notificationIds The notifications to update
+ */
+export const markNotificationsRead = async (notificationIds: number[]) => {
+  if (notificationIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read: true })
+    .in('id', notificationIds);
+
+  if (error) throw toApiError(error);
+};
+
+export type NotificationPreferences = Record<NotificationCategory, Record<NotificationChannel, boolean>>;
+
+export const NOTIFICATION_CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  order_updates: 'Order updates and shipping notifications',
+  promotions: 'Promotions and special offers',
+  new_products: 'New product announcements',
+  account_alerts: 'Account alerts (security, payment, etc.)',
+};
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: 'In-app Notifications',
+  email: 'Email Notifications',
+  push: 'Push Notifications',
+};
+
+/**
+ * What users get before they save any preferences.
+ * Keep in sync with notification_channel_enabled in the database.
+ */
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  order_updates: { in_app: true, email: true, push: true },
+  promotions: { in_app: true, email: false, push: true },
+  new_products: { in_app: true, email: true, push: false },
+  account_alerts: { in_app: true, email: true, push: true },
+};
+
+/**
+ * Loads the user's notification preferences. Categories they never saved
+ * use the defaults.
+ * @param userId The preferences' owner
+ */
+export const fetchNotificationPreferences = async (userId: string): Promise<NotificationPreferences> => {
+  const rows = unwrap(
+    await supabase
+      .from('notification_preferences')
+      .select('*')
+      .eq('user_id', userId)
+  ) as NotificationPreference[];
+
+  const preferences = structuredClone(DEFAULT_NOTIFICATION_PREFERENCES);
+
+  for (const row of rows) {
+    preferences[row.category] = { in_app: row.in_app, email: row.email, push: row.push };
+  }
+
+  return preferences;
+};
+
+/**
+ * Saves the user's notification preferences for every category
+ * @param userId The preferences' owner
+ * @param preferences Which channels each category is sent on
+ */
+export const saveNotificationPreferences = async (userId: string, preferences: NotificationPreferences) => {
+  const rows = (Object.keys(preferences) as NotificationCategory[]).map(category => ({
+    user_id: userId,
+    category,
+    ...preferences[category],
+    updated_at: new Date().toISOString(),
+  }));
+
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert(rows, { onConflict: 'user_id,category' });
+
+  if (error) throw toApiError(error);
+};
@@ -0,0 +1,248 @@
+import { supabase } from '../supabaseClient';
+import { canTransition } from '../orderStatus';
+import type { OrderStatus } from '../orderStatus';
+import type { Order, OrderItem, OrderStatusChange, Product, ProductVariant, Profile, ShippingDetails } from '../types';
+import { ApiError, toApiError, unwrap } from './errors';
+
+export type OrderSummary = Order & {
+  items_count: number;
+};
+
+// Products are null when the customer can no longer read them; the line
+// itself keeps the price and quantity that were bought
+export type OrderItemWithProduct = OrderItem & {
+  product: Pick<Product, 'name' | 'image_url'> | null;
+  variant: Pick<ProductVariant, 'sku' | 'options'> | null;
+};
+
+export type OrderWithItems = Pick<Order, 'id' | 'created_at' | 'total_amount' | 'status'> & {
+  shipping_details: ShippingDetails;
+  order_items: (Pick<OrderItem, 'id' | 'product_id' | 'variant_id' | 'quantity' | 'price_at_time'> & {
+    product: Pick<Product, 'name' | 'image_url'> | null;
+    variant: Pick<ProductVariant, 'sku' | 'options'> | null;
+  })[];
+};
+
+export type SellerOrder = Pick<Order, 'id' | 'total_amount' | 'status' | 'payment_status' | 'created_at'> & {
+  customer: Pick<Profile, 'email'> | null;
+};
+
+export interface SellerSales {
+  totalProducts: number;
+  totalOrders: number;
+  totalRevenue: number;
+  pendingOrders: number;
+  recentOrders: SellerOrder[];
+}
+
+/**
+ * Loads the user's orders, newest first, with how many items each has
+ * @param userId The orders' owner
+ */
+export const fetchOrders = async (userId: string): Promise<OrderSummary[]> => {
+  const data = unwrap(
+    await supabase
+      .from('orders')
+      .select(`
+        *,
+        items_count:order_items(count)
+      `)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+  );
+
+  return data.map(order => ({
+    ...order,
+    items_count: order.items_count?.[0]?.count || 0
+  }));
+};
+
+/**
+ * Loads the user's orders, newest first, with their items
+ * @param userId The orders' owner
+ */
+export const fetchOrdersWithItems = async (userId: string): Promise<OrderWithItems[]> => {
+  const data = unwrap(
+    await supabase
+      .from('orders')
+      .select(`
+        id,
+        created_at,
+        total_amount,
+        status,
+        shipping_details,
+        order_items (
+          id,
+          product_id,
+          variant_id,
+          quantity,
+          price_at_time,
+          product:products (
+            name,
+            image_url
+          ),
+          variant:product_variants (
+            sku,
+            options
+          )
+        )
+      `)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+  );
+
+  // place_order stores the checkout form as-is, and variant options are
+  // always a JSON object of strings
+  return data as OrderWithItems[];
+};
+
+/**
+ * Loads one of the user's orders with its items
+ * @param userId The order's owner
+ * @param orderId The order to load
+ */
+export const fetchOrder = async (
+  userId: string,
+  orderId: number
+): Promise<Order & { items: OrderItemWithProduct[] }> => {
+  const order = unwrap(
+    await supabase
+      .from('orders')
+      .select('*')
+      .eq('id', orderId)
+      .eq('user_id', userId)
+      .single()
+  );
+
+  const items = unwrap(
+    await supabase
+      .from('order_items')
+      .select(`
+        *,
+        product:products(name, image_url),
+        variant:product_variants(sku, options)
+      `)
+      .eq('order_id', orderId)
+  );
+
+  return { ...order, items: items as OrderItemWithProduct[] };
+};
+
+/**
+ * Turns the current user's cart into an order. The server recomputes prices,
+ * writes the order and its items, decrements stock and empties the cart in
+ * one transaction.
+ * @param shipping Where to ship the order
+ * @returns The new order's id
+ */
+export const placeOrder = async (shipping: ShippingDetails): Promise<number> => {
+  return unwrap(await supabase.rpc('place_order', { shipping }));
+};
+
+/**
+ * Loads the status history of an order, oldest change first
+ * @param orderId The order to load
+ */
+export const fetchOrderStatusHistory = async (orderId: number): Promise<OrderStatusChange[]> => {
+  const data = unwrap(
+    await supabase
+      .from('order_status_history')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+  );
+
+  return data as OrderStatusChange[];
+};
+
+/**
+ * Moves an order to a new status. The change is validated here and again by
+ * the database, which also records it in order_status_history.
+ * @param orderId The order to update
+ * @param from The status the caller believes the order is in
+ * @param to The status to move to
+ * @param note Optional reason shown in the order's history
+ */
+export const transitionOrderStatus = async (
+  orderId: number,
+  from: OrderStatus,
+  to: OrderStatus,
+  note?: string
+) => {
+  if (!canTransition(from, to)) {
+    throw new ApiError('invalid', `Cannot move an order from ${from} to ${to}`);
+  }
+
+  const { error } = await supabase.rpc('transition_order_status', {
+    p_order_id: orderId,
+    p_status: to,
+    p_note: note,
+  });
+
+  if (error) throw toApiError(error);
+};
+
+/**
+ * Cancels one of the current user's orders and puts its items back in stock
+ * @param orderId The order to cancel
+ * @param reason Optional reason shown in the order's history
+ */
+export const cancelOrder = async (orderId: number, reason?: string) => {
+  const { error } = await supabase.rpc('cancel_order', {
+    p_order_id: orderId,
+    p_reason: reason,
+  });
+
+  if (error) throw toApiError(error);
+};
+
+/**
+ * Summarizes the orders that contain a seller's products. Revenue only
+ * counts paid orders that weren't cancelled.
+ * @param sellerId The seller's user id
+ * @param recentLimit How many of the latest orders to include
+ */
+export const fetchSellerSales = async (sellerId: string, recentLimit = 5): Promise<SellerSales> => {
+  const [totals] = unwrap(await supabase.rpc('get_seller_sales', { p_seller_id: sellerId }));
+
+  // The inner join keeps the orders with at least one of the seller's items
+  const recentOrders = unwrap(
+    await supabase
+      .from('orders')
+      .select(`
+        id, total_amount, status, payment_status, created_at,
+        customer:profiles(email),
+        order_items!inner(product:products!inner(seller_id))
+      `)
+      .eq('order_items.product.seller_id', sellerId)
+      .order('created_at', { ascending: false })
+      .limit(recentLimit)
+  );
+
+  return {
+    totalProducts: totals?.total_products ?? 0,
+    totalOrders: totals?.total_orders ?? 0,
+    totalRevenue: totals?.total_revenue ?? 0,
+    pendingOrders: totals?.pending_orders ?? 0,
+    recentOrders: recentOrders.map(order => ({
+      id: order.id,
+      total_amount: order.total_amount,
+      status: order.status,
+      payment_status: order.payment_status,
+      created_at: order.created_at,
+      customer: order.customer,
+    }))
+  };
+};
+
+/**
+ * Loads the amount and date of every order (admins only)
+ */
+export const fetchOrderTotals = async (): Promise<Pick<Order, 'total_amount' | 'created_at'>[]> => {
+  return unwrap(
+    await supabase
+      .from('orders')
+      .select('total_amount, created_at')
+  );
+};
\ No newline at end of file
@@ -0,0 +1,670 @@
+import { supabase } from '../supabaseClient';
+import type { TablesInsert } from '../database.types';
+import type { Category, Product, ProductVariant, Profile } from '../types';
+import { toApiError, unwrap } from './errors';
+
+export type ProductSort = 'relevance' | 'newest' | 'price-low' | 'price-high' | 'popular' | 'rating';
+
+export interface ProductFilters {
+  categoryId?: number | null;
+  search?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  featured?: boolean;
+  brands?: string[];
+  minRating?: number;
+  inStock?: boolean;
+  onSale?: boolean;
+  /** Allowed values per specification name, e.g. { color: ['black'] } */
+  specs?: Record<string, string[]>;
+  sort?: ProductSort;
+}
+
+/**
+ * Where the next page of fetchProductsAfter starts. Listings seek past the
+ * last product's sort value and id, so rows added or removed meanwhile don't
+ * shift the pages. Searches sorted by relevance have no column to seek on
+ * and page by offset instead.
+ */
+export type ProductCursor =
+  | { kind: 'keyset'; value: string | number; id: number }
+  | { kind: 'offset'; offset: number };
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+/** How many products each filter value would match, given the other filters */
+export interface ProductFacets {
+  brands: FacetValue[];
+  /** Products rated at least 1 to 4 stars */
+  ratings: FacetValue[];
+  inStock: number;
+  onSale: number;
+  specs: Record<string, FacetValue[]>;
+}
+
+export type ProductListItem = Product & {
+  category: Pick<Category, 'id' | 'name'> | null;
+};
+
+export type ProductDetails = ProductListItem & {
+  // Only visible to the seller and admins since profiles are private
+  seller: Pick<Profile, 'email'> | null;
+  /** Empty for products that aren't sold in variants */
+  variants: ProductVariant[];
+};
+
+/** Columns a seller edits; seller_id always comes from the signed-in user */
+export type ProductInput = Omit<TablesInsert<'products'>, 'id' | 'seller_id' | 'created_at' | 'updated_at'>;
+
+export type ProductVariantInput = Pick<ProductVariant, 'sku' | 'options' | 'price' | 'stock_quantity'>;
+
+export interface SearchSuggestions {
+  products: Pick<Product, 'id' | 'name' | 'image_url' | 'price' | 'discount_price'>[];
+  categories: Pick<Category, 'id' | 'name'>[];
+}
+
+export interface CategoryCount {
+  categoryId: number | null;
+  categoryName: string | null;
+  productCount: number;
+}
+
+const PRODUCT_IMAGES_BUCKET = 'product-images';
+
+// The filter methods fetchProducts needs. Both a products query and a
+// search_products call provide them, so the filters are written once.
+interface ProductQuery<Q> {
+  eq(column: string, value: unknown): Q;
+  gt(column: string, value: unknown): Q;
+  gte(column: string, value: unknown): Q;
+  lte(column: string, value: unknown): Q;
+  in(column: string, values: readonly unknown[]): Q;
+  not(column: string, operator: string, value: unknown): Q;
+  or(filters: string): Q;
+  order(column: string, options?: { ascending?: boolean }): Q;
+}
+
+interface SortOrder {
+  column: 'created_at' | 'price' | 'avg_rating' | 'review_count';
+  ascending: boolean;
+}
+
+const SORT_ORDERS: Record<Exclude<ProductSort, 'relevance'>, SortOrder> = {
+  newest: { column: 'created_at', ascending: false },
+  'price-low': { column: 'price', ascending: true },
+  'price-high': { column: 'price', ascending: false },
+  popular: { column: 'review_count', ascending: false },
+  rating: { column: 'avg_rating', ascending: false }
+};
+
+// Search results come back best match first, so relevance needs no ordering.
+// Without a search it falls back to newest.
+const sortOrder = (filters: ProductFilters): SortOrder | null => {
+  const sort = filters.sort ?? (filters.search ? 'relevance' : 'newest');
+
+  if (sort === 'relevance') {
+    return filters.search ? null : SORT_ORDERS.newest;
+  }
+  return SORT_ORDERS[sort] ?? SORT_ORDERS.newest;
+};
+
+// Rows that come after the cursor in (sort column, id) order
+const keysetFilter = ({ column, ascending }: SortOrder, cursor: { value: string | number; id: number }) => {
+  const operator = ascending ? 'gt' : 'lt';
+  const value = `"${cursor.value}"`;
+
+  return `${column}.${operator}.${value},and(${column}.eq.${value},id.${operator}.${cursor.id})`;
+};
+
+// categoryIds is the selected category's subtree, from categorySubtreeIds
+const applyProductFilters = <Q extends ProductQuery<Q>>(
+  query: Q,
+  filters: ProductFilters,
+  categoryIds: number[] | null
+): Q => {
+  let filtered = query.eq('archived', false);
+
+  if (categoryIds) {
+    filtered = filtered.in('category_id', categoryIds);
+  }
+  if (filters.minPrice !== undefined) {
+    filtered = filtered.gte('price', filters.minPrice);
+  }
+  if (filters.maxPrice !== undefined) {
+    filtered = filtered.lte('price', filters.maxPrice);
+  }
+  if (filters.featured) {
+    filtered = filtered.eq('featured', true);
+  }
+  if (filters.brands?.length) {
+    filtered = filtered.in('brand', filters.brands);
+  }
+  if (filters.minRating !== undefined) {
+    filtered = filtered.gte('avg_rating', filters.minRating);
+  }
+  if (filters.inStock) {
+    filtered = filtered.gt('stock_quantity', 0);
+  }
+  if (filters.onSale) {
+    filtered = filtered.not('discount_price', 'is', null);
+  }
+  for (const [key, values] of Object.entries(filters.specs ?? {})) {
+    if (values.length > 0) {
+      filtered = filtered.in(`specifications->>${key}`, values);
+    }
+  }
+
+  const order = sortOrder(filters);
+  if (!order) return filtered;
+
+  // id breaks ties so pages never overlap
+  return filtered
+    .order(order.column, { ascending: order.ascending })
+    .order('id', { ascending: order.ascending });
+};
+
+// A category lists the products of its subcategories too
+const categorySubtreeIds = async (categoryId: number | null | undefined): Promise<number[] | null> => {
+  if (!categoryId) return null;
+
+  return unwrap(await supabase.rpc('category_subtree_ids', { p_category_id: categoryId }));
+};
+
+// Loads the given products with their category, in the order of ids
+const loadProductsInOrder = async (ids: number[]): Promise<ProductListItem[]> => {
+  if (ids.length === 0) return [];
+
+  const products = unwrap(
+    await supabase
+      .from('products')
+      .select('*, category:categories(id, name)')
+      .in('id', ids)
+  );
+
+  const position = new Map(ids.map((id, index) => [id, index]));
+  return products.sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0));
+};
+
+/**
+ * Loads a page of live products for the storefront. Searches go through the
+ * search_products function, which ranks matches and tolerates typos.
+ * @param filters Category (subcategories included), search text, price range and sort order
+ * @param range Zero-based offset and page size
+ * @returns The page and the number of products matching the filters
+ */
+export const fetchProducts = async (
+  filters: ProductFilters,
+  range: { offset: number; limit: number }
+): Promise<{ products: ProductListItem[]; count: number }> => {
+  const search = filters.search?.trim();
+  const categoryIds = await categorySubtreeIds(filters.categoryId);
+
+  if (!search) {
+    let query = applyProductFilters(
+      supabase
+        .from('products')
+        .select('*, category:categories(id, name)', { count: 'exact' }),
+      filters,
+      categoryIds
+    ).range(range.offset, range.offset + range.limit - 1);
+
+    const { data, count, error } = await query;
+
+    if (error) throw toApiError(error);
+
+    return { products: data || [], count: count || 0 };
+  }
+
+  // The typed client can't embed categories in a function's result, so find
+  // the page of matching ids first and then load those products
+  const matchQuery = applyProductFilters(
+    supabase.rpc('search_products', { search_query: search }, { count: 'exact' }),
+    { ...filters, search },
+    categoryIds
+  )
+    .select('id')
+    .range(range.offset, range.offset + range.limit - 1);
+
+  const { data: matches, count, error } = await matchQuery;
+
+  if (error) throw toApiError(error);
+
+  const products = await loadProductsInOrder((matches || []).map(match => match.id));
+
+  return { products, count: count || 0 };
+};
+
+/**
+ * Loads the next page of live products without counting every match, for
+ * infinite scrolling and "load more" buttons
+ * @param filters Category (subcategories included), search text, price range and sort order
+ * @param cursor Where the page starts; null for the first page
+ * @param limit Page size
+ * @returns The page and where the following one starts, or null after the last page
+ */
+export const fetchProductsAfter = async (
+  filters: ProductFilters,
+  cursor: ProductCursor | null,
+  limit: number
+): Promise<{ products: ProductListItem[]; nextCursor: ProductCursor | null }> => {
+  const search = filters.search?.trim();
+  const categoryIds = await categorySubtreeIds(filters.categoryId);
+  const order = sortOrder({ ...filters, search });
+  const offset = cursor?.kind === 'offset' ? cursor.offset : 0;
+  // One row past the page tells whether there is another page
+  const to = offset + limit;
+
+  let products: ProductListItem[];
+
+  if (!search) {
+    let query = applyProductFilters(
+      supabase
+        .from('products')
+        .select('*, category:categories(id, name)'),
+      filters,
+      categoryIds
+    );
+
+    if (order && cursor?.kind === 'keyset') {
+      query = query.or(keysetFilter(order, cursor));
+    }
+
+    products = unwrap(await query.range(offset, to));
+  } else {
+    let matchQuery = applyProductFilters(
+      supabase.rpc('search_products', { search_query: search }),
+      { ...filters, search },
+      categoryIds
+    );
+
+    if (order && cursor?.kind === 'keyset') {
+      matchQuery = matchQuery.or(keysetFilter(order, cursor));
+    }
+
+    const matches = unwrap(await matchQuery.select('id').range(offset, to));
+    products = await loadProductsInOrder(matches.map(match => match.id));
+  }
+
+  const page = products.slice(0, limit);
+  const last = page[page.length - 1];
+
+  if (products.length <= limit || !last) {
+    return { products: page, nextCursor: null };
+  }
+
+  return {
+    products: page,
+    nextCursor: order
+      ? { kind: 'keyset', value: last[order.column], id: last.id }
+      : { kind: 'offset', offset: offset + limit }
+  };
+};
+
+/**
+ * Counts the products each facet value would match. Every facet is counted
+ * with all filters applied except its own, so selected values can be widened.
+ * @param filters The filters in effect; sort is ignored
+ */
+export const fetchProductFacets = async (filters: ProductFilters = {}): Promise<ProductFacets> => {
+  const specs = Object.fromEntries(
+    Object.entries(filters.specs ?? {}).filter(([, values]) => values.length > 0)
+  );
+
+  const data = unwrap(
+    await supabase.rpc('get_product_facets', {
+      p_search: filters.search?.trim() || undefined,
+      p_category_id: filters.categoryId ?? undefined,
+      p_min_price: filters.minPrice,
+      p_max_price: filters.maxPrice,
+      p_brands: filters.brands?.length ? filters.brands : undefined,
+      p_min_rating: filters.minRating,
+      p_in_stock: filters.inStock,
+      p_on_sale: filters.onSale,
+      p_specs: specs
+    })
+  );
+
+  const facets: ProductFacets = { brands: [], ratings: [], inStock: 0, onSale: 0, specs: {} };
+
+  for (const row of data) {
+    const facetValue = { value: row.value, count: row.product_count };
+
+    switch (row.facet) {
+      case 'brand':
+        facets.brands.push(facetValue);
+        break;
+      case 'rating':
+        facets.ratings.push(facetValue);
+        break;
+      case 'in_stock':
+        facets.inStock = row.product_count;
+        break;
+      case 'on_sale':
+        facets.onSale = row.product_count;
+        break;
+      case 'spec':
+        (facets.specs[row.spec_key] ??= []).push(facetValue);
+        break;
+    }
+  }
+
+  const byCount = (a: FacetValue, b: FacetValue) => b.count - a.count || a.value.localeCompare(b.value);
+  facets.brands.sort(byCount);
+  facets.ratings.sort((a, b) => Number(b.value) - Number(a.value));
+  Object.values(facets.specs).forEach(values => values.sort(byCount));
+
+  return facets;
+};
+
+/**
+ * Loads the best matching products and categories for a search box's
+ * suggestions, using the same ranking as fetchProducts
+ * @param search What the user has typed so far
+ * @param limit How many products to suggest
+ */
+export const fetchSearchSuggestions = async (search: string, limit = 5): Promise<SearchSuggestions> => {
+  const trimmed = search.trim();
+  if (!trimmed) return { products: [], categories: [] };
+
+  // % and _ are wildcards in ilike patterns
+  const pattern = `%${trimmed.replace(/[\\%_]/g, '\\$&')}%`;
+
+  const [products, categories] = await Promise.all([
+    supabase
+      .rpc('search_products', { search_query: trimmed })
+      .select('id, name, image_url, price, discount_price')
+      .limit(limit),
+    supabase
+      .from('categories')
+      .select('id, name')
+      .ilike('name', pattern)
+      .order('name')
+      .limit(3)
+  ]);
+
+  return { products: unwrap(products), categories: unwrap(categories) };
+};
+
+/**
+ * Loads one product with its category, seller and variants
+ * @param productId The product to load
+ */
+export const fetchProduct = async (productId: number): Promise<ProductDetails> => {
+  const data = unwrap(
+    await supabase
+      .from('products')
+      .select(`
+        *,
+        category:categories(id, name),
+        seller:profiles(email),
+        variants:product_variants!product_variants_product_id_fkey(*)
+      `)
+      .eq('id', productId)
+      .order('id', { referencedTable: 'variants' })
+      .single()
+  );
+
+  // options is always a JSON object of strings, see the product_variants table
+  return data as ProductDetails;
+};
+
+/**
+ * Loads a product's variants, e.g. for the seller's product editor
+ * @param productId The product whose variants to load
+ */
+export const fetchProductVariants = async (productId: number): Promise<ProductVariant[]> => {
+  const data = unwrap(
+    await supabase
+      .from('product_variants')
+      .select('*')
+      .eq('product_id', productId)
+      .order('id')
+  );
+
+  return data as ProductVariant[];
+};
+
+/**
+ * Creates a variant of one of the seller's products, or updates it when an
+ * id is given. RLS only allows variants of the seller's own products. A SKU
+ * or option combination that is already taken fails with `conflict`.
+ * @param productId The product the variant belongs to
+ * @param input The variant's fields
+ * @param variantId The variant to update, if editing
+ * @returns The saved variant
+ */
+export const saveProductVariant = async (
+  productId: number,
+  input: ProductVariantInput,
+  variantId?: number
+): Promise<ProductVariant> => {
+  const query = variantId !== undefined
+    ? supabase
+        .from('product_variants')
+        .update(input)
+        .eq('id', variantId)
+        .eq('product_id', productId)
+    : supabase
+        .from('product_variants')
+        .insert([{ ...input, product_id: productId }]);
+
+  const data = unwrap(await query.select().single());
+
+  // options is always a JSON object of strings, see the product_variants table
+  return data as ProductVariant;
+};
+
+/**
+ * Deletes a variant. Fails with `in_use` once the variant has been ordered.
+ * @param variantId The variant; RLS only allows variants of the seller's own products
+ */
+export const deleteProductVariant = async (variantId: number) => {
+  const { error } = await supabase
+    .from('product_variants')
+    .delete()
+    .eq('id', variantId);
+
+  if (error) throw toApiError(error);
+};
+
+/**
+ * Loads other live products from the same category
+ * @param product The product being viewed
+ * @param limit How many to load
+ */
+export const fetchRelatedProducts = async (
+  product: Pick<Product, 'id' | 'category_id'>,
+  limit = 4
+): Promise<Product[]> => {
+  if (!product.category_id) return [];
+
+  return unwrap(
+    await supabase
+      .from('products')
+      .select('*')
+      .eq('category_id', product.category_id)
+      .eq('archived', false)
+      .neq('id', product.id)
+      .limit(limit)
+  );
+};
+
+/**
+ * Loads categories in name order
+ * @param options Set topLevelOnly to skip subcategories
+ */
+export const fetchCategories = async ({ topLevelOnly = false }: { topLevelOnly?: boolean } = {}): Promise<Category[]> => {
+  let query = supabase
+    .from('categories')
+    .select('*')
+    .order('name');
+
+  if (topLevelOnly) {
+    query = query.is('parent_id', null);
+  }
+
+  return unwrap(await query);
+};
+
+/**
+ * Loads a category and its ancestors, top-level category first, for breadcrumbs
+ * @param categoryId The innermost category
+ */
+export const fetchCategoryPath = async (categoryId: number): Promise<Category[]> => {
+  return unwrap(await supabase.rpc('get_category_path', { p_category_id: categoryId }));
+};
+
+/**
+ * Moves a category under another one, or to the top level (admins only).
+ * The database refuses to move a category under its own subcategories.
+ * @param categoryId The category to move
+ * @param parentId The new parent, or null for a top-level category
+ */
+export const moveCategory = async (categoryId: number, parentId: number | null) => {
+  const { error } = await supabase
+    .from('categories')
+    .update({ parent_id: parentId })
+    .eq('id', categoryId);
+
+  if (error) throw toApiError(error);
+};
+
+/**
+ * Counts live products per category (admins only)
+ */
+export const fetchCategoryCounts = async (): Promise<CategoryCount[]> => {
+  const data = unwrap(await supabase.rpc('get_category_counts'));
+
+  return data.map(row => ({
+    categoryId: row.category_id,
+    categoryName: row.category_name,
+    productCount: row.product_count,
+  }));
+};
+
+/**
+ * Counts every product, archived ones included
+ */
+export const countProducts = async (): Promise<number> => {
+  const { count, error } = await supabase
+    .from('products')
+    .select('id', { count: 'exact', head: true });
+
+  if (error) throw toApiError(error);
+
+  return count || 0;
+};
+
+/**
+ * Loads a seller's products, newest first, including archived ones
+ * @param sellerId The seller's user id
+ * @param limit Optionally load only the most recent ones
+ */
+export const fetchSellerProducts = async (sellerId: string, limit?: number): Promise<ProductListItem[]> => {
+  let query = supabase
+    .from('products')
+    .select('*, category:categories(id, name)')
+    .eq('seller_id', sellerId)
+    .order('created_at', { ascending: false });
+
+  if (limit !== undefined) {
+    query = query.limit(limit);
+  }
+
+  return unwrap(await query);
+};
+
+/**
+ * Loads one of the seller's own products for editing
+ * @param sellerId The seller's user id
+ * @param productId The product to load
+ */
+export const fetchSellerProduct = async (sellerId: string, productId: number): Promise<Product> => {
+  return unwrap(
+    await supabase
+      .from('products')
+      .select('*')
+      .eq('id', productId)
+      .eq('seller_id', sellerId)
+      .single()
+  );
+};
+
+/**
+ * Creates a product, or updates it when an id is given
+ * @param sellerId The seller's user id
+ * @param input The product's fields
+ * @param productId The product to update, if editing
+ */
+export const saveProduct = async (sellerId: string, input: ProductInput, productId?: number) => {
+  if (productId !== undefined) {
+    const { error } = await supabase
+      .from('products')
+      .update({ ...input, updated_at: new Date().toISOString() })
+      .eq('id', productId)
+      .eq('seller_id', sellerId);
+
+    if (error) throw toApiError(error);
+    return;
+  }
+
+  const { error } = await supabase
+    .from('products')
+    .insert([{ ...input, seller_id: sellerId }]);
+
+  if (error) throw toApiError(error);
+};
+
+/**
+ * Hides a product from the store, or puts it back
+ * @param sellerId The seller's user id
+ * @param productId The product to update
+ * @param archived Whether the product should be hidden
+ */
+export const setProductArchived = async (sellerId: string, productId: number, archived: boolean) => {
+  const { error } = await supabase
+    .from('products')
+    .update({ archived, updated_at: new Date().toISOString() })
+    .eq('id', productId)
+    .eq('seller_id', sellerId);
+
+  if (error) throw toApiError(error);
+};
+
+/**
+ * Deletes a product. Fails with `in_use` once the product has been ordered.
+ * @param sellerId The seller's user id
+ * @param productId The product to delete
+ */
+export const deleteProduct = async (sellerId: string, productId: number) => {
+  const { error } = await supabase
+    .from('products')
+    .delete()
+    .eq('id', productId)
+    .eq('seller_id', sellerId);
+
+  if (error) throw toApiError(error);
+};
+
+/**
+ * Uploads a product image into the seller's storage folder
+ * @param sellerId The seller's user id; storage policies only allow writes in their folder
+ * @param file The image to upload
+ * @returns Public URL of the uploaded image
+ */
+export const uploadProductImage = async (sellerId: string, file: File): Promise<string> => {
+  const fileExt = file.name.split('.').pop();
+  const filePath = `${sellerId}/${crypto.randomUUID()}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from(PRODUCT_IMAGES_BUCKET)
+    .upload(filePath, file);
+
+  if (error) throw toApiError(error);
+
+  const { data } = supabase.storage.from(PRODUCT_IMAGES_BUCKET).getPublicUrl(filePath);
+  return data.publicUrl;
+};
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { supabase } from '../supabaseClient';
+import type { OrderItem, Product, ReturnRequest } from '../types';
+import { toApiError, unwrap } from './errors';
+
+export type ReturnReason = 'damaged' | 'wrong_item' | 'not_as_described' | 'no_longer_needed' | 'other';
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'refunded';
+
+export type ReturnWithProduct = ReturnRequest & {
+  product: Pick<Product, 'name' | 'image_url'> | null;
+  order_item: Pick<OrderItem, 'price_at_time'> | null;
+};
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  damaged: 'Arrived damaged or defective',
+  wrong_item: 'Wrong item was sent',
+  not_as_described: 'Not as described',
+  no_longer_needed: 'No longer needed',
+  other: 'Other',
+};
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: 'Return requested',
+  approved: 'Return approved',
+  rejected: 'Return rejected',
+  refunded: 'Refunded',
+};
+
+/**
+ * Loads the returns the current user can see: their own as a customer, those
+ * for their products as a seller, or all of them as an admin
+ * @param orderId Optionally limit to one order
+ */
+export const fetchReturns = async (orderId?: number): Promise<ReturnRequest[]> => {
+  let query = supabase
+    .from('returns')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (orderId !== undefined) {
+    query = query.eq('order_id', orderId);
+  }
+
+  return unwrap(await query) as ReturnRequest[];
+};
+
+/**
+ * Loads returns with the product and price paid, for the returns queue.
+ * RLS limits sellers to returns of their own products.
+ * @param status Optionally limit to one status
+ */
+export const fetchReturnsWithProducts = async (status?: ReturnStatus): Promise<ReturnWithProduct[]> => {
+  let query = supabase
+    .from('returns')
+    .select(`
+      *,
+      product:products(name, image_url),
+      order_item:order_items(price_at_time)
+    `)
+    .order('created_at', { ascending: false });
+
+  if (status !== undefined) {
+    query = query.eq('status', status);
+  }
+
+  return unwrap(await query) as ReturnWithProduct[];
+};
+
+/**
+ * Requests a return for an item of a delivered order
+ * @param orderItemId The order item being returned
+ * @param quantity How many units to return
+ * @param reason Why the item is being returned
+ * @param details Optional free-text explanation
+ * @returns Id of the new return
+ */
+export const requestReturn = async (
+  orderItemId: number,
+  quantity: number,
+  reason: ReturnReason,
+  details?: string
+): Promise<number> => {
+  return unwrap(
+    await supabase.rpc('request_return', {
+      p_order_item_id: orderItemId,
+      p_quantity: quantity,
+      p_reason: reason,
+      p_details: details || undefined,
+    })
+  );
+};
+
+/**
+ * Approves, rejects or refunds a return (sellers and admins only)
+ * @param returnId The return to update
+ * @param status The new status
+ * @param refundAmount Amount refunded; defaults to what was paid for the returned units
+ */
+export const resolveReturn = async (returnId: number, status: Exclude<ReturnStatus, 'requested'>, refundAmount?: number) => {
+  const { error } = await supabase.rpc('resolve_return', {
+    p_return_id: returnId,
+    p_status: status,
+    p_refund_amount: refundAmount,
+  });
+
+  if (error) throw toApiError(error);
+};
\ No newline at end of file
@@ -0,0 +1,265 @@
+import { supabase } from '../supabaseClient';
+import type { Product, Profile, Review, ReviewReport, ReviewReportReason } from '../types';
+import { toApiError, unwrap } from './errors';
+
+export type ReviewWithAuthor = Review & {
+  // Only visible to the reviewer and admins since profiles are private
+  user: Pick<Profile, 'email'> | null;
+};
+
+/** What a reviewer writes; verified_purchase is worked out by the database */
+export type ReviewInput = Pick<Review, 'rating' | 'comment' | 'photo_urls'>;
+
+export type ReviewSort = 'helpful' | 'recent' | 'rating';
+
+export type ModerationQueue = 'reported' | 'hidden';
+
+export type ModerationReview = ReviewWithAuthor & {
+  product: Pick<Product, 'id' | 'name'> | null;
+  reports: Pick<ReviewReport, 'id' | 'reason' | 'details' | 'created_at' | 'resolved_at'>[];
+};
+
+/** Matches reviews_photo_urls_check */
+export const MAX_REVIEW_PHOTOS = 4;
+
+export const REVIEW_SORT_LABELS: Record<ReviewSort, string> = {
+  helpful: 'Most helpful',
+  recent: 'Most recent',
+  rating: 'Highest rating',
+};
+
+export const REPORT_REASON_LABELS: Record<ReviewReportReason, string> = {
+  spam: 'Spam or advertising',
+  offensive: 'Offensive or abusive',
+  off_topic: 'Not about the product',
+  fake: 'Fake or misleading',
+  other: 'Other',
+};
+
+const REVIEW_PHOTOS_BUCKET = 'review-photos';
+
+// reviews references profiles twice (author and moderator), so the author
+// embed names its foreign key
+const REVIEW_COLUMNS = '*, user:profiles!reviews_user_id_fkey(email)';
+
+/**
+ * Loads a product's reviews, newest first. Hidden reviews are only returned
+ * to their author and admins.
+ * @param productId The product being reviewed
+ */
+export const fetchProductReviews = async (productId: number): Promise<ReviewWithAuthor[]> => {
+  return unwrap(
+    await supabase
+      .from('reviews')
+      .select(REVIEW_COLUMNS)
+      .eq('product_id', productId)
+      .order('created_at', { ascending: false })
+  );
+};
+
+/**
+ * Orders reviews for display without changing the given array
+ * @param reviews The reviews to order
+ * @param sort How to order them; ties go to the newest review
+ */
+export const sortReviews = <R extends Review>(reviews: R[], sort: ReviewSort): R[] => {
+  const newestFirst = (a: R, b: R) => b.created_at.localeCompare(a.created_at);
+
+  return [...reviews].sort((a, b) => {
+    switch (sort) {
+      case 'helpful':
+        return b.helpful_count - a.helpful_count || newestFirst(a, b);
+      case 'rating':
+        return b.rating - a.rating || newestFirst(a, b);
+      case 'recent':
+        return newestFirst(a, b);
+    }
+  });
+};
+
+/**
+ * Writes the user's review of a product, or updates it when an id is given.
+ * Users can review a product once, so a second new review fails with `conflict`.
+ * @param userId The reviewer's user id
+ * @param productId The product being reviewed
+ * @param input The rating, comment and photos
+ * @param reviewId The user's existing review, if editing
+ * @returns The saved review
+ */
+export const saveReview = async (
+  userId: string,
+  productId: number,
+  input: ReviewInput,
+  reviewId?: number
+): Promise<ReviewWithAuthor> => {
+  if (reviewId !== undefined) {
+    return unwrap(
+      await supabase
+        .from('reviews')
+        .update(input)
+        .eq('id', reviewId)
+        .eq('user_id', userId)
+        .select(REVIEW_COLUMNS)
+        .single()
+    );
+  }
+
+  return unwrap(
+    await supabase
+      .from('reviews')
+      .insert([{ ...input, user_id: userId, product_id: productId }])
+      .select(REVIEW_COLUMNS)
+      .single()
+  );
+};
+
+/**
+ * Deletes one of the user's reviews
+ * @param userId The reviewer's user id
+ * @param reviewId The review to delete
+ */
+export const deleteReview = async (userId: string, reviewId: number) => {
+  const { error } = await supabase
+    .from('reviews')
+    .delete()
+    .eq('id', reviewId)
+    .eq('user_id', userId);
+
+  if (error) throw toApiError(error);
+};
+
+/**
+ * Uploads a review photo into the reviewer's storage folder
+ * @param userId The reviewer's user id; storage policies only allow writes in their folder
+ * @param file The photo to upload
+ * @returns Public URL of the uploaded photo
+ */
+export const uploadReviewPhoto = async (userId: string, file: File): Promise<string> => {
+  const fileExt = file.name.split('.').pop();
+  const filePath = `${userId}/${crypto.randomUUID()}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from(REVIEW_PHOTOS_BUCKET)
+    .upload(filePath, file);
+
+  if (error) throw toApiError(error);
+
+  const { data } = supabase.storage.from(REVIEW_PHOTOS_BUCKET).getPublicUrl(filePath);
+  return data.publicUrl;
+};
+
+/**
+ * Which of the given reviews the user has marked helpful
+ * @param userId The voter's user id
+ * @param reviewIds The reviews on screen
+ */
+export const fetchHelpfulVotes = async (userId: string, reviewIds: number[]): Promise<Set<number>> => {
+  if (reviewIds.length === 0) return new Set();
+
+  const votes = unwrap(
+    await supabase
+      .from('review_votes')
+      .select('review_id')
+      .eq('user_id', userId)
+      .in('review_id', reviewIds)
+  );
+
+  return new Set(votes.map(vote => vote.review_id));
+};
+
+/**
+ * Marks a review as helpful, or takes the vote back. Reviewers can't vote on
+ * their own reviews.
+ * @param userId The voter's user id
+ * @param reviewId The review
+ * @param helpful Whether the user finds it helpful
+ */
+export const setHelpfulVote = async (userId: string, reviewId: number, helpful: boolean) => {
+  const { error } = helpful
+    ? await supabase
+        .from('review_votes')
+        .upsert([{ review_id: reviewId, user_id: userId }], { ignoreDuplicates: true })
+    : await supabase
+        .from('review_votes')
+        .delete()
+        .eq('review_id', reviewId)
+        .eq('user_id', userId);
+
+  if (error) throw toApiError(error);
+};
+
+/**
+ * Flags a review for the admins. Each user can report a review once, so a
+ * second report fails with `conflict`.
+ * @param userId The reporter's user id
+ * @param reviewId The review
+ * @param reason Why it should be taken down
+ * @param details Anything else the admins should know
+ */
+export const reportReview = async (
+  userId: string,
+  reviewId: number,
+  reason: ReviewReportReason,
+  details: string | null = null
+) => {
+  const { error } = await supabase
+    .from('review_reports')
+    .insert([{ review_id: reviewId, user_id: userId, reason, details }]);
+
+  if (error) throw toApiError(error);
+};
+
+/**
+ * Loads the admin moderation queue: reviews with open reports, most reported
+ * first, or the reviews that have been hidden, most recently hidden first
+ * @param queue Which queue to load
+ */
+export const fetchModerationQueue = async (queue: ModerationQueue): Promise<ModerationReview[]> => {
+  if (queue === 'hidden') {
+    const reviews = unwrap(
+      await supabase
+        .from('reviews')
+        .select(`
+          *,
+          user:profiles!reviews_user_id_fkey(email),
+          product:products(id, name),
+          reports:review_reports(id, reason, details, created_at, resolved_at)
+        `)
+        .eq('hidden', true)
+        .order('hidden_at', { ascending: false })
+    );
+
+    return reviews as ModerationReview[];
+  }
+
+  // The inner join drops reviews without an open report
+  const reviews = unwrap(
+    await supabase
+      .from('reviews')
+      .select(`
+        *,
+        user:profiles!reviews_user_id_fkey(email),
+        product:products(id, name),
+        reports:review_reports!inner(id, reason, details, created_at, resolved_at)
+      `)
+      .is('reports.resolved_at', null)
+      .order('created_at', { ascending: false })
+  ) as ModerationReview[];
+
+  return reviews.sort((a, b) => b.reports.length - a.reports.length);
+};
+
+/**
+ * Hides a review from shoppers or restores it, resolving its open reports.
+ * Admins only.
+ * @param reviewId The review
+ * @param hidden Whether to hide it
+ */
+export const moderateReview = async (reviewId: number, hidden: boolean) => {
+  const { error } = await supabase.rpc('moderate_review', {
+    p_review_id: reviewId,
+    p_hidden: hidden,
+  });
+
+  if (error) throw toApiError(error);
+};
@@ -0,0 +1,251 @@
+import { supabase } from '../supabaseClient';
+import type { TablesUpdate } from '../database.types';
+import type { Product, ProductVariant, Wishlist, WishlistItem, WishlistOccasion } from '../types';
+import { toApiError, unwrap } from './errors';
+
+export type WishlistSummary = Wishlist & {
+  itemCount: number;
+};
+
+export type WishlistItemWithProduct = WishlistItem & {
+  product: Pick<Product, 'id' | 'name' | 'price' | 'discount_price' | 'image_url' | 'stock_quantity' | 'archived'>;
+  variant: Pick<ProductVariant, 'id' | 'options' | 'price' | 'stock_quantity'> | null;
+};
+
+export type WishlistWithItems = Wishlist & {
+  items: WishlistItemWithProduct[];
+};
+
+/** Columns the owner edits; the slug is set once when the list is created */
+export type WishlistInput = Pick<Wishlist, 'name' | 'occasion' | 'description' | 'event_date' | 'is_public'>;
+
+export type WishlistItemUpdate = Pick<TablesUpdate<'wishlist_items'>, 'desired_quantity' | 'purchased_quantity' | 'note'>;
+
+export const OCCASION_LABELS: Record<WishlistOccasion, string> = {
+  wishlist: 'Wishlist',
+  birthday: 'Birthday',
+  wedding: 'Wedding',
+  baby: 'Baby shower',
+  holiday: 'Holiday',
+  other: 'Other',
+};
+
+const WISHLIST_COLUMNS = `
+  *,
+  items:wishlist_items(
+    *,
+    product:products(id, name, price, discount_price, image_url, stock_quantity, archived),
+    variant:product_variants(id, options, price, stock_quantity)
+  )
+`;
+
+// Skips items whose product the user can no longer read
+const withReadableProducts = (list: WishlistWithItems): WishlistWithItems => ({
+  ...list,
+  items: list.items.filter(item => item.product !== null)
+});
+
+/**
+ * Builds a URL slug from the list's name. The random suffix keeps slugs
+ * unique and stops lists from being found by guessing their names.
+ * @param name The list's name
+ */
+const makeSlug = (name: string): string => {
+  const base = name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+    .replace(/-+$/, '');
+  const suffix = crypto.randomUUID().replace(/-/g, '').slice(0, 6);
+
+  return base ? `${base}-${suffix}` : suffix;
+};
+
+/**
+ * Public address of a published list
+ * @param slug The list's slug
+ */
+export const wishlistUrl = (slug: string): string => {
+  return `${window.location.origin}/lists/${slug}`;
+};
+
+/**
+ * Loads the user's lists, newest first
+ * @param userId The lists' owner
+ */
+export const fetchWishlists = async (userId: string): Promise<WishlistSummary[]> => {
+  const lists = unwrap(
+    await supabase
+      .from('wishlists')
+      .select('*, items:wishlist_items(count)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+  );
+
+  return lists.map(({ items, ...list }) => ({
+    ...(list as Wishlist),
+    itemCount: items[0]?.count ?? 0,
+  }));
+};
+
+/**
+ * Loads one of the user's lists with its items
+ * @param userId The list's owner
+ * @param wishlistId The list to load
+ */
+export const fetchWishlist = async (userId: string, wishlistId: number): Promise<WishlistWithItems> => {
+  const list = unwrap(
+    await supabase
+      .from('wishlists')
+      .select(WISHLIST_COLUMNS)
+      .eq('id', wishlistId)
+      .eq('user_id', userId)
+      .order('created_at', { referencedTable: 'items', ascending: true })
+      .single()
+  );
+
+  // options is always a JSON object of strings, see the product_variants table
+  return withReadableProducts(list as WishlistWithItems);
+};
+
+/**
+ * Loads a published list by its slug. Works without signing in.
+ * @param slug The list's slug
+ */
+export const fetchPublicWishlist = async (slug: string): Promise<WishlistWithItems> => {
+  const list = unwrap(
+    await supabase
+      .from('wishlists')
+      .select(WISHLIST_COLUMNS)
+      .eq('slug', slug)
+      .eq('is_public', true)
+      .order('created_at', { referencedTable: 'items', ascending: true })
+      .single()
+  );
+
+  // options is always a JSON object of strings, see the product_variants table
+  return withReadableProducts(list as WishlistWithItems);
+};
+
+/**
+ * Creates a list for the user
+ * @param userId The list's owner
+ * @param input The list's details
+ * @returns The new list
+ */
+export const createWishlist = async (userId: string, input: WishlistInput): Promise<Wishlist> => {
+  const list = unwrap(
+    await supabase
+      .from('wishlists')
+      .insert([{ ...input, user_id: userId, slug: makeSlug(input.name) }])
+      .select()
+      .single()
+  );
+
+  return list as Wishlist;
+};
+
+/**
+ * Updates one of the user's lists
+ * @param userId The list's owner
+ * @param wishlistId The list to update
+ * @param input The changed details
+ */
+export const updateWishlist = async (userId: string, wishlistId: number, input: Partial<WishlistInput>) => {
+  const { error } = await supabase
+    .from('wishlists')
+    .update(input)
+    .eq('id', wishlistId)
+    .eq('user_id', userId);
+
+  if (error) throw toApiError(error);
+};
+
+/**
+ * Deletes one of the user's lists and its items
+ * @param userId The list's owner
+ * @param wishlistId The list to delete
+ */
+export const deleteWishlist = async (userId: string, wishlistId: number) => {
+  const { error } = await supabase
+    .from('wishlists')
+    .delete()
+    .eq('id', wishlistId)
+    .eq('user_id', userId);
+
+  if (error) throw toApiError(error);
+};
+
+/**
+ * Adds a product to one of the user's lists. A product already on the list
+ * fails with `conflict`.
+ * @param wishlistId The list; RLS only allows the owner's lists
+ * @param productId The product to add
+ * @param variantId The variant, for products sold in variants
+ * @param desiredQuantity How many the owner would like
+ */
+export const addWishlistItem = async (
+  wishlistId: number,
+  productId: number,
+  variantId: number | null = null,
+  desiredQuantity = 1
+) => {
+  const { error } = await supabase
+    .from('wishlist_items')
+    .insert([{
+      wishlist_id: wishlistId,
+      product_id: productId,
+      variant_id: variantId,
+      desired_quantity: desiredQuantity
+    }]);
+
+  if (error) throw toApiError(error);
+};
+
+/**
+ * Changes an item on one of the user's lists
+ * @param itemId The item; RLS only allows items on the owner's lists
+ * @param update The changed fields
+ */
+export const updateWishlistItem = async (itemId: number, update: WishlistItemUpdate) => {
+  const { error } = await supabase
+    .from('wishlist_items')
+    .update(update)
+    .eq('id', itemId);
+
+  if (error) throw toApiError(error);
+};
+
+/**
+ * Removes an item from one of the user's lists
+ * @param itemId The item; RLS only allows items on the owner's lists
+ */
+export const removeWishlistItem = async (itemId: number) => {
+  const { error } = await supabase
+    .from('wishlist_items')
+    .delete()
+    .eq('id', itemId);
+
+  if (error) throw toApiError(error);
+};
+
+/**
+ * Records that the current user bought an item from a published list, so
+ * others don't buy it again. Fails with `invalid` unless they have a paid
+ * order for it that they haven't already used to mark items as bought.
+ * @param slug The list's slug
+ * @param itemId The item bought
+ * @param quantity How many were bought
+ * @returns How many of the item have now been bought
+ */
+export const markWishlistItemPurchased = async (slug: string, itemId: number, quantity = 1): Promise<number> => {
+  return unwrap(
+    await supabase.rpc('mark_wishlist_item_purchased', {
+      p_slug: slug,
+      p_item_id: itemId,
+      p_quantity: quantity,
+    })
+  );
+};
\ No newline at end of file
@@ -0,0 +1,52 @@
+import type { Category } from './types';
+
+export type CategoryNode = Category & {
+  children: CategoryNode[];
+};
+
+/**
+ * Nests a flat category list under parent_id, each level sorted by name.
+ * Categories whose parent is missing from the list are treated as top-level.
+ * @param categories Every category, e.g. from fetchCategories()
+ */
+export const buildCategoryTree = (categories: Category[]): CategoryNode[] => {
+  const nodes = new Map<number, CategoryNode>(
+    categories.map(category => [category.id, { ...category, children: [] }])
+  );
+  const roots: CategoryNode[] = [];
+
+  for (const node of nodes.values()) {
+    const parent = node.parent_id !== null ? nodes.get(node.parent_id) : undefined;
+    (parent ? parent.children : roots).push(node);
+  }
+
+  const sortByName = (list: CategoryNode[]) => {
+    list.sort((a, b) => a.name.localeCompare(b.name));
+    list.forEach(node => sortByName(node.children));
+  };
+  sortByName(roots);
+
+  return roots;
+};
+
+/**
+ * Lists the tree depth first with each category's depth, for indented lists
+ * @param nodes The tree from buildCategoryTree
+ */
+export const flattenCategoryTree = (
+  nodes: CategoryNode[],
+  depth = 0
+): { category: CategoryNode; depth: number }[] => {
+  return nodes.flatMap(node => [
+    { category: node, depth },
+    ...flattenCategoryTree(node.children, depth + 1)
+  ]);
+};
+
+/**
+ * Ids of a category and everything below it
+ * @param node The category to start from
+ */
+export const subtreeIds = (node: CategoryNode): number[] => {
+  return [node.id, ...node.children.flatMap(subtreeIds)];
+};
\ No newline at end of file
@@ -0,0 +1,1307 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      cart_items: {
+        Row: {
+          created_at: string
+          id: number
+          product_id: number
+          quantity: number
+          user_id: string
+          variant_id: number | null
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          product_id: number
+          quantity: number
+          user_id: string
+          variant_id?: number | null
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          product_id?: number
+          quantity?: number
+          user_id?: string
+          variant_id?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cart_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cart_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categories: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: number
+          image_url: string | null
+          name: string
+          parent_id: number | null
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: number
+          image_url?: string | null
+          name: string
+          parent_id?: number | null
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: number
+          image_url?: string | null
+          name?: string
+          parent_id?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      favorites: {
+        Row: {
+          created_at: string
+          id: number
+          product_id: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          product_id: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          product_id?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "favorites_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_deliveries: {
+        Row: {
+          category: string
+          channel: string
+          content: string | null
+          created_at: string
+          id: number
+          link: string | null
+          notification_id: number | null
+          sent_at: string | null
+          status: string
+          title: string
+          user_id: string
+        }
+        Insert: {
+          category: string
+          channel: string
+          content?: string | null
+          created_at?: string
+          id?: number
+          link?: string | null
+          notification_id?: number | null
+          sent_at?: string | null
+          status?: string
+          title: string
+          user_id: string
+        }
+        Update: {
+          category?: string
+          channel?: string
+          content?: string | null
+          created_at?: string
+          id?: number
+          link?: string | null
+          notification_id?: number | null
+          sent_at?: string | null
+          status?: string
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_deliveries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          category: string
+          email: boolean
+          in_app: boolean
+          push: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          category: string
+          email?: boolean
+          in_app?: boolean
+          push?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          category?: string
+          email?: boolean
+          in_app?: boolean
+          push?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          category: string
+          content: string | null
+          created_at: string
+          id: number
+          link: string | null
+          read: boolean
+          related_id: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          category?: string
+          content?: string | null
+          created_at?: string
+          id?: number
+          link?: string | null
+          read?: boolean
+          related_id?: string | null
+          title: string
+          type?: string
+          user_id: string
+        }
+        Update: {
+          category?: string
+          content?: string | null
+          created_at?: string
+          id?: number
+          link?: string | null
+          read?: boolean
+          related_id?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      order_items: {
+        Row: {
+          created_at: string
+          id: number
+          order_id: number
+          price_at_time: number
+          product_id: number
+          quantity: number
+          variant_id: number | null
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          order_id: number
+          price_at_time: number
+          product_id: number
+          quantity: number
+          variant_id?: number | null
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          order_id?: number
+          price_at_time?: number
+          product_id?: number
+          quantity?: number
+          variant_id?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: string | null
+          id: number
+          note: string | null
+          order_id: number
+          to_status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: number
+          note?: string | null
+          order_id: number
+          to_status: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: number
+          note?: string | null
+          order_id?: number
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          created_at: string
+          id: number
+          payment_method: string | null
+          payment_reference: string | null
+          payment_status: string
+          shipping_details: Json | null
+          status: string
+          total_amount: number
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          payment_method?: string | null
+          payment_reference?: string | null
+          payment_status?: string
+          shipping_details?: Json | null
+          status?: string
+          total_amount: number
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          payment_method?: string | null
+          payment_reference?: string | null
+          payment_status?: string
+          shipping_details?: Json | null
+          status?: string
+          total_amount?: number
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_variants: {
+        Row: {
+          created_at: string
+          id: number
+          options: Json
+          price: number | null
+          product_id: number
+          sku: string
+          stock_quantity: number
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          options?: Json
+          price?: number | null
+          product_id: number
+          sku: string
+          stock_quantity?: number
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          options?: Json
+          price?: number | null
+          product_id?: number
+          sku?: string
+          stock_quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_variants_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          archived: boolean
+          avg_rating: number
+          brand: string | null
+          category_id: number | null
+          created_at: string
+          description: string | null
+          discount_price: number | null
+          featured: boolean
+          id: number
+          image_url: string | null
+          image_urls: string[] | null
+          name: string
+          price: number
+          review_count: number
+          search_vector: unknown | null
+          seller_id: string | null
+          specifications: Json | null
+          stock_quantity: number
+          updated_at: string | null
+        }
+        Insert: {
+          archived?: boolean
+          avg_rating?: number
+          brand?: string | null
+          category_id?: number | null
+          created_at?: string
+          description?: string | null
+          discount_price?: number | null
+          featured?: boolean
+          id?: number
+          image_url?: string | null
+          image_urls?: string[] | null
+          name: string
+          price: number
+          review_count?: number
+          search_vector?: unknown | null
+          seller_id?: string | null
+          specifications?: Json | null
+          stock_quantity?: number
+          updated_at?: string | null
+        }
+        Update: {
+          archived?: boolean
+          avg_rating?: number
+          brand?: string | null
+          category_id?: number | null
+          created_at?: string
+          description?: string | null
+          discount_price?: number | null
+          featured?: boolean
+          id?: number
+          image_url?: string | null
+          image_urls?: string[] | null
+          name?: string
+          price?: number
+          review_count?: number
+          search_vector?: unknown | null
+          seller_id?: string | null
+          specifications?: Json | null
+          stock_quantity?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "products_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_seller_id_fkey"
+            columns: ["seller_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          address: string | null
+          avatar_url: string | null
+          birth_date: string | null
+          created_at: string
+          email: string | null
+          full_name: string | null
+          id: string
+          phone: string | null
+          role: string
+          updated_at: string | null
+        }
+        Insert: {
+          address?: string | null
+          avatar_url?: string | null
+          birth_date?: string | null
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id: string
+          phone?: string | null
+          role?: string
+          updated_at?: string | null
+        }
+        Update: {
+          address?: string | null
+          avatar_url?: string | null
+          birth_date?: string | null
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          phone?: string | null
+          role?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      returns: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: number
+          order_id: number
+          order_item_id: number
+          product_id: number | null
+          quantity: number
+          reason: string
+          refund_amount: number | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: number
+          order_id: number
+          order_item_id: number
+          product_id?: number | null
+          quantity: number
+          reason: string
+          refund_amount?: number | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: number
+          order_id?: number
+          order_item_id?: number
+          product_id?: number | null
+          quantity?: number
+          reason?: string
+          refund_amount?: number | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "returns_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "returns_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: true
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "returns_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_reports: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: number
+          reason: string
+          resolved_at: string | null
+          resolved_by: string | null
+          review_id: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: number
+          reason: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          review_id: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: number
+          reason?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          review_id?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_reports_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_reports_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_reports_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_votes: {
+        Row: {
+          created_at: string
+          review_id: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          review_id: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          review_id?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_votes_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_votes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reviews: {
+        Row: {
+          comment: string | null
+          created_at: string
+          helpful_count: number
+          hidden: boolean
+          hidden_at: string | null
+          hidden_by: string | null
+          id: number
+          photo_urls: string[]
+          product_id: number
+          rating: number
+          updated_at: string | null
+          user_id: string
+          verified_purchase: boolean
+        }
+        Insert: {
+          comment?: string | null
+          created_at?: string
+          helpful_count?: number
+          hidden?: boolean
+          hidden_at?: string | null
+          hidden_by?: string | null
+          id?: number
+          photo_urls?: string[]
+          product_id: number
+          rating: number
+          updated_at?: string | null
+          user_id: string
+          verified_purchase?: boolean
+        }
+        Update: {
+          comment?: string | null
+          created_at?: string
+          helpful_count?: number
+          hidden?: boolean
+          hidden_at?: string | null
+          hidden_by?: string | null
+          id?: number
+          photo_urls?: string[]
+          product_id?: number
+          rating?: number
+          updated_at?: string | null
+          user_id?: string
+          verified_purchase?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_hidden_by_fkey"
+            columns: ["hidden_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_reservations: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: number
+          product_id: number
+          quantity: number
+          user_id: string
+          variant_id: number | null
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          id?: number
+          product_id: number
+          quantity: number
+          user_id: string
+          variant_id?: number | null
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: number
+          product_id?: number
+          quantity?: number
+          user_id?: string
+          variant_id?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_reservations_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_reservations_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wishlist_item_purchases: {
+        Row: {
+          created_at: string
+          id: number
+          quantity: number
+          user_id: string
+          wishlist_item_id: number
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          quantity: number
+          user_id: string
+          wishlist_item_id: number
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          quantity?: number
+          user_id?: string
+          wishlist_item_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wishlist_item_purchases_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wishlist_item_purchases_wishlist_item_id_fkey"
+            columns: ["wishlist_item_id"]
+            isOneToOne: false
+            referencedRelation: "wishlist_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wishlist_items: {
+        Row: {
+          created_at: string
+          desired_quantity: number
+          id: number
+          note: string | null
+          product_id: number
+          purchased_quantity: number
+          variant_id: number | null
+          wishlist_id: number
+        }
+        Insert: {
+          created_at?: string
+          desired_quantity?: number
+          id?: number
+          note?: string | null
+          product_id: number
+          purchased_quantity?: number
+          variant_id?: number | null
+          wishlist_id: number
+        }
+        Update: {
+          created_at?: string
+          desired_quantity?: number
+          id?: number
+          note?: string | null
+          product_id?: number
+          purchased_quantity?: number
+          variant_id?: number | null
+          wishlist_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wishlist_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wishlist_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wishlist_items_wishlist_id_fkey"
+            columns: ["wishlist_id"]
+            isOneToOne: false
+            referencedRelation: "wishlists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wishlists: {
+        Row: {
+          created_at: string
+          description: string | null
+          event_date: string | null
+          id: number
+          is_public: boolean
+          name: string
+          occasion: string
+          slug: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          event_date?: string | null
+          id?: number
+          is_public?: boolean
+          name: string
+          occasion?: string
+          slug: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          event_date?: string | null
+          id?: number
+          is_public?: boolean
+          name?: string
+          occasion?: string
+          slug?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wishlists_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      available_stock: {
+        Args: {
+          p_product_id: number
+          p_variant_id?: number
+        }
+        Returns: number
+      }
+      cancel_order: {
+        Args: {
+          p_order_id: number
+          p_reason?: string
+        }
+        Returns: undefined
+      }
+      category_subtree_ids: {
+        Args: {
+          p_category_id: number
+        }
+        Returns: number[]
+      }
+      current_user_role: {
+        Args: never
+        Returns: string
+      }
+      delete_user_account: {
+        Args: never
+        Returns: undefined
+      }
+      expire_unpaid_orders: {
+        Args: {
+          p_minutes?: number
+        }
+        Returns: number
+      }
+      get_category_counts: {
+        Args: never
+        Returns: {
+          category_id: number
+          category_name: string
+          product_count: number
+        }[]
+      }
+      get_category_path: {
+        Args: {
+          p_category_id: number
+        }
+        Returns: Database["public"]["Tables"]["categories"]["Row"][]
+      }
+      get_product_facets: {
+        Args: {
+          p_brands?: string[]
+          p_category_id?: number
+          p_in_stock?: boolean
+          p_max_price?: number
+          p_min_price?: number
+          p_min_rating?: number
+          p_on_sale?: boolean
+          p_search?: string
+          p_specs?: Json
+        }
+        Returns: {
+          facet: string
+          product_count: number
+          spec_key: string
+          value: string
+        }[]
+      }
+      get_seller_sales: {
+        Args: {
+          p_seller_id: string
+        }
+        Returns: {
+          pending_orders: number
+          total_orders: number
+          total_products: number
+          total_revenue: number
+        }[]
+      }
+      kept_purchase_quantity: {
+        Args: {
+          p_product_id: number
+          p_user_id: string
+          p_variant_id: number
+        }
+        Returns: number
+      }
+      mark_wishlist_item_purchased: {
+        Args: {
+          p_item_id: number
+          p_quantity?: number
+          p_slug: string
+        }
+        Returns: number
+      }
+      moderate_review: {
+        Args: {
+          p_hidden: boolean
+          p_review_id: number
+        }
+        Returns: undefined
+      }
+      notification_channel_enabled: {
+        Args: {
+          p_category: string
+          p_channel: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      notify_user: {
+        Args: {
+          p_category: string
+          p_content?: string
+          p_link?: string
+          p_related_id?: string
+          p_title: string
+          p_type: string
+          p_user_id: string
+        }
+        Returns: number
+      }
+      order_status_transition_allowed: {
+        Args: {
+          from_status: string
+          to_status: string
+        }
+        Returns: boolean
+      }
+      place_order: {
+        Args: {
+          shipping: Json
+        }
+        Returns: number
+      }
+      product_specs_match: {
+        Args: {
+          except_key?: string
+          filters: Json
+          specs: Json
+        }
+        Returns: boolean
+      }
+      release_cart_stock: {
+        Args: never
+        Returns: undefined
+      }
+      request_return: {
+        Args: {
+          p_details?: string
+          p_order_item_id: number
+          p_quantity: number
+          p_reason: string
+        }
+        Returns: number
+      }
+      reserve_cart_stock: {
+        Args: {
+          minutes?: number
+        }
+        Returns: string
+      }
+      reserved_stock: {
+        Args: {
+          p_exclude_user?: string
+          p_product_id: number
+        }
+        Returns: number
+      }
+      reserved_variant_stock: {
+        Args: {
+          p_exclude_user?: string
+          p_variant_id: number
+        }
+        Returns: number
+      }
+      resolve_return: {
+        Args: {
+          p_refund_amount?: number
+          p_return_id: number
+          p_status: string
+        }
+        Returns: undefined
+      }
+      restock_order: {
+        Args: {
+          p_order_id: number
+        }
+        Returns: undefined
+      }
+      review_is_verified_purchase: {
+        Args: {
+          p_product_id: number
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      search_products: {
+        Args: {
+          search_query: string
+        }
+        Returns: Database["public"]["Tables"]["products"]["Row"][]
+      }
+      sells_in_order: {
+        Args: {
+          p_order_id: number
+        }
+        Returns: boolean
+      }
+      transition_order_status: {
+        Args: {
+          p_note?: string
+          p_order_id: number
+          p_status: string
+        }
+        Returns: undefined
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof DatabaseWithoutInternals },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema["CompositeTypes"]
+    | { schema: keyof DatabaseWithoutInternals },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema["CompositeTypes"]
+    ? DefaultSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {},
+  },
+} as const
@@ -35,7 +35,7 @@ export const preloadImage = (url: string): Promise<boolean> => {
  * @param fallbackUrl Optional custom fallback URL
  * @returns Either the original URL or the fallback/placeholder
  */
-export const getSafeImageUrl = (url: string, fallbackUrl?: string): string => {
+export const getSafeImageUrl = (url: string | null, fallbackUrl?: string): string => {
   if (!url) {
     return fallbackUrl || PLACEHOLDER_IMAGE;
   }
@@ -56,7 +56,7 @@ export const getSafeImageUrl = (url: string, fallbackUrl?: string): string => {
 /**
  * Image props to use for consistent image loading across components
  */
-export const getImageProps = (url: string, alt: string) => {
+export const getImageProps = (url: string | null, alt: string) => {
   return {
     src: getSafeImageUrl(url),
     alt,
@@ -0,0 +1,69 @@
+export const ORDER_STATUSES = [
+  'pending',
+  'confirmed',
+  'processing',
+  'shipped',
+  'delivered',
+  'cancelled',
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+/**
+ * Legal moves out of each status. The database enforces the same table in
+ * order_status_transition_allowed, so keep the two in sync.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Order Placed',
+  confirmed: 'Order Confirmed',
+  processing: 'Processing',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+export const isOrderStatus = (status: string): status is OrderStatus => {
+  return (ORDER_STATUSES as readonly string[]).includes(status);
+};
+
+/**
+ * Checks whether an order may move from one status to another
+ * @param from The order's current status
+ * @param to The status to move to
+ * @returns True if the move is allowed
+ */
+export const canTransition = (from: OrderStatus, to: OrderStatus): boolean => {
+  return ORDER_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * Gets the statuses an order can move to next. Orders are only confirmed
+ * once they are paid, which the database enforces as well.
+ * @param status The order's current status
+ * @param paymentStatus The order's payment status
+ * @returns The allowed next statuses, empty for final states
+ */
+export const getNextStatuses = (status: string, paymentStatus: string): readonly OrderStatus[] => {
+  if (!isOrderStatus(status)) return [];
+
+  return paymentStatus === 'paid'
+    ? ORDER_TRANSITIONS[status]
+    : ORDER_TRANSITIONS[status].filter(next => next !== 'confirmed');
+};
+
+/**
+ * Checks whether the customer can still cancel an order themselves
+ * @param status The order's current status
+ */
+export const canCancelOrder = (status: string): boolean => {
+  return status === 'pending' || status === 'confirmed';
+};
\ No newline at end of file
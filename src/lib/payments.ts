@@ -0,0 +1,198 @@
+import { loadStripe } from '@stripe/stripe-js';
+import type { Stripe, StripeCardElement } from '@stripe/stripe-js';
+import { supabase } from './supabaseClient';
+
+export type PaymentProviderName = 'stripe' | 'mock';
+
+export type PaymentResult =
+  | { status: 'succeeded'; paymentId: string }
+  | { status: 'declined'; message: string; code?: string }
+  | { status: 'failed'; message: string };
+
+/**
+ * A way of taking a card payment for an order that place_order has created.
+ * Providers render their own card fields into a container element, so
+ * Checkout doesn't need to know which one is in use.
+ */
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  /**
+   * Renders the card input into the given element
+   * @param container Element to render the card fields into
+   */
+  mount: (container: HTMLElement) => Promise<void>;
+  /** Removes whatever mount rendered */
+  unmount: () => void;
+  /**
+   * Charges the card for a pending order
+   * @param orderId Id of the order returned by place_order
+   * @returns Whether the charge went through; declines are not thrown
+   */
+  pay: (orderId: number) => Promise<PaymentResult>;
+}
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  return (error as { message?: string } | null)?.message || fallback;
+};
+
+/**
+ * Stripe implementation. The PaymentIntent is created server-side by the
+ * create-payment-intent edge function, which prices it from the order row.
+ */
+export const createStripeProvider = (publishableKey: string): PaymentProvider => {
+  let stripe: Stripe | null = null;
+  let card: StripeCardElement | null = null;
+  // Bumped on every mount/unmount so a slow loadStripe from an earlier mount
+  // doesn't render a second card field
+  let mountCount = 0;
+
+  return {
+    name: 'stripe',
+
+    mount: async (container) => {
+      const mountId = ++mountCount;
+
+      stripe = await loadStripe(publishableKey);
+      if (!stripe) {
+        throw new Error('Failed to load Stripe');
+      }
+      if (mountId !== mountCount) return;
+
+      card = stripe.elements().create('card', { hidePostalCode: true });
+      card.mount(container);
+    },
+
+    unmount: () => {
+      mountCount++;
+      card?.destroy();
+      card = null;
+    },
+
+    pay: async (orderId) => {
+      if (!stripe || !card) {
+        return { status: 'failed', message: 'Payment form is not ready yet.' };
+      }
+
+      try {
+        const { data, error } = await supabase.functions.invoke('create-payment-intent', {
+          body: { order_id: orderId },
+        });
+
+        if (error) throw error;
+
+        const { error: stripeError, paymentIntent } = await stripe.confirmCardPayment(
+          data.client_secret,
+          { payment_method: { card } }
+        );
+
+        if (stripeError) {
+          // Card errors are declines the shopper can fix; anything else is on us
+          return stripeError.type === 'card_error'
+            ? {
+                status: 'declined',
+                message: stripeError.message || 'Your card was declined.',
+                code: stripeError.decline_code || stripeError.code,
+              }
+            : { status: 'failed', message: stripeError.message || 'Payment failed.' };
+        }
+
+        if (paymentIntent?.status !== 'succeeded') {
+          return { status: 'failed', message: 'Payment was not completed.' };
+        }
+
+        return { status: 'succeeded', paymentId: paymentIntent.id };
+      } catch (error) {
+        console.error('Error processing payment:', error);
+        return { status: 'failed', message: getErrorMessage(error, 'Payment failed.') };
+      }
+    },
+  };
+};
+
+// Card numbers the mock provider recognises, mirroring Stripe's test cards.
+// Any other number succeeds.
+export const MOCK_DECLINES: Record<string, { code: string; message: string }> = {
+  '4000000000000002': { code: 'card_declined', message: 'Your card was declined.' },
+  '4000000000009995': { code: 'insufficient_funds', message: 'Your card has insufficient funds.' },
+  '4000000000000069': { code: 'expired_card', message: 'Your card has expired.' },
+};
+
+/**
+ * Local mock for development and tests. Never talks to a payment network and
+ * always gives the same answer for the same card number.
+ */
+export const createMockProvider = (): PaymentProvider => {
+  let input: HTMLInputElement | null = null;
+
+  return {
+    name: 'mock',
+
+    mount: async (container) => {
+      input = document.createElement('input');
+      input.type = 'text';
+      input.inputMode = 'numeric';
+      input.autocomplete = 'off';
+      input.placeholder = 'Test card number, e.g. 4242 4242 4242 4242';
+      input.className =
+        'block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm';
+      container.appendChild(input);
+    },
+
+    unmount: () => {
+      input?.remove();
+      input = null;
+    },
+
+    pay: async (orderId) => {
+      const cardNumber = input?.value.replace(/\s+/g, '') ?? '';
+
+      if (!/^\d{12,19}$/.test(cardNumber)) {
+        return { status: 'declined', message: 'Your card number is invalid.', code: 'invalid_number' };
+      }
+
+      const decline = MOCK_DECLINES[cardNumber];
+      if (decline) {
+        return { status: 'declined', ...decline };
+      }
+
+      return { status: 'succeeded', paymentId: `mock_${orderId}_${cardNumber.slice(-4)}` };
+    },
+  };
+};
+
+/**
+ * Picks the provider from VITE_PAYMENT_PROVIDER, falling back to the mock
+ * when no Stripe publishable key is configured
+ */
+export const getPaymentProvider = (): PaymentProvider => {
+  const publishableKey = import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY;
+  const providerName = import.meta.env.VITE_PAYMENT_PROVIDER || (publishableKey ? 'stripe' : 'mock');
+
+  if (providerName === 'stripe') {
+    if (!publishableKey) {
+      throw new Error('Missing Stripe environment variables');
+    }
+    return createStripeProvider(publishableKey);
+  }
+
+  return createMockProvider();
+};
+
+/**
+ * Asks the server to verify a successful charge and move the order from
+ * pending to confirmed. The client never updates order status itself.
+ * @param orderId Id of the paid order
+ * @param provider Provider that took the payment
+ * @param paymentId Provider's reference for the charge
+ */
+export const confirmOrderPayment = async (
+  orderId: number,
+  provider: PaymentProviderName,
+  paymentId: string
+) => {
+  const { error } = await supabase.functions.invoke('confirm-payment', {
+    body: { order_id: orderId, provider, payment_id: paymentId },
+  });
+
+  if (error) throw error;
+};
\ No newline at end of file
@@ -0,0 +1,46 @@
+// Recent searches are kept in localStorage, one list per user, so people
+// sharing a browser don't see each other's searches
+const MAX_RECENT_SEARCHES = 5;
+
+const storageKey = (userId: string | null) => `recentSearches:${userId ?? 'guest'}`;
+
+/**
+ * Loads the user's recent searches, most recent first
+ * @param userId The signed-in user, or null for guests
+ */
+export const loadRecentSearches = (userId: string | null): string[] => {
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading recent searches:', error);
+    return [];
+  }
+};
+
+/**
+ * Puts a search at the top of the user's recent searches
+ * @param userId The signed-in user, or null for guests
+ * @param search The search to remember
+ * @returns The updated list
+ */
+export const addRecentSearch = (userId: string | null, search: string): string[] => {
+  const trimmed = search.trim();
+  if (!trimmed) return loadRecentSearches(userId);
+
+  const searches = [
+    trimmed,
+    ...loadRecentSearches(userId).filter(recent => recent.toLowerCase() !== trimmed.toLowerCase())
+  ].slice(0, MAX_RECENT_SEARCHES);
+
+  localStorage.setItem(storageKey(userId), JSON.stringify(searches));
+  return searches;
+};
+
+/**
+ * Forgets the user's recent searches
+ * @param userId The signed-in user, or null for guests
+ */
+export const clearRecentSearches = (userId: string | null) => {
+  localStorage.removeItem(storageKey(userId));
+};
\ No newline at end of file
@@ -0,0 +1,108 @@
+import type { Tables } from './database.types';
+import type { OrderStatus } from './orderStatus';
+import type { ReturnReason, ReturnStatus } from './api/returns';
+
+// Domain types shared across the app. Rows come from the generated Database
+// types (src/lib/database.types.ts, regenerated with `npm run db:types`), so a
+// column renamed in a migration surfaces as a compile error here and in every
+// query that selects it. Text columns the app treats as enums are narrowed.
+
+export type UserRole = 'customer' | 'seller' | 'admin';
+
+export type Profile = Omit<Tables<'profiles'>, 'role'> & {
+  role: UserRole;
+};
+
+export type Category = Tables<'categories'>;
+
+export type Product = Tables<'products'>;
+
+/** Option name to value, e.g. { size: 'M', color: 'Red' } */
+export type VariantOptions = Record<string, string>;
+
+export type ProductVariant = Omit<Tables<'product_variants'>, 'options'> & {
+  options: VariantOptions;
+};
+
+export type Order = Tables<'orders'>;
+
+export type OrderItem = Tables<'order_items'>;
+
+export type Review = Tables<'reviews'>;
+
+export type ReviewReportReason = 'spam' | 'offensive' | 'off_topic' | 'fake' | 'other';
+
+export type ReviewReport = Omit<Tables<'review_reports'>, 'reason'> & {
+  reason: ReviewReportReason;
+};
+
+export type NotificationCategory = 'order_updates' | 'promotions' | 'new_products' | 'account_alerts';
+
+export type NotificationChannel = 'in_app' | 'email' | 'push';
+
+export type Notification = Omit<Tables<'notifications'>, 'category'> & {
+  category: NotificationCategory;
+};
+
+export type NotificationPreference = Omit<Tables<'notification_preferences'>, 'category'> & {
+  category: NotificationCategory;
+};
+
+export type Favorite = Tables<'favorites'>;
+
+export type WishlistOccasion = 'wishlist' | 'birthday' | 'wedding' | 'baby' | 'holiday' | 'other';
+
+export type Wishlist = Omit<Tables<'wishlists'>, 'occasion'> & {
+  occasion: WishlistOccasion;
+};
+
+export type WishlistItem = Tables<'wishlist_items'>;
+
+export type OrderStatusChange = Omit<Tables<'order_status_history'>, 'from_status' | 'to_status'> & {
+  from_status: OrderStatus | null;
+  to_status: OrderStatus;
+};
+
+/**
+ * Address captured at checkout and stored in orders.shipping_details.
+ * A type alias rather than an interface so it is assignable to Json.
+ */
+export type ShippingDetails = {
+  fullName: string;
+  address: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+  phone: string;
+};
+
+export type ReturnRequest = Omit<Tables<'returns'>, 'reason' | 'status'> & {
+  reason: ReturnReason;
+  status: ReturnStatus;
+};
+
+/**
+ * Product fields the cart needs. stock_quantity is what the shopper can still
+ * claim, which may be less than the product's stock while others check out.
+ */
+export interface CartProduct extends Pick<Product, 'id' | 'name' | 'price' | 'discount_price' | 'image_url'> {
+  stock_quantity: number;
+}
+
+/** Variant fields the cart needs, with stock_quantity meant as for CartProduct */
+export interface CartVariant extends Pick<ProductVariant, 'id' | 'sku' | 'options' | 'price'> {
+  stock_quantity: number;
+}
+
+export interface CartItem {
+  id: number;
+  product_id: number;
+  variant_id: number | null;
+  quantity: number;
+  product: CartProduct;
+  variant: CartVariant | null;
+}
+
+/** Fields shown on product cards in listings */
+export type ProductSummary = Pick<Product, 'id' | 'name' | 'price' | 'discount_price' | 'image_url' | 'stock_quantity'>;
\ No newline at end of file
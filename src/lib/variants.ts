@@ -0,0 +1,67 @@
+import type { CartItem, Product, ProductVariant, VariantOptions } from './types';
+
+/**
+ * Option names used by a product's variants, in the order they first appear
+ * @param variants The product's variants
+ */
+export const variantOptionNames = (variants: Pick<ProductVariant, 'options'>[]): string[] => {
+  return [...new Set(variants.flatMap(variant => Object.keys(variant.options)))];
+};
+
+/**
+ * Values one option takes across a product's variants, in the order they first appear
+ * @param variants The product's variants
+ * @param name The option, e.g. 'size'
+ */
+export const variantOptionValues = (variants: Pick<ProductVariant, 'options'>[], name: string): string[] => {
+  return [
+    ...new Set(
+      variants
+        .map(variant => variant.options[name])
+        .filter((value): value is string => value !== undefined)
+    )
+  ];
+};
+
+/**
+ * The variant whose options all match the selection, if there is one
+ * @param variants The product's variants
+ * @param selected The chosen value of each option
+ */
+export const findVariant = <V extends Pick<ProductVariant, 'options'>>(
+  variants: V[],
+  selected: VariantOptions
+): V | undefined => {
+  return variants.find(variant =>
+    Object.entries(variant.options).every(([name, value]) => selected[name] === value)
+  );
+};
+
+/**
+ * Short description of a variant for carts and orders, e.g. "M / Red"
+ * @param options The variant's options
+ */
+export const variantLabel = (options: VariantOptions): string => {
+  return Object.values(options).join(' / ');
+};
+
+/**
+ * What one unit costs. A variant's own price replaces both the product's
+ * price and its discount, matching place_order.
+ * @param product The product
+ * @param variant The chosen variant, if any
+ */
+export const unitPrice = (
+  product: Pick<Product, 'price' | 'discount_price'>,
+  variant?: Pick<ProductVariant, 'price'> | null
+): number => {
+  return variant?.price ?? product.discount_price ?? product.price;
+};
+
+/**
+ * Stock the shopper can still claim for a cart line
+ * @param item The cart line
+ */
+export const cartItemStock = (item: Pick<CartItem, 'product' | 'variant'>): number => {
+  return item.variant ? item.variant.stock_quantity : item.product.stock_quantity;
+};
\ No newline at end of file
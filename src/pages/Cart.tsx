@@ -1,9 +1,26 @@
 import { Link } from 'react-router-dom';
 import { useCart } from '../context/CartContext';
+import { cartItemStock, unitPrice, variantLabel } from '../lib/variants';
+import type { CartItem } from '../lib/types';
 
 const Cart = () => {
   const { items, loading, updateQuantity, removeFromCart, total } = useCart();
 
+  const handleQuantityChange = async (item: CartItem, quantity: number) => {
+    try {
+      await updateQuantity(item.product_id, quantity, item.variant_id);
+    } catch (error) {
+      console.error('Error updating quantity:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update quantity. Please try again.');
+    }
+  };
+
+  // Lines that can't be bought as they stand: sold out, or more in the cart
+  // than is left in stock
+  const hasUnavailableItems = items.some(
+    (item) => item.quantity > cartItemStock(item)
+  );
+
   if (loading) {
     return (
       <div className="flex justify-center items-center min-h-screen">
@@ -49,7 +66,7 @@ const Cart = () => {
                 <li key={item.id} className="flex py-6 sm:py-10">
                   <div className="flex-shrink-0">
                     <img
-                      src={item.product.image_url}
+                      src={item.product.image_url || '/images/placeholder.jpg'}
                       alt={item.product.name}
                       className="w-24 h-24 rounded-md object-center object-cover sm:w-32 sm:h-32"
                     />
@@ -63,13 +80,27 @@ const Cart = () => {
                             {item.product.name}
                           </Link>
                         </h4>
+                        {item.variant && (
+                          <p className="mt-1 text-sm text-gray-500">{variantLabel(item.variant.options)}</p>
+                        )}
                         <p className="mt-1 text-sm text-gray-500">
-                          ${item.product.discount_price || item.product.price}
+                          ${unitPrice(item.product, item.variant)}
                         </p>
+                        {cartItemStock(item) <= 0 ? (
+                          <p className="mt-1 text-sm font-medium text-red-600">Sold out</p>
+                        ) : item.quantity > cartItemStock(item) ? (
+                          <p className="mt-1 text-sm font-medium text-red-600">
+                            Only {cartItemStock(item)} left &ndash; reduce the quantity to continue
+                          </p>
+                        ) : cartItemStock(item) <= 5 ? (
+                          <p className="mt-1 text-sm text-yellow-600">
+                            Only {cartItemStock(item)} left
+                          </p>
+                        ) : null}
                       </div>
                       <button
                         type="button"
-                        onClick={() => removeFromCart(item.product_id)}
+                        onClick={() => removeFromCart(item.product_id, item.variant_id)}
                         className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
                       >
                         Remove
@@ -85,12 +116,16 @@ const Cart = () => {
                         name={`quantity-${item.id}`}
                         value={item.quantity}
                         onChange={(e) =>
-                          updateQuantity(item.product_id, Number(e.target.value))
+                          handleQuantityChange(item, Number(e.target.value))
                         }
                         className="max-w-full rounded-md border border-gray-300 py-1.5 text-base leading-5 font-medium text-gray-700 text-left shadow-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
                       >
-                        {[...Array(10)].map((_, i) => (
-                          <option key={i + 1} value={i + 1}>
+                        {[...Array(Math.max(Math.min(10, cartItemStock(item)), item.quantity))].map((_, i) => (
+                          <option
+                            key={i + 1}
+                            value={i + 1}
+                            disabled={i + 1 > cartItemStock(item)}
+                          >
                             {i + 1}
                           </option>
                         ))}
@@ -99,8 +134,7 @@ const Cart = () => {
                       <div className="ml-4">
                         <p className="text-sm text-gray-500">
                           Total: $
-                          {((item.product.discount_price || item.product.price) *
-                            item.quantity).toFixed(2)}
+                          {(unitPrice(item.product, item.variant) * item.quantity).toFixed(2)}
                         </p>
                       </div>
                     </div>
@@ -126,12 +160,23 @@ const Cart = () => {
               </div>
 
               <div className="mt-6">
-                <Link
-                  to="/checkout"
-                  className="w-full bg-indigo-600 border border-transparent rounded-md shadow-sm py-3 px-4 text-base font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-50 focus:ring-indigo-500"
-                >
-                  Proceed to Checkout
-                </Link>
+                {hasUnavailableItems ? (
+                  <>
+                    <span className="block w-full text-center bg-indigo-600 border border-transparent rounded-md shadow-sm py-3 px-4 text-base font-medium text-white opacity-50 cursor-not-allowed">
+                      Proceed to Checkout
+                    </span>
+                    <p className="mt-2 text-sm text-red-600">
+                      Some items are no longer available in the quantity you selected.
+                    </p>
+                  </>
+                ) : (
+                  <Link
+                    to="/checkout"
+                    className="w-full bg-indigo-600 border border-transparent rounded-md shadow-sm py-3 px-4 text-base font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-50 focus:ring-indigo-500"
+                  >
+                    Proceed to Checkout
+                  </Link>
+                )}
               </div>
 
               <div className="mt-6 text-center">
@@ -1,24 +1,31 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useCart } from '../context/CartContext';
-import { useAuth } from '../context/AuthContext';
-import { supabase } from '../lib/supabaseClient';
-
-interface ShippingDetails {
-  fullName: string;
-  address: string;
-  city: string;
-  state: string;
-  postalCode: string;
-  country: string;
-  phone: string;
+import type { CartItem, ShippingDetails } from '../lib/types';
+import { releaseCartStock, reserveCartStock } from '../lib/api/cart';
+import { placeOrder } from '../lib/api/orders';
+import { confirmOrderPayment, getPaymentProvider } from '../lib/payments';
+import { unitPrice, variantLabel } from '../lib/variants';
+
+interface PlacedOrder {
+  id: number;
+  items: CartItem[];
+  total: number;
 }
 
 const Checkout = () => {
   const navigate = useNavigate();
-  const { user } = useAuth();
-  const { items, total, clearCart } = useCart();
+  const { items, loading: cartLoading, total, refreshCart } = useCart();
   const [loading, setLoading] = useState(false);
+  const [reservedUntil, setReservedUntil] = useState<Date | null>(null);
+  const [reservationError, setReservationError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [paymentProvider] = useState(getPaymentProvider);
+  const [paymentError, setPaymentError] = useState<string | null>(null);
+  // Set once place_order has succeeded, so a declined card can be retried
+  // against the same order. Keeps a copy of the cart, which is now empty.
+  const [placedOrder, setPlacedOrder] = useState<PlacedOrder | null>(null);
+  const cardContainerRef = useRef<HTMLDivElement>(null);
   const [shippingDetails, setShippingDetails] = useState<ShippingDetails>({
     fullName: '',
     address: '',
@@ -29,11 +36,73 @@ const Checkout = () => {
     phone: '',
   });
 
-  if (items.length === 0) {
-    navigate('/cart');
+  const hasItems = items.length > 0;
+  // place_order empties the cart, and the realtime update can arrive before
+  // it returns, so there is nothing to redirect for while an order is placed
+  const cartIsEmpty = !cartLoading && !hasItems && !placedOrder && !loading;
+
+  const reserveStock = async () => {
+    try {
+      setReservationError(null);
+
+      setReservedUntil(await reserveCartStock(15));
+      setNow(Date.now());
+    } catch (error) {
+      console.error('Error reserving stock:', error);
+      setReservedUntil(null);
+      setReservationError(
+        (error as { message?: string } | null)?.message || 'Failed to reserve your items.'
+      );
+    }
+  };
+
+  // Hold the cart's stock while the user fills in the form, and give it back
+  // if they leave without ordering. place_order clears the hold itself.
+  useEffect(() => {
+    if (cartLoading || !hasItems) return;
+
+    reserveStock();
+
+    return () => {
+      releaseCartStock().catch((error) => {
+        console.error('Error releasing stock:', error);
+      });
+    };
+  }, [cartLoading, hasItems]);
+
+  useEffect(() => {
+    if (!cardContainerRef.current) return;
+
+    paymentProvider.mount(cardContainerRef.current).catch((error) => {
+      console.error('Error loading payment form:', error);
+      setPaymentError('Failed to load the payment form. Please refresh the page.');
+    });
+
+    return () => paymentProvider.unmount();
+  }, [paymentProvider]);
+
+  useEffect(() => {
+    if (!reservedUntil) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [reservedUntil]);
+
+  useEffect(() => {
+    if (cartIsEmpty) {
+      navigate('/cart');
+    }
+  }, [cartIsEmpty]);
+
+  if (cartIsEmpty) {
     return null;
   }
 
+  const secondsLeft = reservedUntil
+    ? Math.max(0, Math.floor((reservedUntil.getTime() - now) / 1000))
+    : 0;
+  const reservationExpired = reservedUntil !== null && secondsLeft === 0;
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setShippingDetails((prev) => ({
@@ -46,56 +115,87 @@ const Checkout = () => {
     e.preventDefault();
     setLoading(true);
 
+    // The cart as it is now, before place_order empties it
+    const orderedItems = items;
+    const orderedTotal = total;
+
     try {
-      // Create the order
-      const { data: order, error: orderError } = await supabase
-        .from('orders')
-        .insert([
-          {
-            user_id: user?.id,
-            total_amount: total,
-            status: 'pending',
-            shipping_details: shippingDetails,
-          },
-        ])
-        .select()
-        .single();
-
-      if (orderError) throw orderError;
-
-      // Create order items
-      const orderItems = items.map((item) => ({
-        order_id: order.id,
-        product_id: item.product_id,
-        quantity: item.quantity,
-        price: item.product.discount_price || item.product.price,
-      }));
-
-      const { error: orderItemsError } = await supabase
-        .from('order_items')
-        .insert(orderItems);
-
-      if (orderItemsError) throw orderItemsError;
-
-      // Clear the cart
-      await clearCart();
+      let orderId = placedOrder?.id;
+
+      if (!orderId) {
+        // The server recomputes prices, writes the order and its items,
+        // decrements stock and empties the cart in one transaction
+        orderId = await placeOrder(shippingDetails);
+        setPlacedOrder({ id: orderId, items: orderedItems, total: orderedTotal });
+      }
+
+      setPaymentError(null);
+
+      // The order stays pending unless the provider reports a successful charge
+      const result = await paymentProvider.pay(orderId);
+
+      if (result.status !== 'succeeded') {
+        setPaymentError(result.message);
+        return;
+      }
+
+      await confirmOrderPayment(orderId, paymentProvider.name, result.paymentId);
+
+      // Pick up the now-empty cart from the server
+      await refreshCart();
 
       // Redirect to order confirmation
-      navigate(`/orders/${order.id}`);
+      navigate(`/dashboard/orders/${orderId}`);
     } catch (error) {
       console.error('Error placing order:', error);
-      alert('Failed to place order. Please try again.');
+      // Surface server-side reasons such as insufficient stock
+      const message = (error as { message?: string } | null)?.message;
+      alert(message ? `Failed to place order: ${message}` : 'Failed to place order. Please try again.');
     } finally {
       setLoading(false);
     }
   };
 
+  const summaryItems = placedOrder ? placedOrder.items : items;
+  const summaryTotal = placedOrder ? placedOrder.total : total;
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <div className="lg:grid lg:grid-cols-12 lg:gap-x-12 lg:items-start">
         <div className="lg:col-span-7">
+          {placedOrder ? null : reservationError ? (
+            <div className="mb-6 rounded-md bg-red-50 p-4 text-sm text-red-800">
+              <p>{reservationError}</p>
+              <button
+                type="button"
+                onClick={() => navigate('/cart')}
+                className="mt-2 font-medium text-red-700 underline hover:text-red-600"
+              >
+                Review your cart
+              </button>
+            </div>
+          ) : reservationExpired ? (
+            <div className="mb-6 rounded-md bg-yellow-50 p-4 text-sm text-yellow-800">
+              <p>Your reservation has expired and the items may no longer be available.</p>
+              <button
+                type="button"
+                onClick={reserveStock}
+                className="mt-2 font-medium text-yellow-700 underline hover:text-yellow-600"
+              >
+                Reserve again
+              </button>
+            </div>
+          ) : reservedUntil ? (
+            <div className="mb-6 rounded-md bg-indigo-50 p-4 text-sm text-indigo-800">
+              Your items are reserved for{' '}
+              <span className="font-medium">
+                {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, '0')}
+              </span>
+            </div>
+          ) : null}
+
           <form onSubmit={handleSubmit}>
-            <div className="space-y-6">
+            <fieldset disabled={!!placedOrder} className="space-y-6">
               <div>
                 <h2 className="text-lg font-medium text-gray-900">
                   Shipping Information
@@ -243,15 +343,42 @@ const Checkout = () => {
                   </div>
                 </div>
               </div>
+            </fieldset>
+
+            <div className="mt-10 border-t border-gray-200 pt-6">
+              <h2 className="text-lg font-medium text-gray-900">Payment</h2>
+
+              {placedOrder && (
+                <p className="mt-2 text-sm text-gray-500">
+                  Order #{placedOrder.id} has been placed and is awaiting payment. Unpaid orders are cancelled after 30 minutes.
+                </p>
+              )}
+
+              <div className="mt-4 rounded-md border border-gray-300 bg-white p-3">
+                <div ref={cardContainerRef} />
+              </div>
+
+              {paymentProvider.name === 'mock' && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Test mode: any card number succeeds except 4000 0000 0000 0002 (declined)
+                  and 4000 0000 0000 9995 (insufficient funds).
+                </p>
+              )}
+
+              {paymentError && (
+                <div className="mt-4 rounded-md bg-red-50 p-4 text-sm text-red-800">
+                  {paymentError}
+                </div>
+              )}
             </div>
 
             <div className="mt-10 border-t border-gray-200 pt-6">
               <button
                 type="submit"
-                disabled={loading}
+                disabled={loading || (!placedOrder && (!reservedUntil || reservationExpired))}
                 className="w-full bg-indigo-600 border border-transparent rounded-md shadow-sm py-3 px-4 text-base font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-50 focus:ring-indigo-500 disabled:opacity-50"
               >
-                {loading ? 'Placing Order...' : 'Place Order'}
+                {loading ? 'Processing...' : placedOrder ? 'Retry Payment' : 'Place Order'}
               </button>
             </div>
           </form>
@@ -262,14 +389,14 @@ const Checkout = () => {
             <h2 className="text-lg font-medium text-gray-900">Order summary</h2>
 
             <div className="mt-6 space-y-4">
-              {items.map((item) => (
+              {summaryItems.map((item) => (
                 <div
                   key={item.id}
                   className="flex items-center justify-between border-t border-gray-200 pt-4"
                 >
                   <div className="flex items-center">
                     <img
-                      src={item.product.image_url}
+                      src={item.product.image_url || '/images/placeholder.jpg'}
                       alt={item.product.name}
                       className="w-16 h-16 rounded-md object-center object-cover"
                     />
@@ -277,6 +404,11 @@ const Checkout = () => {
                       <p className="text-sm font-medium text-gray-900">
                         {item.product.name}
                       </p>
+                      {item.variant && (
+                        <p className="mt-1 text-sm text-gray-500">
+                          {variantLabel(item.variant.options)}
+                        </p>
+                      )}
                       <p className="mt-1 text-sm text-gray-500">
                         Qty: {item.quantity}
                       </p>
@@ -285,7 +417,7 @@ const Checkout = () => {
                   <p className="text-sm font-medium text-gray-900">
                     $
                     {(
-                      (item.product.discount_price || item.product.price) *
+                      unitPrice(item.product, item.variant) *
                       item.quantity
                     ).toFixed(2)}
                   </p>
@@ -295,7 +427,7 @@ const Checkout = () => {
               <div className="flex items-center justify-between border-t border-gray-200 pt-4">
                 <p className="text-base font-medium text-gray-900">Order total</p>
                 <p className="text-base font-medium text-gray-900">
-                  ${total.toFixed(2)}
+                  ${summaryTotal.toFixed(2)}
                 </p>
               </div>
             </div>
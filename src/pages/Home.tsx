@@ -1,30 +1,18 @@
 import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { supabase } from '../lib/supabaseClient';
+import { fetchCategories as fetchCategoryList, fetchProducts } from '../lib/api/products';
+import type { Category, Product } from '../lib/types';
 
 // Add placeholder image as base64 or data URL
 const PLACEHOLDER_IMAGE = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgdmlld0JveD0iMCAwIDIwMCAyMDAiIGZpbGw9Im5vbmUiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PHJlY3Qgd2lkdGg9IjIwMCIgaGVpZ2h0PSIyMDAiIGZpbGw9IiNFNUU3RUIiLz48cGF0aCBkPSJNODAgOTBIMTIwVjExMEg4MFY5MFoiIGZpbGw9IiM5Q0EzQUYiLz48L3N2Zz4=';
 
-interface Product {
-  id: number;
-  name: string;
-  price: number;
-  discount_price: number | null;
-  image_url: string;
-  category: {
-    name: string;
-  };
-}
-
-interface Category {
-  id: number;
-  name: string;
-  image_url: string;
-}
+type FeaturedProduct = Pick<Product, 'id' | 'name' | 'price' | 'discount_price' | 'image_url'> & {
+  category: Pick<Category, 'name'>;
+};
 
 const Home = () => {
-  const [featuredProducts, setFeaturedProducts] = useState<Product[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
+  const [featuredProducts, setFeaturedProducts] = useState<FeaturedProduct[]>([]);
+  const [categories, setCategories] = useState<Pick<Category, 'id' | 'name' | 'image_url'>[]>([]);
   const [loading, setLoading] = useState(true);
   const [imageErrors, setImageErrors] = useState<Record<string | number, boolean>>({});
 
@@ -35,27 +23,13 @@ const Home = () => {
 
   const fetchFeaturedProducts = async () => {
     try {
-      const { data, error } = await supabase
-        .from('products')
-        .select(`
-          id,
-          name,
-          price,
-          discount_price,
-          image_url,
-          category:categories (
-            name
-          )
-        `)
-        .limit(4);
-
-      if (error) throw error;
+      const { products: data } = await fetchProducts({}, { offset: 0, limit: 4 });
       
-      // Transform the data to match the Product interface
-      const transformedData = data?.map(item => ({
+      // Products without a category are shown as uncategorized
+      const transformedData = data.map(item => ({
         ...item,
-        category: item.category[0] || { name: 'Uncategorized' }
-      })) || [];
+        category: item.category || { name: 'Uncategorized' }
+      }));
 
       setFeaturedProducts(transformedData);
     } catch (error) {
@@ -65,12 +39,7 @@ const Home = () => {
 
   const fetchCategories = async () => {
     try {
-      const { data, error } = await supabase
-        .from('categories')
-        .select('id, name, image_url');
-
-      if (error) throw error;
-      setCategories(data || []);
+      setCategories(await fetchCategoryList());
     } catch (error) {
       console.error('Error fetching categories:', error);
     }
@@ -127,7 +96,7 @@ const Home = () => {
               >
                 <div className="w-full aspect-w-1 aspect-h-1 rounded-lg overflow-hidden bg-gray-200">
                   <img
-                    src={imageErrors[product.id] ? PLACEHOLDER_IMAGE : product.image_url}
+                    src={imageErrors[product.id] ? PLACEHOLDER_IMAGE : product.image_url || PLACEHOLDER_IMAGE}
                     alt={product.name}
                     className="w-full h-full object-center object-cover group-hover:opacity-75"
                     onError={() => handleImageError(product.id)}
@@ -166,7 +135,7 @@ const Home = () => {
               >
                 <div className="w-full aspect-w-3 aspect-h-2 rounded-lg overflow-hidden bg-gray-200">
                   <img
-                    src={category.image_url}
+                    src={category.image_url || PLACEHOLDER_IMAGE}
                     alt={category.name}
                     className="w-full h-full object-center object-cover group-hover:opacity-75"
                   />
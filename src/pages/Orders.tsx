@@ -1,84 +1,26 @@
 import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { supabase } from '../lib/supabaseClient';
 import { useAuth } from '../context/AuthContext';
-
-interface OrderItem {
-  id: number;
-  product_id: number;
-  quantity: number;
-  price: number;
-  product: {
-    name: string;
-    image_url: string;
-  };
-}
-
-interface Order {
-  id: number;
-  created_at: string;
-  total_amount: number;
-  status: string;
-  shipping_details: {
-    fullName: string;
-    address: string;
-    city: string;
-    state: string;
-    postalCode: string;
-    country: string;
-    phone: string;
-  };
-  order_items: OrderItem[];
-}
+import { cancelOrder, fetchOrdersWithItems } from '../lib/api/orders';
+import type { OrderWithItems } from '../lib/api/orders';
+import { canCancelOrder } from '../lib/orderStatus';
+import { variantLabel } from '../lib/variants';
 
 const Orders = () => {
   const { user } = useAuth();
-  const [orders, setOrders] = useState<Order[]>([]);
+  const [orders, setOrders] = useState<OrderWithItems[]>([]);
   const [loading, setLoading] = useState(true);
+  const [cancellingId, setCancellingId] = useState<number | null>(null);
 
   useEffect(() => {
     fetchOrders();
-  }, []);
+  }, [user]);
 
   const fetchOrders = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('orders')
-        .select(`
-          id,
-          created_at,
-          total_amount,
-          status,
-          shipping_details,
-          order_items!inner (
-            id,
-            product_id,
-            quantity,
-            price,
-            products:products!inner (
-              name,
-              image_url
-            )
-          )
-        `)
-        .eq('user_id', user?.id)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
+    if (!user) return;
 
-      // Transform the data to match the Order interface
-      const transformedData = data?.map(order => ({
-        ...order,
-        order_items: order.order_items.map(item => ({
-          ...item,
-          product: {
-            name: item.products[0].name,
-            image_url: item.products[0].image_url
-          }
-        }))
-      })) || [];
-
-      setOrders(transformedData);
+    try {
+      setOrders(await fetchOrdersWithItems(user.id));
     } catch (error) {
       console.error('Error fetching orders:', error);
     } finally {
@@ -86,6 +28,21 @@ const Orders = () => {
     }
   };
 
+  const handleCancelOrder = async (orderId: number) => {
+    if (!window.confirm('Cancel this order? Any payment will be refunded.')) return;
+
+    try {
+      setCancellingId(orderId);
+      await cancelOrder(orderId, 'Cancelled by customer');
+      await fetchOrders();
+    } catch (error) {
+      console.error('Error cancelling order:', error);
+      alert('Failed to cancel the order. It may already be on its way.');
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex justify-center items-center min-h-screen">
@@ -144,18 +101,38 @@ const Orders = () => {
                     })}
                   </p>
                 </div>
-                <div>
+                <div className="flex items-center space-x-4">
                   <span
                     className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                      order.status === 'completed'
+                      order.status === 'delivered'
                         ? 'bg-green-100 text-green-800'
                         : order.status === 'pending'
                         ? 'bg-yellow-100 text-yellow-800'
+                        : order.status === 'cancelled'
+                        ? 'bg-red-100 text-red-800'
                         : 'bg-gray-100 text-gray-800'
                     }`}
                   >
                     {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
                   </span>
+                  {canCancelOrder(order.status) && (
+                    <button
+                      type="button"
+                      onClick={() => handleCancelOrder(order.id)}
+                      disabled={cancellingId === order.id}
+                      className="text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+                    >
+                      {cancellingId === order.id ? 'Cancelling...' : 'Cancel order'}
+                    </button>
+                  )}
+                  {order.status === 'delivered' && (
+                    <Link
+                      to={`/dashboard/orders/${order.id}`}
+                      className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
+                    >
+                      Return items
+                    </Link>
+                  )}
                 </div>
               </div>
             </div>
@@ -169,8 +146,8 @@ const Orders = () => {
                   >
                     <div className="flex items-center">
                       <img
-                        src={item.product.image_url}
-                        alt={item.product.name}
+                        src={item.product?.image_url || '/images/placeholder.jpg'}
+                        alt={item.product?.name ?? 'Unavailable product'}
                         className="w-16 h-16 rounded-md object-center object-cover"
                       />
                       <div className="ml-4">
@@ -178,15 +155,20 @@ const Orders = () => {
                           to={`/products/${item.product_id}`}
                           className="text-sm font-medium text-gray-900 hover:text-indigo-600"
                         >
-                          {item.product.name}
+                          {item.product?.name ?? 'Unavailable product'}
                         </Link>
+                        {item.variant && (
+                          <p className="mt-1 text-sm text-gray-500">
+                            {variantLabel(item.variant.options)}
+                          </p>
+                        )}
                         <p className="mt-1 text-sm text-gray-500">
                           Qty: {item.quantity}
                         </p>
                       </div>
                     </div>
                     <p className="text-sm font-medium text-gray-900">
-                      ${(item.price * item.quantity).toFixed(2)}
+                      ${(item.price_at_time * item.quantity).toFixed(2)}
                     </p>
                   </div>
                 ))}
@@ -1,29 +1,25 @@
 import { useEffect, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { supabase } from '../lib/supabaseClient';
+import { fetchProduct as fetchProductDetails } from '../lib/api/products';
 import { useCart } from '../context/CartContext';
-import { useAuth } from '../context/AuthContext';
 import { PLACEHOLDER_IMAGE, getSafeImageUrl } from '../lib/imageUtils';
-
-interface Product {
-  id: number;
-  name: string;
-  description: string;
-  price: number;
-  discount_price: number | null;
-  image_url: string;
-  category: {
-    id: number;
-    name: string;
-  };
-}
+import { findVariant } from '../lib/variants';
+import type { Category, Product, ProductVariant, VariantOptions } from '../lib/types';
+import CategoryBreadcrumbs from '../components/CategoryBreadcrumbs';
+import VariantPicker from '../components/VariantPicker';
+import FavoriteButton from '../components/FavoriteButton';
+
+type ProductWithCategory = Pick<Product, 'id' | 'name' | 'description' | 'price' | 'discount_price' | 'image_url' | 'archived'> & {
+  category: Pick<Category, 'id' | 'name'>;
+  variants: ProductVariant[];
+};
 
 const ProductDetails = () => {
   const { id } = useParams();
-  const { user } = useAuth();
   const { addToCart } = useCart();
-  const [product, setProduct] = useState<Product | null>(null);
+  const [product, setProduct] = useState<ProductWithCategory | null>(null);
   const [quantity, setQuantity] = useState(1);
+  const [selectedOptions, setSelectedOptions] = useState<VariantOptions>({});
   const [loading, setLoading] = useState(true);
   const [addingToCart, setAddingToCart] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -34,30 +30,18 @@ const ProductDetails = () => {
   }, [id]);
 
   const fetchProduct = async () => {
+    if (!id) return;
+
     try {
-      const { data, error } = await supabase
-        .from('products')
-        .select(`
-          id,
-          name,
-          description,
-          price,
-          discount_price,
-          image_url,
-          category:categories (
-            id,
-            name
-          )
-        `)
-        .eq('id', id)
-        .single();
-
-      if (error) throw error;
+      const data = await fetchProductDetails(Number(id));
 
       setProduct({
         ...data,
-        category: data.category?.[0] || { id: 0, name: 'Uncategorized' }
+        category: data.category || { id: 0, name: 'Uncategorized' }
       });
+
+      const defaultVariant = data.variants.find(variant => variant.stock_quantity > 0) ?? data.variants[0];
+      setSelectedOptions(defaultVariant?.options ?? {});
     } catch (err) {
       setError('Error loading product details');
       console.error('Error:', err);
@@ -66,24 +50,23 @@ const ProductDetails = () => {
     }
   };
 
+  const selectedVariant = product ? findVariant(product.variants, selectedOptions) : undefined;
+  const needsVariant = product !== null && product.variants.length > 0 && !selectedVariant;
+
   const handleQuantityChange = (value: number) => {
     setQuantity(Math.max(1, Math.min(10, value)));
   };
 
   const handleAddToCart = async () => {
-    if (!product || !user) {
-      // Handle user not logged in
-      console.error('User not logged in');
-      return;
-    }
+    if (!product) return;
 
     try {
       setAddingToCart(true);
-      await addToCart(product.id, quantity);
+      await addToCart(product.id, quantity, selectedVariant?.id ?? null);
       alert('Product added to cart!');
     } catch (error) {
       console.error('Error adding to cart:', error);
-      alert('Failed to add product to cart. Please try again.');
+      alert(error instanceof Error ? error.message : 'Failed to add product to cart. Please try again.');
     } finally {
       setAddingToCart(false);
     }
@@ -116,6 +99,8 @@ const ProductDetails = () => {
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <CategoryBreadcrumbs categoryId={product.category.id || null} current={product.name} />
+
       <div className="lg:grid lg:grid-cols-2 lg:gap-x-8 lg:items-start">
         {/* Image */}
         <div className="aspect-w-1 aspect-h-1 rounded-lg overflow-hidden">
@@ -137,7 +122,9 @@ const ProductDetails = () => {
           <div className="mt-3">
             <h2 className="sr-only">Product information</h2>
             <div className="flex items-center">
-              {product.discount_price ? (
+              {selectedVariant && selectedVariant.price !== null ? (
+                <p className="text-3xl font-bold text-gray-900">${selectedVariant.price}</p>
+              ) : product.discount_price ? (
                 <div className="flex items-center">
                   <p className="text-3xl font-bold text-gray-900">${product.discount_price}</p>
                   <p className="ml-2 text-2xl text-gray-500 line-through">${product.price}</p>
@@ -172,7 +159,26 @@ const ProductDetails = () => {
             </Link>
           </div>
 
+          {product.archived && (
+            <div className="mt-8 p-4 bg-gray-50 border-l-4 border-gray-400 text-gray-700">
+              This product is no longer sold.
+            </div>
+          )}
+
           <div className="mt-8">
+            {product.variants.length > 0 && (
+              <div className="mb-6">
+                <VariantPicker
+                  variants={product.variants}
+                  selected={selectedOptions}
+                  onChange={setSelectedOptions}
+                />
+                {needsVariant && (
+                  <p className="mt-2 text-sm text-red-600">This combination is not available</p>
+                )}
+              </div>
+            )}
+
             <div className="flex items-center">
               <label htmlFor="quantity" className="mr-4 text-sm text-gray-700">
                 Quantity
@@ -205,14 +211,17 @@ const ProductDetails = () => {
               </div>
             </div>
 
-            <button
-              type="button"
-              onClick={handleAddToCart}
-              disabled={addingToCart}
-              className="mt-8 w-full bg-indigo-600 border border-transparent rounded-md py-3 px-8 flex items-center justify-center text-base font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
-            >
-              {addingToCart ? 'Adding to Cart...' : 'Add to Cart'}
-            </button>
+            <div className="mt-8 flex space-x-4">
+              <button
+                type="button"
+                onClick={handleAddToCart}
+                disabled={addingToCart || needsVariant || product.archived}
+                className="flex-1 bg-indigo-600 border border-transparent rounded-md py-3 px-8 flex items-center justify-center text-base font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                {addingToCart ? 'Adding to Cart...' : 'Add to Cart'}
+              </button>
+              <FavoriteButton productId={product.id} className="px-4 rounded-md border border-gray-300 hover:bg-gray-50" />
+            </div>
           </div>
         </div>
       </div>
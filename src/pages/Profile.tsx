@@ -3,50 +3,26 @@ import { useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabaseClient';
 import { useAuth } from '../context/AuthContext';
 
-interface Profile {
-  id: string;
-  full_name: string;
-  avatar_url: string | null;
-  role: string;
-}
-
 const Profile = () => {
   const navigate = useNavigate();
-  const { user, signOut } = useAuth();
-  const [profile, setProfile] = useState<Profile | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { user, profile, loading, signOut, refreshProfile } = useAuth();
   const [updating, setUpdating] = useState(false);
   const [fullName, setFullName] = useState('');
   const [avatar, setAvatar] = useState<File | null>(null);
   const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
 
   useEffect(() => {
-    if (!user) {
+    if (!loading && !user) {
       navigate('/login');
-      return;
     }
-    fetchProfile();
-  }, [user]);
-
-  const fetchProfile = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', user?.id)
-        .single();
-
-      if (error) throw error;
+  }, [user, loading]);
 
-      setProfile(data);
-      setFullName(data.full_name || '');
-      setAvatarUrl(data.avatar_url);
-    } catch (error) {
-      console.error('Error fetching profile:', error);
-    } finally {
-      setLoading(false);
+  useEffect(() => {
+    if (profile) {
+      setFullName(profile.full_name || '');
+      setAvatarUrl(profile.avatar_url);
     }
-  };
+  }, [profile]);
 
   const handleAvatarChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files?.[0]) {
@@ -78,6 +54,7 @@ const Profile = () => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!user) return;
     setUpdating(true);
 
     try {
@@ -93,12 +70,12 @@ const Profile = () => {
           ...(avatarUrl && { avatar_url: avatarUrl }),
           updated_at: new Date().toISOString(),
         })
-        .eq('id', user?.id);
+        .eq('id', user.id);
 
       if (error) throw error;
 
       alert('Profile updated successfully!');
-      await fetchProfile();
+      await refreshProfile();
     } catch (error) {
       console.error('Error updating profile:', error);
       alert('Error updating profile. Please try again.');
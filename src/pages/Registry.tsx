@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { useCart } from '../context/CartContext';
+import { OCCASION_LABELS, fetchPublicWishlist, markWishlistItemPurchased } from '../lib/api/wishlists';
+import type { WishlistItemWithProduct, WishlistWithItems } from '../lib/api/wishlists';
+import { ApiError } from '../lib/api/errors';
+import { PLACEHOLDER_IMAGE, getSafeImageUrl } from '../lib/imageUtils';
+import { unitPrice, variantLabel } from '../lib/variants';
+import { FiCheck, FiGift, FiShoppingCart } from 'react-icons/fi';
+
+/**
+ * Public page for a shared wishlist or gift registry. Visitors don't need an
+ * account to add items to their cart, but marking an item as bought takes
+ * signing in and a paid order for it.
+ */
+const Registry = () => {
+  const { slug } = useParams();
+  const { user } = useAuth();
+  const { addToCart } = useCart();
+  const [wishlist, setWishlist] = useState<WishlistWithItems | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyItemId, setBusyItemId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadWishlist();
+  }, [slug]);
+
+  const loadWishlist = async () => {
+    if (!slug) return;
+
+    try {
+      setError(null);
+      setWishlist(await fetchPublicWishlist(slug));
+    } catch (err) {
+      console.error('Error loading wishlist:', err);
+      setError(
+        err instanceof ApiError && err.code === 'not_found'
+          ? 'This list does not exist or is no longer shared.'
+          : 'Error loading this list'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddToCart = async (item: WishlistItemWithProduct) => {
+    try {
+      setBusyItemId(item.id);
+      setError(null);
+      setMessage(null);
+
+      await addToCart(item.product_id, 1, item.variant_id);
+      setMessage(`${item.product.name} was added to your cart. Once you've bought it, mark it as bought so nobody else buys it too.`);
+    } catch (err) {
+      console.error('Error adding to cart:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add the item to your cart.');
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  const handleMarkPurchased = async (item: WishlistItemWithProduct) => {
+    if (!slug) return;
+
+    try {
+      setBusyItemId(item.id);
+      setError(null);
+      setMessage(null);
+
+      const purchased = await markWishlistItemPurchased(slug, item.id);
+      setWishlist(prev => prev && {
+        ...prev,
+        items: prev.items.map(i => (i.id === item.id ? { ...i, purchased_quantity: purchased } : i))
+      });
+      setMessage(`Thanks! ${item.product.name} has been marked as bought.`);
+    } catch (err) {
+      console.error('Error marking item as bought:', err);
+      setError(
+        err instanceof ApiError && err.code === 'invalid'
+          ? err.message
+          : 'Failed to mark the item as bought. Please try again.'
+      );
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(`${dateString}T00:00:00`).toLocaleDateString();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+      </div>
+    );
+  }
+
+  if (!wishlist) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 py-12 text-center">
+        <FiGift className="h-16 w-16 mx-auto text-gray-400 mb-4" />
+        <p className="text-gray-700 mb-6">{error || 'List not found'}</p>
+        <Link to="/products" className="text-indigo-600 hover:text-indigo-800">
+          Browse products
+        </Link>
+      </div>
+    );
+  }
+
+  const isOwner = user?.id === wishlist.user_id;
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8">
+      <div className="mb-8 text-center">
+        <div className="text-sm text-indigo-600 uppercase tracking-wide font-semibold">
+          {OCCASION_LABELS[wishlist.occasion]}
+          {wishlist.event_date && ` · ${formatDate(wishlist.event_date)}`}
+        </div>
+        <h1 className="mt-1 text-3xl font-bold text-gray-900">{wishlist.name}</h1>
+        {wishlist.description && (
+          <p className="mt-3 text-gray-600 whitespace-pre-line">{wishlist.description}</p>
+        )}
+        {isOwner && (
+          <Link
+            to={`/dashboard/wishlists/${wishlist.id}`}
+            className="mt-4 inline-block text-sm text-indigo-600 hover:text-indigo-800"
+          >
+            This is your list. Manage it
+          </Link>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border-l-4 border-red-500 text-red-700">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-6 p-4 bg-green-50 border-l-4 border-green-500 text-green-700">
+          {message}
+        </div>
+      )}
+
+      {wishlist.items.length === 0 ? (
+        <p className="text-center text-gray-600">There's nothing on this list yet.</p>
+      ) : (
+        <ul className="bg-white rounded-lg shadow-md divide-y divide-gray-200">
+          {wishlist.items.map((item) => {
+            const fulfilled = item.purchased_quantity >= item.desired_quantity;
+            const unavailable = item.product.archived || (item.variant ?? item.product).stock_quantity <= 0;
+
+            return (
+              <li key={item.id} className={`px-6 py-4 flex flex-wrap items-center gap-4 ${fulfilled ? 'opacity-60' : ''}`}>
+                <img
+                  src={getSafeImageUrl(item.product.image_url)}
+                  alt={item.product.name}
+                  onError={(e) => { e.currentTarget.src = PLACEHOLDER_IMAGE; }}
+                  className="h-20 w-20 rounded object-cover"
+                />
+                <div className="flex-1 min-w-[10rem]">
+                  <Link to={`/products/${item.product.id}`} className="font-medium text-gray-900 hover:text-indigo-600">
+                    {item.product.name}
+                  </Link>
+                  {item.variant && (
+                    <p className="text-sm text-gray-500">{variantLabel(item.variant.options)}</p>
+                  )}
+                  <p className="text-sm text-gray-700">${unitPrice(item.product, item.variant).toFixed(2)}</p>
+                  {item.note && <p className="text-sm text-gray-500 italic">{item.note}</p>}
+                  <p className="text-sm text-gray-500">
+                    Wanted: {item.desired_quantity} · Bought: {item.purchased_quantity}
+                  </p>
+                </div>
+                {fulfilled ? (
+                  <span className="inline-flex items-center px-3 py-1 rounded-full bg-green-100 text-green-800 text-sm font-medium">
+                    <FiCheck className="mr-1" /> Purchased
+                  </span>
+                ) : (
+                  <div className="flex flex-col space-y-2">
+                    <button
+                      onClick={() => handleAddToCart(item)}
+                      disabled={busyItemId === item.id || unavailable}
+                      className="px-4 py-2 bg-indigo-600 text-white text-sm rounded-md hover:bg-indigo-700 inline-flex items-center justify-center disabled:opacity-50"
+                    >
+                      <FiShoppingCart className="mr-2" />
+                      {item.product.archived ? 'No longer available' : unavailable ? 'Out of stock' : 'Add to cart'}
+                    </button>
+                    {user ? (
+                      <button
+                        onClick={() => handleMarkPurchased(item)}
+                        disabled={busyItemId === item.id}
+                        className="px-4 py-2 border border-gray-300 text-gray-700 text-sm rounded-md hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Mark as bought
+                      </button>
+                    ) : (
+                      <Link
+                        to="/login"
+                        className="px-4 py-2 border border-gray-300 text-gray-700 text-sm rounded-md hover:bg-gray-50 text-center"
+                      >
+                        Sign in to mark as bought
+                      </Link>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default Registry;
\ No newline at end of file
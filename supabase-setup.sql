@@ -1,104 +0,0 @@
--- Create profiles table
-CREATE TABLE IF NOT EXISTS profiles (
-  id UUID REFERENCES auth.users(id) PRIMARY KEY,
-  email TEXT,
-  role TEXT DEFAULT 'customer',
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
-);
-
--- Create categories table
-CREATE TABLE IF NOT EXISTS categories (
-  id SERIAL PRIMARY KEY,
-  name TEXT NOT NULL,
-  image_url TEXT,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
-);
-
--- Create products table
-CREATE TABLE IF NOT EXISTS products (
-  id SERIAL PRIMARY KEY,
-  name TEXT NOT NULL,
-  description TEXT,
-  price DECIMAL(10, 2) NOT NULL,
-  discount_price DECIMAL(10, 2),
-  image_url TEXT,
-  category_id INTEGER REFERENCES categories(id),
-  seller_id UUID REFERENCES auth.users(id),
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
-  brand TEXT,
-  specifications JSONB
-);
-
--- Create cart items table
-CREATE TABLE IF NOT EXISTS cart_items (
-  id SERIAL PRIMARY KEY,
-  user_id UUID REFERENCES auth.users(id),
-  product_id INTEGER REFERENCES products(id),
-  quantity INTEGER NOT NULL,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
-);
-
--- Temporarily disable RLS for data population
-ALTER TABLE categories DISABLE ROW LEVEL SECURITY;
-ALTER TABLE products DISABLE ROW LEVEL SECURITY;
-
--- Add necessary columns if they don't exist
-ALTER TABLE products 
-ADD COLUMN IF NOT EXISTS brand TEXT,
-ADD COLUMN IF NOT EXISTS specifications JSONB;
-
--- After running the populate script, you should re-enable RLS with these commands:
--- ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
--- ALTER TABLE products ENABLE ROW LEVEL SECURITY;
-
--- Create policies for categories (will take effect after re-enabling RLS)
-CREATE POLICY "Enable read access for all users" ON categories
-  FOR SELECT USING (true);
-
-CREATE POLICY "Enable insert for authenticated users" ON categories
-  FOR INSERT WITH CHECK (true);
-
--- Create policies for products (will take effect after re-enabling RLS)
-CREATE POLICY "Enable read access for all users" ON products
-  FOR SELECT USING (true);
-
-CREATE POLICY "Enable insert for authenticated users" ON products
-  FOR INSERT WITH CHECK (true);
-
--- Cart items policies
-ALTER TABLE cart_items ENABLE ROW LEVEL SECURITY;
-
-CREATE POLICY "Enable read access for own cart items" ON cart_items
-  FOR SELECT USING (auth.uid() = user_id);
-
-CREATE POLICY "Enable insert for own cart items" ON cart_items
-  FOR INSERT WITH CHECK (auth.uid() = user_id);
-
-CREATE POLICY "Enable update for own cart items" ON cart_items
-  FOR UPDATE USING (auth.uid() = user_id);
-
-CREATE POLICY "Enable delete for own cart items" ON cart_items
-  FOR DELETE USING (auth.uid() = user_id);
-
--- Create a function to handle new user creation
-CREATE OR REPLACE FUNCTION public.handle_new_user() 
-RETURNS TRIGGER AS $$
-BEGIN
-  INSERT INTO public.profiles (id, email)
-  VALUES (new.id, new.email);
-  RETURN new;
-END;
-$$ LANGUAGE plpgsql SECURITY DEFINER;
-
--- Create a trigger to call the function on new user creation
-CREATE TRIGGER on_auth_user_created
-  AFTER INSERT ON auth.users
-  FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
-
--- Insert some sample categories
-INSERT INTO categories (name, image_url) VALUES
-('Electronics', 'https://example.com/electronics.jpg'),
-('Clothing', 'https://example.com/clothing.jpg'),
-('Books', 'https://example.com/books.jpg'),
-('Home & Garden', 'https://example.com/home.jpg')
-ON CONFLICT DO NOTHING;
\ No newline at end of file
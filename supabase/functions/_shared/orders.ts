@@ -0,0 +1,32 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export const adminClient = () =>
+  createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+// Resolves the calling user from the request's JWT
+export const getCaller = async (req: Request) => {
+  const client = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+
+  const { data: { user } } = await client.auth.getUser();
+  return user;
+};
+
+// Loads one of the caller's orders that is still waiting for payment
+export const getPendingOrder = async (orderId: number, userId: string) => {
+  const { data: order, error } = await adminClient()
+    .from('orders')
+    .select('id, user_id, status, total_amount')
+    .eq('id', orderId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !order) return null;
+  if (order.status !== 'pending') return null;
+
+  return order;
+};
+
+// Stripe amounts are integers in the smallest currency unit
+export const toCents = (amount: number | string) => Math.round(Number(amount) * 100);
\ No newline at end of file
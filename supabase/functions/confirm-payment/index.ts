@@ -0,0 +1,75 @@
+import Stripe from 'https://esm.sh/stripe@14?target=deno';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { adminClient, getCaller, getPendingOrder, toCents } from '../_shared/orders.ts';
+
+const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') ?? '', {
+  apiVersion: '2023-10-16',
+  httpClient: Stripe.createFetchHttpClient(),
+});
+
+// Moves an order from pending to confirmed once its payment is verified.
+// Stripe charges are checked against Stripe itself; mock payments are only
+// accepted when ALLOW_MOCK_PAYMENTS is set, i.e. in development and tests.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const user = await getCaller(req);
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { order_id, provider, payment_id } = await req.json();
+    const order = await getPendingOrder(Number(order_id), user.id);
+    if (!order) {
+      return jsonResponse({ error: 'Order not found or already paid' }, 404);
+    }
+
+    if (provider === 'stripe') {
+      const paymentIntent = await stripe.paymentIntents.retrieve(String(payment_id));
+
+      if (
+        paymentIntent.status !== 'succeeded' ||
+        paymentIntent.metadata.order_id !== String(order.id) ||
+        paymentIntent.amount_received !== toCents(order.total_amount)
+      ) {
+        return jsonResponse({ error: 'Payment has not succeeded' }, 402);
+      }
+    } else if (provider === 'mock') {
+      if (Deno.env.get('ALLOW_MOCK_PAYMENTS') !== 'true') {
+        return jsonResponse({ error: 'Mock payments are disabled' }, 403);
+      }
+    } else {
+      return jsonResponse({ error: 'Unknown payment provider' }, 400);
+    }
+
+    const { data: confirmed, error } = await adminClient()
+      .from('orders')
+      .update({
+        status: 'confirmed',
+        payment_status: 'paid',
+        payment_method: provider === 'stripe' ? 'Credit Card' : 'Test Card',
+        payment_reference: String(payment_id),
+      })
+      .eq('id', order.id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (error) throw error;
+
+    // expire_unpaid_orders cancelled the order while the customer was paying
+    if (confirmed.length === 0) {
+      if (provider === 'stripe') {
+        await stripe.refunds.create({ payment_intent: String(payment_id) });
+      }
+      return jsonResponse({ error: 'Order expired before payment was confirmed' }, 409);
+    }
+
+    return jsonResponse({ status: 'confirmed' });
+  } catch (error) {
+    console.error('Error confirming payment:', error);
+    return jsonResponse({ error: 'Failed to confirm payment' }, 500);
+  }
+});
\ No newline at end of file
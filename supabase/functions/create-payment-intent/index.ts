@@ -0,0 +1,44 @@
+import Stripe from 'https://esm.sh/stripe@14?target=deno';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getCaller, getPendingOrder, toCents } from '../_shared/orders.ts';
+
+const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
+  apiVersion: '2023-10-16',
+  httpClient: Stripe.createFetchHttpClient(),
+});
+
+// Creates a PaymentIntent for a pending order. The amount comes from the
+// order row written by place_order, never from the client.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const user = await getCaller(req);
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { order_id } = await req.json();
+    const order = await getPendingOrder(Number(order_id), user.id);
+    if (!order) {
+      return jsonResponse({ error: 'Order not found or already paid' }, 404);
+    }
+
+    const paymentIntent = await stripe.paymentIntents.create(
+      {
+        amount: toCents(order.total_amount),
+        currency: 'usd',
+        metadata: { order_id: String(order.id), user_id: user.id },
+      },
+      // Retrying payment for the same order reuses the same intent
+      { idempotencyKey: `order-${order.id}` }
+    );
+
+    return jsonResponse({ client_secret: paymentIntent.client_secret });
+  } catch (error) {
+    console.error('Error creating payment intent:', error);
+    return jsonResponse({ error: 'Failed to create payment' }, 500);
+  }
+});
\ No newline at end of file
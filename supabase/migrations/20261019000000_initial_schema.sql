@@ -0,0 +1,608 @@
+-- Initial schema: tables, stock and order functions, storage and realtime.
+-- Row level security is switched on here; the policies are added by
+-- 20261019100000_least_privilege_rls.sql.
+
+-- Create profiles table
+CREATE TABLE profiles (
+  id UUID REFERENCES auth.users(id) PRIMARY KEY,
+  email TEXT,
+  role TEXT DEFAULT 'customer',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+-- Create categories table
+CREATE TABLE categories (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  image_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+-- Create products table
+CREATE TABLE products (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  price DECIMAL(10, 2) NOT NULL,
+  discount_price DECIMAL(10, 2),
+  image_url TEXT,
+  image_urls TEXT[] DEFAULT '{}',
+  category_id INTEGER REFERENCES categories(id),
+  seller_id UUID REFERENCES auth.users(id),
+  stock_quantity INTEGER DEFAULT 0 CHECK (stock_quantity >= 0),
+  brand TEXT,
+  specifications JSONB,
+  archived BOOLEAN DEFAULT FALSE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX products_seller_id_idx ON products (seller_id);
+
+-- Create cart items table
+CREATE TABLE cart_items (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id),
+  product_id INTEGER REFERENCES products(id),
+  quantity INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+-- Create stock reservations table (holds stock while a user is checking out)
+CREATE TABLE stock_reservations (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  product_id INTEGER REFERENCES products(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+CREATE INDEX stock_reservations_product_id_idx ON stock_reservations (product_id, expires_at);
+
+-- Create orders table
+CREATE TABLE orders (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id),
+  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled')),
+  total_amount DECIMAL(10, 2) NOT NULL,
+  shipping_details JSONB,
+  payment_status TEXT DEFAULT 'pending',
+  payment_method TEXT,
+  payment_reference TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create order items table
+CREATE TABLE order_items (
+  id SERIAL PRIMARY KEY,
+  order_id INTEGER REFERENCES orders(id),
+  product_id INTEGER REFERENCES products(id),
+  quantity INTEGER NOT NULL,
+  price_at_time DECIMAL(10, 2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+-- Create order status history table (one row per status change, written by trigger)
+CREATE TABLE order_status_history (
+  id SERIAL PRIMARY KEY,
+  order_id INTEGER REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by UUID REFERENCES auth.users(id),
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+CREATE INDEX order_status_history_order_id_idx ON order_status_history (order_id, created_at);
+
+-- Create returns table (per order item, requested after delivery)
+CREATE TABLE returns (
+  id SERIAL PRIMARY KEY,
+  order_id INTEGER REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  order_item_id INTEGER REFERENCES order_items(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  product_id INTEGER REFERENCES products(id),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  reason TEXT NOT NULL CHECK (reason IN ('damaged', 'wrong_item', 'not_as_described', 'no_longer_needed', 'other')),
+  details TEXT,
+  status TEXT DEFAULT 'requested' NOT NULL CHECK (status IN ('requested', 'approved', 'rejected', 'refunded')),
+  refund_amount DECIMAL(10, 2),
+  resolved_by UUID REFERENCES auth.users(id),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+-- Create reviews table
+CREATE TABLE reviews (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id),
+  product_id INTEGER REFERENCES products(id),
+  rating INTEGER CHECK (rating >= 1 AND rating <= 5),
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+-- Create notifications table
+CREATE TABLE notifications (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  content TEXT,
+  type TEXT DEFAULT 'message' NOT NULL,
+  read BOOLEAN DEFAULT FALSE NOT NULL,
+  related_id TEXT,
+  link TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+CREATE INDEX notifications_user_id_idx ON notifications (user_id, created_at);
+
+-- Create favorites table
+CREATE TABLE favorites (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  product_id INTEGER REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+  UNIQUE (user_id, product_id)
+);
+
+-- Create function to handle new user creation
+CREATE OR REPLACE FUNCTION public.handle_new_user() 
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Take the role chosen at sign-up, but never let a user self-assign admin
+  INSERT INTO public.profiles (id, email, role)
+  VALUES (
+    new.id,
+    new.email,
+    CASE WHEN new.raw_user_meta_data->>'role' = 'seller' THEN 'seller' ELSE 'customer' END
+  );
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create trigger for new user creation
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+-- Quantity of a product held by unexpired reservations, optionally ignoring
+-- the reservations of one user (typically the caller)
+CREATE OR REPLACE FUNCTION public.reserved_stock(p_product_id INTEGER, p_exclude_user UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(SUM(quantity), 0)::INTEGER
+  FROM stock_reservations
+  WHERE product_id = p_product_id
+    AND expires_at > NOW()
+    AND user_id IS DISTINCT FROM p_exclude_user;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Stock a shopper can still put in their cart right now
+CREATE OR REPLACE FUNCTION public.available_stock(p_product_id INTEGER)
+RETURNS INTEGER AS $$
+  SELECT GREATEST(COALESCE(p.stock_quantity, 0) - public.reserved_stock(p.id, auth.uid()), 0)
+  FROM products p
+  WHERE p.id = p_product_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Hold the caller's cart quantities for a limited time while they check out.
+-- Any previous reservations of the caller are replaced. Returns the expiry.
+CREATE OR REPLACE FUNCTION public.reserve_cart_stock(minutes INTEGER DEFAULT 15)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_expires_at TIMESTAMP WITH TIME ZONE := NOW() + make_interval(mins => LEAST(GREATEST(minutes, 1), 30));
+  v_item RECORD;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Same lock order as place_order so the two cannot deadlock
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM cart_items WHERE user_id = v_user_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  DELETE FROM stock_reservations
+  WHERE user_id = v_user_id OR expires_at <= NOW();
+
+  FOR v_item IN
+    SELECT p.id, p.name, SUM(c.quantity) AS quantity,
+      COALESCE(p.stock_quantity, 0) - public.reserved_stock(p.id, v_user_id) AS available
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    WHERE c.user_id = v_user_id
+    GROUP BY p.id
+  LOOP
+    IF v_item.available < v_item.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %', v_item.name USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO stock_reservations (user_id, product_id, quantity, expires_at)
+    VALUES (v_user_id, v_item.id, v_item.quantity, v_expires_at);
+  END LOOP;
+
+  RETURN v_expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Drop the caller's reservations, e.g. when they leave checkout
+CREATE OR REPLACE FUNCTION public.release_cart_stock()
+RETURNS VOID AS $$
+  DELETE FROM stock_reservations WHERE user_id = auth.uid();
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.reserved_stock(INTEGER, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.available_stock(INTEGER) TO anon, authenticated;
+REVOKE ALL ON FUNCTION public.reserve_cart_stock(INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.reserve_cart_stock(INTEGER) TO authenticated;
+REVOKE ALL ON FUNCTION public.release_cart_stock() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.release_cart_stock() TO authenticated;
+
+-- Place an order from the caller's cart in a single transaction.
+-- Prices are read from products rather than trusted from the client, stock is
+-- decremented and the cart is emptied; any failure rolls the whole thing back.
+CREATE OR REPLACE FUNCTION public.place_order(shipping JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order_id INTEGER;
+  v_total DECIMAL(10, 2);
+  v_item RECORD;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM cart_items WHERE user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the products being bought, in a stable order to avoid deadlocks
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM cart_items WHERE user_id = v_user_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Check there is enough stock for every line before writing anything.
+  -- Stock held by other shoppers' unexpired reservations is not available.
+  FOR v_item IN
+    SELECT p.id, p.name, SUM(c.quantity) AS quantity,
+      COALESCE(p.stock_quantity, 0) - public.reserved_stock(p.id, v_user_id) AS available
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    WHERE c.user_id = v_user_id
+    GROUP BY p.id
+  LOOP
+    IF v_item.available < v_item.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %', v_item.name USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  SELECT SUM(COALESCE(p.discount_price, p.price) * c.quantity)
+  INTO v_total
+  FROM cart_items c
+  JOIN products p ON p.id = c.product_id
+  WHERE c.user_id = v_user_id;
+
+  INSERT INTO orders (user_id, status, total_amount, shipping_details)
+  VALUES (v_user_id, 'pending', v_total, shipping)
+  RETURNING id INTO v_order_id;
+
+  INSERT INTO order_items (order_id, product_id, quantity, price_at_time)
+  SELECT v_order_id, p.id, SUM(c.quantity), COALESCE(p.discount_price, p.price)
+  FROM cart_items c
+  JOIN products p ON p.id = c.product_id
+  WHERE c.user_id = v_user_id
+  GROUP BY p.id;
+
+  UPDATE products p
+  SET stock_quantity = p.stock_quantity - c.quantity
+  FROM (
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM cart_items
+    WHERE user_id = v_user_id
+    GROUP BY product_id
+  ) c
+  WHERE p.id = c.product_id;
+
+  DELETE FROM cart_items WHERE user_id = v_user_id;
+  DELETE FROM stock_reservations WHERE user_id = v_user_id;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.place_order(JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.place_order(JSONB) TO authenticated;
+
+-- Order lifecycle. Keep in sync with ORDER_TRANSITIONS in src/lib/orderStatus.ts.
+--   pending -> confirmed | cancelled
+--   confirmed -> processing | cancelled
+--   processing -> shipped | cancelled
+--   shipped -> delivered
+CREATE OR REPLACE FUNCTION public.order_status_transition_allowed(from_status TEXT, to_status TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT CASE from_status
+    WHEN 'pending' THEN to_status IN ('confirmed', 'cancelled')
+    WHEN 'confirmed' THEN to_status IN ('processing', 'cancelled')
+    WHEN 'processing' THEN to_status IN ('shipped', 'cancelled')
+    WHEN 'shipped' THEN to_status = 'delivered'
+    ELSE FALSE
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Reject illegal status changes, whoever makes them
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT public.order_status_transition_allowed(OLD.status, NEW.status) THEN
+      RAISE EXCEPTION 'Invalid order status transition from % to %', OLD.status, NEW.status
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    NEW.updated_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record every status an order enters, who moved it there and why.
+-- The note comes from transition_order_status via a transaction-local setting.
+CREATE OR REPLACE FUNCTION public.record_order_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, note)
+    VALUES (
+      NEW.id,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      NEW.status,
+      auth.uid(),
+      NULLIF(current_setting('app.order_status_note', true), '')
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_order_status_transition ON orders;
+CREATE TRIGGER enforce_order_status_transition
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_order_status_transition();
+
+DROP TRIGGER IF EXISTS record_order_status_change ON orders;
+CREATE TRIGGER record_order_status_change
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION public.record_order_status_change();
+
+-- Move an order to a new status. Admins can move any order; sellers only
+-- orders that contain one of their products.
+CREATE OR REPLACE FUNCTION public.transition_order_status(p_order_id INTEGER, p_status TEXT, p_note TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_role TEXT;
+BEGIN
+  SELECT role INTO v_role FROM profiles WHERE id = auth.uid();
+
+  IF v_role IS DISTINCT FROM 'admin' AND NOT (
+    v_role = 'seller' AND EXISTS (
+      SELECT 1 FROM order_items oi
+      JOIN products p ON p.id = oi.product_id
+      WHERE oi.order_id = p_order_id AND p.seller_id = auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to update this order' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', COALESCE(p_note, ''), true);
+
+  UPDATE orders SET status = p_status WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.transition_order_status(INTEGER, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.transition_order_status(INTEGER, TEXT, TEXT) TO authenticated;
+
+-- Let a customer cancel their own order before it is processed. The items
+-- go back into stock, and a paid order is flagged for refund.
+CREATE OR REPLACE FUNCTION public.cancel_order(p_order_id INTEGER, p_reason TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_order.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Orders can only be cancelled before they are processed' USING ERRCODE = 'P0001';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', COALESCE(p_reason, ''), true);
+
+  UPDATE orders
+  SET status = 'cancelled',
+      payment_status = CASE WHEN payment_status = 'paid' THEN 'refund_pending' ELSE payment_status END
+  WHERE id = p_order_id;
+
+  UPDATE products p
+  SET stock_quantity = p.stock_quantity + oi.quantity
+  FROM (
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id
+    GROUP BY product_id
+  ) oi
+  WHERE p.id = oi.product_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Ask to return some or all of one delivered order item
+CREATE OR REPLACE FUNCTION public.request_return(
+  p_order_item_id INTEGER,
+  p_quantity INTEGER,
+  p_reason TEXT,
+  p_details TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_item RECORD;
+  v_return_id INTEGER;
+BEGIN
+  SELECT oi.id, oi.order_id, oi.product_id, oi.quantity, o.status
+  INTO v_item
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  WHERE oi.id = p_order_item_id AND o.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order item not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_item.status <> 'delivered' THEN
+    RAISE EXCEPTION 'Returns can only be requested for delivered orders' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_quantity < 1 OR p_quantity > v_item.quantity THEN
+    RAISE EXCEPTION 'Invalid return quantity' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO returns (order_id, order_item_id, product_id, user_id, quantity, reason, details)
+  VALUES (v_item.order_id, v_item.id, v_item.product_id, auth.uid(), p_quantity, p_reason, p_details)
+  RETURNING id INTO v_return_id;
+
+  RETURN v_return_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Approve, reject or refund a return. Admins can resolve any return; sellers
+-- only returns of their own products.
+--   requested -> approved | rejected
+--   approved -> refunded
+CREATE OR REPLACE FUNCTION public.resolve_return(
+  p_return_id INTEGER,
+  p_status TEXT,
+  p_refund_amount DECIMAL DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_return returns%ROWTYPE;
+  v_role TEXT;
+  v_item_price DECIMAL(10, 2);
+BEGIN
+  SELECT * INTO v_return FROM returns WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT role INTO v_role FROM profiles WHERE id = auth.uid();
+
+  IF v_role IS DISTINCT FROM 'admin' AND NOT (
+    v_role = 'seller' AND EXISTS (
+      SELECT 1 FROM products WHERE id = v_return.product_id AND seller_id = auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to resolve this return' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT (
+    (v_return.status = 'requested' AND p_status IN ('approved', 'rejected')) OR
+    (v_return.status = 'approved' AND p_status = 'refunded')
+  ) THEN
+    RAISE EXCEPTION 'Invalid return status transition from % to %', v_return.status, p_status
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT price_at_time INTO v_item_price FROM order_items WHERE id = v_return.order_item_id;
+
+  UPDATE returns
+  SET status = p_status,
+      -- Refund what was paid for the returned units unless told otherwise
+      refund_amount = CASE
+        WHEN p_status = 'refunded' THEN COALESCE(p_refund_amount, v_item_price * v_return.quantity)
+        ELSE refund_amount
+      END,
+      resolved_by = auth.uid(),
+      resolved_at = NOW()
+  WHERE id = p_return_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.cancel_order(INTEGER, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.cancel_order(INTEGER, TEXT) TO authenticated;
+REVOKE ALL ON FUNCTION public.request_return(INTEGER, INTEGER, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.request_return(INTEGER, INTEGER, TEXT, TEXT) TO authenticated;
+REVOKE ALL ON FUNCTION public.resolve_return(INTEGER, TEXT, DECIMAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.resolve_return(INTEGER, TEXT, DECIMAL) TO authenticated;
+
+-- Product images bucket. Files live under a folder named after the seller's
+-- user id, and only that seller can write to it.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('product-images', 'product-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Product images are viewable by everyone" ON storage.objects;
+CREATE POLICY "Product images are viewable by everyone" 
+  ON storage.objects FOR SELECT USING (bucket_id = 'product-images');
+
+DROP POLICY IF EXISTS "Sellers can upload own product images" ON storage.objects;
+CREATE POLICY "Sellers can upload own product images" 
+  ON storage.objects FOR INSERT WITH CHECK (
+    bucket_id = 'product-images'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Sellers can update own product images" ON storage.objects;
+CREATE POLICY "Sellers can update own product images" 
+  ON storage.objects FOR UPDATE USING (
+    bucket_id = 'product-images'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Sellers can delete own product images" ON storage.objects;
+CREATE POLICY "Sellers can delete own product images" 
+  ON storage.objects FOR DELETE USING (
+    bucket_id = 'product-images'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Broadcast cart changes so open tabs and other devices stay in sync.
+-- Full replica identity lets DELETE events carry user_id for filtering.
+ALTER TABLE cart_items REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE cart_items;
+
+-- Enable RLS on all tables. Nothing is readable until the policies
+-- migration has run; the service role used by the populate scripts
+-- bypasses RLS.
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cart_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_reservations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE returns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE favorites ENABLE ROW LEVEL SECURITY; 
\ No newline at end of file
@@ -0,0 +1,283 @@
+-- Least-privilege row level security for every table in the public schema.
+--
+-- Roles come from profiles.role:
+--   anon      browse active products, categories and reviews
+--   customer  manage their own profile, cart, favorites, reviews and
+--             notifications, and read their own orders and returns
+--   seller    everything a customer can, plus manage their own products and
+--             read the orders, order items, returns and customers that
+--             involve those products
+--   admin     read everything except other users' carts and notifications,
+--             and manage categories, products, profiles and reviews
+--
+-- Orders, order items, stock reservations, status history and returns are
+-- never written by clients directly; the SECURITY DEFINER functions
+-- (place_order, transition_order_status, cancel_order, request_return,
+-- resolve_return, ...) do that. The service role bypasses RLS, so the
+-- populate scripts keep working with RLS enabled.
+--
+-- Tests: supabase/tests/database/rls.test.sql
+
+-- Tables the app already queries but older setup scripts never created
+CREATE TABLE IF NOT EXISTS notifications (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  content TEXT,
+  type TEXT DEFAULT 'message' NOT NULL,
+  read BOOLEAN DEFAULT FALSE NOT NULL,
+  related_id TEXT,
+  link TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_id_idx ON notifications (user_id, created_at);
+
+CREATE TABLE IF NOT EXISTS favorites (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  product_id INTEGER REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+  UNIQUE (user_id, product_id)
+);
+
+-- Start from a clean slate: drop every policy on public tables, including
+-- the permissive ones left behind by supabase-setup.sql and supabase-init.js
+DO $$
+DECLARE
+  v_policy RECORD;
+BEGIN
+  FOR v_policy IN
+    SELECT policyname, tablename FROM pg_policies WHERE schemaname = 'public'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', v_policy.policyname, v_policy.tablename);
+  END LOOP;
+END;
+$$;
+
+-- Role of the calling user, or NULL for anon. SECURITY DEFINER so policies
+-- can use it without recursing into the profiles policies.
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS TEXT AS $$
+  SELECT role FROM profiles WHERE id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the calling user sells a product in the order. SECURITY DEFINER
+-- because the orders and order_items policies reference each other.
+CREATE OR REPLACE FUNCTION public.sells_in_order(p_order_id INTEGER)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM order_items oi
+    JOIN products p ON p.id = oi.product_id
+    WHERE oi.order_id = p_order_id AND p.seller_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.current_user_role() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.current_user_role() TO anon, authenticated;
+REVOKE ALL ON FUNCTION public.sells_in_order(INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.sells_in_order(INTEGER) TO anon, authenticated;
+
+-- Profiles policies. Rows are created by handle_new_user; users can edit
+-- their own profile but not their role.
+CREATE POLICY "Users can view own profile"
+  ON profiles FOR SELECT USING (auth.uid() = id);
+
+CREATE POLICY "Sellers can view their customers"
+  ON profiles FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.user_id = profiles.id
+      AND public.sells_in_order(orders.id)
+    )
+  );
+
+CREATE POLICY "Admins can view all profiles"
+  ON profiles FOR SELECT USING (public.current_user_role() = 'admin');
+
+CREATE POLICY "Users can update own profile"
+  ON profiles FOR UPDATE
+  USING (auth.uid() = id)
+  WITH CHECK (auth.uid() = id AND role IS NOT DISTINCT FROM public.current_user_role());
+
+CREATE POLICY "Admins can update any profile"
+  ON profiles FOR UPDATE
+  USING (public.current_user_role() = 'admin')
+  WITH CHECK (public.current_user_role() = 'admin');
+
+-- Categories policies
+CREATE POLICY "Categories are viewable by everyone"
+  ON categories FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage categories"
+  ON categories FOR ALL
+  USING (public.current_user_role() = 'admin')
+  WITH CHECK (public.current_user_role() = 'admin');
+
+-- Products policies. Archived listings stay visible to their seller only.
+CREATE POLICY "Products are viewable by everyone"
+  ON products FOR SELECT USING (
+    NOT archived
+    OR auth.uid() = seller_id
+    OR public.current_user_role() = 'admin'
+  );
+
+CREATE POLICY "Sellers can insert own products"
+  ON products FOR INSERT WITH CHECK (
+    auth.uid() = seller_id
+    AND public.current_user_role() IN ('seller', 'admin')
+  );
+
+CREATE POLICY "Sellers can update own products"
+  ON products FOR UPDATE
+  USING (auth.uid() = seller_id)
+  WITH CHECK (auth.uid() = seller_id);
+
+CREATE POLICY "Sellers can delete own products"
+  ON products FOR DELETE USING (auth.uid() = seller_id);
+
+CREATE POLICY "Admins can update any product"
+  ON products FOR UPDATE
+  USING (public.current_user_role() = 'admin')
+  WITH CHECK (public.current_user_role() = 'admin');
+
+CREATE POLICY "Admins can delete any product"
+  ON products FOR DELETE USING (public.current_user_role() = 'admin');
+
+-- Cart policies
+CREATE POLICY "Users can view own cart"
+  ON cart_items FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert into own cart"
+  ON cart_items FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own cart"
+  ON cart_items FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete from own cart"
+  ON cart_items FOR DELETE USING (auth.uid() = user_id);
+
+-- Stock reservation policies (rows are written by reserve_cart_stock/place_order)
+CREATE POLICY "Users can view own reservations"
+  ON stock_reservations FOR SELECT USING (auth.uid() = user_id);
+
+-- Orders policies (rows are written by place_order and the status functions)
+CREATE POLICY "Users can view own orders"
+  ON orders FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Sellers can view orders of own products"
+  ON orders FOR SELECT USING (public.sells_in_order(id));
+
+CREATE POLICY "Admins can view all orders"
+  ON orders FOR SELECT USING (public.current_user_role() = 'admin');
+
+-- Order items policies (rows are written by place_order only)
+CREATE POLICY "Users can view own order items"
+  ON order_items FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_items.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Sellers can view order items of own products"
+  ON order_items FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM products
+      WHERE products.id = order_items.product_id
+      AND products.seller_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all order items"
+  ON order_items FOR SELECT USING (public.current_user_role() = 'admin');
+
+-- Order status history policies (rows are written by trigger)
+CREATE POLICY "Users can view own order history"
+  ON order_status_history FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_status_history.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Sellers can view history of own orders"
+  ON order_status_history FOR SELECT USING (public.sells_in_order(order_id));
+
+CREATE POLICY "Admins can view all order history"
+  ON order_status_history FOR SELECT USING (public.current_user_role() = 'admin');
+
+-- Returns policies (rows are written by request_return/resolve_return)
+CREATE POLICY "Users can view own returns"
+  ON returns FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Sellers can view returns of own products"
+  ON returns FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM products
+      WHERE products.id = returns.product_id
+      AND products.seller_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all returns"
+  ON returns FOR SELECT USING (public.current_user_role() = 'admin');
+
+-- Reviews policies
+CREATE POLICY "Reviews are viewable by everyone"
+  ON reviews FOR SELECT USING (true);
+
+CREATE POLICY "Users can create own reviews"
+  ON reviews FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own reviews"
+  ON reviews FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own reviews"
+  ON reviews FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can delete any review"
+  ON reviews FOR DELETE USING (public.current_user_role() = 'admin');
+
+-- Notifications policies. Notifications are created by the system (service
+-- role or SECURITY DEFINER functions); users can only read and dismiss theirs.
+CREATE POLICY "Users can view own notifications"
+  ON notifications FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notifications"
+  ON notifications FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notifications"
+  ON notifications FOR DELETE USING (auth.uid() = user_id);
+
+-- Favorites policies
+CREATE POLICY "Users can view own favorites"
+  ON favorites FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add own favorites"
+  ON favorites FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own favorites"
+  ON favorites FOR DELETE USING (auth.uid() = user_id);
+
+-- Enable RLS on all tables
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cart_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_reservations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE returns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE favorites ENABLE ROW LEVEL SECURITY;
\ No newline at end of file
@@ -0,0 +1,98 @@
+-- Bring the schema in line with what the app queries. The old setup scripts
+-- (setup-database.sql, supabase-setup.sql, supabase-init.js) each had a
+-- different subset of these columns; this migration is the single source.
+-- Columns are added with IF NOT EXISTS so databases created by those scripts
+-- can be upgraded too.
+
+-- Profiles: fields edited on the profile pages
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS full_name TEXT,
+  ADD COLUMN IF NOT EXISTS phone TEXT,
+  ADD COLUMN IF NOT EXISTS address TEXT,
+  ADD COLUMN IF NOT EXISTS birth_date DATE,
+  ADD COLUMN IF NOT EXISTS avatar_url TEXT,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Roles are one of the three the app knows about (see UserRole in AuthContext)
+UPDATE profiles SET role = 'customer' WHERE role IS NULL OR role NOT IN ('customer', 'seller', 'admin');
+
+ALTER TABLE profiles
+  ALTER COLUMN role SET NOT NULL,
+  DROP CONSTRAINT IF EXISTS profiles_role_check,
+  ADD CONSTRAINT profiles_role_check CHECK (role IN ('customer', 'seller', 'admin'));
+
+-- Categories: descriptions and subcategories. Top-level categories have no
+-- parent_id.
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS description TEXT,
+  ADD COLUMN IF NOT EXISTS parent_id INTEGER REFERENCES categories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS categories_parent_id_idx ON categories (parent_id);
+
+-- supabase-setup.sql created categories without a unique name. Duplicate
+-- names have to be merged by hand before this succeeds.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conrelid = 'public.categories'::regclass
+    AND conname = 'categories_name_key'
+  ) THEN
+    ALTER TABLE categories ADD CONSTRAINT categories_name_key UNIQUE (name);
+  END IF;
+END;
+$$;
+
+-- Products: featured listings on the dashboard and the rating used for the
+-- "popular" sort
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS featured BOOLEAN DEFAULT FALSE NOT NULL,
+  ADD COLUMN IF NOT EXISTS rating DECIMAL(2, 1) DEFAULT 0 NOT NULL;
+
+CREATE INDEX IF NOT EXISTS products_featured_idx ON products (featured) WHERE featured;
+
+-- Point user references at profiles instead of auth.users so the API can
+-- embed them (seller:profiles, customer:profiles, user:profiles). Every
+-- profile row is an auth user, so nothing is lost.
+ALTER TABLE products
+  DROP CONSTRAINT IF EXISTS products_seller_id_fkey,
+  ADD CONSTRAINT products_seller_id_fkey FOREIGN KEY (seller_id) REFERENCES profiles(id);
+
+ALTER TABLE orders
+  DROP CONSTRAINT IF EXISTS orders_user_id_fkey,
+  ADD CONSTRAINT orders_user_id_fkey FOREIGN KEY (user_id) REFERENCES profiles(id);
+
+ALTER TABLE reviews
+  DROP CONSTRAINT IF EXISTS reviews_user_id_fkey,
+  ADD CONSTRAINT reviews_user_id_fkey FOREIGN KEY (user_id) REFERENCES profiles(id);
+
+-- Avatars bucket used by the profile pages. Files live under a folder named
+-- after the user's id, and only that user can write to it.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('avatars', 'avatars', true)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Avatars are viewable by everyone" ON storage.objects;
+CREATE POLICY "Avatars are viewable by everyone"
+  ON storage.objects FOR SELECT USING (bucket_id = 'avatars');
+
+DROP POLICY IF EXISTS "Users can upload own avatar" ON storage.objects;
+CREATE POLICY "Users can upload own avatar"
+  ON storage.objects FOR INSERT WITH CHECK (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Users can update own avatar" ON storage.objects;
+CREATE POLICY "Users can update own avatar"
+  ON storage.objects FOR UPDATE USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Users can delete own avatar" ON storage.objects;
+CREATE POLICY "Users can delete own avatar"
+  ON storage.objects FOR DELETE USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
\ No newline at end of file
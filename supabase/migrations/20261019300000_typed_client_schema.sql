@@ -0,0 +1,125 @@
+-- Schema changes the typed client needs. The generated Database types mirror
+-- the schema, so the client only compiles against what the migrations define.
+
+-- Columns that always have a value in practice but were declared nullable.
+-- Every nullable column shows up as `T | null` in the generated types;
+-- tightening them here keeps the app from handling nulls that can't happen.
+
+-- Timestamps all default to now()
+UPDATE profiles SET created_at = NOW() WHERE created_at IS NULL;
+UPDATE categories SET created_at = NOW() WHERE created_at IS NULL;
+UPDATE products SET created_at = NOW() WHERE created_at IS NULL;
+UPDATE cart_items SET created_at = NOW() WHERE created_at IS NULL;
+UPDATE stock_reservations SET created_at = NOW() WHERE created_at IS NULL;
+UPDATE orders SET created_at = NOW() WHERE created_at IS NULL;
+UPDATE order_items SET created_at = NOW() WHERE created_at IS NULL;
+UPDATE order_status_history SET created_at = NOW() WHERE created_at IS NULL;
+UPDATE returns SET created_at = NOW() WHERE created_at IS NULL;
+UPDATE reviews SET created_at = NOW() WHERE created_at IS NULL;
+UPDATE notifications SET created_at = NOW() WHERE created_at IS NULL;
+UPDATE favorites SET created_at = NOW() WHERE created_at IS NULL;
+
+ALTER TABLE profiles ALTER COLUMN created_at SET NOT NULL;
+ALTER TABLE categories ALTER COLUMN created_at SET NOT NULL;
+ALTER TABLE products ALTER COLUMN created_at SET NOT NULL;
+ALTER TABLE cart_items ALTER COLUMN created_at SET NOT NULL;
+ALTER TABLE stock_reservations ALTER COLUMN created_at SET NOT NULL;
+ALTER TABLE orders ALTER COLUMN created_at SET NOT NULL;
+ALTER TABLE order_items ALTER COLUMN created_at SET NOT NULL;
+ALTER TABLE order_status_history ALTER COLUMN created_at SET NOT NULL;
+ALTER TABLE returns ALTER COLUMN created_at SET NOT NULL;
+ALTER TABLE reviews ALTER COLUMN created_at SET NOT NULL;
+ALTER TABLE notifications ALTER COLUMN created_at SET NOT NULL;
+ALTER TABLE favorites ALTER COLUMN created_at SET NOT NULL;
+
+-- Stock and order statuses have defaults and are never cleared
+UPDATE products SET stock_quantity = 0 WHERE stock_quantity IS NULL;
+UPDATE orders SET status = 'pending' WHERE status IS NULL;
+UPDATE orders SET payment_status = 'pending' WHERE payment_status IS NULL;
+
+ALTER TABLE products ALTER COLUMN stock_quantity SET NOT NULL;
+ALTER TABLE orders
+  ALTER COLUMN status SET NOT NULL,
+  ALTER COLUMN payment_status SET NOT NULL;
+
+-- A cart line or reservation without a user or product is meaningless
+DELETE FROM cart_items WHERE user_id IS NULL OR product_id IS NULL;
+DELETE FROM stock_reservations WHERE user_id IS NULL OR product_id IS NULL;
+
+ALTER TABLE cart_items
+  ALTER COLUMN user_id SET NOT NULL,
+  ALTER COLUMN product_id SET NOT NULL;
+
+ALTER TABLE stock_reservations
+  ALTER COLUMN user_id SET NOT NULL,
+  ALTER COLUMN product_id SET NOT NULL;
+
+-- Order items are only written by place_order, which always sets both.
+-- Rows missing either have to be fixed by hand before this succeeds.
+ALTER TABLE order_items
+  ALTER COLUMN order_id SET NOT NULL,
+  ALTER COLUMN product_id SET NOT NULL;
+
+-- Reviews always belong to a product and a user and carry a rating
+ALTER TABLE reviews
+  ALTER COLUMN user_id SET NOT NULL,
+  ALTER COLUMN product_id SET NOT NULL,
+  ALTER COLUMN rating SET NOT NULL;
+
+-- RPCs the app already calls (AdminDashboard, Settings) that no migration
+-- defined. Typed rpc() calls only compile for functions in the schema.
+
+-- Number of live products per category for the admin dashboard.
+-- Uncategorized products are counted under a NULL category.
+CREATE OR REPLACE FUNCTION public.get_category_counts()
+RETURNS TABLE (category_id INTEGER, category_name TEXT, product_count BIGINT) AS $$
+BEGIN
+  IF public.current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can view category statistics' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT c.id, c.name, COUNT(p.id)
+  FROM products p
+  LEFT JOIN categories c ON c.id = p.category_id
+  WHERE NOT p.archived
+  GROUP BY c.id, c.name
+  ORDER BY COUNT(p.id) DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Deletes the calling user's account. Orders and products are kept for the
+-- other party's records, so accounts that have either can't be deleted here
+-- and have to go through support.
+CREATE OR REPLACE FUNCTION public.delete_user_account()
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM orders WHERE user_id = v_user_id)
+    OR EXISTS (SELECT 1 FROM products WHERE seller_id = v_user_id) THEN
+    RAISE EXCEPTION 'Accounts with orders or products must be closed by support' USING ERRCODE = 'P0001';
+  END IF;
+
+  DELETE FROM cart_items WHERE user_id = v_user_id;
+  DELETE FROM stock_reservations WHERE user_id = v_user_id;
+  DELETE FROM reviews WHERE user_id = v_user_id;
+
+  -- Keep the audit trail of anything this user resolved, minus the link
+  UPDATE order_status_history SET changed_by = NULL WHERE changed_by = v_user_id;
+  UPDATE returns SET resolved_by = NULL WHERE resolved_by = v_user_id;
+
+  -- Favorites and notifications cascade from auth.users
+  DELETE FROM profiles WHERE id = v_user_id;
+  DELETE FROM auth.users WHERE id = v_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.get_category_counts() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_category_counts() TO authenticated;
+REVOKE ALL ON FUNCTION public.delete_user_account() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.delete_user_account() TO authenticated;
\ No newline at end of file
@@ -0,0 +1,104 @@
+-- Full-text product search. products.search_vector combines the name, brand,
+-- category name, description and specification values, weighted in that
+-- order. Triggers keep it current; it can't be a generated column because the
+-- category name lives in another table.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+CREATE OR REPLACE FUNCTION public.update_product_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW.brand, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(
+      (SELECT name FROM categories WHERE id = NEW.category_id), ''
+    )), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW.description, '')), 'C') ||
+    setweight(jsonb_to_tsvector('english', coalesce(NEW.specifications, '{}'), '["string", "numeric"]'), 'D');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS update_product_search_vector ON products;
+CREATE TRIGGER update_product_search_vector
+  BEFORE INSERT OR UPDATE OF name, brand, description, specifications, category_id ON products
+  FOR EACH ROW EXECUTE FUNCTION public.update_product_search_vector();
+
+-- Renaming a category changes what its products match. Touching the name
+-- fires the trigger above. Runs as the owner because admins, who rename
+-- categories, can't update other sellers' products.
+CREATE OR REPLACE FUNCTION public.refresh_category_search_vectors()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    UPDATE products SET name = name WHERE category_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS refresh_category_search_vectors ON categories;
+CREATE TRIGGER refresh_category_search_vectors
+  AFTER UPDATE OF name ON categories
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_category_search_vectors();
+
+-- Backfill existing products
+UPDATE products SET name = name;
+
+CREATE INDEX IF NOT EXISTS products_search_vector_idx ON products USING GIN (search_vector);
+
+-- Used by the typo-tolerant fallback in search_products
+CREATE INDEX IF NOT EXISTS products_name_brand_trgm_idx
+  ON products USING GIN ((name || ' ' || coalesce(brand, '')) extensions.gin_trgm_ops);
+
+-- Live products matching a search, best match first. Every word is matched as
+-- a prefix, so "wire" finds "wireless". When nothing matches, the search is
+-- probably misspelled, so fall back to trigram similarity on name and brand.
+-- Runs with the caller's rights, so the products RLS policies still apply.
+CREATE OR REPLACE FUNCTION public.search_products(search_query TEXT)
+RETURNS SETOF products AS $$
+DECLARE
+  v_search TEXT := btrim(coalesce(search_query, ''));
+  v_query TSQUERY;
+BEGIN
+  IF v_search = '' THEN
+    RETURN;
+  END IF;
+
+  -- Only letters and digits reach to_tsquery, so user input can't break its syntax
+  SELECT to_tsquery('english', string_agg(word || ':*', ' & '))
+  INTO v_query
+  FROM regexp_split_to_table(lower(v_search), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+
+  -- Searches made only of stop words ("the") produce an empty query
+  IF v_query IS NOT NULL AND numnode(v_query) > 0 THEN
+    RETURN QUERY
+    SELECT p.*
+    FROM products p
+    WHERE NOT p.archived
+      AND p.search_vector @@ v_query
+    ORDER BY ts_rank(p.search_vector, v_query) DESC, p.rating DESC, p.id;
+
+    IF FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT p.*
+  FROM products p
+  WHERE NOT p.archived
+    AND v_search <% (p.name || ' ' || coalesce(p.brand, ''))
+  ORDER BY word_similarity(v_search, p.name || ' ' || coalesce(p.brand, '')) DESC, p.rating DESC, p.id;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
+
+REVOKE ALL ON FUNCTION public.search_products(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.search_products(TEXT) TO anon, authenticated;
\ No newline at end of file
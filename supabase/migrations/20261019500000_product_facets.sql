@@ -0,0 +1,97 @@
+-- Facet counts for the storefront filters: brand, minimum rating, in stock,
+-- on sale and specification values. Each facet is counted with every filter
+-- applied except its own, so picking a brand still shows how many products
+-- the other brands would add.
+
+-- Whether a product's specifications match the selected values. filters maps
+-- a specification name to the values allowed for it, e.g.
+-- {"color": ["black", "white"]}. except_key is left out, for counting that
+-- specification's own facet.
+CREATE OR REPLACE FUNCTION public.product_specs_match(specs JSONB, filters JSONB, except_key TEXT DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM jsonb_each(coalesce(filters, '{}')) AS f(key, allowed)
+    WHERE f.key IS DISTINCT FROM except_key
+      AND NOT coalesce(f.allowed ? (specs ->> f.key), false)
+  );
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Runs with the caller's rights, so the products RLS policies still apply
+CREATE OR REPLACE FUNCTION public.get_product_facets(
+  p_search TEXT DEFAULT NULL,
+  p_category_id INTEGER DEFAULT NULL,
+  p_min_price DECIMAL DEFAULT NULL,
+  p_max_price DECIMAL DEFAULT NULL,
+  p_brands TEXT[] DEFAULT NULL,
+  p_min_rating DECIMAL DEFAULT NULL,
+  p_in_stock BOOLEAN DEFAULT FALSE,
+  p_on_sale BOOLEAN DEFAULT FALSE,
+  p_specs JSONB DEFAULT NULL
+)
+RETURNS TABLE (facet TEXT, spec_key TEXT, value TEXT, product_count BIGINT) AS $$
+DECLARE
+  v_search TEXT := btrim(coalesce(p_search, ''));
+BEGIN
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      p.*,
+      (coalesce(cardinality(p_brands), 0) = 0 OR p.brand = ANY (p_brands)) AS brand_ok,
+      (p_min_rating IS NULL OR p.rating >= p_min_rating) AS rating_ok,
+      (NOT coalesce(p_in_stock, false) OR p.stock_quantity > 0) AS stock_ok,
+      (NOT coalesce(p_on_sale, false) OR p.discount_price IS NOT NULL) AS sale_ok,
+      CASE WHEN jsonb_typeof(p.specifications) = 'object' THEN p.specifications ELSE '{}' END AS specs
+    FROM products p
+    WHERE NOT p.archived
+      AND (v_search = '' OR p.id IN (SELECT s.id FROM search_products(v_search) s))
+      AND (p_category_id IS NULL OR p.category_id = p_category_id)
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+  )
+  SELECT 'brand', NULL::TEXT, c.brand, count(*)
+  FROM candidates c
+  WHERE c.brand IS NOT NULL
+    AND c.rating_ok AND c.stock_ok AND c.sale_ok AND product_specs_match(c.specs, p_specs)
+  GROUP BY c.brand
+
+  UNION ALL
+
+  SELECT 'rating', NULL::TEXT, r.min_rating::TEXT, count(c.id)
+  FROM generate_series(1, 4) AS r(min_rating)
+  LEFT JOIN candidates c
+    ON c.rating >= r.min_rating
+    AND c.brand_ok AND c.stock_ok AND c.sale_ok AND product_specs_match(c.specs, p_specs)
+  GROUP BY r.min_rating
+
+  UNION ALL
+
+  SELECT 'in_stock', NULL::TEXT, 'true', count(*)
+  FROM candidates c
+  WHERE c.stock_quantity > 0
+    AND c.brand_ok AND c.rating_ok AND c.sale_ok AND product_specs_match(c.specs, p_specs)
+
+  UNION ALL
+
+  SELECT 'on_sale', NULL::TEXT, 'true', count(*)
+  FROM candidates c
+  WHERE c.discount_price IS NOT NULL
+    AND c.brand_ok AND c.rating_ok AND c.stock_ok AND product_specs_match(c.specs, p_specs)
+
+  UNION ALL
+
+  -- Only plain values make useful filters; nested objects and lists are skipped
+  SELECT 'spec', s.key, s.value #>> '{}', count(*)
+  FROM candidates c
+  CROSS JOIN LATERAL jsonb_each(c.specs) AS s(key, value)
+  WHERE jsonb_typeof(s.value) IN ('string', 'number', 'boolean')
+    AND c.brand_ok AND c.rating_ok AND c.stock_ok AND c.sale_ok
+    AND product_specs_match(c.specs, p_specs, s.key)
+  GROUP BY s.key, s.value #>> '{}';
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.product_specs_match(JSONB, JSONB, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.product_specs_match(JSONB, JSONB, TEXT) TO anon, authenticated;
+REVOKE ALL ON FUNCTION public.get_product_facets(TEXT, INTEGER, DECIMAL, DECIMAL, TEXT[], DECIMAL, BOOLEAN, BOOLEAN, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_product_facets(TEXT, INTEGER, DECIMAL, DECIMAL, TEXT[], DECIMAL, BOOLEAN, BOOLEAN, JSONB) TO anon, authenticated;
\ No newline at end of file
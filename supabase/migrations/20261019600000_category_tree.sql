@@ -0,0 +1,130 @@
+-- Nested categories. A category includes the products of all its
+-- subcategories, so listings and facet counts filter on the whole subtree.
+
+-- The category and every category below it
+CREATE OR REPLACE FUNCTION public.category_subtree_ids(p_category_id INTEGER)
+RETURNS SETOF INTEGER AS $$
+  -- UNION rather than UNION ALL stops at rows already seen, should a cycle
+  -- predate the check below
+  WITH RECURSIVE subtree(id) AS (
+    SELECT id FROM categories WHERE id = p_category_id
+    UNION
+    SELECT c.id FROM categories c JOIN subtree s ON c.parent_id = s.id
+  )
+  SELECT id FROM subtree;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- The category and its ancestors, top-level category first, for breadcrumbs
+CREATE OR REPLACE FUNCTION public.get_category_path(p_category_id INTEGER)
+RETURNS SETOF categories AS $$
+  WITH RECURSIVE path(id, parent_id, depth) AS (
+    SELECT id, parent_id, 0 FROM categories WHERE id = p_category_id
+    UNION ALL
+    SELECT c.id, c.parent_id, p.depth + 1
+    FROM categories c
+    JOIN path p ON c.id = p.parent_id
+    WHERE p.depth < 32
+  )
+  SELECT c.*
+  FROM path p
+  JOIN categories c ON c.id = p.id
+  ORDER BY p.depth DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Moving a category under itself or one of its subcategories would detach
+-- that branch from the tree
+CREATE OR REPLACE FUNCTION public.prevent_category_cycles()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NEW.parent_id IN (SELECT category_subtree_ids(NEW.id)) THEN
+    RAISE EXCEPTION 'A category cannot be moved under itself or one of its subcategories'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS prevent_category_cycles ON categories;
+CREATE TRIGGER prevent_category_cycles
+  BEFORE INSERT OR UPDATE OF parent_id ON categories
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_category_cycles();
+
+-- Same as before, except that the category filter covers subcategories
+CREATE OR REPLACE FUNCTION public.get_product_facets(
+  p_search TEXT DEFAULT NULL,
+  p_category_id INTEGER DEFAULT NULL,
+  p_min_price DECIMAL DEFAULT NULL,
+  p_max_price DECIMAL DEFAULT NULL,
+  p_brands TEXT[] DEFAULT NULL,
+  p_min_rating DECIMAL DEFAULT NULL,
+  p_in_stock BOOLEAN DEFAULT FALSE,
+  p_on_sale BOOLEAN DEFAULT FALSE,
+  p_specs JSONB DEFAULT NULL
+)
+RETURNS TABLE (facet TEXT, spec_key TEXT, value TEXT, product_count BIGINT) AS $$
+DECLARE
+  v_search TEXT := btrim(coalesce(p_search, ''));
+BEGIN
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      p.*,
+      (coalesce(cardinality(p_brands), 0) = 0 OR p.brand = ANY (p_brands)) AS brand_ok,
+      (p_min_rating IS NULL OR p.rating >= p_min_rating) AS rating_ok,
+      (NOT coalesce(p_in_stock, false) OR p.stock_quantity > 0) AS stock_ok,
+      (NOT coalesce(p_on_sale, false) OR p.discount_price IS NOT NULL) AS sale_ok,
+      CASE WHEN jsonb_typeof(p.specifications) = 'object' THEN p.specifications ELSE '{}' END AS specs
+    FROM products p
+    WHERE NOT p.archived
+      AND (v_search = '' OR p.id IN (SELECT s.id FROM search_products(v_search) s))
+      AND (p_category_id IS NULL OR p.category_id IN (SELECT category_subtree_ids(p_category_id)))
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+  )
+  SELECT 'brand', NULL::TEXT, c.brand, count(*)
+  FROM candidates c
+  WHERE c.brand IS NOT NULL
+    AND c.rating_ok AND c.stock_ok AND c.sale_ok AND product_specs_match(c.specs, p_specs)
+  GROUP BY c.brand
+
+  UNION ALL
+
+  SELECT 'rating', NULL::TEXT, r.min_rating::TEXT, count(c.id)
+  FROM generate_series(1, 4) AS r(min_rating)
+  LEFT JOIN candidates c
+    ON c.rating >= r.min_rating
+    AND c.brand_ok AND c.stock_ok AND c.sale_ok AND product_specs_match(c.specs, p_specs)
+  GROUP BY r.min_rating
+
+  UNION ALL
+
+  SELECT 'in_stock', NULL::TEXT, 'true', count(*)
+  FROM candidates c
+  WHERE c.stock_quantity > 0
+    AND c.brand_ok AND c.rating_ok AND c.sale_ok AND product_specs_match(c.specs, p_specs)
+
+  UNION ALL
+
+  SELECT 'on_sale', NULL::TEXT, 'true', count(*)
+  FROM candidates c
+  WHERE c.discount_price IS NOT NULL
+    AND c.brand_ok AND c.rating_ok AND c.stock_ok AND product_specs_match(c.specs, p_specs)
+
+  UNION ALL
+
+  -- Only plain values make useful filters; nested objects and lists are skipped
+  SELECT 'spec', s.key, s.value #>> '{}', count(*)
+  FROM candidates c
+  CROSS JOIN LATERAL jsonb_each(c.specs) AS s(key, value)
+  WHERE jsonb_typeof(s.value) IN ('string', 'number', 'boolean')
+    AND c.brand_ok AND c.rating_ok AND c.stock_ok AND c.sale_ok
+    AND product_specs_match(c.specs, p_specs, s.key)
+  GROUP BY s.key, s.value #>> '{}';
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.category_subtree_ids(INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.category_subtree_ids(INTEGER) TO anon, authenticated;
+REVOKE ALL ON FUNCTION public.get_category_path(INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_category_path(INTEGER) TO anon, authenticated;
\ No newline at end of file
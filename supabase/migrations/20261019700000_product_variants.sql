@@ -0,0 +1,347 @@
+-- Product variants: one row per purchasable option combination (size, color,
+-- ...) with its own SKU, stock and optionally its own price. A product that
+-- has variants is bought through them, and its stock_quantity is kept at the
+-- sum of its variants' stock so listings and facets need no changes.
+
+CREATE TABLE product_variants (
+  id SERIAL PRIMARY KEY,
+  product_id INTEGER REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  sku TEXT NOT NULL UNIQUE,
+  -- Option name to value, e.g. {"size": "M", "color": "Red"}
+  options JSONB DEFAULT '{}' NOT NULL CHECK (jsonb_typeof(options) = 'object'),
+  -- Replaces the product's price and discount price when set
+  price DECIMAL(10, 2) CHECK (price >= 0),
+  stock_quantity INTEGER DEFAULT 0 NOT NULL CHECK (stock_quantity >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  UNIQUE (product_id, options),
+  -- Target of the (variant_id, product_id) foreign keys below, so a line can
+  -- only point at a variant of its own product
+  UNIQUE (id, product_id)
+);
+
+CREATE INDEX product_variants_product_id_idx ON product_variants (product_id);
+
+ALTER TABLE cart_items
+  ADD COLUMN variant_id INTEGER,
+  ADD CONSTRAINT cart_items_variant_id_fkey FOREIGN KEY (variant_id, product_id)
+    REFERENCES product_variants (id, product_id) ON DELETE CASCADE;
+
+ALTER TABLE stock_reservations
+  ADD COLUMN variant_id INTEGER,
+  ADD CONSTRAINT stock_reservations_variant_id_fkey FOREIGN KEY (variant_id, product_id)
+    REFERENCES product_variants (id, product_id) ON DELETE CASCADE;
+
+CREATE INDEX stock_reservations_variant_id_idx ON stock_reservations (variant_id, expires_at);
+
+-- Like products, a variant that has been ordered can't be deleted
+ALTER TABLE order_items
+  ADD COLUMN variant_id INTEGER,
+  ADD CONSTRAINT order_items_variant_id_fkey FOREIGN KEY (variant_id, product_id)
+    REFERENCES product_variants (id, product_id);
+
+-- Product variants policies. Variants are visible whenever their product is.
+CREATE POLICY "Product variants are viewable with their product"
+  ON product_variants FOR SELECT USING (
+    EXISTS (SELECT 1 FROM products WHERE products.id = product_variants.product_id)
+  );
+
+CREATE POLICY "Sellers can manage variants of own products"
+  ON product_variants FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM products
+      WHERE products.id = product_variants.product_id
+      AND products.seller_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM products
+      WHERE products.id = product_variants.product_id
+      AND products.seller_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage any variant"
+  ON product_variants FOR ALL
+  USING (public.current_user_role() = 'admin')
+  WITH CHECK (public.current_user_role() = 'admin');
+
+ALTER TABLE product_variants ENABLE ROW LEVEL SECURITY;
+
+-- Keep products.stock_quantity at the total stock of their variants
+CREATE OR REPLACE FUNCTION public.sync_product_stock_from_variants()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_product_ids INTEGER[] := '{}';
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    v_product_ids := v_product_ids || OLD.product_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    v_product_ids := v_product_ids || NEW.product_id;
+  END IF;
+
+  UPDATE products p
+  SET stock_quantity = (
+    SELECT COALESCE(SUM(v.stock_quantity), 0)
+    FROM product_variants v
+    WHERE v.product_id = p.id
+  )
+  WHERE p.id = ANY (v_product_ids);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_product_stock_from_variants ON product_variants;
+CREATE TRIGGER sync_product_stock_from_variants
+  AFTER INSERT OR DELETE OR UPDATE OF product_id, stock_quantity ON product_variants
+  FOR EACH ROW EXECUTE FUNCTION public.sync_product_stock_from_variants();
+
+-- Quantity of a variant held by unexpired reservations, optionally ignoring
+-- the reservations of one user. reserved_stock still counts a product's
+-- variant reservations, which matches its stock being the variants' total.
+CREATE OR REPLACE FUNCTION public.reserved_variant_stock(p_variant_id INTEGER, p_exclude_user UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(SUM(quantity), 0)::INTEGER
+  FROM stock_reservations
+  WHERE variant_id = p_variant_id
+    AND expires_at > NOW()
+    AND user_id IS DISTINCT FROM p_exclude_user;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- available_stock gains an optional variant, so the old signature has to go
+-- rather than be left behind as an ambiguous overload
+DROP FUNCTION public.available_stock(INTEGER);
+
+-- Stock a shopper can still put in their cart right now, of a product or of
+-- one of its variants
+CREATE OR REPLACE FUNCTION public.available_stock(p_product_id INTEGER, p_variant_id INTEGER DEFAULT NULL)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN p_variant_id IS NULL THEN (
+      SELECT GREATEST(COALESCE(p.stock_quantity, 0) - public.reserved_stock(p.id, auth.uid()), 0)
+      FROM products p
+      WHERE p.id = p_product_id
+    )
+    ELSE (
+      SELECT GREATEST(v.stock_quantity - public.reserved_variant_stock(v.id, auth.uid()), 0)
+      FROM product_variants v
+      WHERE v.id = p_variant_id AND v.product_id = p_product_id
+    )
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Hold the caller's cart quantities for a limited time while they check out.
+-- Any previous reservations of the caller are replaced. Returns the expiry.
+CREATE OR REPLACE FUNCTION public.reserve_cart_stock(minutes INTEGER DEFAULT 15)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_expires_at TIMESTAMP WITH TIME ZONE := NOW() + make_interval(mins => LEAST(GREATEST(minutes, 1), 30));
+  v_item RECORD;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Same lock order as place_order so the two cannot deadlock
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM cart_items WHERE user_id = v_user_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM product_variants
+  WHERE id IN (SELECT variant_id FROM cart_items WHERE user_id = v_user_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  DELETE FROM stock_reservations
+  WHERE user_id = v_user_id OR expires_at <= NOW();
+
+  FOR v_item IN
+    SELECT p.id, v.id AS variant_id, p.name, SUM(c.quantity) AS quantity,
+      CASE
+        WHEN v.id IS NULL THEN COALESCE(p.stock_quantity, 0) - public.reserved_stock(p.id, v_user_id)
+        ELSE v.stock_quantity - public.reserved_variant_stock(v.id, v_user_id)
+      END AS available
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    LEFT JOIN product_variants v ON v.id = c.variant_id
+    WHERE c.user_id = v_user_id
+    GROUP BY p.id, v.id
+  LOOP
+    IF v_item.available < v_item.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %', v_item.name USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO stock_reservations (user_id, product_id, variant_id, quantity, expires_at)
+    VALUES (v_user_id, v_item.id, v_item.variant_id, v_item.quantity, v_expires_at);
+  END LOOP;
+
+  RETURN v_expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Place an order from the caller's cart in a single transaction.
+-- Prices are read from products and variants rather than trusted from the
+-- client, stock is decremented and the cart is emptied; any failure rolls the
+-- whole thing back.
+CREATE OR REPLACE FUNCTION public.place_order(shipping JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order_id INTEGER;
+  v_total DECIMAL(10, 2);
+  v_item RECORD;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM cart_items WHERE user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the products and variants being bought, in a stable order to avoid deadlocks
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM cart_items WHERE user_id = v_user_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM product_variants
+  WHERE id IN (SELECT variant_id FROM cart_items WHERE user_id = v_user_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Check there is enough stock for every line before writing anything.
+  -- Stock held by other shoppers' unexpired reservations is not available.
+  FOR v_item IN
+    SELECT p.name, SUM(c.quantity) AS quantity,
+      CASE
+        WHEN v.id IS NULL THEN COALESCE(p.stock_quantity, 0) - public.reserved_stock(p.id, v_user_id)
+        ELSE v.stock_quantity - public.reserved_variant_stock(v.id, v_user_id)
+      END AS available,
+      v.id IS NULL AND EXISTS (
+        SELECT 1 FROM product_variants pv WHERE pv.product_id = p.id
+      ) AS needs_variant
+    FROM cart_items c
+    JOIN products p ON p.id = c.product_id
+    LEFT JOIN product_variants v ON v.id = c.variant_id
+    WHERE c.user_id = v_user_id
+    GROUP BY p.id, v.id
+  LOOP
+    IF v_item.needs_variant THEN
+      RAISE EXCEPTION 'Choose an option for %', v_item.name USING ERRCODE = 'P0001';
+    END IF;
+
+    IF v_item.available < v_item.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %', v_item.name USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  SELECT SUM(COALESCE(v.price, p.discount_price, p.price) * c.quantity)
+  INTO v_total
+  FROM cart_items c
+  JOIN products p ON p.id = c.product_id
+  LEFT JOIN product_variants v ON v.id = c.variant_id
+  WHERE c.user_id = v_user_id;
+
+  INSERT INTO orders (user_id, status, total_amount, shipping_details)
+  VALUES (v_user_id, 'pending', v_total, shipping)
+  RETURNING id INTO v_order_id;
+
+  INSERT INTO order_items (order_id, product_id, variant_id, quantity, price_at_time)
+  SELECT v_order_id, p.id, v.id, SUM(c.quantity), COALESCE(v.price, p.discount_price, p.price)
+  FROM cart_items c
+  JOIN products p ON p.id = c.product_id
+  LEFT JOIN product_variants v ON v.id = c.variant_id
+  WHERE c.user_id = v_user_id
+  GROUP BY p.id, v.id;
+
+  -- Variant stock is decremented on the variant; the trigger then updates
+  -- the product's total
+  UPDATE products p
+  SET stock_quantity = p.stock_quantity - c.quantity
+  FROM (
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM cart_items
+    WHERE user_id = v_user_id AND variant_id IS NULL
+    GROUP BY product_id
+  ) c
+  WHERE p.id = c.product_id;
+
+  UPDATE product_variants v
+  SET stock_quantity = v.stock_quantity - c.quantity
+  FROM (
+    SELECT variant_id, SUM(quantity) AS quantity
+    FROM cart_items
+    WHERE user_id = v_user_id AND variant_id IS NOT NULL
+    GROUP BY variant_id
+  ) c
+  WHERE v.id = c.variant_id;
+
+  DELETE FROM cart_items WHERE user_id = v_user_id;
+  DELETE FROM stock_reservations WHERE user_id = v_user_id;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Let a customer cancel their own order before it is processed. The items
+-- go back into stock, and a paid order is flagged for refund.
+CREATE OR REPLACE FUNCTION public.cancel_order(p_order_id INTEGER, p_reason TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_order.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Orders can only be cancelled before they are processed' USING ERRCODE = 'P0001';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', COALESCE(p_reason, ''), true);
+
+  UPDATE orders
+  SET status = 'cancelled',
+      payment_status = CASE WHEN payment_status = 'paid' THEN 'refund_pending' ELSE payment_status END
+  WHERE id = p_order_id;
+
+  UPDATE products p
+  SET stock_quantity = p.stock_quantity + oi.quantity
+  FROM (
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id AND variant_id IS NULL
+    GROUP BY product_id
+  ) oi
+  WHERE p.id = oi.product_id;
+
+  UPDATE product_variants v
+  SET stock_quantity = v.stock_quantity + oi.quantity
+  FROM (
+    SELECT variant_id, SUM(quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id AND variant_id IS NOT NULL
+    GROUP BY variant_id
+  ) oi
+  WHERE v.id = oi.variant_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.reserved_variant_stock(INTEGER, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.available_stock(INTEGER, INTEGER) TO anon, authenticated;
\ No newline at end of file
@@ -0,0 +1,206 @@
+-- Review authoring: one review per user and product, a verified purchase
+-- flag, and each product's average rating and review count kept on the
+-- product so listings can sort by them.
+
+-- Keep each user's latest review of a product before making that the rule
+DELETE FROM reviews r
+USING reviews newer
+WHERE newer.user_id = r.user_id
+  AND newer.product_id = r.product_id
+  AND newer.id > r.id;
+
+ALTER TABLE reviews
+  ADD COLUMN verified_purchase BOOLEAN DEFAULT FALSE NOT NULL,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT reviews_user_id_product_id_key UNIQUE (user_id, product_id);
+
+CREATE INDEX reviews_product_id_idx ON reviews (product_id, created_at);
+
+-- products.rating was set by hand; it becomes the average of the reviews
+ALTER TABLE products RENAME COLUMN rating TO avg_rating;
+
+ALTER TABLE products
+  ALTER COLUMN avg_rating TYPE DECIMAL(3, 2),
+  ADD COLUMN review_count INTEGER DEFAULT 0 NOT NULL;
+
+-- A review counts as a verified purchase when the reviewer has ordered the
+-- product and the order wasn't cancelled. Set here so reviewers can't claim it.
+CREATE OR REPLACE FUNCTION public.set_review_verified_purchase()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.verified_purchase := EXISTS (
+    SELECT 1
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE o.user_id = NEW.user_id
+      AND oi.product_id = NEW.product_id
+      AND o.status <> 'cancelled'
+  );
+
+  IF TG_OP = 'UPDATE' AND (NEW.rating, NEW.comment) IS DISTINCT FROM (OLD.rating, OLD.comment) THEN
+    NEW.updated_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_review_verified_purchase ON reviews;
+CREATE TRIGGER set_review_verified_purchase
+  BEFORE INSERT OR UPDATE ON reviews
+  FOR EACH ROW EXECUTE FUNCTION public.set_review_verified_purchase();
+
+-- Recompute the average rating and review count of the products a review
+-- change touches. Runs as the owner because reviewers can't update products.
+CREATE OR REPLACE FUNCTION public.refresh_product_rating()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_product_ids INTEGER[] := '{}';
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    v_product_ids := v_product_ids || OLD.product_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    v_product_ids := v_product_ids || NEW.product_id;
+  END IF;
+
+  UPDATE products p
+  SET avg_rating = COALESCE((SELECT ROUND(AVG(r.rating), 2) FROM reviews r WHERE r.product_id = p.id), 0),
+      review_count = (SELECT COUNT(*) FROM reviews r WHERE r.product_id = p.id)
+  WHERE p.id = ANY (v_product_ids);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS refresh_product_rating ON reviews;
+CREATE TRIGGER refresh_product_rating
+  AFTER INSERT OR DELETE OR UPDATE OF rating, product_id ON reviews
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_product_rating();
+
+-- Backfill from the reviews written so far. Touching every review sets its
+-- verified flag and refreshes its product.
+UPDATE reviews SET rating = rating;
+
+UPDATE products p
+SET avg_rating = 0,
+    review_count = 0
+WHERE NOT EXISTS (SELECT 1 FROM reviews WHERE product_id = p.id);
+
+CREATE INDEX products_avg_rating_idx ON products (avg_rating DESC, id);
+CREATE INDEX products_review_count_idx ON products (review_count DESC, id);
+
+-- Function bodies refer to columns by name, so the ones that read the old
+-- rating column are re-created unchanged apart from the rename
+CREATE OR REPLACE FUNCTION public.search_products(search_query TEXT)
+RETURNS SETOF products AS $$
+DECLARE
+  v_search TEXT := btrim(coalesce(search_query, ''));
+  v_query TSQUERY;
+BEGIN
+  IF v_search = '' THEN
+    RETURN;
+  END IF;
+
+  -- Only letters and digits reach to_tsquery, so user input can't break its syntax
+  SELECT to_tsquery('english', string_agg(word || ':*', ' & '))
+  INTO v_query
+  FROM regexp_split_to_table(lower(v_search), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+
+  -- Searches made only of stop words ("the") produce an empty query
+  IF v_query IS NOT NULL AND numnode(v_query) > 0 THEN
+    RETURN QUERY
+    SELECT p.*
+    FROM products p
+    WHERE NOT p.archived
+      AND p.search_vector @@ v_query
+    ORDER BY ts_rank(p.search_vector, v_query) DESC, p.avg_rating DESC, p.id;
+
+    IF FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT p.*
+  FROM products p
+  WHERE NOT p.archived
+    AND v_search <% (p.name || ' ' || coalesce(p.brand, ''))
+  ORDER BY word_similarity(v_search, p.name || ' ' || coalesce(p.brand, '')) DESC, p.avg_rating DESC, p.id;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION public.get_product_facets(
+  p_search TEXT DEFAULT NULL,
+  p_category_id INTEGER DEFAULT NULL,
+  p_min_price DECIMAL DEFAULT NULL,
+  p_max_price DECIMAL DEFAULT NULL,
+  p_brands TEXT[] DEFAULT NULL,
+  p_min_rating DECIMAL DEFAULT NULL,
+  p_in_stock BOOLEAN DEFAULT FALSE,
+  p_on_sale BOOLEAN DEFAULT FALSE,
+  p_specs JSONB DEFAULT NULL
+)
+RETURNS TABLE (facet TEXT, spec_key TEXT, value TEXT, product_count BIGINT) AS $$
+DECLARE
+  v_search TEXT := btrim(coalesce(p_search, ''));
+BEGIN
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      p.*,
+      (coalesce(cardinality(p_brands), 0) = 0 OR p.brand = ANY (p_brands)) AS brand_ok,
+      (p_min_rating IS NULL OR p.avg_rating >= p_min_rating) AS rating_ok,
+      (NOT coalesce(p_in_stock, false) OR p.stock_quantity > 0) AS stock_ok,
+      (NOT coalesce(p_on_sale, false) OR p.discount_price IS NOT NULL) AS sale_ok,
+      CASE WHEN jsonb_typeof(p.specifications) = 'object' THEN p.specifications ELSE '{}' END AS specs
+    FROM products p
+    WHERE NOT p.archived
+      AND (v_search = '' OR p.id IN (SELECT s.id FROM search_products(v_search) s))
+      AND (p_category_id IS NULL OR p.category_id IN (SELECT category_subtree_ids(p_category_id)))
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+  )
+  SELECT 'brand', NULL::TEXT, c.brand, count(*)
+  FROM candidates c
+  WHERE c.brand IS NOT NULL
+    AND c.rating_ok AND c.stock_ok AND c.sale_ok AND product_specs_match(c.specs, p_specs)
+  GROUP BY c.brand
+
+  UNION ALL
+
+  SELECT 'rating', NULL::TEXT, r.min_rating::TEXT, count(c.id)
+  FROM generate_series(1, 4) AS r(min_rating)
+  LEFT JOIN candidates c
+    ON c.avg_rating >= r.min_rating
+    AND c.brand_ok AND c.stock_ok AND c.sale_ok AND product_specs_match(c.specs, p_specs)
+  GROUP BY r.min_rating
+
+  UNION ALL
+
+  SELECT 'in_stock', NULL::TEXT, 'true', count(*)
+  FROM candidates c
+  WHERE c.stock_quantity > 0
+    AND c.brand_ok AND c.rating_ok AND c.sale_ok AND product_specs_match(c.specs, p_specs)
+
+  UNION ALL
+
+  SELECT 'on_sale', NULL::TEXT, 'true', count(*)
+  FROM candidates c
+  WHERE c.discount_price IS NOT NULL
+    AND c.brand_ok AND c.rating_ok AND c.stock_ok AND product_specs_match(c.specs, p_specs)
+
+  UNION ALL
+
+  -- Only plain values make useful filters; nested objects and lists are skipped
+  SELECT 'spec', s.key, s.value #>> '{}', count(*)
+  FROM candidates c
+  CROSS JOIN LATERAL jsonb_each(c.specs) AS s(key, value)
+  WHERE jsonb_typeof(s.value) IN ('string', 'number', 'boolean')
+    AND c.brand_ok AND c.rating_ok AND c.stock_ok AND c.sale_ok
+    AND product_specs_match(c.specs, p_specs, s.key)
+  GROUP BY s.key, s.value #>> '{}';
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
\ No newline at end of file
@@ -0,0 +1,183 @@
+-- Review moderation: helpful votes, reports, admin hiding and review photos.
+-- Hidden reviews are only visible to their author and admins, and don't
+-- count towards the product's rating.
+
+ALTER TABLE reviews
+  ADD COLUMN hidden BOOLEAN DEFAULT FALSE NOT NULL,
+  ADD COLUMN hidden_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN hidden_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  ADD COLUMN helpful_count INTEGER DEFAULT 0 NOT NULL,
+  -- Public URLs in the review-photos bucket
+  ADD COLUMN photo_urls TEXT[] DEFAULT '{}' NOT NULL
+    CONSTRAINT reviews_photo_urls_check CHECK (cardinality(photo_urls) <= 4);
+
+-- Reviewers write the review itself; hidden and helpful_count are only
+-- changed by moderate_review and the vote trigger
+REVOKE INSERT, UPDATE ON reviews FROM anon, authenticated;
+GRANT INSERT (user_id, product_id, rating, comment, photo_urls) ON reviews TO authenticated;
+GRANT UPDATE (rating, comment, photo_urls) ON reviews TO authenticated;
+
+DROP POLICY IF EXISTS "Reviews are viewable by everyone" ON reviews;
+CREATE POLICY "Reviews are viewable by everyone"
+  ON reviews FOR SELECT USING (NOT hidden OR auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all reviews"
+  ON reviews FOR SELECT USING (public.current_user_role() = 'admin');
+
+-- One "helpful" vote per user and review
+CREATE TABLE review_votes (
+  review_id INTEGER REFERENCES reviews(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  PRIMARY KEY (review_id, user_id)
+);
+
+CREATE INDEX review_votes_user_id_idx ON review_votes (user_id);
+
+-- Flags raised by shoppers, open until an admin hides or restores the review
+CREATE TABLE review_reports (
+  id SERIAL PRIMARY KEY,
+  review_id INTEGER REFERENCES reviews(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'offensive', 'off_topic', 'fake', 'other')),
+  details TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  UNIQUE (review_id, user_id)
+);
+
+CREATE INDEX review_reports_open_idx ON review_reports (review_id) WHERE resolved_at IS NULL;
+
+ALTER TABLE review_votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE review_reports ENABLE ROW LEVEL SECURITY;
+
+-- Votes and reports can only be cast on reviews the user can see and didn't write
+CREATE POLICY "Users can view own review votes"
+  ON review_votes FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can vote on others' reviews"
+  ON review_votes FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM reviews r WHERE r.id = review_id AND r.user_id <> auth.uid())
+  );
+
+CREATE POLICY "Users can remove own review votes"
+  ON review_votes FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own review reports"
+  ON review_reports FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can report others' reviews"
+  ON review_reports FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND resolved_at IS NULL
+    AND resolved_by IS NULL
+    AND EXISTS (SELECT 1 FROM reviews r WHERE r.id = review_id AND r.user_id <> auth.uid())
+  );
+
+CREATE POLICY "Admins can view all review reports"
+  ON review_reports FOR SELECT USING (public.current_user_role() = 'admin');
+
+-- Keep each review's helpful_count equal to its votes
+CREATE OR REPLACE FUNCTION public.refresh_review_helpful_count()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_review_id INTEGER := CASE WHEN TG_OP = 'DELETE' THEN OLD.review_id ELSE NEW.review_id END;
+BEGIN
+  UPDATE reviews r
+  SET helpful_count = (SELECT COUNT(*) FROM review_votes v WHERE v.review_id = r.id)
+  WHERE r.id = v_review_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS refresh_review_helpful_count ON review_votes;
+CREATE TRIGGER refresh_review_helpful_count
+  AFTER INSERT OR DELETE ON review_votes
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_review_helpful_count();
+
+-- Hidden reviews drop out of the average and count
+CREATE OR REPLACE FUNCTION public.refresh_product_rating()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_product_ids INTEGER[] := '{}';
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    v_product_ids := v_product_ids || OLD.product_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    v_product_ids := v_product_ids || NEW.product_id;
+  END IF;
+
+  UPDATE products p
+  SET avg_rating = COALESCE((
+        SELECT ROUND(AVG(r.rating), 2) FROM reviews r WHERE r.product_id = p.id AND NOT r.hidden
+      ), 0),
+      review_count = (SELECT COUNT(*) FROM reviews r WHERE r.product_id = p.id AND NOT r.hidden)
+  WHERE p.id = ANY (v_product_ids);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS refresh_product_rating ON reviews;
+CREATE TRIGGER refresh_product_rating
+  AFTER INSERT OR DELETE OR UPDATE OF rating, product_id, hidden ON reviews
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_product_rating();
+
+-- Hide or restore a review. Either way the review has been looked at, so its
+-- open reports are resolved.
+CREATE OR REPLACE FUNCTION public.moderate_review(p_review_id INTEGER, p_hidden BOOLEAN)
+RETURNS VOID AS $$
+BEGIN
+  IF public.current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can moderate reviews' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE reviews
+  SET hidden = p_hidden,
+      hidden_at = CASE WHEN p_hidden THEN NOW() END,
+      hidden_by = CASE WHEN p_hidden THEN auth.uid() END
+  WHERE id = p_review_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE review_reports
+  SET resolved_at = NOW(),
+      resolved_by = auth.uid()
+  WHERE review_id = p_review_id
+    AND resolved_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.moderate_review(INTEGER, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.moderate_review(INTEGER, BOOLEAN) TO authenticated;
+
+-- Review photos bucket. Files live under a folder named after the reviewer's
+-- user id, and only that user can write to it.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('review-photos', 'review-photos', true)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Review photos are viewable by everyone" ON storage.objects;
+CREATE POLICY "Review photos are viewable by everyone"
+  ON storage.objects FOR SELECT USING (bucket_id = 'review-photos');
+
+DROP POLICY IF EXISTS "Users can upload own review photos" ON storage.objects;
+CREATE POLICY "Users can upload own review photos"
+  ON storage.objects FOR INSERT WITH CHECK (
+    bucket_id = 'review-photos'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Users can delete own review photos" ON storage.objects;
+CREATE POLICY "Users can delete own review photos"
+  ON storage.objects FOR DELETE USING (
+    bucket_id = 'review-photos'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
\ No newline at end of file
@@ -0,0 +1,92 @@
+-- Named wishlists and gift registries. A list can be published under its
+-- slug, after which anyone with the link can view it, buy from it and mark
+-- items as bought so friends don't buy the same thing twice.
+
+CREATE TABLE wishlists (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  occasion TEXT DEFAULT 'wishlist' NOT NULL
+    CHECK (occasion IN ('wishlist', 'birthday', 'wedding', 'baby', 'holiday', 'other')),
+  description TEXT,
+  event_date DATE,
+  -- Lowercase words joined by dashes, e.g. "ana-and-ben-wedding-x7k2q9"
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  is_public BOOLEAN DEFAULT FALSE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX wishlists_user_id_idx ON wishlists (user_id);
+
+CREATE TABLE wishlist_items (
+  id SERIAL PRIMARY KEY,
+  wishlist_id INTEGER REFERENCES wishlists(id) ON DELETE CASCADE NOT NULL,
+  product_id INTEGER REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  variant_id INTEGER,
+  desired_quantity INTEGER DEFAULT 1 NOT NULL CHECK (desired_quantity > 0),
+  purchased_quantity INTEGER DEFAULT 0 NOT NULL CHECK (purchased_quantity >= 0),
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  CONSTRAINT wishlist_items_variant_id_fkey FOREIGN KEY (variant_id, product_id)
+    REFERENCES product_variants (id, product_id) ON DELETE CASCADE,
+  -- One line per product, or per variant for products sold in variants
+  CONSTRAINT wishlist_items_line_key UNIQUE NULLS NOT DISTINCT (wishlist_id, product_id, variant_id)
+);
+
+ALTER TABLE wishlists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wishlist_items ENABLE ROW LEVEL SECURITY;
+
+-- Owners manage their lists; published lists and their items are readable
+-- by everyone, signed in or not
+CREATE POLICY "Users can manage own wishlists"
+  ON wishlists FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Public wishlists are viewable by everyone"
+  ON wishlists FOR SELECT USING (is_public);
+
+CREATE POLICY "Users can manage items on own wishlists"
+  ON wishlist_items FOR ALL
+  USING (EXISTS (SELECT 1 FROM wishlists w WHERE w.id = wishlist_id AND w.user_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM wishlists w WHERE w.id = wishlist_id AND w.user_id = auth.uid()));
+
+CREATE POLICY "Items on public wishlists are viewable by everyone"
+  ON wishlist_items FOR SELECT
+  USING (EXISTS (SELECT 1 FROM wishlists w WHERE w.id = wishlist_id AND w.is_public));
+
+-- Record that a visitor bought an item from a published list. Visitors can't
+-- update the list directly, so this is the only thing they can change, and
+-- never past the quantity the owner asked for.
+CREATE OR REPLACE FUNCTION public.mark_wishlist_item_purchased(
+  p_slug TEXT,
+  p_item_id INTEGER,
+  p_quantity INTEGER DEFAULT 1
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_purchased INTEGER;
+BEGIN
+  IF p_quantity IS NULL OR p_quantity < 1 THEN
+    RAISE EXCEPTION 'Quantity must be at least 1' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE wishlist_items i
+  SET purchased_quantity = LEAST(i.desired_quantity, i.purchased_quantity + p_quantity)
+  FROM wishlists w
+  WHERE i.id = p_item_id
+    AND w.id = i.wishlist_id
+    AND w.slug = p_slug
+    AND w.is_public
+  RETURNING i.purchased_quantity INTO v_purchased;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wishlist item not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_purchased;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.mark_wishlist_item_purchased(TEXT, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.mark_wishlist_item_purchased(TEXT, INTEGER, INTEGER) TO anon, authenticated;
\ No newline at end of file
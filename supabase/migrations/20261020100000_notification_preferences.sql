@@ -0,0 +1,175 @@
+-- Notification preferences per user, category and channel. Every
+-- notification goes through notify_user, which checks them before writing the
+-- in-app notification or queueing an email or push delivery.
+
+-- Keep in sync with NOTIFICATION_CATEGORY_LABELS in src/lib/api/notifications.ts
+ALTER TABLE notifications
+  ADD COLUMN category TEXT DEFAULT 'account_alerts' NOT NULL
+    CHECK (category IN ('order_updates', 'promotions', 'new_products', 'account_alerts'));
+
+-- A missing row means the user hasn't changed the category's defaults, see
+-- notification_channel_enabled
+CREATE TABLE notification_preferences (
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  category TEXT NOT NULL
+    CHECK (category IN ('order_updates', 'promotions', 'new_products', 'account_alerts')),
+  in_app BOOLEAN DEFAULT TRUE NOT NULL,
+  email BOOLEAN DEFAULT TRUE NOT NULL,
+  push BOOLEAN DEFAULT TRUE NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  PRIMARY KEY (user_id, category)
+);
+
+-- Emails and push messages waiting to be sent. A worker using the service
+-- role drains the queue; users never see it.
+CREATE TABLE notification_deliveries (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  -- Null when the user has in-app notifications for the category turned off
+  notification_id INTEGER REFERENCES notifications(id) ON DELETE SET NULL,
+  category TEXT NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'push')),
+  title TEXT NOT NULL,
+  content TEXT,
+  link TEXT,
+  status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'sent', 'failed')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  sent_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX notification_deliveries_pending_idx ON notification_deliveries (created_at) WHERE status = 'pending';
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own notification preferences"
+  ON notification_preferences FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Whether the user wants notifications of a category on a channel. Users who
+-- never saved their preferences get the defaults Settings shows: everything
+-- in-app, no promotional emails and no new product pushes.
+-- Keep in sync with DEFAULT_NOTIFICATION_PREFERENCES in src/lib/api/notifications.ts
+CREATE OR REPLACE FUNCTION public.notification_channel_enabled(p_user_id UUID, p_category TEXT, p_channel TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    (
+      SELECT CASE p_channel
+        WHEN 'in_app' THEN np.in_app
+        WHEN 'email' THEN np.email
+        WHEN 'push' THEN np.push
+      END
+      FROM notification_preferences np
+      WHERE np.user_id = p_user_id AND np.category = p_category
+    ),
+    NOT (
+      (p_category = 'promotions' AND p_channel = 'email') OR
+      (p_category = 'new_products' AND p_channel = 'push')
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Notify a user on every channel they have turned on for the category.
+-- Returns the in-app notification's id, or null if they turned it off.
+CREATE OR REPLACE FUNCTION public.notify_user(
+  p_user_id UUID,
+  p_category TEXT,
+  p_type TEXT,
+  p_title TEXT,
+  p_content TEXT DEFAULT NULL,
+  p_link TEXT DEFAULT NULL,
+  p_related_id TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_notification_id INTEGER;
+BEGIN
+  IF public.notification_channel_enabled(p_user_id, p_category, 'in_app') THEN
+    INSERT INTO notifications (user_id, category, type, title, content, link, related_id)
+    VALUES (p_user_id, p_category, p_type, p_title, p_content, p_link, p_related_id)
+    RETURNING id INTO v_notification_id;
+  END IF;
+
+  INSERT INTO notification_deliveries (user_id, notification_id, category, channel, title, content, link)
+  SELECT p_user_id, v_notification_id, p_category, c.channel, p_title, p_content, p_link
+  FROM (VALUES ('email'), ('push')) AS c (channel)
+  WHERE public.notification_channel_enabled(p_user_id, p_category, c.channel);
+
+  RETURN v_notification_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the database itself and server code using the service role send
+-- notifications
+REVOKE ALL ON FUNCTION public.notification_channel_enabled(UUID, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.notification_channel_enabled(UUID, TEXT, TEXT) TO service_role;
+REVOKE ALL ON FUNCTION public.notify_user(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.notify_user(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) TO service_role;
+
+-- Tell customers about every status their order enters
+CREATE OR REPLACE FUNCTION public.notify_order_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.user_id IS NULL OR (TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status) THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.notify_user(
+    NEW.user_id,
+    'order_updates',
+    CASE WHEN NEW.status IN ('shipped', 'delivered') THEN 'shipping' ELSE 'order' END,
+    CASE NEW.status
+      WHEN 'pending' THEN 'Order placed'
+      WHEN 'confirmed' THEN 'Order confirmed'
+      WHEN 'processing' THEN 'Order being prepared'
+      WHEN 'shipped' THEN 'Order shipped'
+      WHEN 'delivered' THEN 'Order delivered'
+      WHEN 'cancelled' THEN 'Order cancelled'
+      ELSE 'Order updated'
+    END,
+    format('Order #%s is now %s.', NEW.id, NEW.status),
+    '/dashboard/orders/' || NEW.id,
+    NEW.id::text
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_order_status_change ON orders;
+CREATE TRIGGER notify_order_status_change
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION public.notify_order_status_change();
+
+-- Tell customers when a return they asked for is resolved
+CREATE OR REPLACE FUNCTION public.notify_return_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.notify_user(
+    NEW.user_id,
+    'order_updates',
+    CASE WHEN NEW.status = 'refunded' THEN 'payment' ELSE 'order' END,
+    CASE NEW.status
+      WHEN 'approved' THEN 'Return approved'
+      WHEN 'rejected' THEN 'Return rejected'
+      WHEN 'refunded' THEN 'Return refunded'
+      ELSE 'Return updated'
+    END,
+    format('Your return from order #%s is now %s.', NEW.order_id, NEW.status),
+    '/dashboard/orders/' || NEW.order_id,
+    NEW.id::text
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_return_status_change ON returns;
+CREATE TRIGGER notify_return_status_change
+  AFTER UPDATE OF status ON returns
+  FOR EACH ROW EXECUTE FUNCTION public.notify_return_status_change();
\ No newline at end of file
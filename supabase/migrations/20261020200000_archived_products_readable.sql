@@ -0,0 +1,35 @@
+-- Archiving a product takes it off the storefront but must not hide it from
+-- the orders, carts, favorites and wishlists that still reference it. Those
+-- embed the product, and an unreadable row comes back as null.
+--
+-- The storefront queries (listings, search, facets, related products and
+-- category counts) already filter on NOT archived, so this only changes what
+-- can be read by id.
+DROP POLICY IF EXISTS "Products are viewable by everyone" ON products;
+
+CREATE POLICY "Products are viewable by everyone"
+  ON products FOR SELECT USING (true);
+
+-- Now that archived products can be opened by id, make sure they can't be
+-- bought from a cart that still holds them
+CREATE OR REPLACE FUNCTION public.reject_archived_order_items()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_name TEXT;
+BEGIN
+  SELECT name INTO v_name
+  FROM products
+  WHERE id = NEW.product_id AND archived;
+
+  IF FOUND THEN
+    RAISE EXCEPTION '% is no longer available', v_name USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS reject_archived_order_items ON order_items;
+CREATE TRIGGER reject_archived_order_items
+  BEFORE INSERT ON order_items
+  FOR EACH ROW EXECUTE FUNCTION public.reject_archived_order_items();
\ No newline at end of file
@@ -0,0 +1,104 @@
+-- place_order takes the stock and empties the cart before the customer pays.
+-- Orders whose payment never goes through are cancelled after a while so the
+-- stock they hold goes back on sale.
+
+-- Put an order's items back into stock. Variant stock is restored on the
+-- variant; the trigger then updates the product's total.
+CREATE OR REPLACE FUNCTION public.restock_order(p_order_id INTEGER)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE products p
+  SET stock_quantity = p.stock_quantity + oi.quantity
+  FROM (
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id AND variant_id IS NULL
+    GROUP BY product_id
+  ) oi
+  WHERE p.id = oi.product_id;
+
+  UPDATE product_variants v
+  SET stock_quantity = v.stock_quantity + oi.quantity
+  FROM (
+    SELECT variant_id, SUM(quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id AND variant_id IS NOT NULL
+    GROUP BY variant_id
+  ) oi
+  WHERE v.id = oi.variant_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.restock_order(INTEGER) FROM PUBLIC;
+
+-- Let a customer cancel their own order before it is processed. The items
+-- go back into stock, and a paid order is flagged for refund.
+CREATE OR REPLACE FUNCTION public.cancel_order(p_order_id INTEGER, p_reason TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_order.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Orders can only be cancelled before they are processed' USING ERRCODE = 'P0001';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', COALESCE(p_reason, ''), true);
+
+  UPDATE orders
+  SET status = 'cancelled',
+      payment_status = CASE WHEN payment_status = 'paid' THEN 'refund_pending' ELSE payment_status END
+  WHERE id = p_order_id;
+
+  PERFORM public.restock_order(p_order_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Cancel orders that have waited longer than p_minutes for payment and put
+-- their items back into stock. Orders another transaction is updating, such
+-- as confirm-payment, are skipped. Returns how many orders were cancelled.
+CREATE OR REPLACE FUNCTION public.expire_unpaid_orders(p_minutes INTEGER DEFAULT 30)
+RETURNS INTEGER AS $$
+DECLARE
+  v_order_id INTEGER;
+  v_count INTEGER := 0;
+BEGIN
+  PERFORM set_config('app.order_status_note', 'Payment was not received in time', true);
+
+  FOR v_order_id IN
+    SELECT id
+    FROM orders
+    WHERE status = 'pending'
+      AND payment_status = 'pending'
+      AND created_at < NOW() - make_interval(mins => p_minutes)
+    ORDER BY id
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE orders SET status = 'cancelled' WHERE id = v_order_id;
+    PERFORM public.restock_order(v_order_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.expire_unpaid_orders(INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.expire_unpaid_orders(INTEGER) TO service_role;
+
+-- Checkout holds the cart for 15 minutes, so 30 leaves time to finish paying
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'expire-unpaid-orders',
+  '*/5 * * * *',
+  $$ SELECT public.expire_unpaid_orders(30) $$
+);
\ No newline at end of file
@@ -0,0 +1,100 @@
+-- Payment and stock rules for order status changes, enforced on the orders
+-- table so they hold for cancel_order, transition_order_status,
+-- expire_unpaid_orders and confirm-payment alike:
+--   * an order is only confirmed once it is paid
+--   * every cancellation puts the items back into stock, and a paid order is
+--     flagged for refund
+
+-- Reject illegal status changes, whoever makes them
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT public.order_status_transition_allowed(OLD.status, NEW.status) THEN
+      RAISE EXCEPTION 'Invalid order status transition from % to %', OLD.status, NEW.status
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    IF NEW.status = 'confirmed' AND NEW.payment_status <> 'paid' THEN
+      RAISE EXCEPTION 'Orders can only be confirmed once they are paid' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF NEW.status = 'cancelled' AND NEW.payment_status = 'paid' THEN
+      NEW.payment_status := 'refund_pending';
+    END IF;
+
+    NEW.updated_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.restock_cancelled_order()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    PERFORM public.restock_order(NEW.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS restock_cancelled_order ON orders;
+CREATE TRIGGER restock_cancelled_order
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION public.restock_cancelled_order();
+
+-- Let a customer cancel their own order before it is processed. The
+-- triggers above restock it and flag it for refund.
+CREATE OR REPLACE FUNCTION public.cancel_order(p_order_id INTEGER, p_reason TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_order.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Orders can only be cancelled before they are processed' USING ERRCODE = 'P0001';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', COALESCE(p_reason, ''), true);
+
+  UPDATE orders SET status = 'cancelled' WHERE id = p_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Cancel orders that have waited longer than p_minutes for payment. Orders
+-- another transaction is updating, such as confirm-payment, are skipped.
+-- Returns how many orders were cancelled.
+CREATE OR REPLACE FUNCTION public.expire_unpaid_orders(p_minutes INTEGER DEFAULT 30)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  PERFORM set_config('app.order_status_note', 'Payment was not received in time', true);
+
+  UPDATE orders
+  SET status = 'cancelled'
+  WHERE id IN (
+    SELECT id
+    FROM orders
+    WHERE status = 'pending'
+      AND payment_status = 'pending'
+      AND created_at < NOW() - make_interval(mins => p_minutes)
+    ORDER BY id
+    FOR UPDATE SKIP LOCKED
+  );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
\ No newline at end of file
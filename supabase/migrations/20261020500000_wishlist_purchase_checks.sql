@@ -0,0 +1,92 @@
+-- Marking a registry item as bought used to be open to anyone with the link,
+-- so a single visitor could mark a whole list as bought. It now takes a
+-- signed-in shopper with a paid order for the product, and each item they
+-- paid for can only be counted once.
+
+-- Who marked what as bought. Only written by mark_wishlist_item_purchased.
+CREATE TABLE wishlist_item_purchases (
+  id SERIAL PRIMARY KEY,
+  wishlist_item_id INTEGER REFERENCES wishlist_items(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX wishlist_item_purchases_user_id_idx ON wishlist_item_purchases (user_id);
+
+ALTER TABLE wishlist_item_purchases ENABLE ROW LEVEL SECURITY;
+
+-- Record that the caller bought an item from a published list. They must
+-- have paid for at least that many of the product (or variant) in orders
+-- they haven't already used to mark items as bought. Never goes past the
+-- quantity the owner asked for.
+CREATE OR REPLACE FUNCTION public.mark_wishlist_item_purchased(
+  p_slug TEXT,
+  p_item_id INTEGER,
+  p_quantity INTEGER DEFAULT 1
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_item wishlist_items%ROWTYPE;
+  v_bought INTEGER;
+  v_marked INTEGER;
+  v_quantity INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity < 1 THEN
+    RAISE EXCEPTION 'Quantity must be at least 1' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT i.* INTO v_item
+  FROM wishlist_items i
+  JOIN wishlists w ON w.id = i.wishlist_id
+  WHERE i.id = p_item_id
+    AND w.slug = p_slug
+    AND w.is_public
+  FOR UPDATE OF i;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wishlist item not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(SUM(oi.quantity), 0) INTO v_bought
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  WHERE o.user_id = v_user_id
+    AND o.payment_status = 'paid'
+    AND oi.product_id = v_item.product_id
+    AND oi.variant_id IS NOT DISTINCT FROM v_item.variant_id;
+
+  SELECT COALESCE(SUM(p.quantity), 0) INTO v_marked
+  FROM wishlist_item_purchases p
+  JOIN wishlist_items i ON i.id = p.wishlist_item_id
+  WHERE p.user_id = v_user_id
+    AND i.product_id = v_item.product_id
+    AND i.variant_id IS NOT DISTINCT FROM v_item.variant_id;
+
+  v_quantity := LEAST(p_quantity, v_item.desired_quantity - v_item.purchased_quantity);
+
+  IF v_quantity > 0 THEN
+    IF v_bought - v_marked < v_quantity THEN
+      RAISE EXCEPTION 'Only items you have bought and paid for can be marked as bought'
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO wishlist_item_purchases (wishlist_item_id, user_id, quantity)
+    VALUES (p_item_id, v_user_id, v_quantity);
+
+    UPDATE wishlist_items
+    SET purchased_quantity = purchased_quantity + v_quantity
+    WHERE id = p_item_id;
+  END IF;
+
+  RETURN v_item.purchased_quantity + GREATEST(v_quantity, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.mark_wishlist_item_purchased(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_wishlist_item_purchased(TEXT, INTEGER, INTEGER) TO authenticated;
\ No newline at end of file
@@ -0,0 +1,59 @@
+-- A review was marked as a verified purchase as soon as the reviewer placed
+-- any order that wasn't cancelled, even one they never paid for, and kept
+-- the mark after the order was cancelled. It now takes a paid or delivered
+-- order, and is worked out again whenever the reviewer's orders change.
+
+-- Whether the user has paid for the product, or had it delivered
+CREATE OR REPLACE FUNCTION public.review_is_verified_purchase(p_user_id UUID, p_product_id INTEGER)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE o.user_id = p_user_id
+      AND oi.product_id = p_product_id
+      AND (o.payment_status = 'paid' OR o.status = 'delivered')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.review_is_verified_purchase(UUID, INTEGER) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.set_review_verified_purchase()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.verified_purchase := public.review_is_verified_purchase(NEW.user_id, NEW.product_id);
+
+  IF TG_OP = 'UPDATE' AND (NEW.rating, NEW.comment) IS DISTINCT FROM (OLD.rating, OLD.comment) THEN
+    NEW.updated_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Recheck the customer's reviews of the products in an order once it is
+-- paid, delivered, cancelled or refunded
+CREATE OR REPLACE FUNCTION public.refresh_order_verified_purchases()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.status, NEW.payment_status) IS DISTINCT FROM (OLD.status, OLD.payment_status) THEN
+    UPDATE reviews r
+    SET verified_purchase = public.review_is_verified_purchase(r.user_id, r.product_id)
+    WHERE r.user_id = NEW.user_id
+      AND r.product_id IN (SELECT product_id FROM order_items WHERE order_id = NEW.id)
+      AND r.verified_purchase IS DISTINCT FROM public.review_is_verified_purchase(r.user_id, r.product_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS refresh_order_verified_purchases ON orders;
+CREATE TRIGGER refresh_order_verified_purchases
+  AFTER UPDATE OF status, payment_status ON orders
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_order_verified_purchases();
+
+-- Correct the reviews marked under the old rule
+UPDATE reviews
+SET verified_purchase = public.review_is_verified_purchase(user_id, product_id)
+WHERE verified_purchase IS DISTINCT FROM public.review_is_verified_purchase(user_id, product_id);
\ No newline at end of file
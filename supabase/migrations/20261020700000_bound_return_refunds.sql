@@ -0,0 +1,69 @@
+-- resolve_return took any refund amount, so a seller could refund a negative
+-- amount or more than the customer paid. The refund is now limited to what
+-- was paid for the returned units.
+
+-- Approve, reject or refund a return. Admins can resolve any return; sellers
+-- only returns of their own products.
+--   requested -> approved | rejected
+--   approved -> refunded
+CREATE OR REPLACE FUNCTION public.resolve_return(
+  p_return_id INTEGER,
+  p_status TEXT,
+  p_refund_amount DECIMAL DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_return returns%ROWTYPE;
+  v_role TEXT;
+  v_paid DECIMAL(10, 2);
+BEGIN
+  SELECT * INTO v_return FROM returns WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT role INTO v_role FROM profiles WHERE id = auth.uid();
+
+  IF v_role IS DISTINCT FROM 'admin' AND NOT (
+    v_role = 'seller' AND EXISTS (
+      SELECT 1 FROM products WHERE id = v_return.product_id AND seller_id = auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to resolve this return' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT (
+    (v_return.status = 'requested' AND p_status IN ('approved', 'rejected')) OR
+    (v_return.status = 'approved' AND p_status = 'refunded')
+  ) THEN
+    RAISE EXCEPTION 'Invalid return status transition from % to %', v_return.status, p_status
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- What the customer paid for the returned units
+  SELECT price_at_time * v_return.quantity INTO v_paid
+  FROM order_items
+  WHERE id = v_return.order_item_id;
+
+  IF p_refund_amount < 0 THEN
+    RAISE EXCEPTION 'Refund amount cannot be negative' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_refund_amount > v_paid THEN
+    RAISE EXCEPTION 'Refund amount cannot be more than the % paid for the returned items', v_paid
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE returns
+  SET status = p_status,
+      -- Refund what was paid for the returned units unless told otherwise
+      refund_amount = CASE
+        WHEN p_status = 'refunded' THEN COALESCE(p_refund_amount, v_paid)
+        ELSE refund_amount
+      END,
+      resolved_by = auth.uid(),
+      resolved_at = NOW()
+  WHERE id = p_return_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
\ No newline at end of file
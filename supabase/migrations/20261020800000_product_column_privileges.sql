@@ -0,0 +1,34 @@
+-- The product policies check whose product it is but not which columns
+-- change, so a seller could write the rating aggregates, the search vector or
+-- the stock total of a product sold in variants. Sellers now only write the
+-- columns of the product editor; the rest are kept by triggers.
+
+REVOKE INSERT, UPDATE ON products FROM anon, authenticated;
+GRANT INSERT (
+  seller_id, name, description, price, discount_price, stock_quantity, brand,
+  category_id, image_url, image_urls, specifications, archived
+) ON products TO authenticated;
+GRANT UPDATE (
+  name, description, price, discount_price, stock_quantity, brand,
+  category_id, image_url, image_urls, specifications, archived, updated_at
+) ON products TO authenticated;
+
+-- A product sold in variants has the total stock of its variants, whoever
+-- writes stock_quantity
+CREATE OR REPLACE FUNCTION public.keep_variant_product_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM product_variants WHERE product_id = NEW.id) THEN
+    NEW.stock_quantity := (
+      SELECT SUM(stock_quantity) FROM product_variants WHERE product_id = NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS keep_variant_product_stock ON products;
+CREATE TRIGGER keep_variant_product_stock
+  BEFORE UPDATE OF stock_quantity ON products
+  FOR EACH ROW EXECUTE FUNCTION public.keep_variant_product_stock();
\ No newline at end of file
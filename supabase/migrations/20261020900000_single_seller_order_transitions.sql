@@ -0,0 +1,36 @@
+-- A seller could move an order along as soon as one of its items was theirs,
+-- so in an order from several sellers any of them could ship or cancel the
+-- other sellers' items too, and a cancellation restocked and refunded all of
+-- it. Sellers can now only move orders where every item is theirs; orders
+-- from several sellers are left to admins.
+
+-- Move an order to a new status. Admins can move any order; sellers only
+-- orders whose items are all their products.
+CREATE OR REPLACE FUNCTION public.transition_order_status(p_order_id INTEGER, p_status TEXT, p_note TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_role TEXT;
+BEGIN
+  SELECT role INTO v_role FROM profiles WHERE id = auth.uid();
+
+  IF v_role IS DISTINCT FROM 'admin' AND NOT (
+    v_role = 'seller'
+    AND EXISTS (SELECT 1 FROM order_items WHERE order_id = p_order_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM order_items oi
+      JOIN products p ON p.id = oi.product_id
+      WHERE oi.order_id = p_order_id AND p.seller_id IS DISTINCT FROM auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to update this order' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', COALESCE(p_note, ''), true);
+
+  UPDATE orders SET status = p_status WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
\ No newline at end of file
@@ -0,0 +1,145 @@
+-- Units a shopper returned still counted as bought, so they could mark a
+-- registry item as bought, return it and leave the item marked. Returned
+-- units no longer count, and approving a return takes back the marks they
+-- covered.
+
+-- How many of a product (or variant) the user paid for and kept. Returns
+-- count once approved, since the refund follows.
+CREATE OR REPLACE FUNCTION public.kept_purchase_quantity(p_user_id UUID, p_product_id INTEGER, p_variant_id INTEGER)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(SUM(oi.quantity - COALESCE(r.quantity, 0)), 0)::INTEGER
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  LEFT JOIN returns r ON r.order_item_id = oi.id AND r.status IN ('approved', 'refunded')
+  WHERE o.user_id = p_user_id
+    AND o.payment_status = 'paid'
+    AND oi.product_id = p_product_id
+    AND oi.variant_id IS NOT DISTINCT FROM p_variant_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.kept_purchase_quantity(UUID, INTEGER, INTEGER) FROM PUBLIC;
+
+-- Record that the caller bought an item from a published list. They must
+-- have paid for, and kept, at least that many of the product (or variant)
+-- beyond those they already used to mark items as bought. Never goes past
+-- the quantity the owner asked for.
+CREATE OR REPLACE FUNCTION public.mark_wishlist_item_purchased(
+  p_slug TEXT,
+  p_item_id INTEGER,
+  p_quantity INTEGER DEFAULT 1
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_item wishlist_items%ROWTYPE;
+  v_bought INTEGER;
+  v_marked INTEGER;
+  v_quantity INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity < 1 THEN
+    RAISE EXCEPTION 'Quantity must be at least 1' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT i.* INTO v_item
+  FROM wishlist_items i
+  JOIN wishlists w ON w.id = i.wishlist_id
+  WHERE i.id = p_item_id
+    AND w.slug = p_slug
+    AND w.is_public
+  FOR UPDATE OF i;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wishlist item not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_bought := public.kept_purchase_quantity(v_user_id, v_item.product_id, v_item.variant_id);
+
+  SELECT COALESCE(SUM(p.quantity), 0) INTO v_marked
+  FROM wishlist_item_purchases p
+  JOIN wishlist_items i ON i.id = p.wishlist_item_id
+  WHERE p.user_id = v_user_id
+    AND i.product_id = v_item.product_id
+    AND i.variant_id IS NOT DISTINCT FROM v_item.variant_id;
+
+  v_quantity := LEAST(p_quantity, v_item.desired_quantity - v_item.purchased_quantity);
+
+  IF v_quantity > 0 THEN
+    IF v_bought - v_marked < v_quantity THEN
+      RAISE EXCEPTION 'Only items you have bought and paid for can be marked as bought'
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO wishlist_item_purchases (wishlist_item_id, user_id, quantity)
+    VALUES (p_item_id, v_user_id, v_quantity);
+
+    UPDATE wishlist_items
+    SET purchased_quantity = purchased_quantity + v_quantity
+    WHERE id = p_item_id;
+  END IF;
+
+  RETURN v_item.purchased_quantity + GREATEST(v_quantity, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- When a return is approved, unmark the customer's latest registry purchases
+-- of that product until they no longer mark more than they kept
+CREATE OR REPLACE FUNCTION public.release_returned_wishlist_purchases()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_variant_id INTEGER;
+  v_excess INTEGER;
+  v_purchase RECORD;
+  v_release INTEGER;
+BEGIN
+  IF NEW.status <> 'approved' OR OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT variant_id INTO v_variant_id FROM order_items WHERE id = NEW.order_item_id;
+
+  SELECT COALESCE(SUM(p.quantity), 0) - public.kept_purchase_quantity(NEW.user_id, NEW.product_id, v_variant_id)
+  INTO v_excess
+  FROM wishlist_item_purchases p
+  JOIN wishlist_items i ON i.id = p.wishlist_item_id
+  WHERE p.user_id = NEW.user_id
+    AND i.product_id = NEW.product_id
+    AND i.variant_id IS NOT DISTINCT FROM v_variant_id;
+
+  FOR v_purchase IN
+    SELECT p.id, p.wishlist_item_id, p.quantity
+    FROM wishlist_item_purchases p
+    JOIN wishlist_items i ON i.id = p.wishlist_item_id
+    WHERE p.user_id = NEW.user_id
+      AND i.product_id = NEW.product_id
+      AND i.variant_id IS NOT DISTINCT FROM v_variant_id
+    ORDER BY p.created_at DESC, p.id DESC
+  LOOP
+    EXIT WHEN v_excess <= 0;
+
+    v_release := LEAST(v_purchase.quantity, v_excess);
+
+    IF v_release = v_purchase.quantity THEN
+      DELETE FROM wishlist_item_purchases WHERE id = v_purchase.id;
+    ELSE
+      UPDATE wishlist_item_purchases SET quantity = quantity - v_release WHERE id = v_purchase.id;
+    END IF;
+
+    UPDATE wishlist_items
+    SET purchased_quantity = GREATEST(purchased_quantity - v_release, 0)
+    WHERE id = v_purchase.wishlist_item_id;
+
+    v_excess := v_excess - v_release;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS release_returned_wishlist_purchases ON returns;
+CREATE TRIGGER release_returned_wishlist_purchases
+  AFTER UPDATE OF status ON returns
+  FOR EACH ROW EXECUTE FUNCTION public.release_returned_wishlist_purchases();
\ No newline at end of file
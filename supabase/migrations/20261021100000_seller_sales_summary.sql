@@ -0,0 +1,25 @@
+-- The seller dashboard added up the seller's order items in the browser,
+-- cancelled and refunded orders included, after loading every order id.
+-- The totals are now worked out here, and revenue only counts paid orders
+-- that weren't cancelled.
+
+-- Product, order and revenue totals for a seller's dashboard. Runs as the
+-- caller, so sellers only see the orders RLS lets them see.
+CREATE OR REPLACE FUNCTION public.get_seller_sales(p_seller_id UUID)
+RETURNS TABLE (total_products BIGINT, total_orders BIGINT, total_revenue DECIMAL, pending_orders BIGINT) AS $$
+  SELECT
+    (SELECT COUNT(*) FROM products WHERE seller_id = p_seller_id),
+    COUNT(DISTINCT o.id),
+    COALESCE(
+      SUM(oi.price_at_time * oi.quantity) FILTER (WHERE o.payment_status = 'paid' AND o.status <> 'cancelled'),
+      0
+    ),
+    COUNT(DISTINCT o.id) FILTER (WHERE o.status = 'pending')
+  FROM order_items oi
+  JOIN products p ON p.id = oi.product_id
+  JOIN orders o ON o.id = oi.order_id
+  WHERE p.seller_id = p_seller_id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.get_seller_sales(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_seller_sales(UUID) TO authenticated;
\ No newline at end of file
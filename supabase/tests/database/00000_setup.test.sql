@@ -0,0 +1,34 @@
+-- Helpers shared by the other test files. Test files run in name order, so
+-- this one runs first, and unlike them it commits, leaving the helpers in
+-- place for the rest of the suite.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(2);
+
+CREATE SCHEMA IF NOT EXISTS tests;
+
+GRANT USAGE ON SCHEMA tests TO anon, authenticated;
+
+-- Sets the JWT claims auth.uid() reads. Follow with SET LOCAL ROLE.
+CREATE OR REPLACE FUNCTION tests.login_as(p_user_id UUID)
+RETURNS VOID AS $$
+  SELECT set_config(
+    'request.jwt.claims',
+    json_build_object('sub', p_user_id, 'role', 'authenticated')::text,
+    true
+  );
+$$ LANGUAGE sql;
+
+-- Clears the JWT claims. Follow with SET LOCAL ROLE anon.
+CREATE OR REPLACE FUNCTION tests.logout()
+RETURNS VOID AS $$
+  SELECT set_config('request.jwt.claims', json_build_object('role', 'anon')::text, true);
+$$ LANGUAGE sql;
+
+SELECT has_function('tests', 'login_as', ARRAY['uuid'], 'tests.login_as exists');
+SELECT has_function('tests', 'logout', 'tests.logout exists');
+
+SELECT * FROM finish();
+COMMIT;
\ No newline at end of file
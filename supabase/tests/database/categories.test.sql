@@ -0,0 +1,65 @@
+-- Category tree tests. Run against the local stack with:
+--   supabase test db
+-- Everything runs in one transaction and is rolled back at the end.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+-- Electronics > Audio > Headphones, and Cables directly under Electronics
+INSERT INTO categories (id, name, parent_id) VALUES
+  (9301, 'Test Electronics', NULL),
+  (9302, 'Test Audio', 9301),
+  (9303, 'Test Headphones', 9302),
+  (9304, 'Test Cables', 9301);
+
+INSERT INTO products (id, name, brand, price, category_id) VALUES
+  (9301, 'Studio Headphones', 'Sonique', 120.00, 9303),
+  (9302, 'Bookshelf Speaker', 'Sonique', 90.00, 9302),
+  (9303, 'USB Cable', 'Wirely', 9.00, 9304);
+
+SET LOCAL ROLE anon;
+
+SELECT results_eq(
+  $$ SELECT category_subtree_ids(9301) ORDER BY 1 $$,
+  $$ VALUES (9301), (9302), (9303), (9304) $$,
+  'a category includes all its descendants'
+);
+SELECT results_eq(
+  $$ SELECT category_subtree_ids(9303) $$,
+  $$ VALUES (9303) $$,
+  'a leaf category includes only itself'
+);
+SELECT results_eq(
+  $$ SELECT id FROM get_category_path(9303) $$,
+  $$ VALUES (9301), (9302), (9303) $$,
+  'the path runs from the top-level category down'
+);
+SELECT results_eq(
+  $$ SELECT value, product_count FROM get_product_facets(p_category_id => 9302) WHERE facet = 'brand' $$,
+  $$ VALUES ('Sonique', 2::BIGINT) $$,
+  'facet counts include products in subcategories'
+);
+
+RESET ROLE;
+
+SELECT throws_ok(
+  $$ UPDATE categories SET parent_id = 9303 WHERE id = 9301 $$,
+  'P0001',
+  'A category cannot be moved under itself or one of its subcategories',
+  'a category cannot move under its own descendant'
+);
+SELECT throws_ok(
+  $$ UPDATE categories SET parent_id = 9302 WHERE id = 9302 $$,
+  'P0001',
+  'A category cannot be moved under itself or one of its subcategories',
+  'a category cannot be its own parent'
+);
+SELECT lives_ok(
+  $$ UPDATE categories SET parent_id = 9304 WHERE id = 9302 $$,
+  'a category can move under a sibling branch'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
\ No newline at end of file
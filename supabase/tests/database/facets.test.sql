@@ -0,0 +1,72 @@
+-- Product facet count tests. Run against the local stack with:
+--   supabase test db
+-- Everything runs in one transaction and is rolled back at the end.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(10);
+
+INSERT INTO categories (id, name) VALUES (9201, 'Running Shoes');
+
+INSERT INTO products (id, name, brand, price, discount_price, avg_rating, stock_quantity, specifications, category_id, archived) VALUES
+  (9201, 'Trail Runner', 'Stride', 80.00, 60.00, 4.5, 5, '{"color": "red", "size": 9}', 9201, false),
+  (9202, 'Road Runner', 'Stride', 90.00, NULL, 3.2, 0, '{"color": "blue", "size": 9}', 9201, false),
+  (9203, 'Court Classic', 'Volley', 70.00, NULL, 4.0, 3, '{"color": "red"}', 9201, false),
+  (9204, 'Court Original', 'Volley', 50.00, NULL, 5.0, 1, '{"color": "red"}', 9201, true);
+
+-- Other products in the local database are ignored by filtering on the fixture category
+SET LOCAL ROLE anon;
+
+SELECT results_eq(
+  $$ SELECT value, product_count FROM get_product_facets(p_category_id => 9201) WHERE facet = 'brand' ORDER BY value $$,
+  $$ VALUES ('Stride', 2::BIGINT), ('Volley', 1::BIGINT) $$,
+  'counts products per brand and leaves out archived products'
+);
+SELECT results_eq(
+  $$ SELECT value, product_count FROM get_product_facets(p_category_id => 9201) WHERE facet = 'rating' ORDER BY value $$,
+  $$ VALUES ('1', 3::BIGINT), ('2', 3::BIGINT), ('3', 3::BIGINT), ('4', 2::BIGINT) $$,
+  'counts products at or above each rating'
+);
+SELECT results_eq(
+  $$ SELECT facet, product_count FROM get_product_facets(p_category_id => 9201) WHERE facet IN ('in_stock', 'on_sale') ORDER BY facet $$,
+  $$ VALUES ('in_stock', 2::BIGINT), ('on_sale', 1::BIGINT) $$,
+  'counts products in stock and on sale'
+);
+SELECT results_eq(
+  $$ SELECT spec_key, value, product_count FROM get_product_facets(p_category_id => 9201) WHERE facet = 'spec' ORDER BY spec_key, value $$,
+  $$ VALUES ('color', 'blue', 1::BIGINT), ('color', 'red', 2::BIGINT), ('size', '9', 2::BIGINT) $$,
+  'counts specification values'
+);
+SELECT results_eq(
+  $$ SELECT value, product_count FROM get_product_facets(p_category_id => 9201, p_brands => ARRAY['Volley']) WHERE facet = 'brand' ORDER BY value $$,
+  $$ VALUES ('Stride', 2::BIGINT), ('Volley', 1::BIGINT) $$,
+  'a selected brand does not narrow the brand counts'
+);
+SELECT results_eq(
+  $$ SELECT product_count FROM get_product_facets(p_category_id => 9201, p_brands => ARRAY['Volley']) WHERE facet = 'on_sale' $$,
+  $$ VALUES (0::BIGINT) $$,
+  'a selected brand narrows the other counts'
+);
+SELECT results_eq(
+  $$ SELECT spec_key, value, product_count FROM get_product_facets(p_category_id => 9201, p_specs => '{"color": ["red"]}') WHERE facet = 'spec' ORDER BY spec_key, value $$,
+  $$ VALUES ('color', 'blue', 1::BIGINT), ('color', 'red', 2::BIGINT), ('size', '9', 1::BIGINT) $$,
+  'a selected specification value only narrows the other specifications'
+);
+SELECT results_eq(
+  $$ SELECT value, product_count FROM get_product_facets(p_search => 'trail', p_category_id => 9201) WHERE facet = 'brand' $$,
+  $$ VALUES ('Stride', 1::BIGINT) $$,
+  'applies the search'
+);
+
+SELECT ok(
+  product_specs_match('{"color": "red", "size": 9}', '{"color": ["red", "blue"], "size": ["9"]}'),
+  'specifications match when every filtered value is allowed'
+);
+SELECT ok(
+  NOT product_specs_match('{"size": 9}', '{"color": ["red"]}'),
+  'specifications without a filtered name do not match'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
\ No newline at end of file
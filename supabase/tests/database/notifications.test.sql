@@ -0,0 +1,115 @@
+-- Notification preference tests. Run against the local stack with:
+--   supabase test db
+-- Everything runs in one transaction and is rolled back at the end.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(11);
+
+-- Gus tunes his preferences; Hal keeps the defaults
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('cccccccc-cccc-cccc-cccc-cccccccccccc', 'gus@example.com', '{}'),
+  ('dddddddd-dddd-dddd-dddd-dddddddddddd', 'hal@example.com', '{}');
+
+INSERT INTO categories (id, name) VALUES (9701, 'Notification Test Category');
+
+INSERT INTO products (id, name, price, stock_quantity, category_id) VALUES
+  (9701, 'Test Kettle', 35.00, 5, 9701);
+
+INSERT INTO orders (id, user_id, status, total_amount) VALUES
+  (9701, 'cccccccc-cccc-cccc-cccc-cccccccccccc', 'pending', 35.00),
+  (9702, 'dddddddd-dddd-dddd-dddd-dddddddddddd', 'delivered', 35.00);
+
+INSERT INTO order_items (id, order_id, product_id, quantity, price_at_time) VALUES
+  (9701, 9702, 9701, 1, 35.00);
+
+INSERT INTO returns (id, order_id, order_item_id, product_id, user_id, quantity, reason) VALUES
+  (9701, 9702, 9701, 9701, 'dddddddd-dddd-dddd-dddd-dddddddddddd', 1, 'damaged');
+
+-- Defaults
+
+SELECT results_eq(
+  $$ SELECT category, type, title FROM notifications WHERE user_id = 'cccccccc-cccc-cccc-cccc-cccccccccccc' $$,
+  $$ VALUES ('order_updates', 'order', 'Order placed') $$,
+  'placing an order notifies the customer'
+);
+SELECT results_eq(
+  $$ SELECT channel FROM notification_deliveries WHERE user_id = 'cccccccc-cccc-cccc-cccc-cccccccccccc' ORDER BY channel $$,
+  $$ VALUES ('email'), ('push') $$,
+  'order updates are emailed and pushed by default'
+);
+
+SELECT notify_user('cccccccc-cccc-cccc-cccc-cccccccccccc', 'promotions', 'message', 'Spring sale');
+
+SELECT results_eq(
+  $$ SELECT channel FROM notification_deliveries
+     WHERE user_id = 'cccccccc-cccc-cccc-cccc-cccccccccccc' AND category = 'promotions' $$,
+  $$ VALUES ('push') $$,
+  'promotions are not emailed by default'
+);
+
+UPDATE returns SET status = 'approved' WHERE id = 9701;
+
+SELECT isnt_empty(
+  $$ SELECT 1 FROM notifications
+     WHERE user_id = 'dddddddd-dddd-dddd-dddd-dddddddddddd' AND title = 'Return approved' $$,
+  'resolving a return notifies the customer'
+);
+
+-- Saving preferences
+
+SELECT tests.login_as('cccccccc-cccc-cccc-cccc-cccccccccccc');
+SET LOCAL ROLE authenticated;
+
+SELECT lives_ok(
+  $$ INSERT INTO notification_preferences (user_id, category, in_app, email, push)
+     VALUES (auth.uid(), 'order_updates', false, true, false) $$,
+  'users can save their own preferences'
+);
+SELECT throws_ok(
+  $$ INSERT INTO notification_preferences (user_id, category)
+     VALUES ('dddddddd-dddd-dddd-dddd-dddddddddddd', 'promotions') $$,
+  '42501',
+  NULL,
+  'users cannot save preferences for others'
+);
+SELECT is_empty(
+  $$ SELECT 1 FROM notification_deliveries $$,
+  'users cannot see the delivery queue'
+);
+SELECT throws_ok(
+  $$ SELECT notify_user(auth.uid(), 'account_alerts', 'alert', 'Fake alert') $$,
+  '42501',
+  NULL,
+  'users cannot send notifications'
+);
+
+RESET ROLE;
+
+UPDATE orders SET status = 'confirmed', payment_status = 'paid' WHERE id = 9701;
+
+SELECT is_empty(
+  $$ SELECT 1 FROM notifications
+     WHERE user_id = 'cccccccc-cccc-cccc-cccc-cccccccccccc' AND title = 'Order confirmed' $$,
+  'turning off in-app notifications stops them being created'
+);
+SELECT results_eq(
+  $$ SELECT channel, notification_id IS NULL FROM notification_deliveries
+     WHERE user_id = 'cccccccc-cccc-cccc-cccc-cccccccccccc' AND title = 'Order confirmed' $$,
+  $$ VALUES ('email', true) $$,
+  'only the channels left on are queued'
+);
+
+SELECT tests.login_as('dddddddd-dddd-dddd-dddd-dddddddddddd');
+SET LOCAL ROLE authenticated;
+
+SELECT is_empty(
+  $$ SELECT 1 FROM notification_preferences $$,
+  'users cannot see others'' preferences'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
\ No newline at end of file
@@ -0,0 +1,110 @@
+-- Order status, payment and stock tests. Run against the local stack with:
+--   supabase test db
+-- Everything runs in one transaction and is rolled back at the end.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(11);
+
+-- Ivy sells the lamp and Kai the shade. Jay has three orders for the lamp:
+-- one unpaid, one paid and one abandoned an hour ago, and a paid order for
+-- both.
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('eeeeeeee-eeee-eeee-eeee-eeeeeeeeeeee', 'ivy@example.com', '{"role": "seller"}'),
+  ('ffffffff-ffff-ffff-ffff-ffffffffffff', 'jay@example.com', '{}'),
+  ('14141414-1414-1414-1414-141414141414', 'kai@example.com', '{"role": "seller"}');
+
+INSERT INTO categories (id, name) VALUES (9801, 'Order Test Category');
+
+INSERT INTO products (id, name, price, stock_quantity, category_id, seller_id) VALUES
+  (9801, 'Test Lamp', 30.00, 5, 9801, 'eeeeeeee-eeee-eeee-eeee-eeeeeeeeeeee'),
+  (9802, 'Test Shade', 10.00, 5, 9801, '14141414-1414-1414-1414-141414141414');
+
+INSERT INTO orders (id, user_id, status, payment_status, total_amount, created_at) VALUES
+  (9801, 'ffffffff-ffff-ffff-ffff-ffffffffffff', 'pending', 'pending', 60.00, NOW()),
+  (9802, 'ffffffff-ffff-ffff-ffff-ffffffffffff', 'pending', 'paid', 30.00, NOW()),
+  (9803, 'ffffffff-ffff-ffff-ffff-ffffffffffff', 'pending', 'pending', 60.00, NOW() - INTERVAL '1 hour'),
+  (9804, 'ffffffff-ffff-ffff-ffff-ffffffffffff', 'pending', 'paid', 40.00, NOW());
+
+INSERT INTO order_items (id, order_id, product_id, quantity, price_at_time) VALUES
+  (9801, 9801, 9801, 2, 30.00),
+  (9802, 9802, 9801, 1, 30.00),
+  (9803, 9803, 9801, 2, 30.00),
+  (9804, 9804, 9801, 1, 30.00),
+  (9805, 9804, 9802, 1, 10.00);
+
+-- Sellers
+
+SELECT tests.login_as('eeeeeeee-eeee-eeee-eeee-eeeeeeeeeeee');
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+  $$ SELECT transition_order_status(9801, 'confirmed') $$,
+  'P0001',
+  'Orders can only be confirmed once they are paid',
+  'unpaid orders cannot be confirmed'
+);
+SELECT lives_ok(
+  $$ SELECT transition_order_status(9802, 'confirmed') $$,
+  'paid orders can be confirmed'
+);
+SELECT lives_ok(
+  $$ SELECT transition_order_status(9802, 'cancelled', 'Out of stock') $$,
+  'sellers can cancel an order'
+);
+SELECT throws_ok(
+  $$ SELECT transition_order_status(9804, 'cancelled') $$,
+  '42501',
+  'Not allowed to update this order',
+  'sellers cannot update an order that has items from other sellers'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT payment_status FROM orders WHERE id = 9802),
+  'refund_pending',
+  'a paid order cancelled by the seller is flagged for refund'
+);
+SELECT is(
+  (SELECT stock_quantity FROM products WHERE id = 9801),
+  6,
+  'an order cancelled by the seller is put back into stock'
+);
+
+-- Unpaid orders
+
+SELECT is(expire_unpaid_orders(30), 1, 'only orders unpaid for too long expire');
+SELECT results_eq(
+  $$ SELECT id, status FROM orders WHERE id IN (9801, 9803) ORDER BY id $$,
+  $$ VALUES (9801, 'pending'), (9803, 'cancelled') $$,
+  'expired orders are cancelled'
+);
+SELECT is(
+  (SELECT stock_quantity FROM products WHERE id = 9801),
+  8,
+  'expired orders are put back into stock'
+);
+SELECT is(
+  (SELECT note FROM order_status_history WHERE order_id = 9803 AND to_status = 'cancelled'),
+  'Payment was not received in time',
+  'the order history says why it was cancelled'
+);
+
+-- Sales summary
+
+SELECT tests.login_as('eeeeeeee-eeee-eeee-eeee-eeeeeeeeeeee');
+SET LOCAL ROLE authenticated;
+
+SELECT results_eq(
+  $$ SELECT total_products, total_orders, total_revenue, pending_orders
+     FROM get_seller_sales('eeeeeeee-eeee-eeee-eeee-eeeeeeeeeeee') $$,
+  $$ VALUES (1::BIGINT, 4::BIGINT, 30.00::DECIMAL, 2::BIGINT) $$,
+  'seller revenue only counts paid orders that were not cancelled'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
\ No newline at end of file
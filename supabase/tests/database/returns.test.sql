@@ -0,0 +1,62 @@
+-- Return resolution tests. Run against the local stack with:
+--   supabase test db
+-- Everything runs in one transaction and is rolled back at the end.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+-- Kim sells the lamp; Lou bought two at 15.00 and is returning one
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('12121212-1212-1212-1212-121212121212', 'kim@example.com', '{"role": "seller"}'),
+  ('13131313-1313-1313-1313-131313131313', 'lou@example.com', '{}');
+
+INSERT INTO categories (id, name) VALUES (9901, 'Return Test Category');
+
+INSERT INTO products (id, name, price, stock_quantity, category_id, seller_id) VALUES
+  (9901, 'Test Lamp', 20.00, 5, 9901, '12121212-1212-1212-1212-121212121212');
+
+INSERT INTO orders (id, user_id, status, payment_status, total_amount) VALUES
+  (9901, '13131313-1313-1313-1313-131313131313', 'delivered', 'paid', 30.00);
+
+INSERT INTO order_items (id, order_id, product_id, quantity, price_at_time) VALUES
+  (9901, 9901, 9901, 2, 15.00);
+
+INSERT INTO returns (id, order_id, order_item_id, product_id, user_id, quantity, reason) VALUES
+  (9901, 9901, 9901, 9901, '13131313-1313-1313-1313-131313131313', 1, 'damaged');
+
+SELECT tests.login_as('12121212-1212-1212-1212-121212121212');
+SET LOCAL ROLE authenticated;
+
+SELECT lives_ok(
+  $$ SELECT resolve_return(9901, 'approved') $$,
+  'sellers can approve returns of their products'
+);
+SELECT throws_ok(
+  $$ SELECT resolve_return(9901, 'refunded', -5) $$,
+  'P0001',
+  'Refund amount cannot be negative',
+  'refunds cannot be negative'
+);
+SELECT throws_ok(
+  $$ SELECT resolve_return(9901, 'refunded', 15.01) $$,
+  'P0001',
+  'Refund amount cannot be more than the 15.00 paid for the returned items',
+  'refunds cannot be more than was paid for the returned items'
+);
+SELECT lives_ok(
+  $$ SELECT resolve_return(9901, 'refunded', 10) $$,
+  'sellers can refund part of what was paid'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT refund_amount FROM returns WHERE id = 9901),
+  10.00::DECIMAL(10, 2),
+  'the refund amount is recorded'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
\ No newline at end of file
@@ -0,0 +1,221 @@
+-- Product review tests. Run against the local stack with:
+--   supabase test db
+-- Everything runs in one transaction and is rolled back at the end.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(22);
+
+-- Bea has bought the lamp; Cal hasn't; Dot moderates; Eli sells the lamp
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('77777777-7777-7777-7777-777777777777', 'bea@example.com', '{}'),
+  ('88888888-8888-8888-8888-888888888888', 'cal@example.com', '{}'),
+  ('99999999-9999-9999-9999-999999999999', 'dot@example.com', '{}'),
+  ('10101010-1010-1010-1010-101010101010', 'eli@example.com', '{"role": "seller"}');
+
+UPDATE profiles SET role = 'admin' WHERE id = '99999999-9999-9999-9999-999999999999';
+
+INSERT INTO categories (id, name) VALUES (9501, 'Review Test Category');
+
+INSERT INTO products (id, name, price, stock_quantity, category_id, seller_id) VALUES
+  (9501, 'Test Lamp', 30.00, 5, 9501, '10101010-1010-1010-1010-101010101010');
+
+INSERT INTO orders (id, user_id, status, total_amount) VALUES
+  (9501, '77777777-7777-7777-7777-777777777777', 'delivered', 30.00);
+
+INSERT INTO order_items (order_id, product_id, quantity, price_at_time) VALUES
+  (9501, 9501, 1, 30.00);
+
+SELECT tests.login_as('77777777-7777-7777-7777-777777777777');
+SET LOCAL ROLE authenticated;
+
+SELECT lives_ok(
+  $$ INSERT INTO reviews (user_id, product_id, rating, comment)
+     VALUES ('77777777-7777-7777-7777-777777777777', 9501, 5, 'Bright') $$,
+  'a customer can review a product'
+);
+SELECT is(
+  (SELECT verified_purchase FROM reviews WHERE product_id = 9501 AND user_id = auth.uid()),
+  true,
+  'a review of a product the reviewer ordered is a verified purchase'
+);
+SELECT throws_ok(
+  $$ INSERT INTO reviews (user_id, product_id, rating)
+     VALUES ('77777777-7777-7777-7777-777777777777', 9501, 1) $$,
+  '23505',
+  NULL,
+  'a customer can review a product only once'
+);
+
+SELECT tests.login_as('88888888-8888-8888-8888-888888888888');
+
+SELECT throws_ok(
+  $$ INSERT INTO reviews (user_id, product_id, rating, verified_purchase)
+     VALUES ('88888888-8888-8888-8888-888888888888', 9501, 2, true) $$,
+  '42501',
+  NULL,
+  'reviewers cannot mark their own review as a verified purchase'
+);
+
+INSERT INTO reviews (user_id, product_id, rating) VALUES
+  ('88888888-8888-8888-8888-888888888888', 9501, 2);
+
+SELECT is(
+  (SELECT verified_purchase FROM reviews WHERE product_id = 9501 AND user_id = auth.uid()),
+  false,
+  'a review of a product the reviewer never ordered is not a verified purchase'
+);
+
+RESET ROLE;
+
+SELECT results_eq(
+  $$ SELECT avg_rating, review_count FROM products WHERE id = 9501 $$,
+  $$ VALUES (3.50::DECIMAL(3, 2), 2) $$,
+  'new reviews update the product''s average and count'
+);
+
+-- Cal orders the lamp after reviewing it
+INSERT INTO orders (id, user_id, status, payment_status, total_amount) VALUES
+  (9502, '88888888-8888-8888-8888-888888888888', 'pending', 'pending', 30.00);
+
+INSERT INTO order_items (order_id, product_id, quantity, price_at_time) VALUES
+  (9502, 9501, 1, 30.00);
+
+SELECT is(
+  (SELECT verified_purchase FROM reviews WHERE product_id = 9501 AND user_id = '88888888-8888-8888-8888-888888888888'),
+  false,
+  'an unpaid order does not make a review a verified purchase'
+);
+
+UPDATE orders SET payment_status = 'paid' WHERE id = 9502;
+
+SELECT is(
+  (SELECT verified_purchase FROM reviews WHERE product_id = 9501 AND user_id = '88888888-8888-8888-8888-888888888888'),
+  true,
+  'paying for the order makes the review a verified purchase'
+);
+
+UPDATE orders SET status = 'cancelled' WHERE id = 9502;
+
+SELECT is(
+  (SELECT verified_purchase FROM reviews WHERE product_id = 9501 AND user_id = '88888888-8888-8888-8888-888888888888'),
+  false,
+  'cancelling the order takes the verified purchase mark away'
+);
+
+SET LOCAL ROLE authenticated;
+
+-- Cal finds Bea's review helpful but can't vote for his own
+INSERT INTO review_votes (review_id, user_id)
+SELECT id, auth.uid() FROM reviews WHERE user_id = '77777777-7777-7777-7777-777777777777';
+
+SELECT throws_ok(
+  $$ INSERT INTO review_votes (review_id, user_id)
+     SELECT id, auth.uid() FROM reviews WHERE user_id = auth.uid() $$,
+  '42501',
+  NULL,
+  'reviewers cannot vote for their own review'
+);
+SELECT is(
+  (SELECT helpful_count FROM reviews WHERE user_id = '77777777-7777-7777-7777-777777777777' AND product_id = 9501),
+  1,
+  'votes are counted on the review'
+);
+SELECT throws_ok(
+  $$ UPDATE reviews SET hidden = true WHERE user_id = auth.uid() $$,
+  '42501',
+  NULL,
+  'reviewers cannot hide or unhide reviews themselves'
+);
+
+INSERT INTO review_reports (review_id, user_id, reason)
+SELECT id, auth.uid(), 'spam' FROM reviews WHERE user_id = '77777777-7777-7777-7777-777777777777';
+
+SELECT throws_ok(
+  $$ SELECT moderate_review((SELECT id FROM reviews WHERE user_id = '77777777-7777-7777-7777-777777777777'), true) $$,
+  '42501',
+  'Only admins can moderate reviews',
+  'customers cannot moderate reviews'
+);
+
+SELECT tests.login_as('99999999-9999-9999-9999-999999999999');
+
+SELECT lives_ok(
+  $$ SELECT moderate_review((SELECT id FROM reviews WHERE user_id = '77777777-7777-7777-7777-777777777777'), true) $$,
+  'admins can hide a review'
+);
+
+SELECT tests.login_as('88888888-8888-8888-8888-888888888888');
+
+SELECT is_empty(
+  $$ SELECT 1 FROM reviews WHERE user_id = '77777777-7777-7777-7777-777777777777' $$,
+  'hidden reviews are not shown to other shoppers'
+);
+
+RESET ROLE;
+
+SELECT results_eq(
+  $$ SELECT avg_rating, review_count FROM products WHERE id = 9501 $$,
+  $$ VALUES (2.00::DECIMAL(3, 2), 1) $$,
+  'hidden reviews drop out of the average and count'
+);
+SELECT is_empty(
+  $$ SELECT 1 FROM review_reports WHERE resolved_at IS NULL $$,
+  'moderating a review resolves its reports'
+);
+
+UPDATE reviews SET hidden = false WHERE user_id = '77777777-7777-7777-7777-777777777777';
+
+SET LOCAL ROLE authenticated;
+
+UPDATE reviews SET rating = 3 WHERE product_id = 9501 AND user_id = auth.uid();
+
+SELECT isnt(
+  (SELECT updated_at FROM reviews WHERE product_id = 9501 AND user_id = auth.uid()),
+  NULL,
+  'editing a review records when'
+);
+
+RESET ROLE;
+
+SELECT results_eq(
+  $$ SELECT avg_rating, review_count FROM products WHERE id = 9501 $$,
+  $$ VALUES (4.00::DECIMAL(3, 2), 2) $$,
+  'edited ratings update the average'
+);
+
+SET LOCAL ROLE authenticated;
+
+DELETE FROM reviews WHERE product_id = 9501 AND user_id = auth.uid();
+
+RESET ROLE;
+
+SELECT results_eq(
+  $$ SELECT avg_rating, review_count FROM products WHERE id = 9501 $$,
+  $$ VALUES (5.00::DECIMAL(3, 2), 1) $$,
+  'deleted reviews leave the average and count'
+);
+
+DELETE FROM reviews WHERE product_id = 9501;
+
+SELECT results_eq(
+  $$ SELECT avg_rating, review_count FROM products WHERE id = 9501 $$,
+  $$ VALUES (0.00::DECIMAL(3, 2), 0) $$,
+  'a product without reviews has no rating'
+);
+
+SELECT tests.login_as('10101010-1010-1010-1010-101010101010');
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+  $$ UPDATE products SET avg_rating = 5, review_count = 100 WHERE id = 9501 $$,
+  '42501',
+  NULL,
+  'sellers cannot set the rating of their own products'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
\ No newline at end of file
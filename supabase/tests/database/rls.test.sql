@@ -0,0 +1,333 @@
+-- Row level security tests. Run against the local stack with:
+--   supabase test db
+-- Everything runs in one transaction and is rolled back at the end.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(70);
+
+-- Fixtures, created as the table owner.
+--   alice, bob  customers
+--   sam         seller of products 9001 (active) and 9003 (archived)
+--   tara        seller of product 9002, which nobody has ordered
+--   ada         admin
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'alice@example.com', '{}'),
+  ('22222222-2222-2222-2222-222222222222', 'bob@example.com', '{}'),
+  ('33333333-3333-3333-3333-333333333333', 'sam@example.com', '{"role": "seller"}'),
+  ('44444444-4444-4444-4444-444444444444', 'tara@example.com', '{"role": "seller"}'),
+  ('55555555-5555-5555-5555-555555555555', 'ada@example.com', '{}');
+
+UPDATE profiles SET role = 'admin' WHERE id = '55555555-5555-5555-5555-555555555555';
+
+INSERT INTO categories (id, name) VALUES (9001, 'RLS Test Category');
+
+INSERT INTO products (id, name, price, stock_quantity, category_id, seller_id, archived) VALUES
+  (9001, 'Sam''s Widget', 10.00, 5, 9001, '33333333-3333-3333-3333-333333333333', false),
+  (9002, 'Tara''s Gadget', 20.00, 5, 9001, '44444444-4444-4444-4444-444444444444', false),
+  (9003, 'Sam''s Old Widget', 5.00, 0, 9001, '33333333-3333-3333-3333-333333333333', true);
+
+INSERT INTO cart_items (id, user_id, product_id, quantity) VALUES
+  (9001, '11111111-1111-1111-1111-111111111111', 9002, 1),
+  (9002, '22222222-2222-2222-2222-222222222222', 9001, 1);
+
+INSERT INTO stock_reservations (id, user_id, product_id, quantity, expires_at) VALUES
+  (9001, '11111111-1111-1111-1111-111111111111', 9002, 1, NOW() + INTERVAL '15 minutes');
+
+INSERT INTO orders (id, user_id, status, total_amount) VALUES
+  (9001, '11111111-1111-1111-1111-111111111111', 'pending', 10.00);
+
+INSERT INTO order_items (id, order_id, product_id, quantity, price_at_time) VALUES
+  (9001, 9001, 9001, 1, 10.00);
+
+INSERT INTO returns (id, order_id, order_item_id, product_id, user_id, quantity, reason) VALUES
+  (9001, 9001, 9001, 9001, '11111111-1111-1111-1111-111111111111', 1, 'damaged');
+
+INSERT INTO reviews (id, user_id, product_id, rating, comment) VALUES
+  (9001, '11111111-1111-1111-1111-111111111111', 9001, 5, 'Great');
+
+INSERT INTO notifications (id, user_id, title, type) VALUES
+  (9001, '11111111-1111-1111-1111-111111111111', 'Order placed', 'order'),
+  (9002, '22222222-2222-2222-2222-222222222222', 'Welcome', 'account');
+
+INSERT INTO favorites (id, user_id, product_id) VALUES
+  (9001, '11111111-1111-1111-1111-111111111111', 9001);
+
+-- Anonymous visitors
+SELECT tests.logout();
+SET LOCAL ROLE anon;
+
+SELECT results_eq(
+  $$ SELECT id FROM products WHERE id IN (9001, 9002, 9003) ORDER BY id $$,
+  $$ VALUES (9001), (9002), (9003) $$,
+  'anon can read archived products, which orders and carts still reference'
+);
+SELECT isnt_empty($$ SELECT 1 FROM categories WHERE id = 9001 $$, 'anon can read categories');
+SELECT isnt_empty($$ SELECT 1 FROM reviews WHERE id = 9001 $$, 'anon can read reviews');
+SELECT is_empty($$ SELECT 1 FROM profiles $$, 'anon cannot read profiles');
+SELECT is_empty($$ SELECT 1 FROM cart_items $$, 'anon cannot read carts');
+SELECT is_empty($$ SELECT 1 FROM orders $$, 'anon cannot read orders');
+SELECT is_empty($$ SELECT 1 FROM order_items $$, 'anon cannot read order items');
+SELECT is_empty($$ SELECT 1 FROM notifications $$, 'anon cannot read notifications');
+SELECT throws_ok(
+  $$ INSERT INTO products (name, price) VALUES ('Spam', 1.00) $$,
+  '42501', NULL, 'anon cannot insert products'
+);
+SELECT throws_ok(
+  $$ INSERT INTO categories (name) VALUES ('Spam') $$,
+  '42501', NULL, 'anon cannot insert categories'
+);
+
+RESET ROLE;
+
+-- Customer: alice
+SELECT tests.login_as('11111111-1111-1111-1111-111111111111');
+SET LOCAL ROLE authenticated;
+
+SELECT results_eq(
+  $$ SELECT id FROM profiles $$,
+  $$ VALUES ('11111111-1111-1111-1111-111111111111'::uuid) $$,
+  'customer sees only their own profile'
+);
+SELECT lives_ok(
+  $$ UPDATE profiles SET email = 'alice@example.org' WHERE id = auth.uid() $$,
+  'customer can update their own profile'
+);
+SELECT throws_ok(
+  $$ UPDATE profiles SET role = 'admin' WHERE id = auth.uid() $$,
+  '42501', NULL, 'customer cannot change their own role'
+);
+SELECT throws_ok(
+  $$ INSERT INTO categories (name) VALUES ('Spam') $$,
+  '42501', NULL, 'customer cannot insert categories'
+);
+SELECT throws_ok(
+  $$ SELECT * FROM get_category_counts() $$,
+  '42501', NULL, 'customer cannot read category statistics'
+);
+SELECT throws_ok(
+  $$ INSERT INTO products (name, price, seller_id) VALUES ('Spam', 1.00, auth.uid()) $$,
+  '42501', NULL, 'customer cannot insert products'
+);
+UPDATE products SET price = 0.01 WHERE id = 9001;
+DELETE FROM products WHERE id = 9002;
+
+SELECT results_eq(
+  $$ SELECT id FROM cart_items $$,
+  $$ VALUES (9001) $$,
+  'customer sees only their own cart'
+);
+SELECT lives_ok(
+  $$ INSERT INTO cart_items (user_id, product_id, quantity) VALUES (auth.uid(), 9001, 1) $$,
+  'customer can add to their own cart'
+);
+SELECT throws_ok(
+  $$ INSERT INTO cart_items (user_id, product_id, quantity)
+     VALUES ('22222222-2222-2222-2222-222222222222', 9001, 1) $$,
+  '42501', NULL, 'customer cannot add to another cart'
+);
+SELECT throws_ok(
+  $$ UPDATE cart_items SET user_id = '22222222-2222-2222-2222-222222222222' WHERE id = 9001 $$,
+  '42501', NULL, 'customer cannot move a cart item to another user'
+);
+SELECT results_eq(
+  $$ SELECT id FROM stock_reservations $$,
+  $$ VALUES (9001) $$,
+  'customer sees their own reservations'
+);
+SELECT throws_ok(
+  $$ INSERT INTO stock_reservations (user_id, product_id, quantity, expires_at)
+     VALUES (auth.uid(), 9001, 100, NOW() + INTERVAL '1 day') $$,
+  '42501', NULL, 'customer cannot reserve stock directly'
+);
+
+SELECT results_eq(
+  $$ SELECT id FROM orders $$,
+  $$ VALUES (9001) $$,
+  'customer sees their own orders'
+);
+SELECT results_eq(
+  $$ SELECT id FROM order_items $$,
+  $$ VALUES (9001) $$,
+  'customer sees their own order items'
+);
+SELECT isnt_empty(
+  $$ SELECT 1 FROM order_status_history WHERE order_id = 9001 $$,
+  'customer sees the history of their own orders'
+);
+SELECT results_eq(
+  $$ SELECT id FROM returns $$,
+  $$ VALUES (9001) $$,
+  'customer sees their own returns'
+);
+SELECT throws_ok(
+  $$ INSERT INTO orders (user_id, total_amount) VALUES (auth.uid(), 0.01) $$,
+  '42501', NULL, 'customer cannot create orders directly'
+);
+SELECT throws_ok(
+  $$ INSERT INTO order_items (order_id, product_id, quantity, price_at_time)
+     VALUES (9001, 9002, 10, 0.01) $$,
+  '42501', NULL, 'customer cannot insert order items'
+);
+SELECT throws_ok(
+  $$ INSERT INTO returns (order_id, order_item_id, product_id, user_id, quantity, reason)
+     VALUES (9001, 9001, 9001, auth.uid(), 1, 'other') $$,
+  '42501', NULL, 'customer cannot insert returns directly'
+);
+UPDATE orders SET total_amount = 0.01 WHERE id = 9001;
+
+SELECT results_eq(
+  $$ SELECT DISTINCT user_id FROM notifications $$,
+  $$ VALUES ('11111111-1111-1111-1111-111111111111'::uuid) $$,
+  'customer sees only their own notifications'
+);
+SELECT lives_ok(
+  $$ UPDATE notifications SET read = true WHERE id = 9001 $$,
+  'customer can mark their own notification as read'
+);
+SELECT throws_ok(
+  $$ INSERT INTO notifications (user_id, title) VALUES (auth.uid(), 'Spam') $$,
+  '42501', NULL, 'customer cannot create notifications'
+);
+SELECT throws_ok(
+  $$ UPDATE notifications SET user_id = '22222222-2222-2222-2222-222222222222' WHERE id = 9001 $$,
+  '42501', NULL, 'customer cannot hand a notification to another user'
+);
+
+SELECT results_eq(
+  $$ SELECT id FROM favorites $$,
+  $$ VALUES (9001) $$,
+  'customer sees their own favorites'
+);
+SELECT lives_ok(
+  $$ INSERT INTO favorites (user_id, product_id) VALUES (auth.uid(), 9002) $$,
+  'customer can add a favorite'
+);
+SELECT throws_ok(
+  $$ INSERT INTO favorites (user_id, product_id)
+     VALUES ('22222222-2222-2222-2222-222222222222', 9002) $$,
+  '42501', NULL, 'customer cannot add favorites for another user'
+);
+SELECT throws_ok(
+  $$ INSERT INTO reviews (user_id, product_id, rating)
+     VALUES ('22222222-2222-2222-2222-222222222222', 9002, 1) $$,
+  '42501', NULL, 'customer cannot review as another user'
+);
+
+RESET ROLE;
+
+-- Customer: bob, who has no orders
+SELECT tests.login_as('22222222-2222-2222-2222-222222222222');
+SET LOCAL ROLE authenticated;
+
+SELECT is_empty($$ SELECT 1 FROM profiles WHERE id <> auth.uid() $$, 'customer cannot read other profiles');
+SELECT is_empty($$ SELECT 1 FROM orders $$, 'customer cannot read other orders');
+SELECT is_empty($$ SELECT 1 FROM order_items $$, 'customer cannot read other order items');
+SELECT is_empty($$ SELECT 1 FROM returns $$, 'customer cannot read other returns');
+SELECT is_empty($$ SELECT 1 FROM favorites $$, 'customer cannot read other favorites');
+DELETE FROM reviews WHERE id = 9001;
+DELETE FROM notifications WHERE id = 9001;
+
+RESET ROLE;
+
+SELECT is((SELECT price FROM products WHERE id = 9001), 10.00::DECIMAL(10, 2), 'customer update of a product had no effect');
+SELECT isnt_empty($$ SELECT 1 FROM products WHERE id = 9002 $$, 'customer delete of a product had no effect');
+SELECT is((SELECT total_amount FROM orders WHERE id = 9001), 10.00::DECIMAL(10, 2), 'customer update of an order had no effect');
+SELECT isnt_empty($$ SELECT 1 FROM reviews WHERE id = 9001 $$, 'customer cannot delete another user''s review');
+SELECT isnt_empty($$ SELECT 1 FROM notifications WHERE id = 9001 $$, 'customer cannot delete another user''s notification');
+
+-- Seller: sam
+SELECT tests.login_as('33333333-3333-3333-3333-333333333333');
+SET LOCAL ROLE authenticated;
+
+SELECT results_eq(
+  $$ SELECT id FROM products WHERE id IN (9001, 9002, 9003) ORDER BY id $$,
+  $$ VALUES (9001), (9002), (9003) $$,
+  'seller sees their own archived products'
+);
+SELECT lives_ok(
+  $$ INSERT INTO products (name, price, seller_id) VALUES ('New Widget', 15.00, auth.uid()) $$,
+  'seller can create their own products'
+);
+SELECT throws_ok(
+  $$ INSERT INTO products (name, price, seller_id)
+     VALUES ('Fake Gadget', 15.00, '44444444-4444-4444-4444-444444444444') $$,
+  '42501', NULL, 'seller cannot create products for another seller'
+);
+SELECT lives_ok(
+  $$ UPDATE products SET price = 12.00 WHERE id = 9001 $$,
+  'seller can update their own products'
+);
+SELECT throws_ok(
+  $$ UPDATE products SET seller_id = '44444444-4444-4444-4444-444444444444' WHERE id = 9001 $$,
+  '42501', NULL, 'seller cannot give a product to another seller'
+);
+UPDATE products SET price = 0.01 WHERE id = 9002;
+
+SELECT results_eq(
+  $$ SELECT id FROM orders $$,
+  $$ VALUES (9001) $$,
+  'seller sees orders containing their products'
+);
+SELECT results_eq(
+  $$ SELECT id FROM order_items $$,
+  $$ VALUES (9001) $$,
+  'seller sees order items for their products'
+);
+SELECT isnt_empty(
+  $$ SELECT 1 FROM profiles WHERE id = '11111111-1111-1111-1111-111111111111' $$,
+  'seller sees customers who ordered their products'
+);
+SELECT isnt_empty($$ SELECT 1 FROM returns WHERE id = 9001 $$, 'seller sees returns of their products');
+SELECT is_empty($$ SELECT 1 FROM cart_items WHERE user_id <> auth.uid() $$, 'seller cannot read customer carts');
+SELECT throws_ok(
+  $$ INSERT INTO categories (name) VALUES ('Spam') $$,
+  '42501', NULL, 'seller cannot insert categories'
+);
+UPDATE orders SET status = 'confirmed' WHERE id = 9001;
+
+RESET ROLE;
+
+-- Seller: tara, whose products nobody has ordered
+SELECT tests.login_as('44444444-4444-4444-4444-444444444444');
+SET LOCAL ROLE authenticated;
+
+SELECT is_empty($$ SELECT 1 FROM orders $$, 'seller cannot read orders without their products');
+SELECT is_empty($$ SELECT 1 FROM returns $$, 'seller cannot read returns of other sellers');
+SELECT is_empty(
+  $$ SELECT 1 FROM profiles WHERE id = '11111111-1111-1111-1111-111111111111' $$,
+  'seller cannot read customers of other sellers'
+);
+SELECT isnt_empty($$ SELECT 1 FROM products WHERE id = 9003 $$, 'seller can read archived products of other sellers');
+
+RESET ROLE;
+
+SELECT is((SELECT price FROM products WHERE id = 9002), 20.00::DECIMAL(10, 2), 'seller update of another seller''s product had no effect');
+SELECT is((SELECT status FROM orders WHERE id = 9001), 'pending', 'seller cannot update order status directly');
+
+-- Admin: ada
+SELECT tests.login_as('55555555-5555-5555-5555-555555555555');
+SET LOCAL ROLE authenticated;
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM profiles WHERE email LIKE '%@example.%'),
+  5,
+  'admin sees every profile'
+);
+SELECT isnt_empty($$ SELECT 1 FROM orders WHERE id = 9001 $$, 'admin sees every order');
+SELECT lives_ok(
+  $$ INSERT INTO categories (name) VALUES ('Admin Category') $$,
+  'admin can create categories'
+);
+SELECT lives_ok(
+  $$ UPDATE products SET archived = true WHERE id = 9002 $$,
+  'admin can update any product'
+);
+SELECT is_empty($$ SELECT 1 FROM cart_items $$, 'admin cannot read customer carts');
+SELECT isnt_empty($$ SELECT * FROM get_category_counts() $$, 'admin can read category statistics');
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
\ No newline at end of file
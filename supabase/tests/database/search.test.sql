@@ -0,0 +1,65 @@
+-- Product search tests. Run against the local stack with:
+--   supabase test db
+-- Everything runs in one transaction and is rolled back at the end.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+INSERT INTO categories (id, name) VALUES (9101, 'Audio Gear');
+
+INSERT INTO products (id, name, brand, description, specifications, price, category_id, archived) VALUES
+  (9101, 'Wireless Headphones', 'Sonique', 'Over-ear with noise cancelling', '{"color": "midnight"}', 99.00, 9101, false),
+  (9102, 'Headphone Stand', 'Deskwise', 'Keeps your wireless headphones tidy', NULL, 19.00, NULL, false),
+  (9103, 'Bluetooth Speaker', 'Sonique', 'Waterproof speaker', NULL, 49.00, 9101, false),
+  (9104, 'Wired Headphones', 'Sonique', 'Discontinued model', NULL, 29.00, 9101, true);
+
+-- Other products in the local database are ignored by filtering on the fixture ids
+SET LOCAL ROLE anon;
+
+SELECT results_eq(
+  $$ SELECT id FROM search_products('wireless headphones') WHERE id BETWEEN 9101 AND 9104 $$,
+  $$ VALUES (9101), (9102) $$,
+  'matches in the name rank above matches in the description'
+);
+SELECT results_eq(
+  $$ SELECT id FROM search_products('sonique') WHERE id BETWEEN 9101 AND 9104 ORDER BY id $$,
+  $$ VALUES (9101), (9103) $$,
+  'searches the brand and leaves out archived products'
+);
+SELECT results_eq(
+  $$ SELECT id FROM search_products('audio') WHERE id BETWEEN 9101 AND 9104 ORDER BY id $$,
+  $$ VALUES (9101), (9103) $$,
+  'searches the category name'
+);
+SELECT results_eq(
+  $$ SELECT id FROM search_products('midnight') WHERE id BETWEEN 9101 AND 9104 $$,
+  $$ VALUES (9101) $$,
+  'searches specification values'
+);
+SELECT results_eq(
+  $$ SELECT id FROM search_products('blue') WHERE id BETWEEN 9101 AND 9104 $$,
+  $$ VALUES (9103) $$,
+  'matches words by prefix'
+);
+SELECT results_eq(
+  $$ SELECT id FROM search_products('speakr') WHERE id BETWEEN 9101 AND 9104 $$,
+  $$ VALUES (9103) $$,
+  'falls back to fuzzy matching for typos'
+);
+SELECT is_empty($$ SELECT * FROM search_products('   ') WHERE id BETWEEN 9101 AND 9104 $$, 'blank searches match nothing');
+SELECT lives_ok($$ SELECT * FROM search_products('head & (phones | !') WHERE id BETWEEN 9101 AND 9104 $$, 'punctuation in searches is ignored');
+
+RESET ROLE;
+
+UPDATE categories SET name = 'Sound Equipment' WHERE id = 9101;
+
+SELECT results_eq(
+  $$ SELECT id FROM search_products('equipment') WHERE id BETWEEN 9101 AND 9104 ORDER BY id $$,
+  $$ VALUES (9101), (9103) $$,
+  'renaming a category updates its products'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
\ No newline at end of file
@@ -0,0 +1,137 @@
+-- Product variant tests. Run against the local stack with:
+--   supabase test db
+-- Everything runs in one transaction and is rolled back at the end.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(15);
+
+-- Vera shops; Wes sells the cap
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('66666666-6666-6666-6666-666666666666', 'vera@example.com', '{}'),
+  ('60606060-6060-6060-6060-606060606060', 'wes@example.com', '{"role": "seller"}');
+
+INSERT INTO categories (id, name) VALUES (9401, 'Variant Test Category');
+
+-- The tee is sold in two sizes; the large one has its own price
+INSERT INTO products (id, name, price, discount_price, stock_quantity, category_id) VALUES
+  (9401, 'Test Tee', 20.00, 15.00, 0, 9401),
+  (9402, 'Test Mug', 8.00, NULL, 5, 9401);
+
+INSERT INTO products (id, name, price, stock_quantity, category_id, seller_id) VALUES
+  (9403, 'Test Cap', 12.00, 0, 9401, '60606060-6060-6060-6060-606060606060');
+
+INSERT INTO product_variants (id, product_id, sku, options, price, stock_quantity) VALUES
+  (9401, 9401, 'TEE-S', '{"size": "S"}', NULL, 2),
+  (9402, 9401, 'TEE-L', '{"size": "L"}', 25.00, 1);
+
+SELECT is(
+  (SELECT stock_quantity FROM products WHERE id = 9401),
+  3,
+  'a product''s stock is the total of its variants'
+);
+SELECT throws_ok(
+  $$ INSERT INTO cart_items (user_id, product_id, variant_id, quantity)
+     VALUES ('66666666-6666-6666-6666-666666666666', 9402, 9401, 1) $$,
+  '23503',
+  NULL,
+  'a cart line cannot use a variant of another product'
+);
+
+SELECT tests.login_as('66666666-6666-6666-6666-666666666666');
+SET LOCAL ROLE authenticated;
+
+SELECT is(available_stock(9401, 9402), 1, 'available stock is per variant');
+
+INSERT INTO cart_items (user_id, product_id, quantity) VALUES
+  ('66666666-6666-6666-6666-666666666666', 9401, 1);
+
+SELECT throws_ok(
+  $$ SELECT place_order('{}') $$,
+  'P0001',
+  'Choose an option for Test Tee',
+  'a product sold in variants cannot be ordered without one'
+);
+
+DELETE FROM cart_items WHERE user_id = '66666666-6666-6666-6666-666666666666';
+
+INSERT INTO cart_items (user_id, product_id, variant_id, quantity) VALUES
+  ('66666666-6666-6666-6666-666666666666', 9401, 9401, 2),
+  ('66666666-6666-6666-6666-666666666666', 9401, 9402, 1);
+
+SELECT lives_ok($$ SELECT place_order('{}') $$, 'variants can be ordered');
+SELECT results_eq(
+  $$ SELECT variant_id, quantity, price_at_time FROM order_items WHERE product_id = 9401 ORDER BY variant_id $$,
+  $$ VALUES (9401, 2, 15.00), (9402, 1, 25.00) $$,
+  'order items keep the variant and its price, falling back to the product''s'
+);
+SELECT is(
+  (SELECT total_amount FROM orders WHERE user_id = '66666666-6666-6666-6666-666666666666'),
+  55.00,
+  'the order total uses variant prices'
+);
+
+RESET ROLE;
+
+SELECT results_eq(
+  $$ SELECT id, stock_quantity FROM product_variants WHERE product_id = 9401 ORDER BY id $$,
+  $$ VALUES (9401, 0), (9402, 0) $$,
+  'ordering takes stock from the variants'
+);
+SELECT is(
+  (SELECT stock_quantity FROM products WHERE id = 9401),
+  0,
+  'the product''s stock follows its variants'
+);
+
+SET LOCAL ROLE authenticated;
+
+SELECT lives_ok(
+  $$ SELECT cancel_order((SELECT id FROM orders WHERE user_id = '66666666-6666-6666-6666-666666666666')) $$,
+  'the order can be cancelled'
+);
+
+RESET ROLE;
+
+SELECT results_eq(
+  $$ SELECT id, stock_quantity FROM product_variants WHERE product_id = 9401 ORDER BY id $$,
+  $$ VALUES (9401, 2), (9402, 1) $$,
+  'cancelling puts the stock back on the variants'
+);
+SELECT is(
+  (SELECT stock_quantity FROM products WHERE id = 9401),
+  3,
+  'cancelling restores the product''s total'
+);
+
+-- Sellers manage the variants of their own products
+
+SELECT tests.login_as('60606060-6060-6060-6060-606060606060');
+SET LOCAL ROLE authenticated;
+
+SELECT lives_ok(
+  $$ INSERT INTO product_variants (product_id, sku, options, stock_quantity)
+     VALUES (9403, 'CAP-RED', '{"color": "Red"}', 4) $$,
+  'sellers can add variants to their products'
+);
+SELECT throws_ok(
+  $$ INSERT INTO product_variants (product_id, sku, options, stock_quantity)
+     VALUES (9401, 'TEE-XL', '{"size": "XL"}', 4) $$,
+  '42501',
+  NULL,
+  'sellers cannot add variants to other products'
+);
+
+UPDATE product_variants SET stock_quantity = 7 WHERE sku = 'CAP-RED';
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT stock_quantity FROM products WHERE id = 9403),
+  7,
+  'sellers can restock their variants'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
\ No newline at end of file
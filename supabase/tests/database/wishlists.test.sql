@@ -0,0 +1,181 @@
+-- Wishlist and gift registry tests. Run against the local stack with:
+--   supabase test db
+-- Everything runs in one transaction and is rolled back at the end.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(17);
+
+-- Eve keeps a public wedding registry and a private wishlist; Finn is a friend
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'eve@example.com', '{}'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'finn@example.com', '{}');
+
+INSERT INTO categories (id, name) VALUES (9601, 'Wishlist Test Category');
+
+INSERT INTO products (id, name, price, stock_quantity, category_id) VALUES
+  (9601, 'Test Teapot', 40.00, 5, 9601),
+  (9602, 'Test Towel', 12.00, 0, 9601),
+  (9603, 'Test Vase', 25.00, 3, 9601);
+
+INSERT INTO product_variants (id, product_id, sku, options, price, stock_quantity) VALUES
+  (9601, 9602, 'TOWEL-BLUE', '{"color": "Blue"}', NULL, 4);
+
+INSERT INTO wishlists (id, user_id, name, occasion, slug, is_public) VALUES
+  (9601, 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Eve & Sam', 'wedding', 'eve-and-sam-t9601', true),
+  (9602, 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Just for me', 'wishlist', 'just-for-me-t9602', false);
+
+INSERT INTO wishlist_items (id, wishlist_id, product_id, variant_id, desired_quantity) VALUES
+  (9601, 9601, 9601, NULL, 1),
+  (9602, 9601, 9602, 9601, 2),
+  (9603, 9602, 9603, NULL, 1);
+
+SELECT throws_ok(
+  $$ INSERT INTO wishlist_items (wishlist_id, product_id, variant_id) VALUES (9602, 9603, 9601) $$,
+  '23503',
+  NULL,
+  'an item cannot use a variant of another product'
+);
+
+-- Guests
+
+SET LOCAL ROLE anon;
+
+SELECT results_eq(
+  $$ SELECT id FROM wishlists WHERE id IN (9601, 9602) ORDER BY id $$,
+  $$ VALUES (9601) $$,
+  'guests can view public lists but not private ones'
+);
+SELECT results_eq(
+  $$ SELECT id FROM wishlist_items WHERE id IN (9601, 9602, 9603) ORDER BY id $$,
+  $$ VALUES (9601), (9602) $$,
+  'guests can view items on public lists only'
+);
+
+UPDATE wishlist_items SET purchased_quantity = 1 WHERE id = 9601;
+
+SELECT throws_ok(
+  $$ SELECT mark_wishlist_item_purchased('eve-and-sam-t9601', 9601) $$,
+  '42501',
+  NULL,
+  'guests cannot mark items as bought'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT purchased_quantity FROM wishlist_items WHERE id = 9601),
+  0,
+  'guests cannot change items directly'
+);
+
+-- Friends
+
+SELECT tests.login_as('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb');
+SET LOCAL ROLE authenticated;
+
+SELECT is_empty(
+  $$ SELECT 1 FROM wishlists WHERE id = 9602 $$,
+  'other users cannot view private lists'
+);
+SELECT throws_ok(
+  $$ INSERT INTO wishlist_items (wishlist_id, product_id) VALUES (9601, 9603) $$,
+  '42501',
+  NULL,
+  'other users cannot add items to a list'
+);
+SELECT throws_ok(
+  $$ SELECT mark_wishlist_item_purchased('eve-and-sam-t9601', 9602) $$,
+  'P0001',
+  'Only items you have bought and paid for can be marked as bought',
+  'items must be bought before they are marked as bought'
+);
+
+RESET ROLE;
+
+-- Finn buys three blue towels
+INSERT INTO orders (id, user_id, status, payment_status, total_amount) VALUES
+  (9601, 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'confirmed', 'paid', 36.00);
+
+INSERT INTO order_items (id, order_id, product_id, variant_id, quantity, price_at_time) VALUES
+  (9601, 9601, 9602, 9601, 3, 12.00);
+
+SELECT tests.login_as('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb');
+SET LOCAL ROLE authenticated;
+
+SELECT is(
+  mark_wishlist_item_purchased('eve-and-sam-t9601', 9602),
+  1,
+  'shoppers can mark an item they paid for as bought'
+);
+SELECT is(
+  mark_wishlist_item_purchased('eve-and-sam-t9601', 9602, 5),
+  2,
+  'an item is never bought past the quantity wanted'
+);
+SELECT throws_ok(
+  $$ SELECT mark_wishlist_item_purchased('eve-and-sam-t9601', 9602, 0) $$,
+  'P0001',
+  'Quantity must be at least 1',
+  'the bought quantity must be positive'
+);
+SELECT throws_ok(
+  $$ SELECT mark_wishlist_item_purchased('just-for-me-t9602', 9603) $$,
+  'P0002',
+  'Wishlist item not found',
+  'items on private lists cannot be marked as bought'
+);
+SELECT throws_ok(
+  $$ SELECT mark_wishlist_item_purchased('eve-and-sam-t9601', 9603) $$,
+  'P0002',
+  'Wishlist item not found',
+  'the item must be on the list named by the slug'
+);
+
+RESET ROLE;
+
+-- Finn sends two of the towels back
+INSERT INTO returns (id, order_id, order_item_id, product_id, user_id, quantity, reason) VALUES
+  (9601, 9601, 9601, 9602, 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 2, 'no_longer_needed');
+
+UPDATE returns SET status = 'approved' WHERE id = 9601;
+
+SELECT is(
+  (SELECT purchased_quantity FROM wishlist_items WHERE id = 9602),
+  1,
+  'approving a return unmarks the returned items'
+);
+
+SELECT tests.login_as('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb');
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+  $$ SELECT mark_wishlist_item_purchased('eve-and-sam-t9601', 9602) $$,
+  'P0001',
+  'Only items you have bought and paid for can be marked as bought',
+  'returned items cannot be marked as bought again'
+);
+
+RESET ROLE;
+
+-- Owners
+
+SELECT tests.login_as('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa');
+SET LOCAL ROLE authenticated;
+
+SELECT lives_ok(
+  $$ INSERT INTO wishlist_items (wishlist_id, product_id) VALUES (9601, 9603) $$,
+  'owners can add items to their lists'
+);
+SELECT throws_ok(
+  $$ INSERT INTO wishlist_items (wishlist_id, product_id) VALUES (9601, 9601) $$,
+  '23505',
+  NULL,
+  'a product can only be on a list once'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
\ No newline at end of file